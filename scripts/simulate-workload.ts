@@ -0,0 +1,156 @@
+#!/usr/bin/env tsx
+/**
+ * Workload simulator: projects a student's daily review load and expected
+ * retrievability from their current srs_state and the course calendar, for their
+ * current settings and optionally "what if" ones (same simulation as the What If?
+ * panel on the Progress page, src/lib/workload-simulator.ts).
+ *
+ * Usage: npx tsx scripts/simulate-workload.ts <user_id> [options]
+ *   --course <course_pack_id>   Only this course (default: all enrolled courses)
+ *   --days <n>                  Days to simulate (default: 42)
+ *   --daily-goal <n>            What if: daily goal
+ *   --pace-offset <weeks>       What if: weeks ahead of the calendar
+ *   --retention <0.7-0.97>      What if: target retention
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import * as dotenv from 'dotenv';
+import { resolve } from 'path';
+import { fetchWorkloadInputs } from '../src/lib/workload-inputs';
+import {
+  simulateWorkload,
+  summarizeWorkload,
+  type WorkloadDay,
+  type WorkloadSettings,
+} from '../src/lib/workload-simulator';
+
+// Load environment variables
+dotenv.config({ path: resolve(process.cwd(), '.env.local') });
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('Missing required environment variables:');
+  console.error('  VITE_SUPABASE_URL:', supabaseUrl ? '✓' : '✗');
+  console.error('  SUPABASE_SERVICE_ROLE_KEY:', supabaseServiceKey ? '✓' : '✗');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+function getOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index > -1 ? process.argv[index + 1] : undefined;
+}
+
+function getNumberOption(name: string): number | undefined {
+  const value = getOption(name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    console.error(`--${name} must be a number, got "${value}"`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+function formatRetention(value: number | null): string {
+  return value === null ? '  --' : `${(value * 100).toFixed(1)}%`;
+}
+
+function printSummary(title: string, days: WorkloadDay[]) {
+  const summary = summarizeWorkload(days);
+  console.log(`\n${title}`);
+  console.log(`  Reviews: ${summary.totalReviews} total, ${summary.averageReviews.toFixed(1)}/day, peak ${summary.peakReviews}`);
+  console.log(`  New cards: ${summary.totalNewCards}`);
+  console.log(`  Expected retention at the end: ${formatRetention(summary.finalRetention)}`);
+}
+
+async function simulate() {
+  const userId = process.argv[2];
+
+  if (!userId || userId.startsWith('--')) {
+    console.log('Usage: npx tsx scripts/simulate-workload.ts <user_id> [--course <id>] [--days <n>] [--daily-goal <n>] [--pace-offset <weeks>] [--retention <r>]');
+    process.exit(1);
+  }
+
+  const courseId = getOption('course') ?? null;
+  const days = getNumberOption('days') ?? 42;
+
+  // Current settings: user_settings, the course override, fitted weights
+  const { data: settings, error: settingsError } = await supabase
+    .from('user_settings')
+    .select('daily_goal, pace_offset, desired_retention, maximum_interval')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (settingsError) throw settingsError;
+
+  const { data: enrollments, error: enrollmentsError } = await supabase
+    .from('user_enrollments')
+    .select('course_pack_id, desired_retention, maximum_interval')
+    .eq('user_id', userId);
+  if (enrollmentsError) throw enrollmentsError;
+
+  const { data: parameters } = await supabase
+    .from('user_fsrs_parameters')
+    .select('course_pack_id, weights')
+    .eq('user_id', userId);
+
+  const override = courseId ? enrollments?.find((e) => e.course_pack_id === courseId) : undefined;
+  const weightsRow = (courseId ? parameters?.find((p) => p.course_pack_id === courseId) : undefined)
+    ?? parameters?.find((p) => p.course_pack_id === null);
+
+  const current: WorkloadSettings = {
+    dailyGoal: settings?.daily_goal ?? 10,
+    paceOffset: settings?.pace_offset ?? 1,
+    desiredRetention: override?.desired_retention ?? settings?.desired_retention ?? 0.9,
+    maximumInterval: override?.maximum_interval ?? settings?.maximum_interval ?? 365,
+    weights: weightsRow?.weights ?? null,
+  };
+
+  const courseIds = courseId ? [courseId] : (enrollments ?? []).map((e) => e.course_pack_id);
+  const inputs = await fetchWorkloadInputs(supabase, userId, courseIds);
+  const start = new Date();
+
+  console.log(`Simulating ${days} days for user ${userId}${courseId ? ` (course ${courseId})` : ''}`);
+  console.log(`  Cards: ${inputs.cards.length}, unseen questions: ${inputs.unseenQuestions.length}`);
+  console.log(`  Current: daily goal ${current.dailyGoal}, pace ${current.paceOffset}w, retention ${current.desiredRetention}`);
+
+  const baseline = simulateWorkload({ ...inputs, settings: current, start, days });
+
+  const whatIf: WorkloadSettings = {
+    ...current,
+    dailyGoal: getNumberOption('daily-goal') ?? current.dailyGoal,
+    paceOffset: getNumberOption('pace-offset') ?? current.paceOffset,
+    desiredRetention: getNumberOption('retention') ?? current.desiredRetention,
+  };
+  const hasWhatIf = whatIf.dailyGoal !== current.dailyGoal
+    || whatIf.paceOffset !== current.paceOffset
+    || whatIf.desiredRetention !== current.desiredRetention;
+  const projected = hasWhatIf ? simulateWorkload({ ...inputs, settings: whatIf, start, days }) : null;
+
+  console.log('\nDate        Reviews  New  Retention' + (projected ? ' | What if: Reviews  New  Retention' : ''));
+  baseline.forEach((day, index) => {
+    const row = `${day.date}  ${String(day.reviews).padStart(7)}  ${String(day.newCards).padStart(3)}  ${formatRetention(day.expectedRetention).padStart(9)}`;
+    const other = projected?.[index];
+    console.log(other
+      ? `${row} |          ${String(other.reviews).padStart(7)}  ${String(other.newCards).padStart(3)}  ${formatRetention(other.expectedRetention).padStart(9)}`
+      : row);
+  });
+
+  printSummary('Current settings', baseline);
+  if (projected) {
+    printSummary(`What if (daily goal ${whatIf.dailyGoal}, pace ${whatIf.paceOffset}w, retention ${whatIf.desiredRetention})`, projected);
+  }
+}
+
+simulate()
+  .then(() => {
+    console.log('\n✓ Done');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n✗ Error:', error);
+    process.exit(1);
+  });
@@ -16,8 +16,11 @@ import Onboarding from "@/pages/Onboarding";
 import Diagnostic from "@/pages/Diagnostic";
 import Study from "@/pages/Study";
 import StudyFocus from "@/pages/StudyFocus";
+import MockExam from "@/pages/MockExam";
 import StudentCalendar from "@/pages/StudentCalendar";
 import Progress from "@/pages/Progress";
+import Notes from "@/pages/Notes";
+import Mistakes from "@/pages/Mistakes";
 import Settings from "@/pages/Settings";
 import AdminCalendar from "@/pages/AdminCalendar";
 import AdminIngestion from "@/pages/AdminIngestion";
@@ -27,6 +30,7 @@ import AdminQuestionsEditor from "@/pages/AdminQuestionsEditor";
 import AdminQuestionDetail from "@/pages/AdminQuestionDetail";
 import AdminSubpartDetail from "@/pages/AdminSubpartDetail";
 import AdminQuestionTypes from "@/pages/AdminQuestionTypes";
+import AdminReports from "@/pages/AdminReports";
 // AdminMaterials removed - materials are now managed inside AdminExamsList
 import NotFound from "@/pages/NotFound";
 
@@ -60,8 +64,11 @@ const App = () => (
                       <Route path="/" element={<Navigate to="/study" replace />} />
                       <Route path="/study" element={<Study />} />
                       <Route path="/study/focus" element={<StudyFocus />} />
+                      <Route path="/mock-exam" element={<MockExam />} />
                       <Route path="/calendar" element={<StudentCalendar />} />
                       <Route path="/progress" element={<Progress />} />
+                      <Route path="/notes" element={<Notes />} />
+                      <Route path="/mistakes" element={<Mistakes />} />
                       <Route path="/settings" element={<Settings />} />
 
                       {/* Admin routes */}
@@ -71,6 +78,7 @@ const App = () => (
                         <Route path="/admin/materials" element={<Navigate to="/admin/questions" replace />} />
                         <Route path="/admin/questions" element={<AdminCoursesList />} />
                         <Route path="/admin/question-types" element={<AdminQuestionTypes />} />
+                        <Route path="/admin/reports" element={<AdminReports />} />
                         <Route path="/admin/questions/:courseId" element={<AdminExamsList />} />
                         <Route path="/admin/questions/:courseId/:examName" element={<AdminQuestionsEditor />} />
                         <Route path="/admin/questions/:courseId/:examName/:questionId" element={<AdminQuestionDetail />} />
@@ -0,0 +1,83 @@
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useSiblingBuryDays, useUpdateSiblingBuryDays } from "@/hooks/use-admin";
+import { useToast } from "@/hooks/use-toast";
+
+const BURY_OPTIONS = [
+  { value: 0, label: "Off" },
+  { value: 1, label: "Rest of the day" },
+  { value: 2, label: "2 days" },
+  { value: 3, label: "3 days" },
+  { value: 7, label: "1 week" },
+  { value: 14, label: "2 weeks" },
+];
+
+interface CourseSchedulingSettingsProps {
+  courseId: string;
+}
+
+/** Course-wide scheduling options (sibling burying window) */
+export function CourseSchedulingSettings({ courseId }: CourseSchedulingSettingsProps) {
+  const { toast } = useToast();
+  const { data: buryDays, isLoading } = useSiblingBuryDays(courseId);
+  const updateBuryDays = useUpdateSiblingBuryDays();
+
+  const handleChange = (value: string) => {
+    updateBuryDays.mutate(
+      { coursePackId: courseId, days: Number(value) },
+      {
+        onSuccess: () => toast({ title: "Scheduling updated" }),
+        onError: (error) => {
+          toast({
+            title: "Failed to update scheduling",
+            description: error instanceof Error ? error.message : "Unknown error",
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="sibling-bury-days" className="text-sm font-medium">
+            Bury sibling questions
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            After a student reviews one question of a family (questions sharing a parent),
+            defer the others so one doesn't give away the answer to the next.
+          </p>
+        </div>
+        {isLoading ? (
+          <Skeleton className="h-9 w-40" />
+        ) : (
+          <Select
+            value={String(buryDays)}
+            onValueChange={handleChange}
+            disabled={updateBuryDays.isPending}
+          >
+            <SelectTrigger id="sibling-bury-days" className="w-40 shrink-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BURY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </div>
+  );
+}
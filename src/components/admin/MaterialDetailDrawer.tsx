@@ -14,11 +14,11 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
 import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
-import { useMaterialById, useUpdateMaterial, useDeleteMaterialQuestions, useCleanupMaterialStorage } from "@/hooks/use-materials";
+import { useMaterialById, useUpdateMaterial, useDeleteMaterialQuestions, useCleanupMaterialStorage, useGenerateFlashcards } from "@/hooks/use-materials";
 import { useAnalyzeMaterial, useGenerateQuestions, useGenerationJobRealtime } from "@/hooks/use-question-generation";
-import { MATERIAL_STATUS_CONFIG, MATERIAL_TYPE_LABELS, type MaterialStatus } from "@/types/materials";
+import { MATERIAL_STATUS_CONFIG, MATERIAL_TYPE_LABELS, isMaterialAnalysisV4, type MaterialStatus } from "@/types/materials";
 import { useToast } from "@/hooks/use-toast";
-import { Sparkles, FileText, AlertCircle, Save, Trash2, Loader2, CheckCircle2, RotateCcw, ExternalLink } from "lucide-react";
+import { Sparkles, FileText, AlertCircle, Save, Trash2, Loader2, CheckCircle2, RotateCcw, ExternalLink, Layers } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 
@@ -52,6 +52,7 @@ export function MaterialDetailDrawer({ materialId, onClose }: MaterialDetailDraw
   const cleanupStorage = useCleanupMaterialStorage();
   const { generate, isPending: isStarting } = useGenerateQuestions();
   const analyzeMaterial = useAnalyzeMaterial();
+  const generateFlashcards = useGenerateFlashcards();
   const [activeJobId, setActiveJobId] = useState<string | null>(null);
   const { job: activeJob } = useGenerationJobRealtime(activeJobId);
   const [analysisPollCount, setAnalysisPollCount] = useState(0);
@@ -194,6 +195,27 @@ export function MaterialDetailDrawer({ materialId, onClose }: MaterialDetailDraw
     }
   };
 
+  const handleGenerateFlashcards = () => {
+    if (!material) return;
+    generateFlashcards.mutate(material, {
+      onSuccess: (created) => {
+        toast({
+          title: created > 0 ? "Flashcards created" : "No new flashcards",
+          description: created > 0
+            ? `${created} flashcard${created !== 1 ? "s" : ""} added from this material's definitions and formulas.`
+            : "Every definition and formula in this material already has a flashcard.",
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: "Flashcard generation failed",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
   const handleResetJob = async () => {
     if (!activeJobId) return;
     await supabase
@@ -420,6 +442,36 @@ export function MaterialDetailDrawer({ materialId, onClose }: MaterialDetailDraw
                 </CardContent>
               </Card>
 
+              {/* Flashcards from the V4 definitions and formulas */}
+              {isMaterialAnalysisV4(material.analysis_json) && (
+                <Card className="rounded-xl overflow-hidden shadow-surface">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm flex items-center gap-2">
+                      <Layers className="h-4 w-4 text-primary" />
+                      Flashcards
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <p className="text-xs text-muted-foreground">
+                      Term → definition, formula → name and conditions, and a blank for each formula variable.
+                      Flashcards are scheduled with the other questions.
+                    </p>
+                    <Button
+                      variant="outline"
+                      onClick={handleGenerateFlashcards}
+                      disabled={generateFlashcards.isPending}
+                      className="w-full"
+                    >
+                      {generateFlashcards.isPending ? (
+                        <><Loader2 className="h-4 w-4 mr-2 animate-spin" />Creating flashcards…</>
+                      ) : (
+                        <><Layers className="h-4 w-4 mr-2" />Generate Flashcards</>
+                      )}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Error Message */}
               {material.error_message && (
                 <Card className="rounded-xl overflow-hidden shadow-surface border-destructive">
@@ -1,6 +1,7 @@
 import { Outlet } from "react-router-dom";
 import { DesktopNav } from "./DesktopNav";
 import { MobileBottomNav } from "./MobileBottomNav";
+import { OfflineIndicator } from "./OfflineIndicator";
 import { useSidebar } from "@/hooks/use-sidebar";
 import { Button } from "@/components/ui/button";
 import { PanelLeft } from "lucide-react";
@@ -35,6 +36,7 @@ export function AppLayout() {
           "mx-auto px-4 py-6",
           isCollapsed ? "container max-w-4xl" : "container max-w-3xl"
         )}>
+          <OfflineIndicator />
           <Outlet />
         </div>
       </main>
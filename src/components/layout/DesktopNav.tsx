@@ -1,4 +1,4 @@
-import { BookOpen, BarChart3, Settings, GraduationCap, Moon, Sun, Shield, Upload, PanelLeftClose, CalendarDays, Tag } from "lucide-react";
+import { BookOpen, BarChart3, Settings, GraduationCap, Moon, Sun, Shield, Upload, PanelLeftClose, CalendarDays, Tag, NotebookPen, Flag, XCircle } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -11,6 +11,8 @@ const navItems = [
   { to: "/study", label: "Study", icon: BookOpen },
   { to: "/calendar", label: "Calendar", icon: CalendarDays },
   { to: "/progress", label: "Progress", icon: BarChart3 },
+  { to: "/notes", label: "Notes", icon: NotebookPen },
+  { to: "/mistakes", label: "Mistakes", icon: XCircle },
   { to: "/settings", label: "Settings", icon: Settings },
 ];
 
@@ -18,6 +20,7 @@ const adminNavItems = [
   { to: "/admin/questions", label: "Courses", icon: BookOpen },
   { to: "/admin/ingestion", label: "Ingestion", icon: Upload },
   { to: "/admin/question-types", label: "Question Types", icon: Tag },
+  { to: "/admin/reports", label: "Reports", icon: Flag },
 ];
 
 export function DesktopNav() {
@@ -1,4 +1,4 @@
-import { BookOpen, BarChart3, Settings, Calendar } from "lucide-react";
+import { BookOpen, BarChart3, Settings, Calendar, NotebookPen } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
 
@@ -6,6 +6,7 @@ const navItems = [
   { to: "/study", label: "Study", icon: BookOpen },
   { to: "/calendar", label: "Calendar", icon: Calendar },
   { to: "/progress", label: "Progress", icon: BarChart3 },
+  { to: "/notes", label: "Notes", icon: NotebookPen },
   { to: "/settings", label: "Settings", icon: Settings },
 ];
 
@@ -0,0 +1,33 @@
+import { CloudOff, RefreshCw } from "lucide-react";
+import { useOfflineSync } from "@/hooks/use-offline-sync";
+
+/** Offline / queued-answers strip; also keeps the offline queue syncing */
+export function OfflineIndicator() {
+  const { isOnline, pendingCount, isSyncing } = useOfflineSync();
+
+  if (isOnline && pendingCount === 0) return null;
+
+  const answers = `${pendingCount} answer${pendingCount === 1 ? "" : "s"}`;
+
+  return (
+    <div
+      role="status"
+      className="mb-4 flex items-center gap-2 rounded-lg border border-border bg-muted/60 px-3 py-2 text-sm text-muted-foreground"
+    >
+      {isOnline ? (
+        <>
+          <RefreshCw className={isSyncing ? "h-4 w-4 shrink-0 animate-spin" : "h-4 w-4 shrink-0"} />
+          <span>{isSyncing ? `Syncing ${answers}…` : `${answers} waiting to sync`}</span>
+        </>
+      ) : (
+        <>
+          <CloudOff className="h-4 w-4 shrink-0" />
+          <span>
+            You're offline. Keep studying — answers are saved on this device
+            {pendingCount > 0 ? ` (${answers} so far)` : ""} and sync when you reconnect.
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
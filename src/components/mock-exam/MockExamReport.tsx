@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { CheckCircle2, ChevronDown, Clock, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { QuestionPrompt } from '@/components/study/QuestionPrompt';
+import { ChoiceList } from '@/components/study/ChoiceList';
+import { cn } from '@/lib/utils';
+import { formatClock, type MockExamScore, type ScoreBreakdown } from '@/lib/mock-exam';
+import type { MockExamPaper } from '@/hooks/use-mock-exam';
+
+interface MockExamReportProps {
+  paper: MockExamPaper;
+  score: MockExamScore;
+  answers: Record<string, string | null>;
+  timeUsedSeconds: number;
+}
+
+function scoreColorClass(score: number): string {
+  return score >= 0.8 ? 'text-success' : score >= 0.6 ? 'text-warning' : 'text-destructive';
+}
+
+function BreakdownCard({ title, rows }: { title: string; rows: ScoreBreakdown[] }) {
+  return (
+    <Card className="bg-surface shadow-surface rounded-xl">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rows.map((row) => (
+          <div key={row.key} className="space-y-1">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">{row.label}</span>
+              <span className={cn('shrink-0 font-mono text-xs', scoreColorClass(row.score))}>
+                {row.correct}/{row.total}
+              </span>
+            </div>
+            <Progress value={row.score * 100} className="h-1.5" />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Score report of a submitted mock exam, with the answers to review */
+export function MockExamReport({ paper, score, answers, timeUsedSeconds }: MockExamReportProps): React.ReactElement {
+  const [showAnswers, setShowAnswers] = useState(false);
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-surface shadow-surface rounded-xl">
+        <CardContent className="py-6 text-center space-y-2">
+          <p className="text-sm text-muted-foreground">{paper.title}</p>
+          <p className={cn('text-5xl font-bold tabular-nums', scoreColorClass(score.score))}>
+            {Math.round(score.score * 100)}%
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {score.correct} of {score.total} correct
+            {score.answered < score.total && ` · ${score.total - score.answered} unanswered`}
+          </p>
+          <p className="flex items-center justify-center gap-1.5 text-xs text-muted-foreground">
+            <Clock className="h-3.5 w-3.5" />
+            {formatClock(timeUsedSeconds)} of {formatClock(paper.timeLimitMinutes * 60)}
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <BreakdownCard title="By topic" rows={score.byTopic} />
+        <BreakdownCard title="By question type" rows={score.byQuestionType} />
+      </div>
+
+      <div className="space-y-3">
+        <Button variant="outline" className="w-full gap-2" onClick={() => setShowAnswers((v) => !v)}>
+          {showAnswers ? 'Hide answers' : 'Review answers'}
+          <ChevronDown className={cn('h-4 w-4 transition-transform', showAnswers && 'rotate-180')} />
+        </Button>
+
+        {showAnswers && paper.questions.map((q, i) => {
+          const selected = answers[q.id] ?? null;
+          const isCorrect = selected !== null && selected === q.correctChoiceId;
+          return (
+            <div key={q.id} className="space-y-3 rounded-xl border border-border p-4">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                {isCorrect ? (
+                  <CheckCircle2 className="h-4 w-4 text-success" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-destructive" />
+                )}
+                Question {i + 1}
+                {selected === null && <Badge variant="outline" className="text-xs">Unanswered</Badge>}
+              </div>
+              <QuestionPrompt
+                prompt={q.prompt}
+                topicName={q.topicNames[0] || 'General'}
+                questionType={q.questionType}
+                difficulty={q.difficulty}
+                imageUrl={q.imageUrl}
+                sourceExam={q.sourceExam}
+              />
+              <ChoiceList
+                choices={q.choices ?? []}
+                selectedChoice={selected}
+                correctAnswer={q.correctChoiceId ?? ''}
+                isSubmitted
+                onSelect={() => {}}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatClock } from '@/lib/mock-exam';
+
+interface MockExamTimerProps {
+  /** When time is up (ms since epoch) */
+  endsAt: number;
+  onExpire: () => void;
+}
+
+/** Countdown to `endsAt`; calls onExpire once when it reaches zero */
+export function MockExamTimer({ endsAt, onExpire }: MockExamTimerProps): React.ReactElement {
+  const [now, setNow] = useState(() => Date.now());
+  const secondsLeft = Math.max(0, Math.ceil((endsAt - now) / 1000));
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, []);
+
+  useEffect(() => {
+    if (secondsLeft === 0) onExpire();
+  }, [secondsLeft, onExpire]);
+
+  return (
+    <div
+      role="timer"
+      aria-label="Time remaining"
+      className={cn(
+        'flex items-center gap-1.5 rounded-md px-2.5 py-1 font-mono text-sm tabular-nums',
+        secondsLeft <= 60 ? 'bg-destructive/10 text-destructive' :
+        secondsLeft <= 300 ? 'bg-warning/10 text-warning' : 'bg-muted text-foreground'
+      )}
+    >
+      <Timer className="h-4 w-4" />
+      {formatClock(secondsLeft)}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useMemo } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { useCalibration } from '@/hooks/use-calibration';
+import { CONFIDENCE_LABELS, type CalibrationSummary } from '@/lib/calibration';
+
+interface CalibrationCardProps {
+  courseIds: string[];
+}
+
+const chartConfig = {
+  accuracy: {
+    label: 'Right',
+    color: 'hsl(var(--primary))',
+  },
+  stated: {
+    label: 'Perfectly calibrated',
+    color: 'hsl(var(--muted-foreground))',
+  },
+} satisfies ChartConfig;
+
+function biasLabel(bias: number | null): string {
+  if (bias === null) return '';
+  if (bias <= -0.1) return 'Overconfident';
+  if (bias >= 0.1) return 'Underconfident';
+  return 'Well calibrated';
+}
+
+function percent(value: number | null): string {
+  return value === null ? '–' : `${Math.round(value * 100)}%`;
+}
+
+/** Rows of the per-topic table: accuracy at each confidence level */
+function TopicRow({ title, summary }: { title: string; summary: CalibrationSummary }) {
+  return (
+    <tr className="border-t border-border">
+      <td className="py-1.5 pr-2 truncate max-w-[180px]">{title}</td>
+      {summary.bins.map((bin) => (
+        <td key={bin.confidence} className="py-1.5 px-2 text-right tabular-nums">
+          {percent(bin.accuracy)}
+          <span className="text-xs text-muted-foreground ml-1">({bin.attempts})</span>
+        </td>
+      ))}
+      <td className="py-1.5 pl-2 text-right tabular-nums">
+        {summary.brierScore === null ? '–' : summary.brierScore.toFixed(2)}
+      </td>
+    </tr>
+  );
+}
+
+/** Reliability diagram, Brier score, per-topic breakdown and call-outs */
+export function CalibrationCard({ courseIds }: CalibrationCardProps): React.ReactElement | null {
+  const { data, isLoading } = useCalibration(courseIds);
+
+  const chartData = useMemo(() => {
+    return (data?.overall.bins ?? []).map((bin) => ({
+      label: CONFIDENCE_LABELS[bin.confidence],
+      accuracy: bin.accuracy === null ? null : Math.round(bin.accuracy * 100),
+      stated: Math.round(bin.stated * 100),
+    }));
+  }, [data]);
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full rounded-xl" />;
+  }
+
+  // Nothing to show until the student has rated their confidence
+  if (!data || data.overall.attempts === 0) return null;
+
+  const { overall, topics, callouts } = data;
+
+  return (
+    <Card className="bg-surface shadow-surface rounded-xl overflow-hidden">
+      <div className="h-1 bg-primary/60" />
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">Confidence Calibration</CardTitle>
+            <CardDescription>
+              How often you're right when you say you guessed, were unsure, or knew it.
+            </CardDescription>
+          </div>
+          <div className="text-right shrink-0">
+            <p className="text-2xl font-semibold tabular-nums">{overall.brierScore!.toFixed(2)}</p>
+            <p className="text-xs text-muted-foreground">Brier score · lower is better</p>
+            <p className="text-xs font-medium mt-0.5">{biasLabel(overall.bias)}</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {/* Reliability diagram: bars are observed accuracy, the line is what each level claims */}
+        <ChartContainer config={chartConfig} className="aspect-[2.5/1] w-full">
+          <ComposedChart data={chartData} margin={{ top: 4, right: 4, bottom: 0, left: -20 }}>
+            <CartesianGrid vertical={false} strokeDasharray="3 3" />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={11} />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              fontSize={11}
+              domain={[0, 100]}
+              tickFormatter={(v) => `${v}%`}
+            />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="accuracy" fill="var(--color-accuracy)" radius={[4, 4, 0, 0]} />
+            <Line
+              dataKey="stated"
+              stroke="var(--color-stated)"
+              strokeDasharray="4 2"
+              dot={{ r: 3 }}
+              type="linear"
+            />
+          </ComposedChart>
+        </ChartContainer>
+
+        {callouts.length > 0 && (
+          <ul className="space-y-2">
+            {callouts.map((callout) => (
+              <li
+                key={`${callout.topicId}-${callout.confidence}`}
+                className={cn(
+                  'flex items-start gap-2 rounded-lg border px-3 py-2 text-sm',
+                  callout.kind === 'overconfident'
+                    ? 'border-amber-500/30 bg-amber-500/5'
+                    : 'border-blue-500/30 bg-blue-500/5'
+                )}
+              >
+                {callout.kind === 'overconfident' ? (
+                  <TrendingDown className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
+                ) : (
+                  <TrendingUp className="h-4 w-4 text-blue-600 shrink-0 mt-0.5" />
+                )}
+                <span>{callout.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {topics.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground">
+                  <th className="text-left font-medium pb-1.5 pr-2">Topic</th>
+                  {overall.bins.map((bin) => (
+                    <th key={bin.confidence} className="text-right font-medium pb-1.5 px-2">
+                      {CONFIDENCE_LABELS[bin.confidence]}
+                    </th>
+                  ))}
+                  <th className="text-right font-medium pb-1.5 pl-2">Brier</th>
+                </tr>
+              </thead>
+              <tbody>
+                {topics.map((topic) => (
+                  <TopicRow key={topic.topicId} title={topic.topicTitle} summary={topic} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
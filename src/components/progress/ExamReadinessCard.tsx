@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
 import { fadeSlideUp } from '@/lib/motion';
+import { readinessWithMock } from '@/lib/mock-exam';
 
 interface ExamReadinessProps {
   examTitle: string;
@@ -12,6 +13,7 @@ interface ExamReadinessProps {
   coveragePercent: number; // Topics practiced / topics in scope
   avgMastery: number; // 0-1
   avgRetention: number; // 0-1
+  mockScore?: number | null; // 0-1, latest mock exam of this exam
   atRiskTopics: Array<{ id: string; title: string; retention: number }>;
   className?: string;
 }
@@ -23,13 +25,15 @@ export function ExamReadinessCard({
   coveragePercent,
   avgMastery,
   avgRetention,
+  mockScore = null,
   atRiskTopics,
   className,
 }: ExamReadinessProps) {
   // Calculate overall readiness score
-  // Weighted: coverage 40%, mastery 30%, retention 30%
-  const readinessScore = Math.round(
-    (coveragePercent * 0.4) + (avgMastery * 100 * 0.3) + (avgRetention * 100 * 0.3)
+  // Weighted: coverage 40%, mastery 30%, retention 30%; then the mock exam, if any
+  const readinessScore = readinessWithMock(
+    Math.round((coveragePercent * 0.4) + (avgMastery * 100 * 0.3) + (avgRetention * 100 * 0.3)),
+    mockScore
   );
 
   const getReadinessColor = (score: number) => {
@@ -1,36 +1,67 @@
 import { useMemo } from 'react';
-import { Calendar, AlertTriangle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Calendar, AlertTriangle, Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
 import { useUpcomingExams } from '@/hooks/use-calendar';
+import { useStudyPause, isPausedOn, type StudyPause } from '@/hooks/use-study-pause';
+import { useMockExamResults } from '@/hooks/use-mock-exam';
 import { type TopicProgressRow, type ExamProjection, type TopicExamProjection } from '@/types/progress';
-import { projectRetention, classifyRisk, riskColorClass } from '@/lib/fsrs-stats';
+import {
+  projectRetention,
+  projectExamRetention,
+  classifyRisk,
+  riskColorClass,
+  EXAM_REVIEW_WINDOW_DAYS,
+  EXAM_REVIEW_LEAD_DAYS,
+} from '@/lib/fsrs-stats';
+import { latestMockForExam } from '@/lib/mock-exam';
 
 interface ExamReadinessPanelProps {
   courseIds: string[];
   topics: TopicProgressRow[];
+  /** User's desired retention (ProgressSummary.targetRetention) */
+  targetRetention?: number;
+}
+
+/** Day of the exam-capped review (YYYY-MM-DD) */
+function preExamReviewDay(examDate: string): string {
+  const day = new Date(`${examDate.slice(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - EXAM_REVIEW_LEAD_DAYS);
+  return day.toISOString().slice(0, 10);
 }
 
 function buildExamProjections(
   exams: Array<{
     id: string;
     title: string;
+    event_type: string;
+    course_pack_id: string;
     course_title: string;
     event_date: string | null;
     daysUntil: number;
   }>,
   topics: TopicProgressRow[],
   targetRetention: number,
+  pause: StudyPause | null,
 ): ExamProjection[] {
   return exams.map((exam) => {
+    // Exams (not quizzes) get a capped pre-exam review in the schedule,
+    // unless that day falls inside a study pause
+    const includesPreExamReview =
+      exam.event_type !== 'quiz' &&
+      exam.daysUntil > EXAM_REVIEW_WINDOW_DAYS &&
+      !(exam.event_date && isPausedOn(pause, preExamReviewDay(exam.event_date)));
+    const project = includesPreExamReview ? projectExamRetention : projectRetention;
     const topicProjections: TopicExamProjection[] = topics
       .map((t) => {
         const currentR = t.r_now ?? 0;
         const projectedR =
           t.median_stability != null && t.median_stability > 0 && t.median_elapsed_days != null
-            ? projectRetention(t.median_stability, t.median_elapsed_days, exam.daysUntil)
+            ? project(t.median_stability, t.median_elapsed_days, exam.daysUntil)
             : currentR;
 
         let recommendation: string | null = null;
@@ -63,9 +94,11 @@ function buildExamProjections(
     return {
       examId: exam.id,
       examTitle: exam.title,
+      coursePackId: exam.course_pack_id,
       courseTitle: exam.course_title,
       examDate: exam.event_date ?? '',
       daysUntil: exam.daysUntil,
+      includesPreExamReview,
       overallProjectedR,
       topics: topicProjections,
     };
@@ -75,13 +108,17 @@ function buildExamProjections(
 export function ExamReadinessPanel({
   courseIds,
   topics,
+  targetRetention = 0.9,
 }: ExamReadinessPanelProps): React.ReactElement | null {
   const { data: upcomingExams } = useUpcomingExams(courseIds);
+  const { data: pause } = useStudyPause();
+  const { data: mockResults = [] } = useMockExamResults(courseIds);
+  const navigate = useNavigate();
 
   const projections = useMemo(() => {
     if (!upcomingExams || upcomingExams.length === 0) return [];
-    return buildExamProjections(upcomingExams, topics, 0.9);
-  }, [upcomingExams, topics]);
+    return buildExamProjections(upcomingExams, topics, targetRetention, pause ?? null);
+  }, [upcomingExams, topics, targetRetention, pause]);
 
   const hasStudyData = topics.some((t) => t.attempts_count > 0);
 
@@ -101,14 +138,15 @@ export function ExamReadinessPanel({
     <TooltipProvider>
     <div className="space-y-4">
       {projections.map((exam) => {
-        const overallRisk = classifyRisk(exam.overallProjectedR);
-        const atRiskTopics = exam.topics.filter((t) => t.projectedR < 0.9);
+        const overallRisk = classifyRisk(exam.overallProjectedR, targetRetention);
+        const atRiskTopics = exam.topics.filter((t) => t.projectedR < targetRetention);
+        const lastMock = latestMockForExam(exam, mockResults);
 
         return (
           <Card key={exam.examId} className="bg-surface shadow-surface rounded-xl overflow-hidden">
             <div className={cn(
               "h-1",
-              exam.overallProjectedR >= 0.9 ? "bg-success" :
+              exam.overallProjectedR >= targetRetention ? "bg-success" :
               exam.overallProjectedR >= 0.7 ? "bg-warning" : "bg-destructive"
             )} />
             <CardHeader className="pb-3">
@@ -146,7 +184,12 @@ export function ExamReadinessPanel({
                 </div>
               </div>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-2">
+              {exam.includesPreExamReview && (
+                <p className="text-xs text-muted-foreground">
+                  Includes the review scheduled {EXAM_REVIEW_LEAD_DAYS} days before the exam.
+                </p>
+              )}
               {atRiskTopics.length === 0 ? (
                 <p className="text-sm text-muted-foreground">
                   All topics are projected above target retention at exam date.
@@ -159,7 +202,7 @@ export function ExamReadinessPanel({
                   </div>
                   <div className="space-y-1">
                     {atRiskTopics.slice(0, 5).map((t) => {
-                      const risk = classifyRisk(t.projectedR);
+                      const risk = classifyRisk(t.projectedR, targetRetention);
                       return (
                         <div
                           key={t.topicId}
@@ -190,6 +233,24 @@ export function ExamReadinessPanel({
                   </div>
                 </div>
               )}
+              <div className="flex items-center justify-between gap-2 pt-2 border-t border-border">
+                <p className="text-xs text-muted-foreground">
+                  {lastMock
+                    ? `Last mock exam: ${Math.round(lastMock.score * 100)}% (${lastMock.correctCount}/${lastMock.questionCount})`
+                    : 'No mock exam taken yet'}
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 gap-1.5 text-xs"
+                  onClick={() => navigate('/mock-exam', {
+                    state: { coursePackId: exam.coursePackId, calendarEventId: exam.examId },
+                  })}
+                >
+                  <Timer className="h-3.5 w-3.5" />
+                  Mock exam
+                </Button>
+              </div>
             </CardContent>
           </Card>
         );
@@ -0,0 +1,88 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { MathRenderer } from '@/components/study/MathRenderer';
+import { useLeeches, useSetCardSuspended } from '@/hooks/use-leeches';
+import { Wrench } from 'lucide-react';
+
+interface LeechListProps {
+  courseIds: string[];
+  onFixLeeches: () => void;
+}
+
+/** Leeches per topic, with suspend / unsuspend and the "Fix my leeches" session */
+export function LeechList({ courseIds, onFixLeeches }: LeechListProps): React.ReactElement | null {
+  const { data, isLoading } = useLeeches(courseIds);
+  const setSuspended = useSetCardSuspended();
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full rounded-xl" />;
+  }
+
+  // Nothing to show until the student has a leech
+  if (!data || data.leeches.length === 0) return null;
+
+  return (
+    <Card className="bg-surface shadow-surface rounded-xl overflow-hidden">
+      <div className="h-1 bg-amber-500/60" />
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">Leeches</CardTitle>
+            <CardDescription>
+              {data.leeches.length} {data.leeches.length === 1 ? 'card keeps' : 'cards keep'} slipping.
+              Work through them with Guide Me to break the cycle.
+            </CardDescription>
+          </div>
+          <Button size="sm" className="gap-1.5 shrink-0" onClick={onFixLeeches}>
+            <Wrench className="h-4 w-4" />
+            Fix my leeches
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.byTopic.map((group) => (
+          <div key={group.topicId ?? 'other'} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">{group.topicTitle}</p>
+              <span className="text-xs text-muted-foreground tabular-nums">{group.leeches.length}</span>
+            </div>
+            <ul className="space-y-1.5">
+              {group.leeches.map((leech) => (
+                <li
+                  key={`${group.topicId}-${leech.cardId}`}
+                  className="flex items-center justify-between gap-3 rounded-lg border border-border px-3 py-2"
+                >
+                  <div className="min-w-0 text-sm">
+                    <div className="line-clamp-1">
+                      {leech.subpartId && (
+                        <span className="font-medium mr-1">({leech.subpartId})</span>
+                      )}
+                      <MathRenderer content={leech.prompt} />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {leech.lapses} {leech.lapses === 1 ? 'lapse' : 'lapses'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {leech.isSuspended && <Badge variant="secondary">Suspended</Badge>}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={setSuspended.isPending}
+                      onClick={() => setSuspended.mutate({ cardId: leech.cardId, suspended: !leech.isSuspended })}
+                    >
+                      {leech.isSuspended ? 'Unsuspend' : 'Suspend'}
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
-import { useMemo } from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ReferenceLine } from 'recharts';
 import {
   ChartContainer,
   ChartTooltip,
@@ -9,6 +9,8 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { SmoothBacklogDialog } from '@/components/progress/SmoothBacklogDialog';
 import { type ForecastDay } from '@/types/progress';
 
 interface ReviewForecastChartProps {
@@ -54,7 +56,10 @@ export function ReviewForecastChart({
     });
   }, [forecast, includeOverdue]);
 
+  const [smoothOpen, setSmoothOpen] = useState(false);
   const hasData = chartData.some((d) => d.reviews > 0 || d.overdue > 0);
+  const overdueCount = forecast[0]?.overdueCount ?? 0;
+  const examDays = forecast.filter((day) => day.examTitles.length > 0);
 
   return (
     <Card className="bg-surface shadow-surface rounded-xl overflow-hidden">
@@ -63,6 +68,16 @@ export function ReviewForecastChart({
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg">Review Forecast</CardTitle>
           <div className="flex items-center gap-2">
+            {overdueCount > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs mr-2"
+                onClick={() => setSmoothOpen(true)}
+              >
+                Smooth backlog
+              </Button>
+            )}
             <Switch
               id="overdue-toggle"
               checked={includeOverdue}
@@ -112,10 +127,29 @@ export function ReviewForecastChart({
                 fill="var(--color-reviews)"
                 radius={[4, 4, 0, 0]}
               />
+              {examDays.map((day) => (
+                <ReferenceLine
+                  key={day.date}
+                  x={day.label}
+                  stroke="hsl(var(--warning))"
+                  strokeDasharray="4 2"
+                />
+              ))}
             </BarChart>
           </ChartContainer>
         )}
+        {hasData && examDays.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-2">
+            {examDays.map((day) => `${day.examTitles.join(', ')} (${day.label})`).join(' · ')}
+            {' \u2014 '}reviews that would fall after an exam are moved into the days before it.
+          </p>
+        )}
       </CardContent>
+      <SmoothBacklogDialog
+        overdueCount={overdueCount}
+        open={smoothOpen}
+        onOpenChange={setSmoothOpen}
+      />
     </Card>
   );
 }
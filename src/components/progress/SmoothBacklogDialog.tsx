@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useSmoothBacklog, BACKLOG_SMOOTHING_DAY_OPTIONS } from '@/hooks/use-review-backlog';
+
+interface SmoothBacklogDialogProps {
+  overdueCount: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** One-time redistribution of overdue cards over the next few days */
+export function SmoothBacklogDialog({
+  overdueCount,
+  open,
+  onOpenChange,
+}: SmoothBacklogDialogProps): React.ReactElement {
+  const [days, setDays] = useState<number>(7);
+  const smoothBacklog = useSmoothBacklog();
+
+  const handleConfirm = () => {
+    smoothBacklog.mutate(days, {
+      onSuccess: () => onOpenChange(false),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Smooth your backlog</DialogTitle>
+          <DialogDescription>
+            Spread {overdueCount} overdue {overdueCount === 1 ? 'card' : 'cards'} over the coming days
+            so no single day is overloaded. Cards on an upcoming exam and the ones you are most
+            likely to have forgotten stay first.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center justify-between gap-4 py-2">
+          <Label htmlFor="smooth-backlog-days" className="text-sm font-medium">
+            Spread over
+          </Label>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger id="smooth-backlog-days" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BACKLOG_SMOOTHING_DAY_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={smoothBacklog.isPending}>
+            {smoothBacklog.isPending ? 'Smoothing...' : 'Smooth backlog'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
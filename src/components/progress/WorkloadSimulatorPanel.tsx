@@ -0,0 +1,231 @@
+import { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { RETENTION_MIN, RETENTION_MAX } from '@/hooks/use-retention-settings';
+import {
+  useWorkloadSimulation,
+  WORKLOAD_SIMULATION_DAYS,
+  type WorkloadWhatIf,
+} from '@/hooks/use-workload-simulation';
+import { summarizeWorkload } from '@/lib/workload-simulator';
+
+interface WorkloadSimulatorPanelProps {
+  courseIds: string[];
+  /** Course whose retention / weights apply; null = the user defaults */
+  coursePackId: string | null;
+}
+
+const chartConfig = {
+  current: {
+    label: 'Current',
+    color: 'hsl(var(--muted-foreground))',
+  },
+  whatIf: {
+    label: 'What if',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+function formatPaceOffset(weeks: number): string {
+  if (weeks === 0) return 'On schedule';
+  const abs = Math.abs(weeks);
+  return `${abs} week${abs > 1 ? 's' : ''} ${weeks > 0 ? 'ahead' : 'behind'}`;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '--' : `${Math.round(value * 100)}%`;
+}
+
+/** "What if" panel: daily reviews and retention for changed goal / pace / retention */
+export function WorkloadSimulatorPanel({
+  courseIds,
+  coursePackId,
+}: WorkloadSimulatorPanelProps): React.ReactElement {
+  // Draft moves with the sliders; the simulation reruns on release
+  const [draft, setDraft] = useState<WorkloadWhatIf | null>(null);
+  const [whatIf, setWhatIf] = useState<WorkloadWhatIf | null>(null);
+  const { current, baseline, projected, isLoading } = useWorkloadSimulation(courseIds, coursePackId, whatIf);
+
+  // Start the sliders from the current settings
+  useEffect(() => {
+    setDraft({
+      dailyGoal: current.dailyGoal,
+      paceOffset: current.paceOffset,
+      desiredRetention: current.desiredRetention,
+    });
+    setWhatIf(null);
+  }, [current.dailyGoal, current.paceOffset, current.desiredRetention]);
+
+  const chartData = useMemo(() => {
+    if (!baseline) return [];
+    return baseline.map((day, index) => ({
+      label: format(parseISO(day.date), 'MMM d'),
+      current: day.reviews,
+      whatIf: projected?.[index]?.reviews,
+    }));
+  }, [baseline, projected]);
+
+  const currentSummary = baseline ? summarizeWorkload(baseline) : null;
+  const whatIfSummary = projected ? summarizeWorkload(projected) : null;
+
+  const commit = (changes: Partial<WorkloadWhatIf>) => {
+    if (!draft) return;
+    const next = { ...draft, ...changes };
+    setDraft(next);
+    setWhatIf(next);
+  };
+
+  return (
+    <Card className="bg-surface shadow-surface rounded-xl overflow-hidden">
+      <div className="h-1 bg-primary/60" />
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">What If?</CardTitle>
+            <CardDescription>
+              Daily reviews over the next {WORKLOAD_SIMULATION_DAYS / 7} weeks, simulated from your cards
+              and the course calendar. Settings aren't changed.
+            </CardDescription>
+          </div>
+          {whatIf && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs shrink-0"
+              onClick={() => {
+                setWhatIf(null);
+                setDraft({
+                  dailyGoal: current.dailyGoal,
+                  paceOffset: current.paceOffset,
+                  desiredRetention: current.desiredRetention,
+                });
+              }}
+            >
+              Reset
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !draft ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <>
+            <div className="grid gap-5 sm:grid-cols-3">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm font-medium">Daily goal</Label>
+                  <span className="text-sm font-semibold tabular-nums">{draft.dailyGoal}</span>
+                </div>
+                <Slider
+                  value={[draft.dailyGoal]}
+                  onValueChange={(v) => setDraft({ ...draft, dailyGoal: v[0] })}
+                  onValueCommit={(v) => commit({ dailyGoal: v[0] })}
+                  min={5}
+                  max={60}
+                  step={5}
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm font-medium">Pace</Label>
+                  <span className="text-sm font-semibold">{formatPaceOffset(draft.paceOffset)}</span>
+                </div>
+                <Slider
+                  value={[draft.paceOffset]}
+                  onValueChange={(v) => setDraft({ ...draft, paceOffset: v[0] })}
+                  onValueCommit={(v) => commit({ paceOffset: v[0] })}
+                  min={-2}
+                  max={3}
+                  step={1}
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm font-medium">Target retention</Label>
+                  <span className="text-sm font-semibold tabular-nums">{formatPercent(draft.desiredRetention)}</span>
+                </div>
+                <Slider
+                  value={[draft.desiredRetention]}
+                  onValueChange={(v) => setDraft({ ...draft, desiredRetention: v[0] })}
+                  onValueCommit={(v) => commit({ desiredRetention: v[0] })}
+                  min={RETENTION_MIN}
+                  max={RETENTION_MAX}
+                  step={0.01}
+                />
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="aspect-[2.5/1] w-full">
+              <LineChart data={chartData} margin={{ top: 4, right: 4, bottom: 0, left: -20 }}>
+                <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="label"
+                  tickLine={false}
+                  axisLine={false}
+                  fontSize={11}
+                  interval={6}
+                />
+                <YAxis tickLine={false} axisLine={false} fontSize={11} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line
+                  dataKey="current"
+                  type="monotone"
+                  stroke="var(--color-current)"
+                  strokeDasharray={whatIf ? '4 2' : undefined}
+                  dot={false}
+                />
+                {whatIf && (
+                  <Line dataKey="whatIf" type="monotone" stroke="var(--color-whatIf)" strokeWidth={2} dot={false} />
+                )}
+              </LineChart>
+            </ChartContainer>
+
+            {currentSummary && (
+              <div className="grid grid-cols-3 gap-3 text-center">
+                {[
+                  {
+                    label: 'Reviews / day',
+                    current: currentSummary.averageReviews.toFixed(0),
+                    whatIf: whatIfSummary?.averageReviews.toFixed(0),
+                  },
+                  {
+                    label: 'Busiest day',
+                    current: String(currentSummary.peakReviews),
+                    whatIf: whatIfSummary ? String(whatIfSummary.peakReviews) : undefined,
+                  },
+                  {
+                    label: `Retention in ${WORKLOAD_SIMULATION_DAYS / 7} weeks`,
+                    current: formatPercent(currentSummary.finalRetention),
+                    whatIf: whatIfSummary ? formatPercent(whatIfSummary.finalRetention) : undefined,
+                  },
+                ].map((stat) => (
+                  <div key={stat.label} className="rounded-lg bg-muted/40 p-3">
+                    <p className="text-xs text-muted-foreground">{stat.label}</p>
+                    <p className="text-lg font-semibold tabular-nums">
+                      {stat.whatIf ?? stat.current}
+                    </p>
+                    {stat.whatIf !== undefined && (
+                      <p className="text-xs text-muted-foreground tabular-nums">now {stat.current}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
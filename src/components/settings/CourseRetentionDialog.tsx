@@ -0,0 +1,96 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RetentionControls } from "@/components/settings/RetentionControls";
+import {
+  useRetentionSettings,
+  useUpdateRetentionSettings,
+  resolveRetentionSettings,
+  type RetentionSettings,
+} from "@/hooks/use-retention-settings";
+import { useToast } from "@/hooks/use-toast";
+
+interface CourseRetentionDialogProps {
+  coursePackId: string;
+  courseTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Per-enrollment override of the user's default retention settings */
+export function CourseRetentionDialog({
+  coursePackId,
+  courseTitle,
+  open,
+  onOpenChange,
+}: CourseRetentionDialogProps) {
+  const { data: retentionSource } = useRetentionSettings();
+  const updateRetention = useUpdateRetentionSettings();
+  const { toast } = useToast();
+
+  const override = retentionSource?.overrides.find(o => o.course_pack_id === coursePackId);
+  const hasOverride = override?.desired_retention != null || override?.maximum_interval != null;
+  const effective = resolveRetentionSettings(retentionSource, coursePackId);
+
+  const save = (value: RetentionSettings | null) => {
+    updateRetention.mutate(
+      {
+        coursePackId,
+        desiredRetention: value?.desiredRetention ?? null,
+        maximumInterval: value?.maximumInterval ?? null,
+      },
+      {
+        onError: (error) => {
+          toast({
+            title: "Failed to update retention",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Retention for {courseTitle}</DialogTitle>
+          <DialogDescription>
+            Override your default review settings for this course
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6 mt-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="course-retention-override" className="text-sm font-medium">
+              Use custom settings
+            </Label>
+            <Switch
+              id="course-retention-override"
+              checked={hasOverride}
+              onCheckedChange={(checked) => save(checked ? effective : null)}
+              disabled={updateRetention.isPending}
+            />
+          </div>
+          <RetentionControls
+            value={effective}
+            onCommit={save}
+            disabled={!hasOverride || updateRetention.isPending}
+          />
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
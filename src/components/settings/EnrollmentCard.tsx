@@ -5,8 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useEnrollments, CoursePack } from "@/hooks/use-enrollments";
+import { useRetentionSettings } from "@/hooks/use-retention-settings";
 import { useToast } from "@/hooks/use-toast";
-import { BookOpen, Plus, Trash2, Check, Loader2 } from "lucide-react";
+import { CourseRetentionDialog } from "@/components/settings/CourseRetentionDialog";
+import { BookOpen, Plus, Trash2, Check, Loader2, SlidersHorizontal } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -29,8 +31,10 @@ export function EnrollmentCard() {
     isEnrolling,
     isUnenrolling,
   } = useEnrollments();
+  const { data: retentionSource } = useRetentionSettings();
   const { toast } = useToast();
   const [addDialogOpen, setAddDialogOpen] = useState(false);
+  const [retentionCourse, setRetentionCourse] = useState<{ id: string; title: string } | null>(null);
   const [pendingAction, setPendingAction] = useState<string | null>(null);
 
   const handleEnroll = async (coursePack: CoursePack) => {
@@ -173,6 +177,9 @@ export function EnrollmentCard() {
           <div className="space-y-2">
             {enrollments.map((enrollment) => {
               const coursePack = enrollment.course_packs as { title: string; description?: string } | null;
+              const override = retentionSource?.overrides.find(
+                o => o.course_pack_id === enrollment.course_pack_id
+              );
               return (
                 <div
                   key={enrollment.id}
@@ -185,8 +192,23 @@ export function EnrollmentCard() {
                     <p className="font-medium truncate">{coursePack?.title}</p>
                     <p className="text-xs text-muted-foreground">
                       Enrolled {new Date(enrollment.enrolled_at).toLocaleDateString()}
+                      {override?.desired_retention != null && (
+                        <> · {Math.round(override.desired_retention * 100)}% retention</>
+                      )}
                     </p>
                   </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-muted-foreground"
+                    aria-label="Retention settings"
+                    onClick={() => setRetentionCourse({
+                      id: enrollment.course_pack_id,
+                      title: coursePack?.title || 'course',
+                    })}
+                  >
+                    <SlidersHorizontal className="h-4 w-4" />
+                  </Button>
                   <Button
                     size="icon"
                     variant="ghost"
@@ -205,6 +227,14 @@ export function EnrollmentCard() {
             })}
           </div>
         )}
+        {retentionCourse && (
+          <CourseRetentionDialog
+            coursePackId={retentionCourse.id}
+            courseTitle={retentionCourse.title}
+            open={!!retentionCourse}
+            onOpenChange={(open) => !open && setRetentionCourse(null)}
+          />
+        )}
       </CardContent>
     </Card>
   );
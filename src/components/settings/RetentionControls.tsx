@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Brain, CalendarClock } from "lucide-react";
+import {
+  RETENTION_MIN,
+  RETENTION_MAX,
+  type RetentionSettings,
+} from "@/hooks/use-retention-settings";
+
+const MAX_INTERVAL_OPTIONS = [
+  { days: 30, label: "1 month" },
+  { days: 90, label: "3 months" },
+  { days: 180, label: "6 months" },
+  { days: 365, label: "1 year" },
+  { days: 730, label: "2 years" },
+  { days: 1825, label: "5 years" },
+  { days: 3650, label: "10 years" },
+];
+
+interface RetentionControlsProps {
+  value: RetentionSettings;
+  onCommit: (value: RetentionSettings) => void;
+  disabled?: boolean;
+}
+
+/** Desired retention slider + maximum interval picker, shared by Settings and per-course overrides */
+export function RetentionControls({ value, onCommit, disabled }: RetentionControlsProps) {
+  // Local draft so the slider moves while dragging; committed on release
+  const [draftRetention, setDraftRetention] = useState(value.desiredRetention);
+
+  useEffect(() => {
+    setDraftRetention(value.desiredRetention);
+  }, [value.desiredRetention]);
+
+  const intervalOptions = MAX_INTERVAL_OPTIONS.some(o => o.days === value.maximumInterval)
+    ? MAX_INTERVAL_OPTIONS
+    : [...MAX_INTERVAL_OPTIONS, { days: value.maximumInterval, label: `${value.maximumInterval} days` }]
+        .sort((a, b) => a.days - b.days);
+
+  return (
+    <div className="space-y-6">
+      {/* Desired Retention */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Brain className="h-4 w-4 text-muted-foreground" />
+            <Label className="text-sm font-medium">Target Retention</Label>
+          </div>
+          <span className="text-sm font-semibold">{Math.round(draftRetention * 100)}%</span>
+        </div>
+        <Slider
+          value={[draftRetention]}
+          onValueChange={(v) => setDraftRetention(v[0])}
+          onValueCommit={(v) => onCommit({ ...value, desiredRetention: v[0] })}
+          min={RETENTION_MIN}
+          max={RETENTION_MAX}
+          step={0.01}
+          disabled={disabled}
+          className="w-full"
+        />
+        <p className="text-xs text-muted-foreground">
+          Chance of recalling a card when it comes due. Higher means more frequent reviews
+        </p>
+      </div>
+
+      {/* Maximum Interval */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4 text-muted-foreground" />
+            <Label className="text-sm font-medium">Maximum Interval</Label>
+          </div>
+          <Select
+            value={String(value.maximumInterval)}
+            onValueChange={(v) => onCommit({ ...value, maximumInterval: Number(v) })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-32 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {intervalOptions.map((option) => (
+                <SelectItem key={option.days} value={String(option.days)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Longest gap between reviews of the same card
+        </p>
+      </div>
+    </div>
+  );
+}
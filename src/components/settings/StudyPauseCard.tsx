@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { addDays, format, parseISO, differenceInCalendarDays } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useStudyPause, useScheduleStudyPause, useEndStudyPause } from "@/hooks/use-study-pause";
+import { Palmtree, Loader2 } from "lucide-react";
+
+function formatDay(date: string): string {
+  return format(parseISO(date), "MMM d");
+}
+
+/** Vacation mode: freeze the review queue between two dates */
+export function StudyPauseCard() {
+  const { data: pause, isLoading } = useStudyPause();
+  const schedulePause = useScheduleStudyPause();
+  const endPause = useEndStudyPause();
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [startsOn, setStartsOn] = useState(today);
+  const [endsOn, setEndsOn] = useState("");
+
+  const pauseDays = endsOn ? differenceInCalendarDays(parseISO(endsOn), parseISO(startsOn)) + 1 : 0;
+  const canSchedule = !!startsOn && !!endsOn && startsOn >= today && pauseDays >= 1 && pauseDays <= 90;
+
+  const handleSchedule = () => {
+    schedulePause.mutate(
+      { startsOn, endsOn },
+      { onSuccess: () => setEndsOn("") }
+    );
+  };
+
+  return (
+    <Card className="bg-surface shadow-surface rounded-xl overflow-hidden">
+      <div className="h-1 bg-muted" />
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Pause Studying</CardTitle>
+        <CardDescription>
+          Going away? Reviews due during the pause wait until you're back, keeping their spacing,
+          and your streak is kept.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : pause ? (
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Palmtree className="h-5 w-5 text-muted-foreground" />
+              <div>
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium">
+                    {formatDay(pause.startsOn)} – {formatDay(pause.endsOn)}
+                  </p>
+                  <Badge variant={pause.isActive ? "default" : "secondary"}>
+                    {pause.isActive ? "Paused" : "Scheduled"}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {pause.isActive
+                    ? `Reviews resume on ${format(addDays(parseISO(pause.endsOn), 1), "MMM d")}`
+                    : "Your queue freezes on the first day"}
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => endPause.mutate()}
+              disabled={endPause.isPending}
+            >
+              {endPause.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {pause.isActive ? "Resume now" : "Cancel"}
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="pause-starts-on" className="text-sm font-medium">
+                  From
+                </Label>
+                <Input
+                  id="pause-starts-on"
+                  type="date"
+                  min={today}
+                  value={startsOn}
+                  onChange={(e) => setStartsOn(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="pause-ends-on" className="text-sm font-medium">
+                  Until
+                </Label>
+                <Input
+                  id="pause-ends-on"
+                  type="date"
+                  min={startsOn || today}
+                  value={endsOn}
+                  onChange={(e) => setEndsOn(e.target.value)}
+                />
+              </div>
+            </div>
+            {pauseDays > 90 && (
+              <p className="text-xs text-destructive">A pause can last at most 90 days.</p>
+            )}
+            <Button
+              className="w-full"
+              onClick={handleSchedule}
+              disabled={!canSchedule || schedulePause.isPending}
+            >
+              {schedulePause.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {pauseDays > 0 && pauseDays <= 90
+                ? `Pause for ${pauseDays} ${pauseDays === 1 ? "day" : "days"}`
+                : "Schedule pause"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
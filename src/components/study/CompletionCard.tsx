@@ -1,10 +1,13 @@
 import { motion } from 'framer-motion';
-import { Trophy, ArrowRight, Target, RefreshCw, Home } from 'lucide-react';
+import { Trophy, ArrowRight, Target, RefreshCw, Home, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { ProgressRing } from '@/components/ui/primitives';
 import { SessionProgressDots } from './SessionProgressDots';
+import { MathRenderer } from './MathRenderer';
 import { fadeSlideUp, scaleIn, duration, easing, stagger } from '@/lib/motion';
 import { cn } from '@/lib/utils';
+import type { Misconception, MisconceptionStatus } from '@/lib/misconceptions';
 
 interface CompletionSuggestion {
   id: string;
@@ -24,8 +27,16 @@ interface CompletionCardProps {
   variant?: 'plan_complete' | 'session_pause'; // kept for backwards compat but not used
   outcomes?: Record<number, 'correct' | 'incorrect' | 'skipped'>;
   totalQuestions?: number;
+  /** Misconceptions behind the wrong choices picked this session */
+  misconceptions?: Misconception[];
 }
 
+const misconceptionStatusLabels: Record<MisconceptionStatus, string> = {
+  active: 'Still picking it',
+  fading: 'Fading',
+  cleared: 'Cleared',
+};
+
 const suggestionIcons = {
   arrow: ArrowRight,
   target: Target,
@@ -42,6 +53,7 @@ export function CompletionCard({
   variant = 'plan_complete',
   outcomes = {},
   totalQuestions,
+  misconceptions = [],
 }: CompletionCardProps) {
   const accuracy = totalCount > 0 ? Math.round((correctCount / totalCount) * 100) : 0;
   const dotCount = totalQuestions ?? totalCount;
@@ -99,6 +111,36 @@ export function CompletionCard({
         <p className="text-muted-foreground">{subtitle}</p>
       </motion.div>
 
+      {/* Misconceptions picked this session */}
+      {misconceptions.length > 0 && (
+        <motion.div
+          {...fadeSlideUp}
+          transition={{ duration: duration.normal, ease: easing.easeOut, delay: 0.25 }}
+          className="w-full p-4 rounded-lg bg-amber-500/5 border border-amber-500/20 space-y-3 text-left"
+        >
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+            <h4 className="text-sm font-semibold">Misconceptions to watch</h4>
+          </div>
+          <ul className="space-y-2">
+            {misconceptions.map((misconception) => (
+              <li key={misconception.key} className="text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <MathRenderer content={misconception.diagnosis} />
+                  <Badge variant="outline" className="shrink-0 text-xs font-normal">
+                    {misconceptionStatusLabels[misconception.status]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Picked {misconception.timesSelected} time{misconception.timesSelected === 1 ? '' : 's'}
+                  {misconception.fix && <> · <MathRenderer content={misconception.fix} /></>}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </motion.div>
+      )}
+
       {/* Suggestions */}
       {suggestions.length > 0 && (
         <motion.div
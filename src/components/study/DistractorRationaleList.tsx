@@ -0,0 +1,34 @@
+import { AlertTriangle } from "lucide-react";
+import { MathRenderer } from "./MathRenderer";
+import type { DistractorRationale } from "@/types/study";
+
+interface DistractorRationaleListProps {
+  rationales: DistractorRationale[];
+}
+
+/** Every wrong choice with the misconception behind it, shown up front in leech repair */
+export function DistractorRationaleList({ rationales }: DistractorRationaleListProps) {
+  if (rationales.length === 0) return null;
+
+  return (
+    <div className="p-4 rounded-lg bg-amber-500/5 border border-amber-500/20 space-y-3">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+        <h4 className="text-sm font-semibold">Common traps</h4>
+      </div>
+      <ul className="space-y-2">
+        {rationales.map((rationale) => (
+          <li key={rationale.id} className="text-sm">
+            <span className="font-medium">{rationale.id}: </span>
+            <MathRenderer content={rationale.diagnosis || rationale.misconception} />
+            {rationale.fix && (
+              <p className="text-xs text-muted-foreground mt-0.5">
+                <MathRenderer content={rationale.fix} />
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+import { parseExpression, toLatex } from "@/lib/answer-grading";
+import { MathRenderer } from "./MathRenderer";
+
+interface ExpressionPreviewProps {
+  input: string;
+}
+
+/** Live KaTeX rendering of how a typed expression was read, e.g. "2xcos(x^2)" → 2x cos(x²) */
+export function ExpressionPreview({ input }: ExpressionPreviewProps) {
+  const latex = useMemo(() => {
+    if (!input.trim()) return null;
+    const tree = parseExpression(input);
+    return tree ? toLatex(tree) : null;
+  }, [input]);
+
+  if (!input.trim()) return null;
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-2 rounded-lg bg-muted/50 border text-sm min-h-[2.5rem]">
+      <span className="text-xs text-muted-foreground shrink-0">Preview</span>
+      {latex ? (
+        <MathRenderer content={`$${latex}$`} />
+      ) : (
+        <span className="text-muted-foreground">Can't read this as an expression yet</span>
+      )}
+    </div>
+  );
+}
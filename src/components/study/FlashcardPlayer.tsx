@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Rating, type Grade } from "ts-fsrs";
+import { Eye, Layers, Quote } from "lucide-react";
+import { StudyQuestion } from "@/types/study";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { MathRenderer } from "./MathRenderer";
+import { FsrsRatingButtons } from "./FsrsRatingButtons";
+import { ConfidenceTaps } from "./ConfidenceTaps";
+import { WhySelectedChip } from "./WhySelectedChip";
+import { QuestionNoteToggles, QuestionNoteEditor } from "./QuestionNotePanel";
+import { ReportProblemDialog } from "./ReportProblemDialog";
+import { useReducedMotion } from "@/hooks/use-reduced-motion";
+import { duration, easing } from "@/lib/motion";
+
+interface FlashcardPlayerProps {
+  question: StudyQuestion;
+  questionNumber: number;
+  totalQuestions?: number;
+  /** Same result shape as QuestionPlayer */
+  onComplete: (result: {
+    isCorrect: boolean;
+    confidence: number | null;
+    hintsUsed: boolean;
+    guideUsed: boolean;
+    skipped: boolean;
+    selectedChoiceId: string | null;
+    /** Set in "buttons" rating mode */
+    rating?: Grade;
+  }) => void;
+  /**
+   * "buttons" rates recall with the four FSRS rating buttons; "confidence" asks whether
+   * it was remembered and how confidently, and the rating is derived from that
+   */
+  ratingMode?: 'confidence' | 'buttons';
+}
+
+const KIND_LABELS = {
+  definition: "Definition",
+  formula: "Formula",
+  cloze: "Fill the blank",
+};
+
+/** Flashcard (question_format 'flashcard'): front, reveal, then rate recall for FSRS */
+export function FlashcardPlayer({
+  question,
+  questionNumber,
+  totalQuestions,
+  onComplete,
+  ratingMode = 'confidence',
+}: FlashcardPlayerProps) {
+  const [revealed, setRevealed] = useState(false);
+  const prefersReducedMotion = useReducedMotion();
+  const card = question.flashcard;
+  const front = card?.front ?? question.prompt;
+  const back = card?.back ?? question.fullSolution ?? "";
+
+  const handleRate = (rating: Grade) => {
+    onComplete({
+      isCorrect: rating !== Rating.Again,
+      confidence: null,
+      hintsUsed: false,
+      guideUsed: false,
+      skipped: false,
+      selectedChoiceId: null,
+      rating,
+    });
+  };
+
+  // Confidence mode: a confidence tap means it was remembered
+  const handleRecall = (remembered: boolean, confidence: number | null) => {
+    onComplete({
+      isCorrect: remembered,
+      confidence,
+      hintsUsed: false,
+      guideUsed: false,
+      skipped: false,
+      selectedChoiceId: null,
+    });
+  };
+
+  const content = (
+    <div className="space-y-6 max-w-3xl mx-auto">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Badge variant="secondary" className="gap-1 text-xs">
+          <Layers className="h-3 w-3" />
+          {card ? KIND_LABELS[card.kind] : "Flashcard"}
+        </Badge>
+        <Badge variant="outline" className="text-xs">
+          {question.topicNames[0] || "General"}
+        </Badge>
+        {question.whySelected && <WhySelectedChip reason={question.whySelected} />}
+        <div className="ml-auto flex items-center">
+          <QuestionNoteToggles questionId={question.id} />
+          <ReportProblemDialog questionId={question.id} />
+          <span className="text-sm text-muted-foreground ml-1">
+            {totalQuestions ? `Q${questionNumber} / ${totalQuestions}` : `#${questionNumber}`}
+          </span>
+        </div>
+      </div>
+
+      <div className="rounded-xl border bg-card p-6 text-lg">
+        <MathRenderer content={front} />
+      </div>
+
+      {!revealed ? (
+        <Button size="lg" className="w-full gap-2" onClick={() => setRevealed(true)}>
+          <Eye className="h-4 w-4" />
+          Show answer
+        </Button>
+      ) : (
+        <div className="space-y-4">
+          <div className="rounded-xl border border-primary/30 bg-primary/5 p-6">
+            <MathRenderer content={back} />
+          </div>
+          {card?.evidence && (
+            <div className="flex items-start gap-2 text-xs text-muted-foreground">
+              <Quote className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+              <span className="italic">{card.evidence}</span>
+            </div>
+          )}
+          <QuestionNoteEditor key={question.id} questionId={question.id} />
+          {ratingMode === 'buttons' ? (
+            <FsrsRatingButtons
+              questionId={question.id}
+              coursePackId={question.coursePackId}
+              isCorrect={true}
+              suggestedRating={Rating.Good}
+              onRate={handleRate}
+            />
+          ) : (
+            <div className="space-y-4">
+              <ConfidenceTaps selectedConfidence={null} onSelect={(level) => handleRecall(true, level)} />
+              <Button variant="outline" className="w-full" onClick={() => handleRecall(false, null)}>
+                Didn't remember it
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  if (prefersReducedMotion) {
+    return <div key={question.id}>{content}</div>;
+  }
+
+  return (
+    <motion.div
+      key={question.id}
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -20 }}
+      transition={{ duration: duration.normal, ease: easing.easeOut }}
+    >
+      {content}
+    </motion.div>
+  );
+}
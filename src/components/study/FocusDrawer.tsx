@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, ChevronRight, Check, Star, Calendar, Target, RefreshCw, BookOpen } from 'lucide-react';
+import { X, ChevronRight, Check, Star, Calendar, Target, RefreshCw, AlertTriangle, Bookmark, BookOpen } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
@@ -29,6 +29,8 @@ import {
   useQuestionTypesForCourses,
 } from '@/hooks/use-focus';
 import { useRecommendedPresets } from '@/hooks/use-study-recommendations';
+import { useBookmarkedPreset } from '@/hooks/use-question-notes';
+import { useMisconceptionPreset } from '@/hooks/use-misconceptions';
 import { fadeSlideUp, duration, easing } from '@/lib/motion';
 import { getCourseCardColor } from '@/lib/examUtils';
 
@@ -69,6 +71,11 @@ export function FocusDrawer({
   const { data: pastExams = [] } = usePastExamsHierarchy(filters.courseIds);
   const { data: questionTypes = [] } = useQuestionTypesForCourses(filters.courseIds);
   const recommendedPresets = useRecommendedPresets(filters.courseIds);
+  const bookmarkedPreset = useBookmarkedPreset();
+  const misconceptionPreset = useMisconceptionPreset();
+  const presets = [...recommendedPresets, misconceptionPreset, bookmarkedPreset].filter(
+    (preset): preset is FocusPreset => preset !== null
+  );
 
   const [expandedTopicGroups, setExpandedTopicGroups] = useState<number[]>([]);
 
@@ -113,6 +120,8 @@ export function FocusDrawer({
       case 'calendar': return <Calendar className="h-4 w-4" />;
       case 'target': return <Target className="h-4 w-4" />;
       case 'refresh': return <RefreshCw className="h-4 w-4" />;
+      case 'alert': return <AlertTriangle className="h-4 w-4" />;
+      case 'bookmark': return <Bookmark className="h-4 w-4" />;
       default: return <Star className="h-4 w-4" />;
     }
   };
@@ -127,14 +136,14 @@ export function FocusDrawer({
         <ScrollArea className="flex-1">
           <div className="p-4 space-y-6">
             {/* Recommended Presets */}
-            {recommendedPresets.length > 0 && (
+            {presets.length > 0 && (
               <section className="space-y-3">
                 <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider flex items-center gap-1.5">
                   <Star className="h-3.5 w-3.5 text-primary" />
                   Recommended
                 </h3>
                 <div className="space-y-2">
-                  {recommendedPresets.map((preset) => (
+                  {presets.map((preset) => (
                     <Button
                       key={preset.id}
                       variant="outline"
@@ -0,0 +1,88 @@
+import { motion } from "framer-motion";
+import { Rating, type Grade } from "ts-fsrs";
+import { cn } from "@/lib/utils";
+import { formatIntervalLabel } from "@/lib/fsrs";
+import { useRatingPreviews } from "@/hooks/use-study";
+import { useReducedMotion } from "@/hooks/use-reduced-motion";
+import { duration, easing } from "@/lib/motion";
+
+interface FsrsRatingButtonsProps {
+  questionId: string;
+  /** Subpart card of a multi-part question; null = the question's own card */
+  subpartId?: string | null;
+  coursePackId: string | null;
+  isCorrect: boolean;
+  /** Rating the confidence mode would have picked; highlighted as the default */
+  suggestedRating: Rating;
+  disabled?: boolean;
+  onRate: (rating: Grade) => void;
+}
+
+const ratingButtons: Array<{ rating: Grade; label: string; className: string }> = [
+  { rating: Rating.Again, label: "Again", className: "border-red-500/40 text-red-600 dark:text-red-400 hover:bg-red-500/10" },
+  { rating: Rating.Hard, label: "Hard", className: "border-amber-500/40 text-amber-600 dark:text-amber-400 hover:bg-amber-500/10" },
+  { rating: Rating.Good, label: "Good", className: "border-green-500/40 text-green-600 dark:text-green-400 hover:bg-green-500/10" },
+  { rating: Rating.Easy, label: "Easy", className: "border-blue-500/40 text-blue-600 dark:text-blue-400 hover:bg-blue-500/10" },
+];
+
+/** Explicit Again/Hard/Good/Easy rating ("buttons" rating mode) with the next interval for each */
+export function FsrsRatingButtons({
+  questionId,
+  subpartId = null,
+  coursePackId,
+  isCorrect,
+  suggestedRating,
+  disabled,
+  onRate,
+}: FsrsRatingButtonsProps) {
+  const prefersReducedMotion = useReducedMotion();
+  const previews = useRatingPreviews(questionId, coursePackId, subpartId);
+  const now = new Date();
+
+  const content = (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground text-center">
+        How well did you remember it?
+      </p>
+      <div className="grid grid-cols-4 gap-2">
+        {ratingButtons.map((item) => {
+          const preview = previews?.find((p) => p.rating === item.rating);
+          // A wrong answer is always a lapse
+          const isDisabled = disabled || (!isCorrect && item.rating !== Rating.Again);
+          return (
+            <button
+              key={item.rating}
+              onClick={() => onRate(item.rating)}
+              disabled={isDisabled}
+              className={cn(
+                "flex flex-col items-center gap-0.5 rounded-lg border px-2 py-2 transition-all",
+                "disabled:opacity-40 disabled:pointer-events-none",
+                item.className,
+                item.rating === suggestedRating && "ring-2 ring-primary/40"
+              )}
+            >
+              <span className="text-sm font-medium">{item.label}</span>
+              <span className="text-xs text-muted-foreground tabular-nums">
+                {preview ? formatIntervalLabel(now, preview.due) : "…"}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  if (prefersReducedMotion) {
+    return content;
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: duration.normal, ease: easing.easeOut }}
+    >
+      {content}
+    </motion.div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useCallback, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import type { Grade } from "ts-fsrs";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
@@ -10,12 +11,20 @@ import { QuestionImage } from "./QuestionImage";
 import { ChoiceList } from "./ChoiceList";
 import { AnswerFeedback } from "./AnswerFeedback";
 import { ConfidenceTaps } from "./ConfidenceTaps";
+import { FsrsRatingButtons } from "./FsrsRatingButtons";
 import { HintPanel } from "./HintPanel";
 import { GuideMePlayer } from "./GuideMePlayer";
+import { ExpressionPreview } from "./ExpressionPreview";
+import { WorkPhotoInput } from "./WorkPhotoInput";
+import { WorkStepFeedback } from "./WorkStepFeedback";
+import { QuestionNoteToggles, QuestionNoteEditor } from "./QuestionNotePanel";
+import { ReportProblemDialog } from "./ReportProblemDialog";
+import { useUploadWorkPhoto } from "@/hooks/use-work-photos";
 import { useReducedMotion } from "@/hooks/use-reduced-motion";
-import { StudyQuestion, StudySubpart, SubpartResult } from "@/types/study";
+import { AnswerGrade, StudyQuestion, StudySubpart, SubpartResult, deriveFsrsRating, getSubpartId } from "@/types/study";
 import { generateGuideStepsFromSolution, GuideMe } from "@/types/guide";
 import { supabase, invokeEdgeFunction } from "@/lib/supabase";
+import { expectsExpression, gradeSubpartLocally } from "@/lib/answer-grading";
 import { ChevronRight, SkipForward, Lightbulb, Loader2, Compass, ChevronDown, ChevronUp } from "lucide-react";
 
 interface MultiPartQuestionPlayerProps {
@@ -24,6 +33,10 @@ interface MultiPartQuestionPlayerProps {
   totalQuestions?: number;
   onComplete: (results: SubpartResult[]) => void;
   onSimilar: () => void;
+  /** "buttons" replaces each part's confidence taps and Next with the four FSRS rating buttons */
+  ratingMode?: 'confidence' | 'buttons';
+  /** Leech repair: open Guide Me at the start of every part */
+  repairMode?: boolean;
 }
 
 export function MultiPartQuestionPlayer({
@@ -32,12 +45,16 @@ export function MultiPartQuestionPlayer({
   totalQuestions,
   onComplete,
   onSimilar,
+  ratingMode = 'confidence',
+  repairMode = false,
 }: MultiPartQuestionPlayerProps) {
   const prefersReducedMotion = useReducedMotion();
+  const uploadWorkPhoto = useUploadWorkPhoto();
 
   // Normalize subparts - ensure they have required fields
-  const subparts = (question.subparts || []).map((sp, idx) => ({
-    id: sp.id || String.fromCharCode(97 + idx), // 'a', 'b', 'c'...
+  const allSubparts = (question.subparts || []).map((sp, idx) => ({
+    id: getSubpartId(sp, idx), // 'a', 'b', 'c'...
+    label: String.fromCharCode(97 + idx),
     prompt: sp.prompt || `Part ${String.fromCharCode(97 + idx)}`,
     points: sp.points ?? 1,
     correctAnswer: sp.correctAnswer,
@@ -45,8 +62,16 @@ export function MultiPartQuestionPlayer({
     imageUrl: sp.imageUrl,
     modelAnswer: sp.modelAnswer,
     gradingRubric: sp.gradingRubric,
+    answer_spec: sp.answer_spec,
+    grading_spec: sp.grading_spec,
   }));
 
+  // Each subpart is its own SRS card: play only the due ones (with the parent context)
+  const dueSubpartIds = question.dueSubpartIds;
+  const subparts = dueSubpartIds
+    ? allSubparts.filter(sp => dueSubpartIds.includes(sp.id))
+    : allSubparts;
+
   // Debug log
   console.log('[MultiPartQuestionPlayer] Subparts:', {
     count: subparts.length,
@@ -67,22 +92,25 @@ export function MultiPartQuestionPlayer({
   // State for current subpart interaction
   const [selectedChoice, setSelectedChoice] = useState<string | null>(null);
   const [answerText, setAnswerText] = useState("");
+  const [workPhoto, setWorkPhoto] = useState<File | null>(null);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [isGrading, setIsGrading] = useState(false);
   const [gradingFeedback, setGradingFeedback] = useState<string | null>(null);
+  // Step-level feedback on a photo of the work (with its storage path)
+  const [workFeedback, setWorkFeedback] = useState<{ steps: AnswerGrade["steps"]; photoPath?: string } | null>(null);
   const [confidence, setConfidence] = useState<number | null>(null);
   const [hintUsed, setHintUsed] = useState(false);
   const [showHint, setShowHint] = useState(false);
 
   // Per-subpart guide me state
-  const [guideMode, setGuideMode] = useState(false);
+  const [guideMode, setGuideMode] = useState(repairMode);
   const [guideUsed, setGuideUsed] = useState(false);
   const [showExplanation, setShowExplanation] = useState(false);
   const [showKeyTakeaway, setShowKeyTakeaway] = useState(false);
 
   const currentSubpart = subparts[currentPartIndex];
   const isLastPart = currentPartIndex === subparts.length - 1;
-  const partLabel = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'][currentPartIndex] || String(currentPartIndex + 1);
+  const partLabel = currentSubpart?.label ?? String(currentPartIndex + 1);
 
   // Determine if current subpart has its own choices (MCQ) or is free response
   // Subparts are typically free response unless they have explicit choices
@@ -151,28 +179,47 @@ export function MultiPartQuestionPlayer({
         setGuideMode(true);
       }
     } else {
-      // Free response: grade with AI
+      // Free response: grade from the answer spec, with AI only when the spec can't decide.
+      // A photo of the work is always graded by AI, step by step.
       setIsGrading(true);
 
-      try {
-        const { data, error } = await invokeEdgeFunction<{ isCorrect: boolean; score: number; feedback: string }>("grade-answer", {
-          body: {
-            questionPrompt: question.prompt,
-            subpartPrompt: currentSubpart.prompt,
-            studentAnswer: answerText,
-            correctAnswer: currentSubpart.correctAnswer,
-            modelAnswer: currentSubpart.modelAnswer,
-            gradingRubric: currentSubpart.gradingRubric,
-            solutionSteps: currentSubpart.solutionSteps || question.solutionSteps,
-            maxPoints: currentSubpart.points,
-          },
-        });
+      let answerImagePath: string | undefined;
+      if (workPhoto) {
+        try {
+          answerImagePath = await uploadWorkPhoto.mutateAsync({ questionId: question.id, file: workPhoto });
+        } catch {
+          // Toasted by the mutation; keep the answer so the student can retry
+          setIsGrading(false);
+          return;
+        }
+      }
 
-        if (error) throw error;
+      try {
+        let data: AnswerGrade | null = answerImagePath ? null : gradeSubpartLocally(currentSubpart, answerText);
+        if (!data) {
+          const response = await invokeEdgeFunction<AnswerGrade>("grade-answer", {
+            body: {
+              questionPrompt: question.prompt,
+              subpartPrompt: currentSubpart.prompt,
+              studentAnswer: answerText,
+              answerImagePath,
+              correctAnswer: currentSubpart.correctAnswer,
+              modelAnswer: currentSubpart.modelAnswer,
+              gradingRubric: currentSubpart.gradingRubric,
+              solutionSteps: currentSubpart.solutionSteps || question.solutionSteps,
+              maxPoints: currentSubpart.points,
+              answerSpec: currentSubpart.answer_spec,
+              gradingSpec: currentSubpart.grading_spec,
+            },
+          });
+          if (response.error) throw response.error;
+          data = response.data;
+        }
 
         const isCorrect = data?.isCorrect ?? false;
         const pointsEarned = data?.score ?? 0;
         setGradingFeedback(data?.feedback ?? null);
+        setWorkFeedback(data?.steps?.length ? { steps: data.steps, photoPath: answerImagePath } : null);
         setIsGrading(false);
         setIsSubmitted(true);
 
@@ -184,6 +231,8 @@ export function MultiPartQuestionPlayer({
           guideUsed,
           skipped: false,
           answerText,
+          answerImagePath,
+          grade: data ?? undefined,
           pointsEarned,
           maxPoints: currentSubpart.points,
         };
@@ -215,6 +264,7 @@ export function MultiPartQuestionPlayer({
           guideUsed: false,
           skipped: false,
           answerText,
+          answerImagePath,
           pointsEarned: 0,
           maxPoints: currentSubpart.points,
         };
@@ -227,7 +277,7 @@ export function MultiPartQuestionPlayer({
         });
       }
     }
-  }, [isMCQ, checkMCQAnswer, currentSubpart, question, confidence, hintUsed, answerText, selectedChoice, currentPartIndex]);
+  }, [isMCQ, checkMCQAnswer, currentSubpart, question, confidence, hintUsed, answerText, workPhoto, uploadWorkPhoto, selectedChoice, currentPartIndex]);
 
   const handleSkip = useCallback(() => {
     const result: SubpartResult = {
@@ -262,17 +312,19 @@ export function MultiPartQuestionPlayer({
     setIsReviewing(false);
     setSelectedChoice(null);
     setAnswerText("");
+    setWorkPhoto(null);
     setIsSubmitted(false);
     setIsGrading(false);
     setGradingFeedback(null);
+    setWorkFeedback(null);
     setConfidence(null);
     setHintUsed(false);
     setShowHint(false);
-    setGuideMode(false);
+    setGuideMode(repairMode);
     setGuideUsed(false);
     setShowExplanation(false);
     setShowKeyTakeaway(false);
-  }, [currentPartIndex]);
+  }, [currentPartIndex, repairMode]);
 
   const goToPart = useCallback((targetIndex: number) => {
     if (targetIndex === currentPartIndex) return;
@@ -286,12 +338,16 @@ export function MultiPartQuestionPlayer({
       setIsSubmitted(true);
       setIsGrading(false);
       setGradingFeedback(null);
+      setWorkPhoto(null);
       setGuideMode(false);
       setShowExplanation(false);
       setShowKeyTakeaway(false);
       const savedResult = partResults.find(r => r.subpartId === subparts[targetIndex]?.id);
       setSelectedChoice(savedResult?.selectedChoiceId ?? null);
       setAnswerText(savedResult?.answerText ?? "");
+      setWorkFeedback(savedResult?.grade?.steps?.length
+        ? { steps: savedResult.grade.steps, photoPath: savedResult.answerImagePath }
+        : null);
       setConfidence(savedResult?.confidence ?? null);
       setHintUsed(savedResult?.hintsUsed ?? false);
       setGuideUsed(savedResult?.guideUsed ?? false);
@@ -300,9 +356,11 @@ export function MultiPartQuestionPlayer({
       setIsReviewing(false);
       setSelectedChoice(null);
       setAnswerText("");
+      setWorkPhoto(null);
       setIsSubmitted(false);
       setIsGrading(false);
       setGradingFeedback(null);
+      setWorkFeedback(null);
       setConfidence(null);
       setHintUsed(false);
       setGuideMode(false);
@@ -325,6 +383,17 @@ export function MultiPartQuestionPlayer({
     }
   }, [isReviewing, isLastPart, partResults, onComplete, advanceToNextPart, goToPart, frontierIndex]);
 
+  // Rating a part records it on the part's result and moves on, like Next
+  const handleRate = useCallback((rating: Grade) => {
+    const rated = partResults.map(r => (r.subpartId === currentSubpart.id ? { ...r, rating } : r));
+    setPartResults(rated);
+    if (isLastPart) {
+      onComplete(rated);
+    } else {
+      advanceToNextPart();
+    }
+  }, [partResults, currentSubpart, isLastPart, onComplete, advanceToNextPart]);
+
   const handleHintToggle = useCallback(() => {
     if (!hintUsed) setHintUsed(true);
     setShowHint(prev => !prev);
@@ -335,6 +404,7 @@ export function MultiPartQuestionPlayer({
     setGuideMode(true);
   }, []);
 
+  // Leech repair opens the guide for the student; that doesn't count as guide use
   const handleGuideComplete = useCallback(() => {
     setGuideMode(false);
   }, []);
@@ -392,17 +462,24 @@ export function MultiPartQuestionPlayer({
             {question.questionType}
           </Badge>
           <Badge variant="outline" className="text-xs font-medium">
-            Part {partLabel} of {subparts.length}
+            {dueSubpartIds
+              ? `Part ${partLabel} · ${subparts.length} of ${allSubparts.length} parts due`
+              : `Part ${partLabel} of ${subparts.length}`}
           </Badge>
         </div>
-        <span className="text-sm text-muted-foreground shrink-0 ml-2">
-          {totalQuestions ? `Q${questionNumber} / ${totalQuestions}` : `#${questionNumber}`}
-        </span>
+        <div className="flex items-center shrink-0 ml-2">
+          <QuestionNoteToggles questionId={question.id} />
+          <ReportProblemDialog questionId={question.id} subpartId={currentSubpart?.id ?? null} />
+          <span className="text-sm text-muted-foreground ml-1">
+            {totalQuestions ? `Q${questionNumber} / ${totalQuestions}` : `#${questionNumber}`}
+          </span>
+        </div>
       </div>
 
       {/* Subpart progress indicator — clickable */}
       <SubpartProgress
         totalParts={subparts.length}
+        labels={subparts.map(sp => sp.label)}
         currentPartIndex={currentPartIndex}
         completedParts={completedParts}
         frontierIndex={frontierIndex}
@@ -479,20 +556,24 @@ export function MultiPartQuestionPlayer({
                     onSelect={setSelectedChoice}
                   />
                 ) : (
-                  /* For free response - show text area */
-                  <Textarea
-                    placeholder="Type your answer here..."
-                    value={answerText}
-                    onChange={(e) => setAnswerText(e.target.value)}
-                    className="min-h-[100px] text-base"
-                  />
+                  /* For free response - show text area (with a preview of math answers) */
+                  <div className="space-y-2">
+                    <Textarea
+                      placeholder="Type your answer here..."
+                      value={answerText}
+                      onChange={(e) => setAnswerText(e.target.value)}
+                      className="min-h-[100px] text-base"
+                    />
+                    {expectsExpression(currentSubpart) && <ExpressionPreview input={answerText} />}
+                    <WorkPhotoInput photo={workPhoto} onChange={setWorkPhoto} />
+                  </div>
                 )}
 
                 {/* Action buttons */}
                 <div className="flex items-center gap-3">
                   <Button
                     onClick={handleSubmit}
-                    disabled={isMCQ ? !selectedChoice : !answerText.trim()}
+                    disabled={isMCQ ? !selectedChoice : !answerText.trim() && !workPhoto}
                     className="flex-1"
                   >
                     Submit Part {partLabel.toUpperCase()}
@@ -549,6 +630,11 @@ export function MultiPartQuestionPlayer({
                   </div>
                 )}
 
+                {/* Step-level feedback on a photo of the work */}
+                {workFeedback?.steps && (
+                  <WorkStepFeedback steps={workFeedback.steps} photoPath={workFeedback.photoPath} />
+                )}
+
                 {/* Per-subpart Explanation (collapsible) */}
                 {(currentSubpart as StudySubpart).explanation && (
                   <div className="rounded-lg border bg-card">
@@ -576,6 +662,9 @@ export function MultiPartQuestionPlayer({
                   </div>
                 )}
 
+                {/* The student's own note on the question, back whenever it comes up */}
+                <QuestionNoteEditor key={question.id} questionId={question.id} />
+
                 {/* Guide Me button (post-submission) */}
                 {subpartGuideSteps && !guideUsed && (
                   <Button
@@ -588,25 +677,44 @@ export function MultiPartQuestionPlayer({
                   </Button>
                 )}
 
-                {/* Confidence taps */}
-                <ConfidenceTaps
-                  selectedConfidence={confidence}
-                  onSelect={setConfidence}
-                />
+                {ratingMode === 'buttons' && !isReviewing ? (
+                  /* Rating buttons — rating also moves on to the next part */
+                  <FsrsRatingButtons
+                    questionId={question.id}
+                    subpartId={currentSubpart.id}
+                    coursePackId={question.coursePackId}
+                    isCorrect={partResults[currentPartIndex]?.isCorrect ?? false}
+                    suggestedRating={deriveFsrsRating(partResults[currentPartIndex]?.isCorrect ?? false, null, {
+                      hintUsed,
+                      guideUsed,
+                    })}
+                    onRate={handleRate}
+                  />
+                ) : (
+                  <>
+                    {/* Confidence taps */}
+                    {ratingMode === 'confidence' && (
+                      <ConfidenceTaps
+                        selectedConfidence={confidence}
+                        onSelect={setConfidence}
+                      />
+                    )}
 
-                {/* Next button */}
-                <Button
-                  onClick={handleNext}
-                  className="w-full"
-                >
-                  {isReviewing
-                    ? `Back to Part ${['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'][frontierIndex] || frontierIndex + 1}`
-                    : isLastPart
-                      ? "Complete Question"
-                      : `Next: Part ${['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'][currentPartIndex + 1] || currentPartIndex + 2}`
-                  }
-                  <ChevronRight className="ml-2 h-4 w-4" />
-                </Button>
+                    {/* Next button */}
+                    <Button
+                      onClick={handleNext}
+                      className="w-full"
+                    >
+                      {isReviewing
+                        ? `Back to Part ${subparts[frontierIndex]?.label ?? frontierIndex + 1}`
+                        : isLastPart
+                          ? "Complete Question"
+                          : `Next: Part ${subparts[currentPartIndex + 1]?.label ?? currentPartIndex + 2}`
+                      }
+                      <ChevronRight className="ml-2 h-4 w-4" />
+                    </Button>
+                  </>
+                )}
               </div>
             )}
           </motion.div>
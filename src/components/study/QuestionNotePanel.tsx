@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Bookmark, HelpCircle, NotebookPen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { useQuestionNote, useSaveQuestionNote } from "@/hooks/use-question-notes";
+
+const MAX_NOTE_LENGTH = 5000;
+
+interface QuestionNoteTogglesProps {
+  questionId: string;
+  className?: string;
+}
+
+/** Bookmark and "confusing" flag, saved per student */
+export function QuestionNoteToggles({ questionId, className }: QuestionNoteTogglesProps) {
+  const note = useQuestionNote(questionId);
+  const saveNote = useSaveQuestionNote();
+  const bookmarked = note?.bookmarked ?? false;
+  const confusing = note?.confusing ?? false;
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={cn("h-8 gap-1.5 text-xs", confusing ? "text-amber-600" : "text-muted-foreground")}
+        aria-pressed={confusing}
+        onClick={() => saveNote.mutate({ questionId, patch: { confusing: !confusing } })}
+      >
+        <HelpCircle className="h-4 w-4" />
+        Confusing
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn("h-8 w-8", bookmarked ? "text-primary" : "text-muted-foreground")}
+        aria-pressed={bookmarked}
+        aria-label={bookmarked ? "Remove bookmark" : "Bookmark question"}
+        onClick={() => saveNote.mutate({ questionId, patch: { bookmarked: !bookmarked } })}
+      >
+        <Bookmark className={cn("h-4 w-4", bookmarked && "fill-current")} />
+      </Button>
+    </div>
+  );
+}
+
+interface QuestionNoteEditorProps {
+  questionId: string;
+}
+
+/** The student's own note next to the solution; an existing note opens with it */
+export function QuestionNoteEditor({ questionId }: QuestionNoteEditorProps) {
+  const note = useQuestionNote(questionId);
+  const saveNote = useSaveQuestionNote();
+  const saved = note?.note ?? '';
+  const [draft, setDraft] = useState(saved);
+  const [open, setOpen] = useState(saved !== '');
+
+  // The notes load after the card on a cold start
+  useEffect(() => {
+    setDraft(saved);
+    if (saved !== '') setOpen(true);
+  }, [saved]);
+
+  if (!open) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="gap-1.5 text-muted-foreground"
+        onClick={() => setOpen(true)}
+      >
+        <NotebookPen className="h-4 w-4" />
+        Add a note
+      </Button>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border bg-card p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <NotebookPen className="h-4 w-4 text-primary" />
+        Your note
+      </div>
+      <Textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        maxLength={MAX_NOTE_LENGTH}
+        placeholder="What tripped you up, a trick to remember, a link…"
+        className="min-h-[80px] text-sm"
+      />
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={draft === saved || saveNote.isPending}
+          onClick={() => saveNote.mutate({ questionId, patch: { note: draft } })}
+        >
+          {saveNote.isPending ? 'Saving…' : 'Save note'}
+        </Button>
+      </div>
+    </div>
+  );
+}
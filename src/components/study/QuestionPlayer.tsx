@@ -1,14 +1,19 @@
 import { useState, useCallback, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { StudyQuestion } from "@/types/study";
+import { StudyQuestion, deriveFsrsRating } from "@/types/study";
+import type { Grade } from "ts-fsrs";
 import { QuestionPrompt } from "./QuestionPrompt";
 import { ChoiceList } from "./ChoiceList";
 import { PlayerControls } from "./PlayerControls";
 import { AnswerFeedback } from "./AnswerFeedback";
 import { ConfidenceTaps } from "./ConfidenceTaps";
+import { FsrsRatingButtons } from "./FsrsRatingButtons";
 import { GuideMePlayer } from "./GuideMePlayer";
+import { DistractorRationaleList } from "./DistractorRationaleList";
 import { QuestionCategoryBadge } from "./QuestionCategoryBadge";
 import { WhySelectedChip } from "./WhySelectedChip";
+import { QuestionNoteToggles, QuestionNoteEditor } from "./QuestionNotePanel";
+import { ReportProblemDialog } from "./ReportProblemDialog";
 import { Button } from "@/components/ui/button";
 import { ArrowRight } from "lucide-react";
 import { useReducedMotion } from "@/hooks/use-reduced-motion";
@@ -26,8 +31,14 @@ interface QuestionPlayerProps {
     guideUsed: boolean;
     skipped: boolean;
     selectedChoiceId: string | null;
+    /** Set in "buttons" rating mode */
+    rating?: Grade;
   }) => void;
   onSimilar: () => void;
+  /** "buttons" replaces the confidence taps and Next with the four FSRS rating buttons */
+  ratingMode?: 'confidence' | 'buttons';
+  /** Leech repair: open Guide Me and list the distractor rationales before answering */
+  repairMode?: boolean;
 }
 
 export function QuestionPlayer({
@@ -36,13 +47,13 @@ export function QuestionPlayer({
   totalQuestions,
   onComplete,
   onSimilar,
+  ratingMode = 'confidence',
+  repairMode = false,
 }: QuestionPlayerProps) {
   const [selectedChoice, setSelectedChoice] = useState<string | null>(null);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [confidence, setConfidence] = useState<number | null>(null);
   const [solutionRevealed, setSolutionRevealed] = useState(false);
-  const [guideUsed, setGuideUsed] = useState(false);
-  const [guideMode, setGuideMode] = useState(false);
   
   const prefersReducedMotion = useReducedMotion();
   const isCorrect = selectedChoice === question.correctChoiceId;
@@ -67,6 +78,11 @@ export function QuestionPlayer({
     return null;
   }, [question.guideMeSteps, question.solutionSteps, question.prompt]);
 
+  // Leech repair starts in Guide Me. Only a guide the student opens counts as used
+  // (it caps the rating at Hard); the one opened for them doesn't.
+  const [guideUsed, setGuideUsed] = useState(false);
+  const [guideMode, setGuideMode] = useState(repairMode && guideSteps !== null);
+
   const handleSubmit = useCallback(() => {
     if (selectedChoice) {
       setIsSubmitted(true);
@@ -100,6 +116,18 @@ export function QuestionPlayer({
     });
   }, [isCorrect, confidence, guideUsed, selectedChoice, onComplete]);
 
+  const handleRate = useCallback((rating: Grade) => {
+    onComplete({
+      isCorrect,
+      confidence: null,
+      hintsUsed: false,
+      guideUsed,
+      skipped: false,
+      selectedChoiceId: selectedChoice,
+      rating,
+    });
+  }, [isCorrect, guideUsed, selectedChoice, onComplete]);
+
   const handleGuideMe = useCallback(() => {
     setGuideUsed(true);
     setGuideMode(true);
@@ -144,17 +172,19 @@ export function QuestionPlayer({
 
   const questionContent = (
     <div className="space-y-6 max-w-3xl mx-auto">
-      {/* Category badge and why selected */}
-      {(question.category || question.whySelected) && (
-        <div className="flex items-center gap-2 flex-wrap">
-          {question.category && (
-            <QuestionCategoryBadge category={question.category} />
-          )}
-          {question.whySelected && (
-            <WhySelectedChip reason={question.whySelected} />
-          )}
+      {/* Category badge, why selected, bookmark, flag and report */}
+      <div className="flex items-center gap-2 flex-wrap">
+        {question.category && (
+          <QuestionCategoryBadge category={question.category} />
+        )}
+        {question.whySelected && (
+          <WhySelectedChip reason={question.whySelected} />
+        )}
+        <div className="ml-auto flex items-center">
+          <QuestionNoteToggles questionId={question.id} />
+          <ReportProblemDialog questionId={question.id} />
         </div>
-      )}
+      </div>
 
       {/* Question prompt */}
       <QuestionPrompt
@@ -167,6 +197,11 @@ export function QuestionPlayer({
         courseName={question.courseName}
       />
 
+      {/* Leech repair: the traps behind each wrong choice, before answering */}
+      {repairMode && !isSubmitted && question.distractorRationales && (
+        <DistractorRationaleList rationales={question.distractorRationales} />
+      )}
+
       {/* Choices */}
       {question.choices && (
         <ChoiceList
@@ -194,18 +229,38 @@ export function QuestionPlayer({
         )}
       </AnimatePresence>
 
-      {/* Next button — primary action, immediately after feedback */}
-      {isSubmitted && (
-        <Button size="lg" className="w-full gap-2" onClick={handleNext}>
-          Next Question
-          <ArrowRight className="h-4 w-4" />
-        </Button>
-      )}
+      {/* The student's own note, back whenever this card comes up */}
+      {isSubmitted && <QuestionNoteEditor key={question.id} questionId={question.id} />}
 
-      {/* Confidence taps */}
-      <AnimatePresence>
-        {isSubmitted && <ConfidenceTaps selectedConfidence={confidence} onSelect={setConfidence} />}
-      </AnimatePresence>
+      {ratingMode === 'buttons' ? (
+        /* Rating buttons — rating also moves on to the next question */
+        <AnimatePresence>
+          {isSubmitted && (
+            <FsrsRatingButtons
+              questionId={question.id}
+              coursePackId={question.coursePackId}
+              isCorrect={isCorrect}
+              suggestedRating={deriveFsrsRating(isCorrect, null, { guideUsed })}
+              onRate={handleRate}
+            />
+          )}
+        </AnimatePresence>
+      ) : (
+        <>
+          {/* Next button — primary action, immediately after feedback */}
+          {isSubmitted && (
+            <Button size="lg" className="w-full gap-2" onClick={handleNext}>
+              Next Question
+              <ArrowRight className="h-4 w-4" />
+            </Button>
+          )}
+
+          {/* Confidence taps */}
+          <AnimatePresence>
+            {isSubmitted && <ConfidenceTaps selectedConfidence={confidence} onSelect={setConfidence} />}
+          </AnimatePresence>
+        </>
+      )}
 
       {/* Controls */}
       <PlayerControls
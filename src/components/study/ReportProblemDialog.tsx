@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Flag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { useReportQuestion } from "@/hooks/use-question-reports";
+import { REPORT_CATEGORIES, type ReportCategory } from "@/lib/question-reports";
+
+interface ReportProblemDialogProps {
+  questionId: string;
+  /** Part being shown in a multi-part question */
+  subpartId?: string | null;
+}
+
+/** "Report a problem" on a question: wrong key, ambiguous, rendering, typo, other */
+export function ReportProblemDialog({ questionId, subpartId = null }: ReportProblemDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [category, setCategory] = useState<ReportCategory | null>(null);
+  const [details, setDetails] = useState('');
+  const reportQuestion = useReportQuestion();
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setCategory(null);
+      setDetails('');
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!category) return;
+    reportQuestion.mutate(
+      { questionId, subpartId, category, details },
+      { onSuccess: () => handleOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground"
+          aria-label="Report a problem"
+        >
+          <Flag className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report a problem</DialogTitle>
+          <DialogDescription>What's wrong with this question?</DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={category ?? ''} onValueChange={(v) => setCategory(v as ReportCategory)}>
+          <div className="space-y-2">
+            {REPORT_CATEGORIES.map((option) => (
+              <label
+                key={option.value}
+                className={cn(
+                  "flex items-start gap-3 p-2 rounded-lg cursor-pointer transition-colors",
+                  category === option.value ? "bg-primary/10" : "hover:bg-accent/50"
+                )}
+              >
+                <RadioGroupItem value={option.value} className="mt-0.5" />
+                <div>
+                  <span className="text-sm font-medium">{option.label}</span>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+        </RadioGroup>
+
+        <Textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          maxLength={1000}
+          placeholder={category === 'wrong_key' ? "What should the answer be?" : "Details (optional)"}
+          className="min-h-[80px] text-sm"
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!category || reportQuestion.isPending} onClick={handleSubmit}>
+            {reportQuestion.isPending ? 'Sending…' : 'Send report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,8 @@ import { cn } from "@/lib/utils";
 
 interface SubpartProgressProps {
   totalParts: number;
+  /** Label per part; defaults to a, b, c… */
+  labels?: string[];
   currentPartIndex: number;
   completedParts: boolean[];
   frontierIndex?: number;
@@ -11,6 +13,7 @@ interface SubpartProgressProps {
 
 export function SubpartProgress({
   totalParts,
+  labels,
   currentPartIndex,
   completedParts,
   frontierIndex = 0,
@@ -24,7 +27,7 @@ export function SubpartProgress({
         const isCompleted = completedParts[index];
         const isCurrent = index === currentPartIndex;
         const isNavigable = onPartSelect && (isCompleted || isCurrent || index <= frontierIndex);
-        const label = partLabels[index] || String(index + 1);
+        const label = labels?.[index] || partLabels[index] || String(index + 1);
 
         return (
           <button
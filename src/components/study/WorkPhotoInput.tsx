@@ -0,0 +1,80 @@
+import { useEffect, useRef, useState } from "react";
+import { Camera, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface WorkPhotoInputProps {
+  photo: File | null;
+  onChange: (photo: File | null) => void;
+  disabled?: boolean;
+}
+
+/** Attach a photo of handwritten work (opens the camera on phones) */
+export function WorkPhotoInput({ photo, onChange, disabled }: WorkPhotoInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!photo) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(photo);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo]);
+
+  return (
+    <div className="flex items-center gap-3">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={(e) => {
+          onChange(e.target.files?.[0] ?? null);
+          // Picking the same file again should still fire onChange
+          e.target.value = "";
+        }}
+      />
+
+      {photo && previewUrl ? (
+        <div className="relative">
+          <img
+            src={previewUrl}
+            alt="Photo of your work"
+            className="h-20 w-20 rounded-md border object-cover"
+          />
+          <Button
+            type="button"
+            variant="secondary"
+            size="icon"
+            className="absolute -top-2 -right-2 h-6 w-6 rounded-full"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            title="Remove photo"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+        >
+          <Camera className="mr-2 h-4 w-4" />
+          Add photo of your work
+        </Button>
+      )}
+
+      {photo && (
+        <p className="text-xs text-muted-foreground">
+          Your work will be graded step by step.
+        </p>
+      )}
+    </div>
+  );
+}
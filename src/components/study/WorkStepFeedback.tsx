@@ -0,0 +1,56 @@
+import { CheckCircle2, XCircle, CircleDashed } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useWorkPhotoUrl } from "@/hooks/use-work-photos";
+import { MathRenderer } from "./MathRenderer";
+import type { WorkStep } from "@/types/study";
+
+interface WorkStepFeedbackProps {
+  steps: WorkStep[];
+  /** answer-images storage path of the graded photo */
+  photoPath?: string;
+}
+
+const STATUS_ICON = {
+  correct: <CheckCircle2 className="h-4 w-4 text-success shrink-0 mt-0.5" />,
+  error: <XCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />,
+  missing: <CircleDashed className="h-4 w-4 text-amber-500 shrink-0 mt-0.5" />,
+};
+
+/** Step-by-step verdict on a photo of the work, with the photo for reference */
+export function WorkStepFeedback({ steps, photoPath }: WorkStepFeedbackProps) {
+  const { data: photoUrl } = useWorkPhotoUrl(photoPath);
+
+  return (
+    <div className="rounded-lg border bg-card p-3 space-y-3">
+      <div className="flex items-start gap-3">
+        {photoUrl && (
+          <a href={photoUrl} target="_blank" rel="noreferrer" className="shrink-0">
+            <img src={photoUrl} alt="Your work" className="h-20 w-20 rounded-md border object-cover" />
+          </a>
+        )}
+        <p className="text-sm font-medium">Your work, step by step</p>
+      </div>
+
+      <ol className="space-y-2">
+        {steps.map((step, i) => (
+          <li
+            key={i}
+            className={cn(
+              "flex items-start gap-2 text-sm",
+              step.status === "error" && "rounded-md bg-destructive/5 p-2 -mx-2"
+            )}
+          >
+            {STATUS_ICON[step.status] ?? STATUS_ICON.correct}
+            <div className="min-w-0 space-y-0.5">
+              <MathRenderer content={step.step} className="font-medium" />
+              <p className="text-muted-foreground">
+                {step.status === "missing" ? "Missing: " : ""}
+                {step.comment}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -6,6 +6,10 @@ export interface FocusFilters {
   midtermNumber: number | null;
   topicIds: string[];
   questionTypeId: string | null;
+  bookmarkedOnly: boolean;
+  misconceptionsOnly: boolean;
+  // Exactly these questions, in this order (e.g. re-practising mistakes)
+  questionIds: string[];
 }
 
 export interface FocusPreset {
@@ -14,7 +18,7 @@ export interface FocusPreset {
   description?: string;
   isRecommended?: boolean;
   filters: Partial<FocusFilters>;
-  icon?: 'target' | 'alert' | 'calendar' | 'refresh';
+  icon?: 'target' | 'alert' | 'calendar' | 'refresh' | 'bookmark';
 }
 
 export type NarrowByOption = 'midterm' | 'exam' | 'topics' | 'types' | null;
@@ -25,6 +29,9 @@ const DEFAULT_FILTERS: FocusFilters = {
   midtermNumber: null,
   topicIds: [],
   questionTypeId: null,
+  bookmarkedOnly: false,
+  misconceptionsOnly: false,
+  questionIds: [],
 };
 
 interface FocusContextValue {
@@ -89,6 +96,9 @@ export function FocusProvider({ children }: { children: ReactNode }) {
   const applyPreset = useCallback((preset: FocusPreset) => {
     setFilters(prev => ({
       ...prev,
+      bookmarkedOnly: false,
+      misconceptionsOnly: false,
+      questionIds: [],
       ...preset.filters,
     }));
   }, []);
@@ -104,7 +114,10 @@ export function FocusProvider({ children }: { children: ReactNode }) {
       filters.examNames.length > 0 ||
       filters.midtermNumber !== null ||
       filters.topicIds.length > 0 ||
-      filters.questionTypeId !== null
+      filters.questionTypeId !== null ||
+      filters.bookmarkedOnly ||
+      filters.misconceptionsOnly ||
+      filters.questionIds.length > 0
     );
   }, [filters]);
 
@@ -115,6 +128,9 @@ export function FocusProvider({ children }: { children: ReactNode }) {
     if (filters.midtermNumber !== null) count++;
     if (filters.topicIds.length > 0) count++;
     if (filters.questionTypeId !== null) count++;
+    if (filters.bookmarkedOnly) count++;
+    if (filters.misconceptionsOnly) count++;
+    if (filters.questionIds.length > 0) count++;
     return count;
   }, [filters]);
 
@@ -146,6 +162,18 @@ export function FocusProvider({ children }: { children: ReactNode }) {
     if (filters.questionTypeId) {
       parts.push('1 type');
     }
+
+    if (filters.bookmarkedOnly) {
+      parts.push('Bookmarked');
+    }
+
+    if (filters.misconceptionsOnly) {
+      parts.push('Misconceptions');
+    }
+
+    if (filters.questionIds.length > 0) {
+      parts.push(`${filters.questionIds.length} question${filters.questionIds.length > 1 ? 's' : ''}`);
+    }
     
     return parts.join(' • ') || 'All courses';
   }, [filters, hasActiveFilters]);
@@ -7,6 +7,12 @@ interface SequencerState {
   currentIndex: number;
   insertionCounts: Map<string, number>; // topicId -> insertion count (cap at 2)
   topicStreaks: Map<string, number>;     // topicId -> consecutive correct count
+  previous: PreviousState | null;        // before the last advance (for undo)
+}
+
+interface PreviousState {
+  state: SequencerState;
+  insertedIndices: Set<number>;
 }
 
 type QuestionResult = {
@@ -18,10 +24,17 @@ type QuestionResult = {
 
 const MAX_INSERTIONS_PER_TOPIC = 2;
 
+/** Questions sharing a parent are siblings: one would give the other away */
+function familyOf(question: StudyQuestion): string {
+  return question.familyId ?? question.id;
+}
+
 export function useAdaptiveSequencer(): {
   initQueue: (questions: StudyQuestion[], allTopicIds: string[], excludeIds: string[]) => void;
   currentQuestion: StudyQuestion | null;
   advance: (result: QuestionResult) => void;
+  undo: () => void;
+  canUndo: boolean;
   queue: StudyQuestion[];
   currentIndex: number;
   totalQuestions: number;
@@ -32,6 +45,7 @@ export function useAdaptiveSequencer(): {
     currentIndex: 0,
     insertionCounts: new Map(),
     topicStreaks: new Map(),
+    previous: null,
   });
   const insertedIndicesRef = useRef<Set<number>>(new Set());
   const reservePool = useReservePool();
@@ -46,6 +60,7 @@ export function useAdaptiveSequencer(): {
       currentIndex: 0,
       insertionCounts: new Map(),
       topicStreaks: new Map(),
+      previous: null,
     });
     insertedIndicesRef.current = new Set();
 
@@ -57,8 +72,25 @@ export function useAdaptiveSequencer(): {
     setState(prev => {
       const { queue, currentIndex, insertionCounts, topicStreaks } = prev;
       if (currentIndex >= queue.length) return prev;
+      const previous: PreviousState = {
+        state: { ...prev, previous: null },
+        insertedIndices: new Set(insertedIndicesRef.current),
+      };
+
+      // Rule 0: bury siblings — drop the answered question's family from the rest of the session
+      const answeredFamily = familyOf(queue[currentIndex]);
+      const newQueue = queue.filter((q, i) => i <= currentIndex || familyOf(q) !== answeredFamily);
+      if (newQueue.length < queue.length) {
+        const removed = queue
+          .map((q, i) => (i > currentIndex && familyOf(q) === answeredFamily ? i : -1))
+          .filter((i) => i >= 0);
+        insertedIndicesRef.current = new Set(
+          [...insertedIndicesRef.current]
+            .filter((i) => !removed.includes(i))
+            .map((i) => i - removed.filter((r) => r < i).length)
+        );
+      }
 
-      const newQueue = [...queue];
       const newInsertionCounts = new Map(insertionCounts);
       const newTopicStreaks = new Map(topicStreaks);
       let insertionOffset = 0;
@@ -162,10 +194,21 @@ export function useAdaptiveSequencer(): {
         currentIndex: currentIndex + 1,
         insertionCounts: newInsertionCounts,
         topicStreaks: newTopicStreaks,
+        previous,
       };
     });
   }, [reservePool]);
 
+  // Undo the last advance: the answered question becomes current again and any
+  // reinforcement it inserted is removed (single level)
+  const undo = useCallback((): void => {
+    setState(prev => {
+      if (!prev.previous) return prev;
+      insertedIndicesRef.current = prev.previous.insertedIndices;
+      return prev.previous.state;
+    });
+  }, []);
+
   const isInserted = useCallback((index: number): boolean => {
     return insertedIndicesRef.current.has(index);
   }, []);
@@ -174,6 +217,8 @@ export function useAdaptiveSequencer(): {
     initQueue,
     currentQuestion: state.queue[state.currentIndex] ?? null,
     advance,
+    undo,
+    canUndo: state.previous !== null,
     queue: state.queue,
     currentIndex: state.currentIndex,
     totalQuestions: state.queue.length,
@@ -130,6 +130,43 @@ export function useCoursePackMutations() {
   return { createPack, updatePack, deletePack };
 }
 
+/** Default course_packs.sibling_bury_days */
+export const DEFAULT_SIBLING_BURY_DAYS = 1;
+
+/** Days a question's siblings are deferred after one is reviewed (0 = off) */
+export function useSiblingBuryDays(coursePackId: string | null) {
+  return useQuery({
+    queryKey: ["sibling-bury-days", coursePackId],
+    queryFn: async (): Promise<number> => {
+      const { data, error } = await (supabase.from as CallableFunction)("course_packs")
+        .select("sibling_bury_days")
+        .eq("id", coursePackId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as { sibling_bury_days: number } | null)?.sibling_bury_days ?? DEFAULT_SIBLING_BURY_DAYS;
+    },
+    enabled: !!coursePackId,
+  });
+}
+
+export function useUpdateSiblingBuryDays() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ coursePackId, days }: { coursePackId: string; days: number }) => {
+      const { error } = await (supabase.from as CallableFunction)("course_packs")
+        .update({ sibling_bury_days: days })
+        .eq("id", coursePackId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["sibling-bury-days", variables.coursePackId] });
+    },
+  });
+}
+
 export function useTopicMutations() {
   const queryClient = useQueryClient();
 
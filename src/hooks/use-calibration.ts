@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import { fetchCalibrationStats, buildCalibrationReport, type CalibrationReport } from '@/lib/calibration';
+
+/** The student's confidence calibration in the given courses (empty = all) */
+export function useCalibration(courseIds: string[]) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['calibration', user?.id, courseIds],
+    queryFn: async (): Promise<CalibrationReport> => {
+      const rows = await fetchCalibrationStats(supabase, user!.id, courseIds);
+      return buildCalibrationReport(rows);
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+}
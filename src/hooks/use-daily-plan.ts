@@ -30,6 +30,7 @@ export interface DailyPlanQuestion {
   questionType: string;
   imageUrl: string | null;
   guideMeSteps: any;
+  familyId: string;
   // New fields from build_daily_plan
   category: QuestionCategory;
   whySelected: string;
@@ -96,13 +97,14 @@ export function useDailyPlan(params: UseDailyPlanParams = {}) {
         const questionIds = (planData || []).map((q: any) => q.question_id);
         const { data: fullQuestions } = await supabase
           .from('questions')
-          .select('id, guide_me_steps, image_url')
+          .select('id, guide_me_steps, image_url, parent_question_id')
           .in('id', questionIds);
 
-        const questionExtras = new Map<string, { guide_me_steps: any; image_url: string | null }>();
+        const questionExtras = new Map<string, { guide_me_steps: any; image_url: string | null; parent_question_id: string | null }>();
         fullQuestions?.forEach(q => questionExtras.set(q.id, {
           guide_me_steps: q.guide_me_steps,
-          image_url: q.image_url
+          image_url: q.image_url,
+          parent_question_id: q.parent_question_id,
         }));
 
         // Map plan questions to DailyPlanQuestion format
@@ -125,6 +127,7 @@ export function useDailyPlan(params: UseDailyPlanParams = {}) {
             questionType: 'multiple_choice',
             imageUrl: extras?.image_url || null,
             guideMeSteps: extras?.guide_me_steps || null,
+            familyId: extras?.parent_question_id || q.question_id,
             category: q.category as QuestionCategory,
             whySelected: q.why_selected,
             priorityScore: q.priority_score,
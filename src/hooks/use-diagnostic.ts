@@ -150,21 +150,19 @@ export function useSubmitDiagnostic() {
         mutationFn: async ({ results }: { results: Array<{ topicId: string, isCorrect: boolean }> }) => {
             if (!user) throw new Error("No user");
 
-            // Bulk upsert topic mastery
-            // If correct -> 0.6, If wrong -> 0.2 (arbitrary baselines for getting started)
+            // Mark the topics as assessed (step 2 of useDiagnosticData). Mastery is left to
+            // the FSRS cards (compute_topic_mastery), so no baseline is written here.
             const updates = results.map(r => ({
                 user_id: user.id,
                 topic_id: r.topicId,
-                mastery_0_1: r.isCorrect ? 0.6 : 0.2,
                 questions_attempted: 1,
                 questions_correct: r.isCorrect ? 1 : 0,
             }));
 
-            // We need to upsert. `topic_mastery` has (user_id, topic_id) unique constraint usually?
-            // Let's assume onConflict works.
+            // Topics already practiced keep their counts
             const { error } = await supabase
                 .from('topic_mastery')
-                .upsert(updates, { onConflict: 'user_id, topic_id' });
+                .upsert(updates, { onConflict: 'user_id, topic_id', ignoreDuplicates: true });
 
             if (error) throw error;
         },
@@ -1,6 +1,9 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from "@/lib/supabase";
 import { useAuth } from '@/hooks/use-auth';
+import { fetchTopicMastery } from '@/lib/topic-mastery';
+import { fetchMockExamResults } from '@/hooks/use-mock-exam';
+import { latestMockForExam, readinessWithMock } from '@/lib/mock-exam';
 
 export interface ExamReadiness {
   examId: string;
@@ -12,6 +15,8 @@ export interface ExamReadiness {
   coveragePercent: number;
   avgMastery: number;
   avgRetention: number;
+  /** Latest mock exam for this exam (0-1), or null when none was taken */
+  mockScore: number | null;
   readinessScore: number;
   atRiskTopics: Array<{
     id: string;
@@ -61,15 +66,17 @@ export function useExamReadiness() {
         .from('topics')
         .select('id, title, course_pack_id, midterm_coverage, scheduled_date');
 
-      const { data: masteryData } = await supabase
-        .from('topic_mastery')
-        .select('topic_id, mastery_0_1')
-        .eq('user_id', user.id);
-
+      // FSRS topic mastery / retention; a topic is practiced once any of its cards is
+      const topicMastery = await fetchTopicMastery(supabase, user.id, courseIds);
       const masteryMap = new Map(
-        masteryData?.map(m => [m.topic_id, { mastery: Number(m.mastery_0_1), retention: Number(m.mastery_0_1) }]) || []
+        topicMastery
+          .filter(m => m.cardsReviewed > 0)
+          .map(m => [m.topicId, { mastery: m.mastery, retention: m.retention }])
       );
 
+      // Mock exams, latest first
+      const mockResults = await fetchMockExamResults(user.id, courseIds);
+
       // Build readiness for each exam
       const readinessData: ExamReadiness[] = exams.map(exam => {
         const examDate = exam.event_date ? new Date(exam.event_date) : null;
@@ -116,9 +123,14 @@ export function useExamReadiness() {
           })
           .sort((a, b) => a.retention - b.retention);
 
-        // Calculate readiness score
-        const readinessScore = Math.round(
-          (coveragePercent * 0.4) + (avgMastery * 100 * 0.3) + (avgRetention * 100 * 0.3)
+        // Calculate readiness score; a mock exam of this exam counts as well
+        const mockScore = latestMockForExam(
+          { examId: exam.id, examTitle: exam.title, coursePackId: exam.course_pack_id },
+          mockResults
+        )?.score ?? null;
+        const readinessScore = readinessWithMock(
+          Math.round((coveragePercent * 0.4) + (avgMastery * 100 * 0.3) + (avgRetention * 100 * 0.3)),
+          mockScore
         );
 
         return {
@@ -131,6 +143,7 @@ export function useExamReadiness() {
           coveragePercent,
           avgMastery,
           avgRetention,
+          mockScore,
           readinessScore,
           atRiskTopics,
           topicsInScope: topicsInScope.length,
@@ -10,6 +10,10 @@ export interface FocusFilters {
   midtermNumber: number | null;
   topicIds: string[];
   questionTypeId: string | null;
+  bookmarkedOnly: boolean;
+  misconceptionsOnly: boolean;
+  // Exactly these questions, in this order (e.g. re-practising mistakes)
+  questionIds: string[];
 }
 
 export interface FocusPreset {
@@ -18,7 +22,7 @@ export interface FocusPreset {
   description?: string;
   isRecommended?: boolean;
   filters: Partial<FocusFilters>;
-  icon?: 'target' | 'alert' | 'calendar' | 'refresh';
+  icon?: 'target' | 'alert' | 'calendar' | 'refresh' | 'bookmark';
 }
 
 const DEFAULT_FILTERS: FocusFilters = {
@@ -27,6 +31,9 @@ const DEFAULT_FILTERS: FocusFilters = {
   midtermNumber: null,
   topicIds: [],
   questionTypeId: null,
+  bookmarkedOnly: false,
+  misconceptionsOnly: false,
+  questionIds: [],
 };
 
 export type NarrowByOption = 'midterm' | 'exam' | 'topics' | 'types' | null;
@@ -77,6 +84,9 @@ export function useFocus() {
   const applyPreset = useCallback((preset: FocusPreset) => {
     setFilters(prev => ({
       ...prev,
+      bookmarkedOnly: false,
+      misconceptionsOnly: false,
+      questionIds: [],
       ...preset.filters,
     }));
     setIsDrawerOpen(false);
@@ -93,7 +103,10 @@ export function useFocus() {
       filters.examNames.length > 0 ||
       filters.midtermNumber !== null ||
       filters.topicIds.length > 0 ||
-      filters.questionTypeId !== null
+      filters.questionTypeId !== null ||
+      filters.bookmarkedOnly ||
+      filters.misconceptionsOnly ||
+      filters.questionIds.length > 0
     );
   }, [filters]);
 
@@ -104,6 +117,9 @@ export function useFocus() {
     if (filters.midtermNumber !== null) count++;
     if (filters.topicIds.length > 0) count++;
     if (filters.questionTypeId !== null) count++;
+    if (filters.bookmarkedOnly) count++;
+    if (filters.misconceptionsOnly) count++;
+    if (filters.questionIds.length > 0) count++;
     return count;
   }, [filters]);
 
@@ -138,6 +154,18 @@ export function useFocus() {
       parts.push('1 type');
     }
 
+    if (filters.bookmarkedOnly) {
+      parts.push('Bookmarked');
+    }
+
+    if (filters.misconceptionsOnly) {
+      parts.push('Misconceptions');
+    }
+
+    if (filters.questionIds.length > 0) {
+      parts.push(`${filters.questionIds.length} question${filters.questionIds.length > 1 ? 's' : ''}`);
+    }
+
     return parts.join(' • ') || 'All courses';
   }, [filters, hasActiveFilters]);
 
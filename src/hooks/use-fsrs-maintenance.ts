@@ -1,6 +1,8 @@
 import { useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from './use-auth';
-import { supabase } from "@/lib/supabase";
+import { supabase, invokeEdgeFunction } from "@/lib/supabase";
+import { optimizeFsrsParametersForUser } from '@/hooks/use-fsrs-parameters';
 
 /**
  * Hook that runs FSRS maintenance on app load/reload
@@ -9,9 +11,17 @@ import { supabase } from "@/lib/supabase";
  * 
  * Runs on every page reload. Uses a ref to prevent duplicate calls
  * during the same component mount (e.g., React strict mode)
+ *
+ * Also pulls due dates that fall after an upcoming exam (e.g. one newly added
+ * to the calendar) into the days before it
+ *
+ * When the RPC reports enough new reviews since the last fit, re-fits the
+ * student's personalized FSRS weights (also in the background) and replays
+ * their review log so existing cards are rescheduled with the new weights
  */
 export function useFsrsMaintenance() {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const hasRunRef = useRef(false);
 
   useEffect(() => {
@@ -41,10 +51,55 @@ export function useFsrsMaintenance() {
           console.error('FSRS maintenance error:', error);
         } else {
           console.log('FSRS maintenance completed:', data);
+
+          // Freeze the queue when a study pause starts, close it once it's over
+          const { data: pause, error: pauseError } = await (supabase.rpc as CallableFunction)('apply_study_pause', {
+            p_user_id: user.id,
+          });
+          if (pauseError) {
+            console.error('Study pause error:', pauseError);
+          } else {
+            const { shifted, resumed } = (pause as { shifted?: number; resumed?: boolean } | null) ?? {};
+            if (shifted || resumed) {
+              queryClient.invalidateQueries({ queryKey: ['study-pause'] });
+              queryClient.invalidateQueries({ queryKey: ['srs-state'] });
+              queryClient.invalidateQueries({ queryKey: ['study-dashboard'] });
+              queryClient.invalidateQueries({ queryKey: ['review-forecast'] });
+            }
+          }
+
+          const { data: capped, error: capError } = await (supabase.rpc as CallableFunction)('cap_due_dates_for_exams', {
+            p_user_id: user.id,
+          });
+          if (capError) {
+            console.error('Exam capping error:', capError);
+          } else if ((capped as { capped?: number } | null)?.capped) {
+            queryClient.invalidateQueries({ queryKey: ['progress-stats'] });
+            queryClient.invalidateQueries({ queryKey: ['review-forecast'] });
+          }
+
+          if ((data as { fsrs_parameters_stale?: boolean } | null)?.fsrs_parameters_stale) {
+            const fitted = await optimizeFsrsParametersForUser(user.id);
+            console.log('FSRS parameters re-fitted:', fitted.length);
+            queryClient.invalidateQueries({ queryKey: ['fsrs-parameters'] });
+
+            if (fitted.length > 0) {
+              const { data: replay, error: replayError } = await invokeEdgeFunction('replay-reviews', { body: {} });
+              if (replayError) {
+                console.error('FSRS review replay error:', replayError);
+              } else {
+                console.log('FSRS review log replayed:', replay);
+                queryClient.invalidateQueries({ queryKey: ['srs-state'] });
+                queryClient.invalidateQueries({ queryKey: ['progress-stats'] });
+                queryClient.invalidateQueries({ queryKey: ['review-forecast'] });
+                queryClient.invalidateQueries({ queryKey: ['study-dashboard'] });
+              }
+            }
+          }
         }
       } catch (error) {
         console.error('FSRS maintenance failed:', error);
       }
     })();
-  }, [user]);
+  }, [user, queryClient]);
 }
@@ -0,0 +1,178 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import {
+  optimizeFsrsWeights,
+  MIN_REVIEWS_FOR_OPTIMIZATION,
+  type OptimizerResult,
+  type OptimizerReview,
+} from '@/lib/fsrs-optimizer';
+import type { Grade } from 'ts-fsrs';
+
+/** Row of user_fsrs_parameters */
+export interface FsrsParameterRow {
+  id: string;
+  user_id: string;
+  course_pack_id: string | null;
+  /** null: the last global fit found nothing to fit (default weights) */
+  weights: number[] | null;
+  review_count: number;
+  log_loss: number | null;
+  default_log_loss: number | null;
+  optimized_at: string;
+}
+
+export const fsrsParametersQueryKey = (userId: string | undefined) => ['fsrs-parameters', userId];
+
+const ATTEMPTS_PAGE_SIZE = 1000;
+
+export async function fetchFsrsParameters(userId: string): Promise<FsrsParameterRow[]> {
+  const { data, error } = await (supabase.from as CallableFunction)('user_fsrs_parameters')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    // Table not migrated yet — schedule with default weights
+    if (error.code === '42P01' || error.message?.includes('does not exist')) return [];
+    throw error;
+  }
+  return (data as unknown as FsrsParameterRow[]) || [];
+}
+
+/**
+ * Pick the weights to schedule with: course-specific fit, then global fit, then null (defaults).
+ * A row without weights falls through, as in get_user_fsrs_weights.
+ */
+export function resolveFsrsWeights(
+  rows: FsrsParameterRow[],
+  coursePackId: string | null | undefined
+): number[] | null {
+  const courseRow = coursePackId ? rows.find(r => r.course_pack_id === coursePackId) : undefined;
+  const globalRow = rows.find(r => r.course_pack_id === null);
+  return courseRow?.weights ?? globalRow?.weights ?? null;
+}
+
+/** Fit each review group in a Web Worker; inline where workers are unavailable (tests) */
+function fitReviewGroups(groups: OptimizerReview[][]): Promise<Array<OptimizerResult | null>> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(groups.map((reviews) => optimizeFsrsWeights(reviews)));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../lib/fsrs-optimizer.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<Array<OptimizerResult | null>>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'FSRS optimizer worker failed'));
+    };
+    worker.postMessage(groups);
+  });
+}
+
+/**
+ * Fit FSRS weights from the user's rated attempts and store them.
+ * Fits a global row from all reviews, plus a row per course with enough reviews of its own.
+ * A global fit that finds nothing to fit is still stored (without weights) so
+ * recalculate_fsrs_for_user stops reporting the parameters as stale.
+ * Returns the rows that carry fitted weights.
+ */
+export async function optimizeFsrsParametersForUser(userId: string): Promise<FsrsParameterRow[]> {
+  const reviews: Array<OptimizerReview & { coursePackId: string | null }> = [];
+
+  for (let from = 0; ; from += ATTEMPTS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('attempts')
+      .select('question_id, subpart_id, created_at, fsrs_rating, questions(course_pack_id)')
+      .eq('user_id', userId)
+      .not('fsrs_rating', 'is', null)
+      .order('created_at', { ascending: true })
+      .range(from, from + ATTEMPTS_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    const rows = (data ?? []) as unknown as Array<{
+      question_id: string;
+      subpart_id: string | null;
+      created_at: string;
+      fsrs_rating: number;
+      questions: { course_pack_id: string | null } | null;
+    }>;
+
+    for (const row of rows) {
+      reviews.push({
+        // One card per question / subpart, as in srs_state
+        cardId: `${row.question_id}:${row.subpart_id ?? ''}`,
+        reviewedAt: new Date(row.created_at),
+        rating: row.fsrs_rating as Grade,
+        coursePackId: row.questions?.course_pack_id ?? null,
+      });
+    }
+    if (rows.length < ATTEMPTS_PAGE_SIZE) break;
+  }
+
+  const groups = new Map<string | null, OptimizerReview[]>([[null, reviews]]);
+  for (const review of reviews) {
+    if (!review.coursePackId) continue;
+    const list = groups.get(review.coursePackId) ?? [];
+    list.push(review);
+    groups.set(review.coursePackId, list);
+  }
+
+  const fitGroups = [...groups].filter(([, groupReviews]) => groupReviews.length >= MIN_REVIEWS_FOR_OPTIMIZATION);
+  const results = await fitReviewGroups(fitGroups.map(([, groupReviews]) => groupReviews));
+
+  const optimizedAt = new Date().toISOString();
+  const upserts: Omit<FsrsParameterRow, 'id'>[] = [];
+  fitGroups.forEach(([coursePackId, groupReviews], i) => {
+    const result = results[i];
+    if (!result && coursePackId !== null) return;
+    upserts.push({
+      user_id: userId,
+      course_pack_id: coursePackId,
+      weights: result?.weights ?? null,
+      review_count: result?.reviewCount ?? groupReviews.length,
+      log_loss: result?.logLoss ?? null,
+      default_log_loss: result?.defaultLogLoss ?? null,
+      optimized_at: optimizedAt,
+    });
+  });
+
+  if (upserts.length === 0) return [];
+
+  const { data, error } = await (supabase.from as CallableFunction)('user_fsrs_parameters')
+    .upsert(upserts.map(row => ({ ...row, updated_at: optimizedAt })), {
+      onConflict: 'user_id,course_pack_id',
+    })
+    .select();
+
+  if (error) throw error;
+  return ((data as unknown as FsrsParameterRow[]) || []).filter((row) => row.weights !== null);
+}
+
+export function useFsrsParameters() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: fsrsParametersQueryKey(user?.id),
+    queryFn: () => fetchFsrsParameters(user!.id),
+    enabled: !!user,
+    staleTime: 10 * 60 * 1000, // Weights only change when re-fitted
+  });
+}
+
+export function useOptimizeFsrsParameters() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error('User not authenticated');
+      return optimizeFsrsParametersForUser(user.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['fsrs-parameters'] });
+    },
+  });
+}
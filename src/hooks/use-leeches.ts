@@ -0,0 +1,183 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { StudyQuestion, mapDbQuestionToStudy } from '@/types/study';
+import { Tables } from '@/integrations/supabase/types';
+
+type DbQuestion = Tables<'questions'>;
+type DbTopic = Tables<'topics'>;
+
+/** A card tagged as a leech (srs_state.leech_at, see evaluate_leech) */
+export interface Leech {
+  cardId: string;
+  questionId: string;
+  /** Subpart card of a multi-part question; null = whole question */
+  subpartId: string | null;
+  prompt: string;
+  topicIds: string[];
+  coursePackId: string | null;
+  lapses: number;
+  leechAt: string;
+  isSuspended: boolean;
+}
+
+export interface TopicLeeches {
+  topicId: string | null;
+  topicTitle: string;
+  leeches: Leech[];
+}
+
+/** Leeches per topic (a question under several topics is listed under each), most leeches first */
+export function groupLeechesByTopic(leeches: Leech[], topicTitles: Map<string, string>): TopicLeeches[] {
+  const groups = new Map<string | null, Leech[]>();
+  for (const leech of leeches) {
+    // Topics without a title (e.g. deleted) fall under "Other"
+    const topicIds = new Set(leech.topicIds.map(id => (topicTitles.has(id) ? id : null)));
+    if (topicIds.size === 0) topicIds.add(null);
+    for (const topicId of topicIds) {
+      groups.set(topicId, [...(groups.get(topicId) ?? []), leech]);
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([topicId, items]) => ({
+      topicId,
+      topicTitle: topicId ? topicTitles.get(topicId)! : 'Other',
+      leeches: items,
+    }))
+    .sort((a, b) => b.leeches.length - a.leeches.length || a.topicTitle.localeCompare(b.topicTitle));
+}
+
+interface LeechRow {
+  id: string;
+  question_id: string;
+  subpart_id: string | null;
+  lapses: number;
+  leech_at: string;
+  suspended_at: string | null;
+  questions: { prompt: string; topic_ids: string[]; course_pack_id: string | null };
+}
+
+export function useLeeches(courseIds: string[] = []) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['leeches', user?.id, courseIds],
+    queryFn: async (): Promise<{ leeches: Leech[]; byTopic: TopicLeeches[] }> => {
+      if (!user) return { leeches: [], byTopic: [] };
+
+      let query = (supabase.from as CallableFunction)('srs_state')
+        .select('id, question_id, subpart_id, lapses, leech_at, suspended_at, questions!inner(prompt, topic_ids, course_pack_id)')
+        .eq('user_id', user.id)
+        .not('leech_at', 'is', null)
+        .order('leech_at', { ascending: false });
+      if (courseIds.length > 0) {
+        query = query.in('questions.course_pack_id', courseIds);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const leeches: Leech[] = ((data as LeechRow[] | null) ?? []).map(row => ({
+        cardId: row.id,
+        questionId: row.question_id,
+        subpartId: row.subpart_id,
+        prompt: row.questions.prompt,
+        topicIds: row.questions.topic_ids ?? [],
+        coursePackId: row.questions.course_pack_id,
+        lapses: row.lapses,
+        leechAt: row.leech_at,
+        isSuspended: row.suspended_at !== null,
+      }));
+
+      const topicIds = [...new Set(leeches.flatMap(l => l.topicIds))];
+      const topicTitles = new Map<string, string>();
+      if (topicIds.length > 0) {
+        const { data: topics, error: topicsError } = await supabase
+          .from('topics')
+          .select('id, title')
+          .in('id', topicIds);
+        if (topicsError) throw topicsError;
+        topics?.forEach(t => topicTitles.set(t.id, t.title));
+      }
+
+      return { leeches, byTopic: groupLeechesByTopic(leeches, topicTitles) };
+    },
+    enabled: !!user,
+  });
+}
+
+/**
+ * Questions for the "Fix my leeches" session, suspended ones included. A multi-part
+ * question plays only its leech parts.
+ */
+export function useLeechRepairQuestions(enabled: boolean) {
+  const { user } = useAuth();
+  const { data } = useLeeches();
+
+  return useQuery({
+    queryKey: ['leech-repair-questions', user?.id, data?.leeches.map(l => l.cardId)],
+    queryFn: async (): Promise<StudyQuestion[]> => {
+      const leeches = data?.leeches ?? [];
+      const questionIds = [...new Set(leeches.map(l => l.questionId))];
+      if (questionIds.length === 0) return [];
+
+      const [{ data: questions, error }, { data: topics, error: topicsError }] = await Promise.all([
+        supabase.from('questions').select('*').in('id', questionIds),
+        supabase.from('topics').select('*'),
+      ]);
+      if (error) throw error;
+      if (topicsError) throw topicsError;
+
+      const topicMap = new Map<string, DbTopic>();
+      topics?.forEach(topic => topicMap.set(topic.id, topic));
+
+      const questionById = new Map(((questions as DbQuestion[] | null) ?? []).map(q => [q.id, q]));
+      return questionIds
+        .filter(id => questionById.has(id))
+        .map(id => {
+          const question = mapDbQuestionToStudy(questionById.get(id)!, topicMap);
+          const leechParts = leeches
+            .filter(l => l.questionId === id && l.subpartId !== null)
+            .map(l => l.subpartId as string);
+          return {
+            ...question,
+            dueSubpartIds: leechParts.length > 0 ? leechParts : null,
+            whySelected: 'Leech: keeps slipping',
+          };
+        });
+    },
+    enabled: !!user && enabled && !!data,
+  });
+}
+
+/** Suspend or unsuspend a card (set_card_suspended RPC) */
+export function useSetCardSuspended() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ cardId, suspended }: { cardId: string; suspended: boolean }) => {
+      const { error } = await (supabase.rpc as CallableFunction)('set_card_suspended', {
+        p_card_id: cardId,
+        p_suspended: suspended,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leeches'] });
+      queryClient.invalidateQueries({ queryKey: ['study-questions'] });
+      queryClient.invalidateQueries({ queryKey: ['daily-plan'] });
+      queryClient.invalidateQueries({ queryKey: ['study-dashboard'] });
+    },
+    onError: (error) => {
+      console.error('[useSetCardSuspended] Mutation error:', error);
+      toast({
+        title: "Couldn't update card",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -1,6 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase, invokeEdgeFunction } from "@/lib/supabase";
 import type { CourseMaterial, CourseEdition, MaterialChunk, Objective, MaterialType } from "@/types/materials";
+import { isMaterialAnalysisV4 } from "@/types/materials";
+import type { Flashcard } from "@/types/study";
+import { buildFlashcards } from "@/lib/flashcards";
 
 // =====================================================
 // COURSE EDITIONS
@@ -478,3 +481,83 @@ export function useAnalyzeLecturePdf() {
     },
   });
 }
+
+// =====================================================
+// FLASHCARDS (from V4 chunk analysis)
+// =====================================================
+
+// Exact title match, then either title containing the other (as generate-questions)
+function matchTopicId(topicTitle: string, topicIds: Map<string, string>): string | null {
+  const normalized = topicTitle.toLowerCase().trim();
+  if (topicIds.has(normalized)) return topicIds.get(normalized)!;
+  for (const [title, id] of topicIds) {
+    if (title.includes(normalized) || normalized.includes(title)) return id;
+  }
+  return null;
+}
+
+// Turn a material's V4 definitions and formulas into flashcard questions; cards already
+// generated for the material are skipped. Returns the number of new cards.
+export function useGenerateFlashcards() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (material: Pick<CourseMaterial, "id" | "course_pack_id" | "title" | "analysis_json">) => {
+      if (!isMaterialAnalysisV4(material.analysis_json)) {
+        throw new Error("Flashcards need a V4 analysis of this material");
+      }
+      const drafts = buildFlashcards(material.analysis_json);
+
+      const [{ data: existing, error: existingError }, { data: topics, error: topicsError }] = await Promise.all([
+        (supabase.from as CallableFunction)("questions")
+          .select("flashcard")
+          .eq("source_material_id", material.id)
+          .eq("question_format", "flashcard"),
+        supabase
+          .from("topics")
+          .select("id, title")
+          .eq("course_pack_id", material.course_pack_id),
+      ]);
+      if (existingError) throw existingError;
+      if (topicsError) throw topicsError;
+
+      const existingKeys = new Set(
+        ((existing as Array<{ flashcard: Flashcard | null }> | null) ?? []).map((q) => q.flashcard?.key)
+      );
+      const topicIds = new Map((topics ?? []).map((t) => [t.title.toLowerCase().trim(), t.id]));
+
+      const rows = drafts
+        .filter((d) => !existingKeys.has(d.flashcard.key))
+        .map(({ flashcard, topicTitle }) => {
+          const topicId = topicTitle ? matchTopicId(topicTitle, topicIds) : null;
+          return {
+            prompt: flashcard.front,
+            full_solution: flashcard.back,
+            question_format: "flashcard",
+            flashcard,
+            difficulty: flashcard.kind === "definition" ? 1 : 2,
+            source_exam: `Generated — ${material.title.trim()}`,
+            source_material_id: material.id,
+            course_pack_id: material.course_pack_id,
+            source: "generated",
+            status: "approved",
+            is_published: !!topicId,
+            needs_review: !topicId,
+            needs_review_reason: topicId ? null : `unmapped_topic: ${topicTitle ?? "none"}`,
+            topic_ids: topicId ? [topicId] : [],
+          };
+        });
+
+      if (rows.length > 0) {
+        const { error } = await (supabase.from as CallableFunction)("questions").insert(rows);
+        if (error) throw error;
+      }
+      return rows.length;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["material-question-count"] });
+      queryClient.invalidateQueries({ queryKey: ["questions"] });
+      queryClient.invalidateQueries({ queryKey: ["exams-for-course"] });
+    },
+  });
+}
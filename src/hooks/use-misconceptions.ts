@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import type { FocusPreset } from '@/contexts/FocusContext';
+import { fetchMisconceptionProfile, type Misconception } from '@/lib/misconceptions';
+
+/** The student's misconception profile in the given courses (empty = all) */
+export function useMisconceptionProfile(courseIds: string[] = []) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['misconceptions', user?.id, courseIds],
+    queryFn: (): Promise<Misconception[]> => fetchMisconceptionProfile(supabase, user!.id, courseIds),
+    enabled: !!user,
+  });
+}
+
+/** "Target my misconceptions" focus preset; null while none is left to fix */
+export function useMisconceptionPreset(): FocusPreset | null {
+  const { data } = useMisconceptionProfile();
+  const count = (data ?? []).filter(m => m.status !== 'cleared').length;
+  if (count === 0) return null;
+  return {
+    id: 'misconceptions',
+    label: 'Target my misconceptions',
+    description: `${count} misconception${count === 1 ? '' : 's'} to fix`,
+    icon: 'alert',
+    filters: { misconceptionsOnly: true },
+  };
+}
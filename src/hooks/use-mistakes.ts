@@ -0,0 +1,85 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import {
+  buildMistakeEntries,
+  type CorrectAttemptRow,
+  type MistakeAttemptRow,
+  type MistakeEntry,
+} from '@/lib/mistakes';
+
+/** Most recent wrong attempts read for the notebook */
+const MAX_MISTAKE_ATTEMPTS = 1000;
+/** Questions per correct-attempts request (keeps the `in` filter's URL short) */
+const QUESTION_BATCH_SIZE = 200;
+/** PostgREST's row cap per request */
+const ATTEMPTS_PAGE_SIZE = 1000;
+
+/**
+ * Correct attempts on these questions since `since`, newest first. Paged: a question
+ * answered correctly many times would otherwise push others past the row cap.
+ */
+async function fetchCorrectAttempts(userId: string, questionIds: string[], since: string): Promise<CorrectAttemptRow[]> {
+  const rows: CorrectAttemptRow[] = [];
+  for (let i = 0; i < questionIds.length; i += QUESTION_BATCH_SIZE) {
+    const batch = questionIds.slice(i, i + QUESTION_BATCH_SIZE);
+    for (let from = 0; ; from += ATTEMPTS_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('attempts')
+        .select('question_id, subpart_id, created_at')
+        .eq('user_id', userId)
+        .eq('is_correct', true)
+        .in('question_id', batch)
+        .gt('created_at', since)
+        .order('created_at', { ascending: false })
+        .range(from, from + ATTEMPTS_PAGE_SIZE - 1);
+      if (error) throw error;
+
+      const page = (data as CorrectAttemptRow[] | null) ?? [];
+      rows.push(...page);
+      if (page.length < ATTEMPTS_PAGE_SIZE) break;
+    }
+  }
+  return rows;
+}
+
+/** Wrong answers with their question, grouped per question / subpart, for the Mistakes page */
+export function useMistakes() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['mistakes', user?.id],
+    queryFn: async (): Promise<MistakeEntry[]> => {
+      const { data, error } = await (supabase.from as CallableFunction)('attempts')
+        .select(`id, question_id, subpart_id, selected_choice_id, answer_text, ai_feedback, created_at,
+          questions(prompt, choices, correct_answer, distractor_rationales, subparts, topic_ids, course_pack_id, course_packs(title))`)
+        .eq('user_id', user!.id)
+        .eq('is_correct', false)
+        .order('created_at', { ascending: false })
+        .limit(MAX_MISTAKE_ATTEMPTS);
+      if (error) throw error;
+
+      const wrongAttempts = (data as MistakeAttemptRow[] | null) ?? [];
+      if (wrongAttempts.length === 0) return [];
+
+      // Correct answers since the oldest mistake tell which ones were corrected
+      const oldest = wrongAttempts[wrongAttempts.length - 1].created_at;
+      const questionIds = [...new Set(wrongAttempts.map(a => a.question_id))];
+      const correct = await fetchCorrectAttempts(user!.id, questionIds, oldest);
+
+      const topicIds = [...new Set(wrongAttempts.flatMap(a => a.questions?.topic_ids ?? []))];
+      const topicTitles = new Map<string, string>();
+      if (topicIds.length > 0) {
+        const { data: topics, error: topicsError } = await supabase
+          .from('topics')
+          .select('id, title')
+          .in('id', topicIds);
+        if (topicsError) throw topicsError;
+        topics?.forEach(t => topicTitles.set(t.id, t.title));
+      }
+
+      return buildMistakeEntries(wrongAttempts, correct, topicTitles);
+    },
+    enabled: !!user,
+  });
+}
@@ -0,0 +1,297 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { submitReview } from '@/hooks/use-offline-sync';
+import { StudyQuestion, mapDbQuestionToStudy, deriveFsrsRating } from '@/types/study';
+import { Tables } from '@/integrations/supabase/types';
+import { attemptQueue, submitOrQueue } from '@/lib/offline-queue';
+import {
+  assembleBlueprint,
+  defaultTimeLimitMinutes,
+  examKindOf,
+  isGradableMockQuestion,
+  scoreMockExam,
+  typicalPaperLength,
+  type MockExamScore,
+  type MockExamSource,
+  type ScoreBreakdown,
+} from '@/lib/mock-exam';
+
+type DbQuestion = Tables<'questions'>;
+type DbTopic = Tables<'topics'>;
+
+export type MockExamConfig =
+  | { source: 'past_exam'; coursePackId: string; sourceExam: string; title: string }
+  | { source: 'blueprint'; coursePackId: string; calendarEventId: string; title: string };
+
+export interface MockExamPaper {
+  source: MockExamSource;
+  title: string;
+  coursePackId: string;
+  sourceExam: string | null;
+  calendarEventId: string | null;
+  questions: StudyQuestion[];
+  /** Questions of the past exam left out because they can't be graded on the device */
+  skippedCount: number;
+  timeLimitMinutes: number;
+}
+
+/** Topics the exam covers and their share of the paper, from past papers of the same kind */
+function blueprintWeights(
+  kind: number | null,
+  topics: DbTopic[],
+  pastQuestions: DbQuestion[]
+): Map<string, number> {
+  const pastCounts = new Map<string, number>();
+  pastQuestions.forEach(q => q.topic_ids.forEach(id => pastCounts.set(id, (pastCounts.get(id) ?? 0) + 1)));
+
+  // Midterm: topics covered before it; final: the whole course
+  let scope = kind === null ? topics : topics.filter(t => t.midterm_coverage === kind);
+  if (scope.length === 0) scope = topics.filter(t => pastCounts.has(t.id));
+  if (scope.length === 0) scope = topics;
+
+  const anyPast = scope.some(t => pastCounts.has(t.id));
+  return new Map(scope.map(t => [t.id, anyPast ? pastCounts.get(t.id) ?? 0 : 1]));
+}
+
+/** A paper for the mock exam; assembled once per config (a blueprint is random) */
+export function useMockExamPaper(config: MockExamConfig | null) {
+  return useQuery({
+    queryKey: ['mock-exam-paper', config],
+    queryFn: async (): Promise<MockExamPaper> => {
+      const [{ data: topics, error: topicsError }, { data: rows, error: questionsError }] = await Promise.all([
+        supabase.from('topics').select('*').eq('course_pack_id', config.coursePackId),
+        supabase
+          .from('questions')
+          .select('*, question_types(name)')
+          .eq('course_pack_id', config.coursePackId)
+          .eq('needs_review', false)
+          .order('question_order', { ascending: true, nullsFirst: false }),
+      ]);
+      if (topicsError) throw topicsError;
+      if (questionsError) throw questionsError;
+
+      const topicMap = new Map<string, DbTopic>();
+      topics?.forEach(topic => topicMap.set(topic.id, topic));
+      const questions = (rows || []) as Array<DbQuestion & { question_types: { name: string } | null }>;
+      const toStudy = (q: DbQuestion & { question_types: { name: string } | null }) =>
+        mapDbQuestionToStudy(q, topicMap, q.question_types?.name ?? 'Other');
+
+      if (config.source === 'past_exam') {
+        const paper = questions.filter(q => q.source_exam === config.sourceExam).map(toStudy);
+        const gradable = paper.filter(isGradableMockQuestion);
+        return {
+          source: 'past_exam',
+          title: config.title,
+          coursePackId: config.coursePackId,
+          sourceExam: config.sourceExam,
+          calendarEventId: null,
+          questions: gradable,
+          skippedCount: paper.length - gradable.length,
+          timeLimitMinutes: defaultTimeLimitMinutes(gradable.length),
+        };
+      }
+
+      const kind = examKindOf(config.title);
+      const pastQuestions = questions.filter(q => q.source_exam && examKindOf(q.source_exam) === kind);
+      const paperLengths = new Map<string, number>();
+      pastQuestions.map(toStudy).filter(isGradableMockQuestion).forEach(q => {
+        paperLengths.set(q.sourceExam!, (paperLengths.get(q.sourceExam!) ?? 0) + 1);
+      });
+
+      const blueprint = assembleBlueprint({
+        pool: questions.map(toStudy),
+        topicWeights: blueprintWeights(kind, topics || [], pastQuestions),
+        length: typicalPaperLength([...paperLengths.values()]),
+      });
+      return {
+        source: 'blueprint',
+        title: config.title,
+        coursePackId: config.coursePackId,
+        sourceExam: null,
+        calendarEventId: config.calendarEventId,
+        questions: blueprint,
+        skippedCount: 0,
+        timeLimitMinutes: defaultTimeLimitMinutes(blueprint.length),
+      };
+    },
+    enabled: !!config,
+    // Keep the paper fixed while it is being taken
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/** A submitted mock exam (mock_exam_results) */
+export interface MockExamResult {
+  id: string;
+  coursePackId: string;
+  source: MockExamSource;
+  title: string;
+  sourceExam: string | null;
+  calendarEventId: string | null;
+  questionCount: number;
+  correctCount: number;
+  score: number;
+  timeLimitSeconds: number;
+  timeUsedSeconds: number;
+  byTopic: ScoreBreakdown[];
+  byQuestionType: ScoreBreakdown[];
+  submittedAt: string;
+}
+
+interface MockExamResultRow {
+  id: string;
+  course_pack_id: string;
+  source: MockExamSource;
+  title: string;
+  source_exam: string | null;
+  calendar_event_id: string | null;
+  question_count: number;
+  correct_count: number;
+  score_0_1: number;
+  time_limit_seconds: number;
+  time_used_seconds: number;
+  by_topic: ScoreBreakdown[];
+  by_question_type: ScoreBreakdown[];
+  submitted_at: string;
+}
+
+/** Submitted mock exams, latest first (all courses when `courseIds` is empty) */
+export async function fetchMockExamResults(userId: string, courseIds: string[] = []): Promise<MockExamResult[]> {
+  let query = (supabase.from as CallableFunction)('mock_exam_results')
+    .select('id, course_pack_id, source, title, source_exam, calendar_event_id, question_count, correct_count, score_0_1, time_limit_seconds, time_used_seconds, by_topic, by_question_type, submitted_at')
+    .eq('user_id', userId)
+    .order('submitted_at', { ascending: false })
+    .limit(50);
+  if (courseIds.length > 0) {
+    query = query.in('course_pack_id', courseIds);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return ((data || []) as MockExamResultRow[]).map(row => ({
+    id: row.id,
+    coursePackId: row.course_pack_id,
+    source: row.source,
+    title: row.title,
+    sourceExam: row.source_exam,
+    calendarEventId: row.calendar_event_id,
+    questionCount: row.question_count,
+    correctCount: row.correct_count,
+    score: row.score_0_1,
+    timeLimitSeconds: row.time_limit_seconds,
+    timeUsedSeconds: row.time_used_seconds,
+    byTopic: row.by_topic,
+    byQuestionType: row.by_question_type,
+    submittedAt: row.submitted_at,
+  }));
+}
+
+/** Submitted mock exams, latest first */
+export function useMockExamResults(courseIds: string[] = []) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['mock-exam-results', user?.id, courseIds],
+    queryFn: () => fetchMockExamResults(user!.id, courseIds),
+    enabled: !!user,
+  });
+}
+
+interface SubmitMockExamParams {
+  paper: MockExamPaper;
+  /** Question id -> chosen choice; unanswered questions are graded wrong */
+  answers: Record<string, string | null>;
+  startedAt: Date;
+  timeUsedSeconds: number;
+}
+
+/**
+ * Grade a paper, save its score report and submit every question as a review
+ * (unanswered = Again; queued when offline).
+ */
+export function useSubmitMockExam() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ paper, answers, startedAt, timeUsedSeconds }: SubmitMockExamParams): Promise<MockExamScore> => {
+      if (!user) throw new Error('User not authenticated');
+
+      const score = scoreMockExam(paper.questions, answers);
+
+      // Score report first: if it fails nothing was submitted and the student can retry
+      const { error } = await (supabase.from as CallableFunction)('mock_exam_results').insert({
+        user_id: user.id,
+        course_pack_id: paper.coursePackId,
+        source: paper.source,
+        title: paper.title,
+        source_exam: paper.sourceExam,
+        calendar_event_id: paper.calendarEventId,
+        question_ids: paper.questions.map(q => q.id),
+        time_limit_seconds: paper.timeLimitMinutes * 60,
+        time_used_seconds: timeUsedSeconds,
+        question_count: score.total,
+        answered_count: score.answered,
+        correct_count: score.correct,
+        score_0_1: score.score,
+        by_topic: score.byTopic,
+        by_question_type: score.byQuestionType,
+        started_at: startedAt.toISOString(),
+      });
+      if (error) throw error;
+
+      // Then each answer as a review, in paper order so queued answers replay in order.
+      // A rejected answer is not retried: the report is saved, and a retry would resubmit
+      // the answers that did go through. The student is told how many didn't.
+      let unsaved = 0;
+      for (const q of paper.questions) {
+        const selectedChoiceId = answers[q.id] ?? null;
+        const isCorrect = selectedChoiceId !== null && selectedChoiceId === q.correctChoiceId;
+        try {
+          await submitOrQueue(attemptQueue, user.id, {
+            questionId: q.id,
+            rating: deriveFsrsRating(isCorrect, null),
+            selectedChoiceId,
+            isCorrect,
+            confidence: null,
+            hintUsed: false,
+            guideUsed: false,
+          }, submitReview, navigator.onLine);
+        } catch (error) {
+          console.error('[useSubmitMockExam] Could not save answer:', q.id, error);
+          unsaved++;
+        }
+      }
+
+      if (unsaved > 0) {
+        toast({
+          title: "Some answers weren't saved",
+          description: `${unsaved} of ${paper.questions.length} answers couldn't be added to your reviews. Your score report was saved.`,
+          variant: "destructive",
+        });
+      }
+
+      return score;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['mock-exam-results'] });
+      queryClient.invalidateQueries({ queryKey: ['exam-readiness'] });
+      queryClient.invalidateQueries({ queryKey: ['offline-queue'] });
+      queryClient.invalidateQueries({ queryKey: ['topic-mastery'] });
+      queryClient.invalidateQueries({ queryKey: ['srs-state'] });
+      queryClient.invalidateQueries({ queryKey: ['study-dashboard'] });
+    },
+    onError: (error) => {
+      console.error('[useSubmitMockExam] Mutation error:', error);
+      toast({
+        title: "Failed to submit mock exam",
+        description: "Your answers are still here. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { invokeEdgeFunction } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { attemptQueue, syncAttemptQueue, type SubmitReview } from '@/lib/offline-queue';
+
+/** submit-review edge function call that throws on failure (network failures stay TypeErrors) */
+export const submitReview: SubmitReview = async (body) => {
+  const { error } = await invokeEdgeFunction('submit-review', { body });
+  if (error) throw error;
+};
+
+export function useOnlineStatus(): boolean {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+}
+
+/** Answers waiting on this device for the connection */
+export function useOfflineQueue() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['offline-queue', user?.id],
+    queryFn: () => attemptQueue.list(user!.id),
+    enabled: !!user,
+    // Local only: runs without a connection
+    networkMode: 'always',
+  });
+}
+
+/**
+ * Replays queued answers whenever the app is (back) online. Mount once (AppLayout).
+ */
+export function useOfflineSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const isOnline = useOnlineStatus();
+  const { data: queued } = useOfflineQueue();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncing = useRef(false);
+
+  const pendingCount = queued?.length ?? 0;
+
+  const sync = useCallback(async () => {
+    if (!user || syncing.current) return;
+    syncing.current = true;
+    setIsSyncing(true);
+    try {
+      const result = await syncAttemptQueue(attemptQueue, user.id, submitReview);
+      if (result.synced > 0) {
+        queryClient.invalidateQueries({ queryKey: ['topic-mastery'] });
+        queryClient.invalidateQueries({ queryKey: ['srs-state'] });
+        queryClient.invalidateQueries({ queryKey: ['study-dashboard'] });
+        queryClient.invalidateQueries({ queryKey: ['misconceptions'] });
+        queryClient.invalidateQueries({ queryKey: ['mistakes'] });
+        queryClient.invalidateQueries({ queryKey: ['study-questions'] });
+        toast({
+          title: "Offline answers synced",
+          description: `${result.synced} answer${result.synced > 1 ? 's' : ''} saved to your progress.`,
+        });
+      }
+      if (result.dropped > 0) {
+        toast({
+          title: "Some offline answers couldn't be saved",
+          description: `${result.dropped} answer${result.dropped > 1 ? 's were' : ' was'} rejected by the server.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('[useOfflineSync] Sync error:', error);
+    } finally {
+      syncing.current = false;
+      setIsSyncing(false);
+      queryClient.invalidateQueries({ queryKey: ['offline-queue'] });
+    }
+  }, [user, queryClient, toast]);
+
+  useEffect(() => {
+    if (isOnline && pendingCount > 0) sync();
+  }, [isOnline, pendingCount, sync]);
+
+  return { isOnline, pendingCount, isSyncing, sync };
+}
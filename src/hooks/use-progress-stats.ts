@@ -2,6 +2,7 @@ import { useQuery } from '@tanstack/react-query';
 import { logger } from '@/lib/logger';
 import { supabase } from "@/lib/supabase";
 import { useAuth } from '@/hooks/use-auth';
+import { useRetentionSettings, resolveRetentionSettings } from '@/hooks/use-retention-settings';
 import {
   type TopicProgressRow,
   type ProgressSummary,
@@ -39,6 +40,7 @@ export function useProgressStats(options: UseProgressStatsOptions): ProgressStat
   const { user } = useAuth();
   const { courseIds, timeRange } = options;
   const daysBack = timeRangeToDays(timeRange);
+  const { data: retentionSource } = useRetentionSettings();
 
   // RPC 1: Per-topic stats
   const topicsQuery = useQuery({
@@ -100,6 +102,26 @@ export function useProgressStats(options: UseProgressStatsOptions): ProgressStat
     staleTime: 60_000,
   });
 
+  // Exams in the forecast window (due dates are capped ahead of them)
+  const examsQuery = useQuery({
+    queryKey: ['forecast-exams', courseIds],
+    queryFn: async () => {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const end = format(addDays(new Date(), 13), 'yyyy-MM-dd');
+      const { data, error } = await supabase
+        .from('calendar_events')
+        .select('title, event_date')
+        .in('course_pack_id', courseIds)
+        .in('event_type', ['midterm', 'exam', 'final'])
+        .gte('event_date', today)
+        .lte('event_date', end);
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: courseIds.length > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
   // Client-side: compute R per topic and build summary
   const rawRows = topicsQuery.data ?? [];
 
@@ -109,6 +131,8 @@ export function useProgressStats(options: UseProgressStatsOptions): ProgressStat
         ? projectRetention(row.median_stability, row.median_elapsed_days)
         : null;
 
+    const { desiredRetention } = resolveRetentionSettings(retentionSource, row.course_pack_id);
+
     return {
       topic_id: row.topic_id,
       topic_title: row.topic_title,
@@ -127,7 +151,7 @@ export function useProgressStats(options: UseProgressStatsOptions): ProgressStat
       total_reps: row.total_reps,
       total_lapses: row.total_lapses,
       r_now: rNow,
-      risk: classifyRisk(rNow),
+      risk: classifyRisk(rNow, desiredRetention),
     };
   });
 
@@ -145,13 +169,18 @@ export function useProgressStats(options: UseProgressStatsOptions): ProgressStat
   const totalAttempts = topics.reduce((s, t) => s + t.attempts_count, 0);
   const totalCorrect = topics.reduce((s, t) => s + t.correct_count, 0);
 
+  // Mean target across the selected courses (they may have different overrides)
+  const targetRetention = courseIds.length > 0
+    ? courseIds.reduce((s, id) => s + resolveRetentionSettings(retentionSource, id).desiredRetention, 0) / courseIds.length
+    : resolveRetentionSettings(retentionSource, null).desiredRetention;
+
   const summary: ProgressSummary = {
     totalDueToday,
     atRiskTopicCount,
     globalMedianStability: computeMedian(stabilities),
     globalMedianDifficulty: computeMedian(difficulties),
     observedRecall: totalAttempts > 0 ? totalCorrect / totalAttempts : null,
-    targetRetention: 0.9,
+    targetRetention,
     totalAttempts,
   };
 
@@ -170,6 +199,8 @@ export function useProgressStats(options: UseProgressStatsOptions): ProgressStat
       reviewCount: 0,
       coursePackId: null,
       isOverdue: false,
+      overdueCount: 0,
+      examTitles: [],
     });
   }
 
@@ -179,10 +210,15 @@ export function useProgressStats(options: UseProgressStatsOptions): ProgressStat
     if (existing) {
       existing.reviewCount += row.review_count;
       existing.isOverdue = existing.isOverdue || row.is_overdue;
+      if (row.is_overdue) existing.overdueCount += row.review_count;
       existing.coursePackId = row.course_pack_id;
     }
   }
 
+  for (const exam of examsQuery.data ?? []) {
+    if (exam.event_date) forecastMap.get(exam.event_date)?.examTitles.push(exam.title);
+  }
+
   const forecast = Array.from(forecastMap.values());
 
   return {
@@ -0,0 +1,174 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import type { FocusPreset } from '@/contexts/FocusContext';
+import {
+  isEmptyNote,
+  type QuestionNote,
+  type QuestionNoteEntry,
+  type QuestionNotePatch,
+} from '@/lib/question-notes';
+
+interface QuestionNoteRow {
+  question_id: string;
+  bookmarked: boolean;
+  confusing: boolean;
+  note: string;
+  updated_at: string;
+}
+
+const NOTE_COLUMNS = 'question_id, bookmarked, confusing, note, updated_at';
+
+function rowToNote(row: QuestionNoteRow): QuestionNote {
+  return {
+    questionId: row.question_id,
+    bookmarked: row.bookmarked,
+    confusing: row.confusing,
+    note: row.note,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** The student's bookmarks, flags and notes, by question id */
+export function useQuestionNotes() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['question-notes', user?.id],
+    queryFn: async (): Promise<Record<string, QuestionNote>> => {
+      const { data, error } = await (supabase.from as CallableFunction)('question_notes')
+        .select(NOTE_COLUMNS)
+        .eq('user_id', user!.id);
+      if (error) throw error;
+      return Object.fromEntries(
+        ((data as QuestionNoteRow[] | null) ?? []).map(row => [row.question_id, rowToNote(row)])
+      );
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Bookmark, flag and note on one question; null if none */
+export function useQuestionNote(questionId: string): QuestionNote | null {
+  const { data } = useQuestionNotes();
+  return data?.[questionId] ?? null;
+}
+
+/** Update a question's bookmark, flag or note; an emptied note deletes the row */
+export function useSaveQuestionNote() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = ['question-notes', user?.id];
+
+  return useMutation({
+    mutationFn: async ({ questionId, patch }: { questionId: string; patch: QuestionNotePatch }) => {
+      if (!user) throw new Error('User not authenticated');
+      const current = queryClient.getQueryData<Record<string, QuestionNote>>(queryKey)?.[questionId];
+      const next = { bookmarked: false, confusing: false, note: '', ...current, ...patch };
+
+      if (isEmptyNote(next)) {
+        const { error } = await (supabase.from as CallableFunction)('question_notes')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('question_id', questionId);
+        if (error) throw error;
+        return;
+      }
+
+      const { error } = await (supabase.from as CallableFunction)('question_notes')
+        .upsert({
+          user_id: user.id,
+          question_id: questionId,
+          bookmarked: next.bookmarked,
+          confusing: next.confusing,
+          note: next.note,
+        }, { onConflict: 'user_id,question_id' });
+      if (error) throw error;
+    },
+    // The bookmark toggles instantly; rolled back if saving fails
+    onMutate: async ({ questionId, patch }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<Record<string, QuestionNote>>(queryKey);
+      const current = previous?.[questionId] ?? {
+        questionId, bookmarked: false, confusing: false, note: '', updatedAt: new Date().toISOString(),
+      };
+      const next = { ...current, ...patch, updatedAt: new Date().toISOString() };
+      const notes = { ...previous };
+      if (isEmptyNote(next)) delete notes[questionId];
+      else notes[questionId] = next;
+      queryClient.setQueryData(queryKey, notes);
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      console.error('[useSaveQuestionNote] Mutation error:', error);
+      queryClient.setQueryData(queryKey, context?.previous);
+      toast({
+        title: "Couldn't save",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['question-notes'] });
+      queryClient.invalidateQueries({ queryKey: ['question-note-entries'] });
+    },
+  });
+}
+
+/** Notes with their question, course and topics, for the Notes page */
+export function useQuestionNoteEntries() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['question-note-entries', user?.id],
+    queryFn: async (): Promise<QuestionNoteEntry[]> => {
+      const { data, error } = await (supabase.from as CallableFunction)('question_notes')
+        .select(`${NOTE_COLUMNS}, questions(prompt, topic_ids, course_packs(title))`)
+        .eq('user_id', user!.id)
+        .order('updated_at', { ascending: false });
+      if (error) throw error;
+
+      const rows = (data as Array<QuestionNoteRow & {
+        questions: { prompt: string; topic_ids: string[] | null; course_packs: { title: string } | null } | null;
+      }> | null) ?? [];
+
+      const topicIds = [...new Set(rows.flatMap(r => r.questions?.topic_ids ?? []))];
+      const topicTitles = new Map<string, string>();
+      if (topicIds.length > 0) {
+        const { data: topics, error: topicsError } = await supabase
+          .from('topics')
+          .select('id, title')
+          .in('id', topicIds);
+        if (topicsError) throw topicsError;
+        topics?.forEach(t => topicTitles.set(t.id, t.title));
+      }
+
+      return rows
+        .filter(r => r.questions)
+        .map(r => ({
+          ...rowToNote(r),
+          prompt: r.questions!.prompt,
+          courseTitle: r.questions!.course_packs?.title ?? null,
+          topicNames: (r.questions!.topic_ids ?? []).map(id => topicTitles.get(id)).filter(Boolean) as string[],
+        }));
+    },
+    enabled: !!user,
+  });
+}
+
+/** "Bookmarked" focus preset; null until something is bookmarked */
+export function useBookmarkedPreset(): FocusPreset | null {
+  const { data } = useQuestionNotes();
+  const count = Object.values(data ?? {}).filter(n => n.bookmarked).length;
+  if (count === 0) return null;
+  return {
+    id: 'bookmarked',
+    label: 'Bookmarked',
+    description: `${count} saved question${count === 1 ? '' : 's'}`,
+    icon: 'bookmark',
+    filters: { bookmarkedOnly: true },
+  };
+}
@@ -0,0 +1,147 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  aggregateReports,
+  type QuestionReport,
+  type ReportCategory,
+  type ReportedQuestion,
+  type ReportStatus,
+} from '@/lib/question-reports';
+
+interface ReportParams {
+  questionId: string;
+  subpartId?: string | null;
+  category: ReportCategory;
+  details: string;
+}
+
+/** Report a problem with a question from the player */
+export function useReportQuestion() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ questionId, subpartId = null, category, details }: ReportParams) => {
+      if (!user) throw new Error('User not authenticated');
+      const { error } = await (supabase.from as CallableFunction)('question_reports').insert({
+        question_id: questionId,
+        subpart_id: subpartId,
+        user_id: user.id,
+        category,
+        details: details.trim(),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Report sent',
+        description: "Thanks — we'll take a look at this question.",
+      });
+    },
+    onError: (error) => {
+      console.error('[useReportQuestion] Mutation error:', error);
+      toast({
+        title: "Couldn't send report",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/** A triage row with the question it points to */
+export interface ReportedQuestionRow extends ReportedQuestion {
+  prompt: string;
+  coursePackId: string | null;
+  courseTitle: string | null;
+  sourceExam: string | null;
+  hidden: boolean;
+}
+
+interface ReportRow {
+  id: string;
+  question_id: string;
+  subpart_id: string | null;
+  user_id: string;
+  category: ReportCategory;
+  details: string;
+  status: ReportStatus;
+  created_at: string;
+  questions: {
+    prompt: string;
+    course_pack_id: string | null;
+    source_exam: string | null;
+    reports_hidden_at: string | null;
+    course_packs: { title: string } | null;
+  } | null;
+}
+
+/** Admin triage queue: open reports per question, most reported first */
+export function useOpenQuestionReports() {
+  return useQuery({
+    queryKey: ['question-reports', 'open'],
+    queryFn: async (): Promise<ReportedQuestionRow[]> => {
+      const { data, error } = await (supabase.from as CallableFunction)('question_reports')
+        .select('id, question_id, subpart_id, user_id, category, details, status, created_at, questions(prompt, course_pack_id, source_exam, reports_hidden_at, course_packs(title))')
+        .eq('status', 'open')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+
+      const rows = (data as ReportRow[] | null) ?? [];
+      const questionById = new Map(rows.map(r => [r.question_id, r.questions]));
+      const reports: QuestionReport[] = rows.map(r => ({
+        id: r.id,
+        questionId: r.question_id,
+        subpartId: r.subpart_id,
+        userId: r.user_id,
+        category: r.category,
+        details: r.details,
+        status: r.status,
+        createdAt: r.created_at,
+      }));
+
+      return aggregateReports(reports).map(reported => {
+        const question = questionById.get(reported.questionId);
+        return {
+          ...reported,
+          prompt: question?.prompt ?? '',
+          coursePackId: question?.course_pack_id ?? null,
+          courseTitle: question?.course_packs?.title ?? null,
+          sourceExam: question?.source_exam ?? null,
+          hidden: !!question?.reports_hidden_at,
+        };
+      });
+    },
+  });
+}
+
+/** Close every open report on a question; closing brings a hidden question back */
+export function useCloseQuestionReports() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ questionId, status }: { questionId: string; status: Exclude<ReportStatus, 'open'> }) => {
+      if (!user) throw new Error('User not authenticated');
+      const { error } = await (supabase.from as CallableFunction)('question_reports')
+        .update({ status, resolved_by: user.id, resolved_at: new Date().toISOString() })
+        .eq('question_id', questionId)
+        .eq('status', 'open');
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['question-reports'] });
+    },
+    onError: (error) => {
+      console.error('[useCloseQuestionReports] Mutation error:', error);
+      toast({
+        title: "Couldn't update reports",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,145 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import { DEFAULT_MAXIMUM_INTERVAL, DEFAULT_REQUEST_RETENTION } from '@/lib/fsrs';
+
+/** Effective FSRS retention settings for one course */
+export interface RetentionSettings {
+  desiredRetention: number;
+  maximumInterval: number;
+}
+
+/** User default (user_settings) plus per-enrollment overrides (user_enrollments, NULL = inherit) */
+export interface RetentionSettingsSource {
+  defaults: RetentionSettings;
+  overrides: Array<{
+    course_pack_id: string;
+    desired_retention: number | null;
+    maximum_interval: number | null;
+  }>;
+}
+
+export const RETENTION_MIN = 0.7;
+export const RETENTION_MAX = 0.97;
+
+export const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  desiredRetention: DEFAULT_REQUEST_RETENTION,
+  maximumInterval: DEFAULT_MAXIMUM_INTERVAL,
+};
+
+export const retentionSettingsQueryKey = (userId: string | undefined) => ['retention-settings', userId];
+
+// Columns not migrated yet — schedule with app defaults
+function isMissingColumnError(error: { code?: string; message?: string }): boolean {
+  return error.code === '42703' || !!error.message?.includes('does not exist');
+}
+
+export async function fetchRetentionSettings(userId: string): Promise<RetentionSettingsSource> {
+  const [settingsResult, enrollmentsResult] = await Promise.all([
+    (supabase.from as CallableFunction)('user_settings')
+      .select('desired_retention, maximum_interval')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    (supabase.from as CallableFunction)('user_enrollments')
+      .select('course_pack_id, desired_retention, maximum_interval')
+      .eq('user_id', userId),
+  ]);
+
+  for (const { error } of [settingsResult, enrollmentsResult]) {
+    if (error && !isMissingColumnError(error)) throw error;
+  }
+
+  const settings = settingsResult.error ? null : settingsResult.data as {
+    desired_retention: number | null;
+    maximum_interval: number | null;
+  } | null;
+
+  return {
+    defaults: {
+      desiredRetention: settings?.desired_retention ?? DEFAULT_REQUEST_RETENTION,
+      maximumInterval: settings?.maximum_interval ?? DEFAULT_MAXIMUM_INTERVAL,
+    },
+    overrides: enrollmentsResult.error ? [] : (enrollmentsResult.data ?? []),
+  };
+}
+
+/** Effective settings for a course: enrollment override, then user default (mirrors get_fsrs_settings). */
+export function resolveRetentionSettings(
+  source: RetentionSettingsSource | undefined,
+  coursePackId: string | null | undefined
+): RetentionSettings {
+  if (!source) return DEFAULT_RETENTION_SETTINGS;
+  const override = coursePackId
+    ? source.overrides.find(o => o.course_pack_id === coursePackId)
+    : undefined;
+  return {
+    desiredRetention: override?.desired_retention ?? source.defaults.desiredRetention,
+    maximumInterval: override?.maximum_interval ?? source.defaults.maximumInterval,
+  };
+}
+
+export function useRetentionSettings() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: retentionSettingsQueryKey(user?.id),
+    queryFn: () => fetchRetentionSettings(user!.id),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+interface UpdateRetentionParams {
+  /** null updates the user default; a course id updates that enrollment's override */
+  coursePackId: string | null;
+  /** null clears a course override (inherit the default) */
+  desiredRetention: number | null;
+  maximumInterval: number | null;
+}
+
+export function useUpdateRetentionSettings() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ coursePackId, desiredRetention, maximumInterval }: UpdateRetentionParams) => {
+      if (!user) throw new Error('User not authenticated');
+
+      if (coursePackId) {
+        const { error } = await (supabase.from as CallableFunction)('user_enrollments')
+          .update({ desired_retention: desiredRetention, maximum_interval: maximumInterval })
+          .eq('user_id', user.id)
+          .eq('course_pack_id', coursePackId);
+        if (error) throw error;
+      } else {
+        const { error } = await (supabase.from as CallableFunction)('user_settings')
+          .update({
+            desired_retention: desiredRetention ?? DEFAULT_REQUEST_RETENTION,
+            maximum_interval: maximumInterval ?? DEFAULT_MAXIMUM_INTERVAL,
+          })
+          .eq('user_id', user.id);
+        if (error) throw error;
+      }
+
+      // Re-derive due dates of Review cards so the forecast reflects the new target
+      const { error: rpcError } = await (supabase.rpc as CallableFunction)('apply_retention_settings', {
+        p_user_id: user.id,
+        p_course_id: coursePackId,
+      });
+      if (rpcError) throw rpcError;
+
+      // Longer intervals may now skip past an exam
+      const { error: capError } = await (supabase.rpc as CallableFunction)('cap_due_dates_for_exams', {
+        p_user_id: user.id,
+      });
+      if (capError) throw capError;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['retention-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['user-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['enrollments'] });
+      queryClient.invalidateQueries({ queryKey: ['progress-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['review-forecast'] });
+    },
+  });
+}
@@ -0,0 +1,53 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+export const BACKLOG_SMOOTHING_DAY_OPTIONS = [3, 5, 7, 14] as const;
+
+export interface SmoothBacklogResult {
+  overdue: number;
+  moved: number;
+  days: number;
+}
+
+/**
+ * Spread overdue cards over the next `days` days (smooth_review_backlog RPC).
+ * Exam-bound and least-retained cards stay earliest.
+ */
+export function useSmoothBacklog() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (days: number): Promise<SmoothBacklogResult> => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await (supabase.rpc as CallableFunction)('smooth_review_backlog', {
+        p_user_id: user.id,
+        p_days: days,
+      });
+      if (error) throw error;
+      return data as SmoothBacklogResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['review-forecast'] });
+      queryClient.invalidateQueries({ queryKey: ['progress-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['srs-state'] });
+      queryClient.invalidateQueries({ queryKey: ['study-dashboard'] });
+      toast({
+        title: 'Backlog smoothed',
+        description: `${result.moved} of ${result.overdue} overdue cards spread over the next ${result.days} days.`,
+      });
+    },
+    onError: (error) => {
+      console.error('[useSmoothBacklog] Mutation error:', error);
+      toast({
+        title: "Couldn't smooth backlog",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive",
+      });
+    },
+  });
+}
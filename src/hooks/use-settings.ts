@@ -12,6 +12,16 @@ export interface UserSettings {
   theme: string;
   daily_plan_mode: 'single_course' | 'mixed';
   session_intensity: 'light' | 'moderate' | 'heavy';
+  /** How answers are rated for FSRS: inferred from confidence taps, or the four FSRS buttons */
+  rating_mode: 'confidence' | 'buttons';
+  /** Lapses after which a card is tagged as a leech */
+  leech_threshold: number;
+  /** New leeches are only tagged, or also suspended */
+  leech_action: 'tag' | 'suspend';
+  /** FSRS target retention; per-course overrides live on user_enrollments */
+  desired_retention: number;
+  /** FSRS maximum interval in days */
+  maximum_interval: number;
   created_at: string;
   updated_at: string;
 }
@@ -24,6 +34,11 @@ const DEFAULT_SETTINGS: Omit<UserSettings, 'id' | 'user_id' | 'created_at' | 'up
   theme: 'system',
   daily_plan_mode: 'single_course',
   session_intensity: 'moderate',
+  rating_mode: 'confidence',
+  leech_threshold: 8,
+  leech_action: 'tag',
+  desired_retention: 0.9,
+  maximum_interval: 365,
 };
 
 export function useUserSettings() {
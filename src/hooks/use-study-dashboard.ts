@@ -4,6 +4,7 @@ import { useAuth } from '@/hooks/use-auth';
 import { useUserSettings } from '@/hooks/use-settings';
 import { useEnrollments } from '@/hooks/use-enrollments';
 import { FocusPreset } from '@/contexts/FocusContext';
+import { fetchTopicMastery, selectWeakTopics, type TopicMastery } from '@/lib/topic-mastery';
 
 // ============================================
 // UNIFIED DASHBOARD PAYLOAD
@@ -109,6 +110,7 @@ export function useStudyDashboard() {
         weakTopicsResult,
         lastSessionResult,
         weeklyAttemptsResult,
+        streakResult,
       ] = await Promise.all([
         // Today's attempts
         supabase
@@ -147,20 +149,10 @@ export function useStudyDashboard() {
           .lt('due_at', new Date().toISOString())
           .in('questions.course_pack_id', enrolledCourseIdsArray.length > 0 ? enrolledCourseIdsArray : ['00000000-0000-0000-0000-000000000000']),
 
-        // Weak topics (low mastery, filter to enrolled courses)
+        // Weak topics (FSRS topic mastery, filter to enrolled courses)
         enrolledCourseIdsArray.length > 0
-          ? supabase
-            .from('topic_mastery')
-            .select(`
-                topic_id,
-                mastery_0_1,
-                topics!inner(id, title, course_pack_id)
-              `)
-            .eq('user_id', user.id)
-            .in('topics.course_pack_id', enrolledCourseIdsArray)
-            .order('mastery_0_1', { ascending: true })
-            .limit(5)
-          : Promise.resolve({ data: [], error: null }),
+          ? fetchTopicMastery(supabase, user.id, enrolledCourseIdsArray).catch((): TopicMastery[] => [])
+          : Promise.resolve([] as TopicMastery[]),
 
         // Last session (most recent attempt)
         supabase
@@ -182,6 +174,9 @@ export function useStudyDashboard() {
           .select('id, is_correct, created_at')
           .eq('user_id', user.id)
           .gte('created_at', weekAgo.toISOString()),
+
+        // Streak (paused days bridge it)
+        (supabase.rpc as CallableFunction)('get_study_streak', { p_user_id: user.id }),
       ]);
 
       // Process today's attempts
@@ -226,7 +221,8 @@ export function useStudyDashboard() {
       const practiceRecommendations: PracticeRecommendation[] = [];
 
       // 1. Overdue reviews (highest priority)
-      const overdueCount = overdueReviewsResult.data?.length || 0;
+      // Multi-part questions have a card per subpart; count each question once
+      const overdueCount = new Set((overdueReviewsResult.data || []).map((s) => s.question_id)).size;
       if (overdueCount > 0) {
         practiceRecommendations.push({
           id: 'overdue-reviews',
@@ -240,20 +236,18 @@ export function useStudyDashboard() {
       }
 
       // 2. Weak topics
-      const weakTopics = (weakTopicsResult.data || []).filter(
-        (tm: any) => tm.topics && tm.mastery_0_1 < 0.7
-      );
+      const weakTopics = selectWeakTopics(weakTopicsResult);
       if (weakTopics.length > 0) {
-        const weakest = weakTopics[0] as any;
+        const weakest = weakTopics[0];
         practiceRecommendations.push({
           id: 'weak-topic',
           type: 'weak_topic',
-          label: `Weak: ${weakest.topics.title}`,
-          description: `${Math.round(weakest.mastery_0_1 * 100)}% mastery`,
+          label: `Weak: ${weakest.title}`,
+          description: `${Math.round(weakest.mastery * 100)}% mastery`,
           icon: 'target',
           priority: 2,
           filters: {
-            topicIds: [weakest.topic_id],
+            topicIds: [weakest.topicId],
           },
         });
       }
@@ -349,9 +343,10 @@ export function useStudyDashboard() {
         ? Math.round((weeklyCorrect / weeklyAttempts.length) * 100)
         : 0;
 
-      // Calculate streak (consecutive days with attempts)
-      // For now, simplified: just check if there are attempts today
-      const streak = completedQuestions > 0 ? 1 : 0; // Simplified for now
+      // Consecutive days with attempts; fall back to today only if the RPC isn't available
+      const streak = streakResult.error
+        ? (completedQuestions > 0 ? 1 : 0)
+        : ((streakResult.data as number | null) ?? 0);
 
       return {
         todayPlan: {
@@ -0,0 +1,126 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+/** The user's current or upcoming study pause (study_pauses row that hasn't been resumed) */
+export interface StudyPause {
+  id: string;
+  startsOn: string;
+  endsOn: string;
+  /** Due dates have been pushed back: the pause is running */
+  isActive: boolean;
+}
+
+/** True when `date` (YYYY-MM-DD) falls inside the pause */
+export function isPausedOn(pause: StudyPause | null | undefined, date: string): boolean {
+  if (!pause) return false;
+  const day = date.slice(0, 10);
+  return day >= pause.startsOn && day <= pause.endsOn;
+}
+
+export function useStudyPause() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['study-pause', user?.id],
+    queryFn: async (): Promise<StudyPause | null> => {
+      if (!user) return null;
+
+      const { data, error } = await (supabase.from as CallableFunction)('study_pauses')
+        .select('id, starts_on, ends_on, frozen_at')
+        .eq('user_id', user.id)
+        .is('resumed_at', null)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return null;
+
+      const row = data as { id: string; starts_on: string; ends_on: string; frozen_at: string | null };
+      return {
+        id: row.id,
+        startsOn: row.starts_on,
+        endsOn: row.ends_on,
+        isActive: row.frozen_at !== null,
+      };
+    },
+    enabled: !!user,
+  });
+}
+
+function useInvalidatePauseQueries() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['study-pause'] });
+    queryClient.invalidateQueries({ queryKey: ['srs-state'] });
+    queryClient.invalidateQueries({ queryKey: ['study-dashboard'] });
+    queryClient.invalidateQueries({ queryKey: ['daily-plan'] });
+    queryClient.invalidateQueries({ queryKey: ['review-forecast'] });
+    queryClient.invalidateQueries({ queryKey: ['progress-stats'] });
+  };
+}
+
+/**
+ * Schedule a pause (schedule_study_pause RPC). Replaces a pause that hasn't
+ * started; one starting today freezes the queue immediately.
+ */
+export function useScheduleStudyPause() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const invalidate = useInvalidatePauseQueries();
+
+  return useMutation({
+    mutationFn: async ({ startsOn, endsOn }: { startsOn: string; endsOn: string }) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await (supabase.rpc as CallableFunction)('schedule_study_pause', {
+        p_starts_on: startsOn,
+        p_ends_on: endsOn,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: 'Pause scheduled',
+        description: 'Reviews due while you are away will wait until you are back.',
+      });
+    },
+    onError: (error) => {
+      console.error('[useScheduleStudyPause] Mutation error:', error);
+      toast({
+        title: "Couldn't schedule pause",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/** End the current pause today, or cancel one that hasn't started (end_study_pause RPC) */
+export function useEndStudyPause() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const invalidate = useInvalidatePauseQueries();
+
+  return useMutation({
+    mutationFn: async (): Promise<{ cancelled: boolean }> => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await (supabase.rpc as CallableFunction)('end_study_pause');
+      if (error) throw error;
+      return data as { cancelled: boolean };
+    },
+    onSuccess: (result) => {
+      invalidate();
+      toast({ title: result.cancelled ? 'Pause cancelled' : 'Welcome back! Your reviews have resumed.' });
+    },
+    onError: (error) => {
+      console.error('[useEndStudyPause] Mutation error:', error);
+      toast({
+        title: "Couldn't end pause",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from "@/lib/supabase";
 import { useAuth } from '@/hooks/use-auth';
+import { fetchTopicMastery, selectWeakTopics } from '@/lib/topic-mastery';
 import { FocusPreset } from './use-focus';
 
 // Weak areas based on topic mastery
@@ -19,37 +20,14 @@ export function useWeakAreas(courseIds: string[]) {
     queryFn: async () => {
       if (!user) return { weakTopics: [], weakTypes: [] };
 
-      // Fetch topic mastery for user
-      let topicQuery = supabase
-        .from('topic_mastery')
-        .select(`
-          topic_id,
-          mastery_0_1,
-          topics!inner(id, title, course_pack_id)
-        `)
-        .eq('user_id', user.id)
-        .order('mastery_0_1', { ascending: true })
-        .limit(5);
-
-      if (courseIds.length > 0) {
-        topicQuery = topicQuery.in('topics.course_pack_id', courseIds);
-      }
-
-      const { data: topicData, error: topicError } = await topicQuery;
-
-      const weakTopics: WeakArea[] = [];
-      if (!topicError && topicData) {
-        topicData.forEach((tm: any) => {
-          if (tm.topics && tm.mastery_0_1 < 0.7) {
-            weakTopics.push({
-              id: tm.topic_id,
-              title: tm.topics.title,
-              mastery: tm.mastery_0_1,
-              type: 'topic',
-            });
-          }
-        });
-      }
+      // FSRS topic mastery, shared with exam readiness and the dashboard
+      const topics = await fetchTopicMastery(supabase, user.id, courseIds);
+      const weakTopics: WeakArea[] = selectWeakTopics(topics).map((t) => ({
+        id: t.topicId,
+        title: t.title,
+        mastery: t.mastery,
+        type: 'topic',
+      }));
 
       // Fetch question types with low performance from attempts
       // This is a simplified version - could be expanded
@@ -85,9 +63,11 @@ export function useOverdueReviews(courseIds: string[]) {
 
       if (error) throw error;
 
+      // Multi-part questions have a card per subpart; list each question once
+      const questionIds: string[] = [...new Set<string>(data?.map((s: any) => s.question_id) || [])];
       return {
-        count: data?.length || 0,
-        questionIds: data?.map((s: any) => s.question_id) || [],
+        count: questionIds.length,
+        questionIds,
       };
     },
     enabled: !!user,
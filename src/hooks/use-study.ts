@@ -1,11 +1,17 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { supabase } from "@/lib/supabase";
+import { supabase, invokeEdgeFunction } from "@/lib/supabase";
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
-import { StudyQuestion, mapDbQuestionToStudy, mapConfidenceToDb, deriveFsrsRating } from '@/types/study';
+import { StudyQuestion, AnswerGrade, Flashcard, QuestionFormat, mapDbQuestionToStudy, mapConfidenceToDb, deriveFsrsRating, selectDueSubparts } from '@/types/study';
 import { Tables } from '@/integrations/supabase/types';
-import { dbRowToCard, cardToDbRow, createEmptyCard } from '@/lib/fsrs';
-import { fsrsInstance } from '@/lib/fsrs';
+import { dbRowToCard, previewRatings, type DbSrsRow } from '@/lib/fsrs';
+import { useFsrsParameters, resolveFsrsWeights } from '@/hooks/use-fsrs-parameters';
+import { useRetentionSettings, resolveRetentionSettings } from '@/hooks/use-retention-settings';
+import type { Rating } from 'ts-fsrs';
+import { attemptQueue, submitOrQueue, isQueuedAttemptId, type SubmitReviewBody } from '@/lib/offline-queue';
+import { saveStudySnapshot, loadStudySnapshot } from '@/lib/offline-snapshot';
+import { interleaveFlashcards } from '@/lib/flashcards';
+import { fetchMisconceptionProfile, misconceptionTargetQuestionIds } from '@/lib/misconceptions';
 
 type DbQuestion = Tables<'questions'>;
 type DbTopic = Tables<'topics'>;
@@ -25,6 +31,12 @@ interface RecommendationParams {
   enrolledCourseIds?: string[];
   // When true, ignores topic coverage and difficulty constraints (for custom focus)
   ignoreConstraints?: boolean;
+  // Only the student's bookmarked questions, most recently saved first
+  bookmarkedOnly?: boolean;
+  // Only questions carrying a misconception the student has not cleared yet
+  misconceptionsOnly?: boolean;
+  // Exactly these questions, in this order
+  questionIds?: string[];
 }
 
 export function useStudyQuestions(params: RecommendationParams = {}) {
@@ -40,6 +52,9 @@ export function useStudyQuestions(params: RecommendationParams = {}) {
     questionTypeId = null,
     enrolledCourseIds = [],
     ignoreConstraints = false,
+    bookmarkedOnly = false,
+    misconceptionsOnly = false,
+    questionIds: pinnedQuestionIds = [],
   } = params;
 
   // Determine effective course filter
@@ -47,15 +62,35 @@ export function useStudyQuestions(params: RecommendationParams = {}) {
   const effectiveCourseId = courseId || (enrolledCourseIds.length === 1 ? enrolledCourseIds[0] : null);
 
   return useQuery({
-    queryKey: ['study-questions', user?.id, limit, currentWeek, paceOffset, targetDifficulty, effectiveCourseId, examName, topicIds, questionTypeId, enrolledCourseIds, ignoreConstraints],
+    queryKey: ['study-questions', user?.id, limit, currentWeek, paceOffset, targetDifficulty, effectiveCourseId, examName, topicIds, questionTypeId, enrolledCourseIds, ignoreConstraints, bookmarkedOnly, misconceptionsOnly, pinnedQuestionIds],
     queryFn: async (): Promise<StudyQuestion[]> => {
       if (!user) throw new Error('User not authenticated');
 
+      // Offline: the last study set saved on this device, minus answers already queued
+      if (!navigator.onLine) {
+        const answeredIds = new Set((await attemptQueue.list(user.id)).map((a) => a.body.questionId));
+        const snapshot = await loadStudySnapshot(user.id, answeredIds);
+        if (snapshot) return snapshot;
+        throw new Error("You're offline and no questions are saved on this device yet.");
+      }
+
       // If user has enrollments but none match current filter, return empty
       if (enrolledCourseIds.length > 0 && effectiveCourseId && !enrolledCourseIds.includes(effectiveCourseId)) {
         return [];
       }
 
+      if (bookmarkedOnly) {
+        return fetchBookmarkedQuestions(user.id, limit, effectiveCourseId, enrolledCourseIds);
+      }
+
+      if (pinnedQuestionIds.length > 0) {
+        return fetchQuestionsInOrder(pinnedQuestionIds, limit, effectiveCourseId, enrolledCourseIds, 'From your mistakes');
+      }
+
+      if (misconceptionsOnly) {
+        return fetchMisconceptionQuestions(user.id, limit, effectiveCourseId, enrolledCourseIds);
+      }
+
       // Call the recommendation algorithm function with filter parameters
       // Note: p_topic_ids is now uuid[] type in the database
       const { data: recommended, error: recError } = await supabase
@@ -113,7 +148,7 @@ export function useStudyQuestions(params: RecommendationParams = {}) {
       const questionIds = (recommended || []).map((q: any) => q.question_id);
       const { data: fullQuestions } = await supabase
         .from('questions')
-        .select('id, guide_me_steps, image_url, question_format, subparts, course_pack_id')
+        .select('id, guide_me_steps, image_url, question_format, subparts, course_pack_id, parent_question_id')
         .in('id', questionIds);
 
       const questionExtras = new Map<string, {
@@ -122,6 +157,7 @@ export function useStudyQuestions(params: RecommendationParams = {}) {
         question_format: string | null;
         subparts: any;
         course_pack_id: string | null;
+        parent_question_id: string | null;
       }>();
       fullQuestions?.forEach(q => questionExtras.set(q.id, {
         guide_me_steps: q.guide_me_steps,
@@ -129,8 +165,39 @@ export function useStudyQuestions(params: RecommendationParams = {}) {
         question_format: q.question_format,
         subparts: q.subparts,
         course_pack_id: q.course_pack_id,
+        parent_question_id: q.parent_question_id,
       }));
 
+      // Subpart cards of multi-part questions, to play only the parts that are due
+      const multiPartIds = (fullQuestions || [])
+        .filter(q => Array.isArray(q.subparts) && q.subparts.length > 0)
+        .map(q => q.id);
+      const subpartCards = new Map<string, Array<{ subpart_id: string | null; due_at: string; suspended_at: string | null }>>();
+      if (multiPartIds.length > 0) {
+        const { data: cards } = await (supabase.from as CallableFunction)('srs_state')
+          .select('question_id, subpart_id, due_at, suspended_at')
+          .eq('user_id', user.id)
+          .in('question_id', multiPartIds)
+          .not('subpart_id', 'is', null);
+        (cards as Array<{ question_id: string; subpart_id: string; due_at: string; suspended_at: string | null }> | null)?.forEach(c => {
+          subpartCards.set(c.question_id, [...(subpartCards.get(c.question_id) ?? []), c]);
+        });
+      }
+
+      // Flashcard content of flashcard-format questions
+      const flashcardIds = (fullQuestions || [])
+        .filter(q => q.question_format === 'flashcard')
+        .map(q => q.id);
+      const flashcards = new Map<string, Flashcard>();
+      if (flashcardIds.length > 0) {
+        const { data: cards } = await (supabase.from as CallableFunction)('questions')
+          .select('id, flashcard')
+          .in('id', flashcardIds);
+        (cards as Array<{ id: string; flashcard: Flashcard | null }> | null)?.forEach(c => {
+          if (c.flashcard) flashcards.set(c.id, c.flashcard);
+        });
+      }
+
       // Fetch course names for all unique course_pack_ids
       const courseIds = [...new Set(
         (fullQuestions || []).map(q => q.course_pack_id).filter(Boolean)
@@ -145,7 +212,8 @@ export function useStudyQuestions(params: RecommendationParams = {}) {
       }
 
       // Map recommended questions to StudyQuestion format
-      const studyQuestions = (recommended || []).map((q: any) => {
+      // Flashcards spread between the questions rather than bunched by rank
+      const studyQuestions = interleaveFlashcards((recommended || []).map((q: any) => {
         const extras = questionExtras.get(q.question_id);
         const hasSubparts = extras?.subparts && Array.isArray(extras.subparts) && extras.subparts.length > 0;
 
@@ -173,29 +241,110 @@ export function useStudyQuestions(params: RecommendationParams = {}) {
           questionType: extras?.question_format || 'multiple_choice',
           imageUrl: extras?.image_url || null,
           guideMeSteps: extras?.guide_me_steps || null,
-          questionFormat: (extras?.question_format || 'multiple_choice') as 'multiple_choice' | 'short_answer' | 'numeric',
+          questionFormat: (extras?.question_format || 'multiple_choice') as QuestionFormat,
           subparts: extras?.subparts || null,
+          flashcard: flashcards.get(q.question_id) ?? null,
           coursePackId: cpId,
           courseName: cpId ? (courseNameMap.get(cpId) || null) : null,
+          familyId: extras?.parent_question_id || q.question_id,
+          dueSubpartIds: hasSubparts
+            ? selectDueSubparts(extras.subparts, subpartCards.get(q.question_id) ?? [])
+            : null,
           // Include scoring metadata for debugging
           _score: q.score,
           _dueUrgency: q.due_urgency,
           _knowledgeGap: q.knowledge_gap,
         };
-      });
+      }));
 
       console.log('[useStudyQuestions] Returned questions:', {
         total: studyQuestions.length,
         withSubparts: studyQuestions.filter(q => q.subparts && q.subparts.length > 0).length,
       });
 
+      // Keep this set (and its images) for studying offline
+      saveStudySnapshot(user.id, studyQuestions).catch((error) =>
+        console.error('[useStudyQuestions] Could not save offline snapshot:', error)
+      );
+
       return studyQuestions;
     },
+    // Offline the query reads the saved snapshot instead of pausing
+    networkMode: 'always',
     enabled: !!user,
     staleTime: 2 * 60 * 1000, // Cache for 2 minutes (shorter since recommendations change)
   });
 }
 
+/** Bookmarked questions (question_notes), newest bookmark first */
+async function fetchBookmarkedQuestions(
+  userId: string,
+  limit: number,
+  courseId: string | null,
+  enrolledCourseIds: string[],
+): Promise<StudyQuestion[]> {
+  const { data: notes, error: notesError } = await (supabase.from as CallableFunction)('question_notes')
+    .select('question_id')
+    .eq('user_id', userId)
+    .eq('bookmarked', true)
+    .order('updated_at', { ascending: false });
+  if (notesError) throw notesError;
+
+  const questionIds = ((notes as Array<{ question_id: string }> | null) ?? []).map(n => n.question_id);
+  return fetchQuestionsInOrder(questionIds, limit, courseId, enrolledCourseIds, 'Bookmarked');
+}
+
+/** Questions carrying a misconception not cleared yet: active ones first, then fading */
+async function fetchMisconceptionQuestions(
+  userId: string,
+  limit: number,
+  courseId: string | null,
+  enrolledCourseIds: string[],
+): Promise<StudyQuestion[]> {
+  const profile = await fetchMisconceptionProfile(supabase, userId, courseId ? [courseId] : enrolledCourseIds);
+  return fetchQuestionsInOrder(
+    misconceptionTargetQuestionIds(profile),
+    limit,
+    courseId,
+    enrolledCourseIds,
+    'Targets a misconception',
+  );
+}
+
+/** Questions among `questionIds` in the course filter, in the given order */
+async function fetchQuestionsInOrder(
+  questionIds: string[],
+  limit: number,
+  courseId: string | null,
+  enrolledCourseIds: string[],
+  whySelected: string,
+): Promise<StudyQuestion[]> {
+  if (questionIds.length === 0) return [];
+
+  let questionsQuery = supabase.from('questions').select('*').in('id', questionIds);
+  if (courseId) {
+    questionsQuery = questionsQuery.eq('course_pack_id', courseId);
+  } else if (enrolledCourseIds.length > 0) {
+    questionsQuery = questionsQuery.in('course_pack_id', enrolledCourseIds);
+  }
+
+  const [{ data: questions, error }, { data: topics, error: topicsError }] = await Promise.all([
+    questionsQuery,
+    supabase.from('topics').select('*'),
+  ]);
+  if (error) throw error;
+  if (topicsError) throw topicsError;
+
+  const topicMap = new Map<string, DbTopic>();
+  topics?.forEach(topic => topicMap.set(topic.id, topic));
+
+  const questionById = new Map(((questions as DbQuestion[] | null) ?? []).map(q => [q.id, q]));
+  return questionIds
+    .filter(id => questionById.has(id))
+    .slice(0, limit)
+    .map(id => ({ ...mapDbQuestionToStudy(questionById.get(id)!, topicMap), whySelected }));
+}
+
 interface SubmitAttemptParams {
   questionId: string;
   selectedChoiceId: string | null;
@@ -206,6 +355,27 @@ interface SubmitAttemptParams {
   timeSpentMs?: number;
   subpartId?: string;        // For multi-part questions
   answerText?: string;       // For free response
+  answerImagePath?: string;  // Photo of the work (answer-images bucket)
+  grade?: AnswerGrade;       // Free-response grading result
+  maxPoints?: number;
+  rating?: Rating;           // Picked with the rating buttons; otherwise derived
+}
+
+/** Response of the submit-review edge function */
+export interface SubmitReviewResult {
+  card: DbSrsRow & { version: number };
+  attemptId: string;
+  rating: number;
+  /** Offline answer older than the server card's last review: recorded only */
+  stale?: boolean;
+}
+
+/** An answer queued offline; attemptId is its queue id (undo removes it from the queue) */
+export interface QueuedSubmitResult {
+  card: null;
+  attemptId: string;
+  rating: number;
+  queued: true;
 }
 
 export function useSubmitAttempt() {
@@ -214,7 +384,7 @@ export function useSubmitAttempt() {
   const { toast } = useToast();
 
   return useMutation({
-    mutationFn: async (params: SubmitAttemptParams) => {
+    mutationFn: async (params: SubmitAttemptParams): Promise<SubmitReviewResult | QueuedSubmitResult | null> => {
       if (!user) throw new Error('User not authenticated');
 
       console.log('[useSubmitAttempt] Submitting attempt:', {
@@ -223,173 +393,61 @@ export function useSubmitAttempt() {
         userId: user.id,
       });
 
-      // 1. Derive FSRS rating from correctness + confidence
-      const rating = deriveFsrsRating(params.isCorrect, params.confidence);
-
-      // 2. Fetch current SRS state (if any)
-      const { data: existing } = await supabase
-        .from('srs_state')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('question_id', params.questionId)
-        .maybeSingle();
-
-      // 3. Build card from existing data or create new
-      const now = new Date();
-      const existingVersion = (existing as Record<string, unknown>)?.version as number ?? 0;
-      const card = existing
-        ? dbRowToCard({
-          due_at: existing.due_at,
-          last_reviewed_at: existing.last_reviewed_at,
-          reps: existing.reps,
-          stability: (existing as any).stability ?? 1,
-          difficulty: (existing as any).difficulty ?? 5,
-          elapsed_days: (existing as any).elapsed_days ?? 0,
-          scheduled_days: (existing as any).scheduled_days ?? 0,
-          lapses: (existing as any).lapses ?? 0,
-          learning_steps: (existing as any).learning_steps ?? 0,
-          state: (existing as any).state ?? (existing.reps > 0 ? 2 : 0),
-        })
-        : createEmptyCard(now);
-
-      // 4. Run FSRS scheduling client-side
-      const result = fsrsInstance.repeat(card, now);
-      const updatedCard = result[rating].card;
-      const dbRow = cardToDbRow(updatedCard);
-
-      // 5. Upsert SRS state with full FSRS fields + optimistic locking
-      const newVersion = existingVersion + 1;
-      if (existing) {
-        // Optimistic lock: update only if version matches
-        const { data: updated, error: srsError } = await supabase
-          .from('srs_state')
-          .update({
-            due_at: dbRow.due_at,
-            last_reviewed_at: dbRow.last_reviewed_at,
-            reps: dbRow.reps,
-            stability: dbRow.stability,
-            difficulty: dbRow.difficulty,
-            elapsed_days: dbRow.elapsed_days,
-            scheduled_days: dbRow.scheduled_days,
-            lapses: dbRow.lapses,
-            learning_steps: dbRow.learning_steps,
-            state: dbRow.state,
-            version: newVersion,
-          } as any)
-          .eq('user_id', user.id)
-          .eq('question_id', params.questionId)
-          .eq('version' as any, existingVersion)
-          .select();
+      // 1. FSRS rating: picked explicitly, or derived from correctness + confidence + help used
+      const rating = params.rating ?? deriveFsrsRating(params.isCorrect, params.confidence, {
+        hintUsed: params.hintUsed,
+        guideUsed: params.guideUsed,
+      });
 
-        if (srsError) {
-          console.error('[useSubmitAttempt] Error updating SRS state:', srsError);
-          throw srsError;
+      // 2. Record the attempt and FSRS update atomically server-side. The edge function
+      //    schedules with the student's fitted weights and retention settings, and
+      //    retries if another tab reviewed the same card concurrently.
+      //    Without a connection the answer is queued on the device (useOfflineSync).
+      const body: SubmitReviewBody = {
+        questionId: params.questionId,
+        rating,
+        selectedChoiceId: params.selectedChoiceId,
+        isCorrect: params.isCorrect,
+        confidence: mapConfidenceToDb(params.confidence),
+        hintUsed: params.hintUsed,
+        guideUsed: params.guideUsed,
+        timeSpentMs: params.timeSpentMs,
+        subpartId: params.subpartId,
+        answerText: params.answerText,
+        answerImagePath: params.answerImagePath,
+        aiFeedback: params.grade,
+        pointsEarned: params.grade?.score,
+        maxPoints: params.maxPoints,
+      };
+
+      let data = null as SubmitReviewResult | null;
+      const queued = await submitOrQueue(attemptQueue, user.id, body, async (b) => {
+        const result = await invokeEdgeFunction<SubmitReviewResult>('submit-review', { body: b });
+        if (result.error) {
+          console.error('[useSubmitAttempt] Error saving attempt:', result.error);
+          throw result.error;
         }
+        data = result.data;
+      }, navigator.onLine);
 
-        // Optimistic lock conflict: version mismatch means concurrent update
-        if (!updated || updated.length === 0) {
-          console.warn('[useSubmitAttempt] Optimistic lock conflict — refetching and retrying');
-          // Refetch current state and recompute (single retry)
-          const { data: fresh } = await supabase
-            .from('srs_state')
-            .select('*')
-            .eq('user_id', user.id)
-            .eq('question_id', params.questionId)
-            .single();
-
-          if (fresh) {
-            const freshCard = dbRowToCard({
-              due_at: fresh.due_at,
-              last_reviewed_at: fresh.last_reviewed_at,
-              reps: fresh.reps,
-              stability: (fresh as any).stability ?? 1,
-              difficulty: (fresh as any).difficulty ?? 5,
-              elapsed_days: (fresh as any).elapsed_days ?? 0,
-              scheduled_days: (fresh as any).scheduled_days ?? 0,
-              lapses: (fresh as any).lapses ?? 0,
-              learning_steps: (fresh as any).learning_steps ?? 0,
-              state: (fresh as any).state ?? 0,
-            });
-            const retryResult = fsrsInstance.repeat(freshCard, now);
-            const retryRow = cardToDbRow(retryResult[rating].card);
-            const freshVersion = (fresh as Record<string, unknown>).version as number ?? 0;
-
-            await supabase
-              .from('srs_state')
-              .update({
-                due_at: retryRow.due_at,
-                last_reviewed_at: retryRow.last_reviewed_at,
-                reps: retryRow.reps,
-                stability: retryRow.stability,
-                difficulty: retryRow.difficulty,
-                elapsed_days: retryRow.elapsed_days,
-                scheduled_days: retryRow.scheduled_days,
-                lapses: retryRow.lapses,
-                learning_steps: retryRow.learning_steps,
-                state: retryRow.state,
-                version: freshVersion + 1,
-              } as any)
-              .eq('user_id', user.id)
-              .eq('question_id', params.questionId);
-          }
-        }
-      } else {
-        // New card — insert
-        const { error: srsError } = await supabase
-          .from('srs_state')
-          .insert({
-            user_id: user.id,
-            question_id: params.questionId,
-            due_at: dbRow.due_at,
-            last_reviewed_at: dbRow.last_reviewed_at,
-            reps: dbRow.reps,
-            stability: dbRow.stability,
-            difficulty: dbRow.difficulty,
-            elapsed_days: dbRow.elapsed_days,
-            scheduled_days: dbRow.scheduled_days,
-            lapses: dbRow.lapses,
-            learning_steps: dbRow.learning_steps,
-            state: dbRow.state,
-            version: 0,
-          } as any);
-
-        if (srsError) {
-          console.error('[useSubmitAttempt] Error inserting SRS state:', srsError);
-          throw srsError;
-        }
-      }
-
-      // 6. Insert attempt row (topic mastery handled by DB trigger)
-      const { data, error } = await supabase
-        .from('attempts')
-        .insert({
-          user_id: user.id,
-          question_id: params.questionId,
-          selected_choice_id: params.selectedChoiceId,
-          is_correct: params.isCorrect,
-          confidence: mapConfidenceToDb(params.confidence),
-          hint_used: params.hintUsed,
-          guide_used: params.guideUsed,
-          time_spent_ms: params.timeSpentMs,
-          subpart_id: params.subpartId,
-          answer_text: params.answerText,
-          fsrs_rating: rating,
-        } as any)
-        .select();
-
-      if (error) {
-        console.error('[useSubmitAttempt] Error saving attempt:', error);
-        throw error;
+      if (queued) {
+        console.log('[useSubmitAttempt] Offline, answer queued:', queued.id);
+        queryClient.invalidateQueries({ queryKey: ['offline-queue'] });
+        return { card: null, attemptId: queued.id, rating, queued: true };
       }
 
       console.log('[useSubmitAttempt] Attempt saved successfully:', data);
       return data;
     },
+    // Offline answers are queued, not paused
+    networkMode: 'always',
     onSuccess: () => {
       // Invalidate related queries to refresh data
       queryClient.invalidateQueries({ queryKey: ['topic-mastery'] });
       queryClient.invalidateQueries({ queryKey: ['srs-state'] });
       queryClient.invalidateQueries({ queryKey: ['study-dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['misconceptions'] });
+      queryClient.invalidateQueries({ queryKey: ['mistakes'] });
     },
     onError: (error) => {
       console.error('[useSubmitAttempt] Mutation error:', error);
@@ -402,6 +460,47 @@ export function useSubmitAttempt() {
   });
 }
 
+/**
+ * Predicted next due date for each rating button, from the card's current srs_state
+ * (the question's, or a subpart's) and the student's scheduler (fitted weights +
+ * retention settings).
+ */
+export function useRatingPreviews(
+  questionId: string,
+  coursePackId: string | null,
+  subpartId: string | null = null,
+  enabled = true
+) {
+  const { user } = useAuth();
+  const { data: fsrsParameters } = useFsrsParameters();
+  const { data: retentionSource } = useRetentionSettings();
+
+  const cardQuery = useQuery({
+    queryKey: ['srs-state', user?.id, questionId, subpartId],
+    queryFn: async (): Promise<DbSrsRow | null> => {
+      const { data, error } = await supabase
+        .from('srs_state')
+        .select('due_at, last_reviewed_at, reps, stability, difficulty, elapsed_days, scheduled_days, lapses, learning_steps, state')
+        .eq('user_id', user!.id)
+        .eq('question_id', questionId)
+        .filter('subpart_id', subpartId ? 'eq' : 'is', subpartId)
+        .maybeSingle();
+      if (error) throw error;
+      return data as DbSrsRow | null;
+    },
+    enabled: !!user && enabled,
+  });
+
+  if (!cardQuery.isSuccess) return undefined;
+
+  const retention = resolveRetentionSettings(retentionSource, coursePackId);
+  return previewRatings(cardQuery.data ? dbRowToCard(cardQuery.data) : null, new Date(), {
+    weights: resolveFsrsWeights(fsrsParameters ?? [], coursePackId),
+    requestRetention: retention.desiredRetention,
+    maximumInterval: retention.maximumInterval,
+  });
+}
+
 export function useTopicMastery(enrolledCourseIds?: string[]) {
   const { user } = useAuth();
 
@@ -454,3 +553,48 @@ export function useTopics(enrolledCourseIds?: string[]) {
     },
   });
 }
+
+/**
+ * Undo an answer: restores the card and topic mastery from the before-image stored
+ * by submit_review and deletes the attempts (one per subpart for multi-part questions).
+ */
+export function useUndoAttempt() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (attemptIds: string[]) => {
+      if (!user) throw new Error('User not authenticated');
+      if (attemptIds.length === 0) return;
+
+      // Answers still queued offline never reached the server
+      const queuedIds = attemptIds.filter(isQueuedAttemptId);
+      const savedIds = attemptIds.filter((id) => !isQueuedAttemptId(id));
+      await Promise.all(queuedIds.map((id) => attemptQueue.remove(id)));
+      if (queuedIds.length > 0) queryClient.invalidateQueries({ queryKey: ['offline-queue'] });
+      if (savedIds.length === 0) return;
+
+      const { error } = await (supabase.rpc as CallableFunction)('undo_review', {
+        p_attempt_ids: savedIds,
+      });
+      if (error) throw error;
+    },
+    networkMode: 'always',
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['topic-mastery'] });
+      queryClient.invalidateQueries({ queryKey: ['srs-state'] });
+      queryClient.invalidateQueries({ queryKey: ['study-dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['misconceptions'] });
+      queryClient.invalidateQueries({ queryKey: ['mistakes'] });
+    },
+    onError: (error) => {
+      console.error('[useUndoAttempt] Mutation error:', error);
+      toast({
+        title: "Couldn't undo answer",
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,59 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  WORK_PHOTO_BUCKET,
+  WORK_PHOTO_MAX_BYTES,
+  downscaleWorkPhoto,
+  workPhotoPath,
+} from '@/lib/work-photo';
+
+/** Upload a photo of the work for a question; resolves to its answer-images storage path */
+export function useUploadWorkPhoto() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ questionId, file }: { questionId: string; file: File }): Promise<string> => {
+      if (!user) throw new Error('User not authenticated');
+      if (!file.type.startsWith('image/')) throw new Error('Choose a photo (JPEG, PNG or HEIC)');
+
+      const photo = await downscaleWorkPhoto(file);
+      if (photo.size > WORK_PHOTO_MAX_BYTES) throw new Error('Photo is too large (10 MB max)');
+
+      const path = workPhotoPath(user.id, questionId, photo.name);
+      const { error } = await supabase.storage
+        .from(WORK_PHOTO_BUCKET)
+        .upload(path, photo, { contentType: photo.type });
+      if (error) throw error;
+
+      return path;
+    },
+    onError: (error) => {
+      console.error('[useUploadWorkPhoto] Mutation error:', error);
+      toast({
+        title: 'Could not upload photo',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/** Short-lived URL to show a stored work photo (the bucket is private) */
+export function useWorkPhotoUrl(path: string | null | undefined) {
+  return useQuery({
+    queryKey: ['work-photo-url', path],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from(WORK_PHOTO_BUCKET)
+        .createSignedUrl(path!, 60 * 60);
+      if (error) throw error;
+      return data.signedUrl;
+    },
+    enabled: !!path,
+    // Refetch well before the signed URL expires
+    staleTime: 50 * 60 * 1000,
+  });
+}
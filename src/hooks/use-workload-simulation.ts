@@ -0,0 +1,71 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from "@/lib/supabase";
+import { useAuth } from '@/hooks/use-auth';
+import { useUserSettings } from '@/hooks/use-settings';
+import { useRetentionSettings, resolveRetentionSettings } from '@/hooks/use-retention-settings';
+import { useFsrsParameters, resolveFsrsWeights } from '@/hooks/use-fsrs-parameters';
+import { fetchWorkloadInputs } from '@/lib/workload-inputs';
+import { simulateWorkload, type WorkloadDay, type WorkloadSettings } from '@/lib/workload-simulator';
+
+export const WORKLOAD_SIMULATION_DAYS = 42;
+
+export type WorkloadWhatIf = Pick<WorkloadSettings, 'dailyGoal' | 'paceOffset' | 'desiredRetention'>;
+
+/**
+ * Current vs. "what if" projection of daily reviews and expected retrievability.
+ * `coursePackId` picks per-course retention and weights; null = the user defaults.
+ */
+export function useWorkloadSimulation(
+  courseIds: string[],
+  coursePackId: string | null,
+  whatIf: WorkloadWhatIf | null
+) {
+  const { user } = useAuth();
+  const { settings, isLoading: settingsLoading } = useUserSettings();
+  const { data: retentionSource } = useRetentionSettings();
+  const { data: fsrsParameters } = useFsrsParameters();
+
+  const inputsQuery = useQuery({
+    queryKey: ['workload-inputs', user?.id, courseIds],
+    // Simulations start from when the cards were loaded
+    queryFn: async () => ({ ...(await fetchWorkloadInputs(supabase, user!.id, courseIds)), start: new Date() }),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const current = useMemo((): WorkloadSettings => {
+    const retention = resolveRetentionSettings(retentionSource, coursePackId);
+    return {
+      dailyGoal: settings.daily_goal,
+      paceOffset: settings.pace_offset,
+      desiredRetention: retention.desiredRetention,
+      maximumInterval: retention.maximumInterval,
+      weights: resolveFsrsWeights(fsrsParameters ?? [], coursePackId),
+    };
+  }, [settings.daily_goal, settings.pace_offset, retentionSource, fsrsParameters, coursePackId]);
+
+  const inputs = inputsQuery.data;
+
+  const baseline = useMemo((): WorkloadDay[] | null => {
+    if (!inputs) return null;
+    return simulateWorkload({ ...inputs, settings: current, days: WORKLOAD_SIMULATION_DAYS });
+  }, [inputs, current]);
+
+  const projected = useMemo((): WorkloadDay[] | null => {
+    if (!inputs || !whatIf) return null;
+    return simulateWorkload({
+      ...inputs,
+      settings: { ...current, ...whatIf },
+      days: WORKLOAD_SIMULATION_DAYS,
+    });
+  }, [inputs, current, whatIf]);
+
+  return {
+    current,
+    baseline,
+    projected,
+    isLoading: inputsQuery.isLoading || settingsLoading,
+    error: inputsQuery.error,
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Client side of the deterministic answer grader. The engine lives in
+ * supabase/functions/_shared/answer-grading.ts so the grade-answer edge function grades
+ * exactly the same way; the LLM is only asked when the spec can't decide.
+ */
+import type { StudySubpart } from '@/types/study';
+import {
+  gradeWithSpec,
+  resolveAnswerSpec,
+  type SpecGrade,
+} from '../../supabase/functions/_shared/answer-grading.ts';
+
+export * from '../../supabase/functions/_shared/answer-grading.ts';
+export * from '../../supabase/functions/_shared/math-expression.ts';
+
+type GradableSubpart = Pick<StudySubpart, 'answer_spec' | 'grading_spec' | 'correctAnswer' | 'points'>;
+
+/** The answer is a math expression, so the input gets a live preview of how it parses */
+export function expectsExpression(subpart: GradableSubpart): boolean {
+  return resolveAnswerSpec(subpart.answer_spec, subpart.correctAnswer)?.kind === 'expression';
+}
+
+/** Grade a free-response subpart from its spec (or a plain-number correct answer); null = ask the LLM */
+export function gradeSubpartLocally(
+  subpart: GradableSubpart,
+  answer: string
+): SpecGrade | null {
+  const expected = resolveAnswerSpec(subpart.answer_spec, subpart.correctAnswer);
+  return gradeWithSpec(answer, expected, subpart.grading_spec, subpart.points ?? 1);
+}
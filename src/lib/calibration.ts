@@ -0,0 +1,185 @@
+/**
+ * Confidence calibration: how often the student is right at each confidence level
+ * (get_calibration_stats RPC, supabase/migrations/20260408000001_calibration_stats.sql).
+ * Each level stands for a stated probability of being right, which gives a reliability
+ * diagram, a Brier score and per-topic over- / under-confidence call-outs.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ConfidenceLevel } from '@/types/study';
+
+export const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['guessed', 'unsure', 'knew_it'];
+
+/** Chance of being right that each confidence level claims */
+export const CONFIDENCE_PROBABILITY: Record<ConfidenceLevel, number> = {
+  guessed: 0.25,
+  unsure: 0.5,
+  knew_it: 0.9,
+};
+
+export const CONFIDENCE_LABELS: Record<ConfidenceLevel, string> = {
+  guessed: 'Guessed',
+  unsure: 'Unsure',
+  knew_it: 'Knew it',
+};
+
+/** Attempts at one level before a topic gets a call-out */
+export const MIN_CALLOUT_ATTEMPTS = 5;
+/** Accuracy this far (in percentage points) from the stated probability is a call-out */
+export const CALLOUT_GAP_POINTS = 20;
+const MAX_CALLOUTS = 3;
+
+export interface CalibrationRow {
+  topicId: string | null;
+  topicTitle: string | null;
+  confidence: ConfidenceLevel;
+  attempts: number;
+  correct: number;
+}
+
+export interface CalibrationBin {
+  confidence: ConfidenceLevel;
+  /** Stated probability of the level */
+  stated: number;
+  attempts: number;
+  correct: number;
+  /** Share right; null without attempts */
+  accuracy: number | null;
+}
+
+export interface CalibrationSummary {
+  bins: CalibrationBin[];
+  attempts: number;
+  /** Mean squared gap between stated probability and outcome (0 = perfect, lower is better) */
+  brierScore: number | null;
+  /** Attempt-weighted accuracy minus stated probability: below 0 overconfident, above 0 underconfident */
+  bias: number | null;
+}
+
+export interface TopicCalibration extends CalibrationSummary {
+  topicId: string;
+  topicTitle: string;
+}
+
+export interface CalibrationCallout {
+  topicId: string;
+  topicTitle: string;
+  confidence: ConfidenceLevel;
+  accuracy: number;
+  attempts: number;
+  kind: 'overconfident' | 'underconfident';
+  message: string;
+}
+
+export interface CalibrationReport {
+  overall: CalibrationSummary;
+  topics: TopicCalibration[];
+  callouts: CalibrationCallout[];
+}
+
+interface CalibrationStatsRow {
+  topic_id: string | null;
+  topic_title: string | null;
+  confidence: string;
+  attempts: number;
+  correct: number;
+}
+
+export function mapCalibrationRow(row: CalibrationStatsRow): CalibrationRow {
+  return {
+    topicId: row.topic_id,
+    topicTitle: row.topic_title,
+    confidence: row.confidence as ConfidenceLevel,
+    attempts: Number(row.attempts),
+    correct: Number(row.correct),
+  };
+}
+
+/** `userId` null = every student (admins only); `courseIds` empty = every course */
+export async function fetchCalibrationStats(
+  client: SupabaseClient,
+  userId: string | null,
+  courseIds: string[]
+): Promise<CalibrationRow[]> {
+  const { data, error } = await (client.rpc as CallableFunction)('get_calibration_stats', {
+    p_user_id: userId,
+    p_course_ids: courseIds.length > 0 ? courseIds : null,
+  });
+  if (error) throw error;
+  return ((data ?? []) as CalibrationStatsRow[])
+    .filter((row) => row.confidence in CONFIDENCE_PROBABILITY)
+    .map(mapCalibrationRow);
+}
+
+/** Bins, Brier score and bias of one set of rows (one topic, or the totals) */
+export function summarizeCalibration(rows: CalibrationRow[]): CalibrationSummary {
+  const bins = CONFIDENCE_LEVELS.map((confidence): CalibrationBin => {
+    const attempts = rows.filter((r) => r.confidence === confidence).reduce((sum, r) => sum + r.attempts, 0);
+    const correct = rows.filter((r) => r.confidence === confidence).reduce((sum, r) => sum + r.correct, 0);
+    return {
+      confidence,
+      stated: CONFIDENCE_PROBABILITY[confidence],
+      attempts,
+      correct,
+      accuracy: attempts > 0 ? correct / attempts : null,
+    };
+  });
+
+  const attempts = bins.reduce((sum, b) => sum + b.attempts, 0);
+  if (attempts === 0) return { bins, attempts, brierScore: null, bias: null };
+
+  // Right answers score (1 - p)^2, wrong ones p^2
+  const squaredError = bins.reduce(
+    (sum, b) => sum + b.correct * (1 - b.stated) ** 2 + (b.attempts - b.correct) * b.stated ** 2,
+    0
+  );
+  const gap = bins.reduce((sum, b) => sum + b.correct - b.attempts * b.stated, 0);
+  return { bins, attempts, brierScore: squaredError / attempts, bias: gap / attempts };
+}
+
+function calloutMessage(topicTitle: string, confidence: ConfidenceLevel, accuracy: number, overconfident: boolean): string {
+  const level = CONFIDENCE_LABELS[confidence].toLowerCase();
+  const percent = Math.round(accuracy * 100);
+  return overconfident
+    ? `You mark '${level}' on ${topicTitle} but are right only ${percent}% of the time.`
+    : `You mark '${level}' on ${topicTitle} but are right ${percent}% of the time. Trust yourself more.`;
+}
+
+/** Totals, per-topic summaries (most attempts first) and the largest per-topic gaps */
+export function buildCalibrationReport(rows: CalibrationRow[]): CalibrationReport {
+  const overall = summarizeCalibration(rows.filter((r) => r.topicId === null));
+
+  const byTopic = new Map<string, CalibrationRow[]>();
+  for (const row of rows) {
+    if (row.topicId === null) continue;
+    byTopic.set(row.topicId, [...(byTopic.get(row.topicId) ?? []), row]);
+  }
+  const topics = [...byTopic].map(([topicId, topicRows]): TopicCalibration => ({
+    topicId,
+    topicTitle: topicRows[0].topicTitle ?? 'Topic',
+    ...summarizeCalibration(topicRows),
+  })).sort((a, b) => b.attempts - a.attempts || a.topicTitle.localeCompare(b.topicTitle));
+
+  const callouts = topics.flatMap((topic) =>
+    topic.bins
+      .filter((bin) => bin.accuracy !== null && bin.attempts >= MIN_CALLOUT_ATTEMPTS)
+      .map((bin) => ({ bin, gapPoints: Math.round((bin.accuracy! - bin.stated) * 100) }))
+      .filter(({ gapPoints }) => Math.abs(gapPoints) >= CALLOUT_GAP_POINTS)
+      .map(({ bin, gapPoints }) => ({
+        gapPoints,
+        callout: {
+          topicId: topic.topicId,
+          topicTitle: topic.topicTitle,
+          confidence: bin.confidence,
+          accuracy: bin.accuracy!,
+          attempts: bin.attempts,
+          kind: gapPoints < 0 ? 'overconfident' as const : 'underconfident' as const,
+          message: calloutMessage(topic.topicTitle, bin.confidence, bin.accuracy!, gapPoints < 0),
+        },
+      }))
+  )
+    .sort((a, b) => Math.abs(b.gapPoints) - Math.abs(a.gapPoints) || b.callout.attempts - a.callout.attempts)
+    .slice(0, MAX_CALLOUTS)
+    .map(({ callout }) => callout);
+
+  return { overall, topics, callouts };
+}
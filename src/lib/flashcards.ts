@@ -0,0 +1,149 @@
+/**
+ * Flashcards from a material's V4 chunk analysis (definitions, formulas, key terms),
+ * and how they are mixed into a study session.
+ * A flashcard is a question with question_format 'flashcard' and questions.flashcard set.
+ */
+import type { ChunkFormula, MaterialAnalysisV4, QuestionReadyChunk } from '@/types/materials';
+import type { Flashcard, StudyQuestion } from '@/types/study';
+
+export interface FlashcardDraft {
+  flashcard: Flashcard;
+  /** Title of the analysis topic whose supporting chunks include the card's chunk */
+  topicTitle: string | null;
+}
+
+/** At most one flashcard per this many regular questions in a session */
+export const QUESTIONS_PER_FLASHCARD = 2;
+
+function normalizeKey(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The expression with every occurrence of the variable blanked out; null if the symbol
+ * doesn't occur as a token of its own (e.g. "a" inside "\frac", or "v" of "v_0")
+ */
+export function blankVariable(expression: string, symbol: string): string | null {
+  const pattern = new RegExp(`(?<![A-Za-z\\\\])${escapeRegExp(symbol.trim())}(?![A-Za-z_])`, 'g');
+  if (!symbol.trim() || !pattern.test(expression)) return null;
+  return expression.replace(pattern, '\\boxed{?}');
+}
+
+function formulaBack(formula: ChunkFormula): string {
+  const lines = [`**${formula.name}**`];
+  if (formula.variables.length > 0) {
+    lines.push('', ...formula.variables.map(v => `- $${v.symbol}$: ${v.meaning}${v.domain ? ` (${v.domain})` : ''}`));
+  }
+  if (formula.conditions.length > 0) {
+    lines.push('', 'Holds when:', ...formula.conditions.map(c => `- ${c}`));
+  }
+  return lines.join('\n');
+}
+
+function chunkFlashcards(chunk: QuestionReadyChunk): Flashcard[] {
+  const evidenceOf = (spanId: string) =>
+    chunk.evidence_spans.find(span => span.span_id === spanId)?.text ?? null;
+  const cards: Flashcard[] = [];
+
+  for (const definition of chunk.definitions) {
+    if (!definition.term.trim() || !definition.definition.trim()) continue;
+    cards.push({
+      kind: 'definition',
+      key: `definition:${normalizeKey(definition.term)}`,
+      front: `Define **${definition.term.trim()}**.`,
+      back: definition.definition.trim(),
+      evidence: evidenceOf(definition.evidence_span_id),
+    });
+  }
+
+  // Key terms without a definition of their own, defined by a definition-type fact
+  const definedTerms = new Set(chunk.definitions.map(d => normalizeKey(d.term)));
+  for (const term of chunk.key_terms) {
+    if (!term.trim() || definedTerms.has(normalizeKey(term))) continue;
+    const fact = chunk.atomic_facts.find(f =>
+      f.fact_type === 'definition' && f.statement.toLowerCase().includes(normalizeKey(term))
+    );
+    if (!fact) continue;
+    cards.push({
+      kind: 'definition',
+      key: `definition:${normalizeKey(term)}`,
+      front: `Define **${term.trim()}**.`,
+      back: fact.statement.trim(),
+      evidence: evidenceOf(fact.evidence_span_id),
+    });
+  }
+
+  for (const formula of chunk.formulas) {
+    if (!formula.name.trim() || !formula.expression.trim()) continue;
+    const evidence = evidenceOf(formula.evidence_span_id);
+    cards.push({
+      kind: 'formula',
+      key: `formula:${normalizeKey(formula.name)}`,
+      front: `$$${formula.expression}$$\n\nWhat is this formula, and when does it apply?`,
+      back: formulaBack(formula),
+      conditions: formula.conditions,
+      evidence,
+    });
+
+    // A cloze per variable; a one-variable formula would give its name away
+    if (formula.variables.length < 2) continue;
+    for (const variable of formula.variables) {
+      const blanked = blankVariable(formula.expression, variable.symbol);
+      if (!blanked) continue;
+      cards.push({
+        kind: 'cloze',
+        key: `cloze:${normalizeKey(formula.name)}:${variable.symbol.trim()}`,
+        front: `Fill in the blank in ${formula.name.trim()}:\n\n$$${blanked}$$`,
+        back: `$${variable.symbol.trim()}$: ${variable.meaning}${variable.domain ? ` (${variable.domain})` : ''}`,
+        conditions: formula.conditions,
+        evidence,
+      });
+    }
+  }
+
+  return cards;
+}
+
+/** Every flashcard the analysis supports, first occurrence of each key */
+export function buildFlashcards(analysis: MaterialAnalysisV4): FlashcardDraft[] {
+  const seen = new Set<string>();
+  const drafts: FlashcardDraft[] = [];
+
+  for (const chunk of analysis.question_ready_chunks) {
+    const topic = analysis.topics.find(t => t.supporting_chunks.includes(chunk.chunk_index));
+    for (const flashcard of chunkFlashcards(chunk)) {
+      if (seen.has(flashcard.key)) continue;
+      seen.add(flashcard.key);
+      drafts.push({ flashcard, topicTitle: topic?.title ?? null });
+    }
+  }
+
+  return drafts;
+}
+
+/**
+ * Spreads flashcards evenly between the other questions, keeping both in their ranked
+ * order. With other questions present, flashcards beyond one per QUESTIONS_PER_FLASHCARD
+ * are left for a later session.
+ */
+export function interleaveFlashcards<T extends Pick<StudyQuestion, 'questionFormat'>>(items: T[]): T[] {
+  const others = items.filter(q => q.questionFormat !== 'flashcard');
+  const cards = items.filter(q => q.questionFormat === 'flashcard');
+  if (others.length === 0 || cards.length === 0) return items;
+
+  const kept = cards.slice(0, Math.max(1, Math.floor(others.length / QUESTIONS_PER_FLASHCARD)));
+  const spacing = others.length / kept.length;
+  const result: T[] = [];
+  let placed = 0;
+  others.forEach((question, i) => {
+    result.push(question);
+    while (placed < kept.length && (placed + 1) * spacing <= i + 1) {
+      result.push(kept[placed++]);
+    }
+  });
+  return result;
+}
@@ -0,0 +1,179 @@
+/**
+ * Per-student FSRS weight optimizer.
+ * Fits the FSRS weights to one student's review history by minimising the log loss
+ * of the forgetting curve's recall predictions. Pure — callers fetch attempts and
+ * persist the result (see src/hooks/use-fsrs-parameters.ts).
+ */
+import {
+  FSRSAlgorithm,
+  Rating,
+  clipParameters,
+  dateDiffInDays,
+  default_w,
+  type FSRSState,
+  type Grade,
+} from 'ts-fsrs';
+
+/** Minimum rated reviews before personalized weights are fitted (mirrored in recalculate_fsrs_for_user). */
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 100;
+
+/** One rated review of one card, as recorded in `attempts`. */
+export interface OptimizerReview {
+  cardId: string;
+  reviewedAt: Date;
+  rating: Grade;
+}
+
+export interface OptimizerOptions {
+  iterations?: number;
+  learningRate?: number;
+  /** Pull toward the default weights; keeps small histories from overfitting. */
+  regularization?: number;
+  initialWeights?: readonly number[];
+}
+
+export interface OptimizerResult {
+  weights: number[];
+  reviewCount: number;
+  /** Mean log loss of `weights` on the reviews. */
+  logLoss: number;
+  /** Mean log loss of the default weights on the same reviews. */
+  defaultLogLoss: number;
+}
+
+interface ReviewStep {
+  deltaDays: number;
+  rating: Grade;
+}
+
+const EPSILON = 1e-6;
+// Matches the single relearning step in generatorParameters() defaults
+const NUM_RELEARNING_STEPS = 1;
+
+/** Group reviews into per-card sequences of (days since previous review, rating). */
+export function buildReviewSequences(reviews: OptimizerReview[]): ReviewStep[][] {
+  const byCard = new Map<string, OptimizerReview[]>();
+  for (const review of reviews) {
+    const list = byCard.get(review.cardId);
+    if (list) list.push(review);
+    else byCard.set(review.cardId, [review]);
+  }
+
+  const sequences: ReviewStep[][] = [];
+  for (const list of byCard.values()) {
+    list.sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime());
+    sequences.push(
+      list.map((review, i) => ({
+        deltaDays: i === 0 ? 0 : Math.max(0, dateDiffInDays(list[i - 1].reviewedAt, review.reviewedAt)),
+        rating: review.rating,
+      }))
+    );
+  }
+  return sequences;
+}
+
+/**
+ * Mean log loss of recall predictions for a weight vector.
+ * Only reviews at least one day after the previous one are scored (same-day
+ * reviews are short-term steps, not tests of the forgetting curve).
+ */
+export function computeLogLoss(
+  weights: readonly number[],
+  sequences: ReviewStep[][]
+): { logLoss: number; count: number } {
+  const algorithm = new FSRSAlgorithm({ w: [...weights] });
+  let total = 0;
+  let count = 0;
+
+  for (const steps of sequences) {
+    let memory: FSRSState | null = null;
+    for (const step of steps) {
+      if (memory && step.deltaDays >= 1) {
+        const r = Math.min(1 - EPSILON, Math.max(EPSILON, algorithm.forgetting_curve(step.deltaDays, memory.stability)));
+        const recalled = step.rating !== Rating.Again;
+        total += recalled ? -Math.log(r) : -Math.log(1 - r);
+        count++;
+      }
+      memory = algorithm.next_state(memory, step.deltaDays, step.rating);
+    }
+  }
+
+  return { logLoss: count > 0 ? total / count : 0, count };
+}
+
+/**
+ * Fit FSRS weights to a student's reviews with Adam over finite-difference
+ * gradients, clipping to the ts-fsrs parameter bounds after each step.
+ * Returns null when there is not enough history to fit.
+ * Never returns weights that score worse than the defaults.
+ */
+export function optimizeFsrsWeights(
+  reviews: OptimizerReview[],
+  options: OptimizerOptions = {}
+): OptimizerResult | null {
+  if (reviews.length < MIN_REVIEWS_FOR_OPTIMIZATION) return null;
+
+  const {
+    iterations = 40,
+    learningRate = 0.05,
+    regularization = 5,
+    initialWeights = default_w,
+  } = options;
+
+  const sequences = buildReviewSequences(reviews);
+  const defaults = [...default_w];
+  const baseline = computeLogLoss(defaults, sequences);
+  if (baseline.count === 0) return null;
+
+  // Per-weight scale so initial stabilities (w0..w3, up to ~100) and small
+  // coefficients move proportionally
+  const scales = defaults.map((w) => Math.max(0.1, Math.abs(w)));
+  const objective = (w: number[]) => {
+    let penalty = 0;
+    for (let i = 0; i < w.length; i++) {
+      const z = (w[i] - defaults[i]) / scales[i];
+      penalty += z * z;
+    }
+    return computeLogLoss(w, sequences).logLoss + (regularization * penalty) / baseline.count;
+  };
+
+  let weights = clipParameters([...initialWeights], NUM_RELEARNING_STEPS, true);
+  let best = { weights, logLoss: computeLogLoss(weights, sequences).logLoss };
+  const m = new Array(weights.length).fill(0);
+  const v = new Array(weights.length).fill(0);
+  const beta1 = 0.9;
+  const beta2 = 0.999;
+
+  for (let t = 1; t <= iterations; t++) {
+    const current = objective(weights);
+    const grad = weights.map((w, i) => {
+      const h = 1e-4 * scales[i];
+      const probe = [...weights];
+      probe[i] = w + h;
+      return (objective(probe) - current) / h;
+    });
+
+    const next = weights.map((w, i) => {
+      m[i] = beta1 * m[i] + (1 - beta1) * grad[i];
+      v[i] = beta2 * v[i] + (1 - beta2) * grad[i] * grad[i];
+      const mHat = m[i] / (1 - Math.pow(beta1, t));
+      const vHat = v[i] / (1 - Math.pow(beta2, t));
+      return w - (learningRate * scales[i] * mHat) / (Math.sqrt(vHat) + 1e-8);
+    });
+    weights = clipParameters(next, NUM_RELEARNING_STEPS, true);
+
+    const { logLoss } = computeLogLoss(weights, sequences);
+    if (logLoss < best.logLoss) best = { weights, logLoss };
+  }
+
+  if (best.logLoss > baseline.logLoss) {
+    best = { weights: defaults, logLoss: baseline.logLoss };
+  }
+
+  return {
+    weights: best.weights,
+    reviewCount: reviews.length,
+    logLoss: best.logLoss,
+    defaultLogLoss: baseline.logLoss,
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Web Worker running the FSRS optimizer off the main thread: a few thousand reviews
+ * take seconds to fit. Receives review groups, posts back one result (or null) per group.
+ * Started by optimizeFsrsParametersForUser (src/hooks/use-fsrs-parameters.ts).
+ */
+import { optimizeFsrsWeights, type OptimizerReview } from './fsrs-optimizer';
+
+self.onmessage = (event: MessageEvent<OptimizerReview[][]>) => {
+  self.postMessage(event.data.map((reviews) => optimizeFsrsWeights(reviews)));
+};
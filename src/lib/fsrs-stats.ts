@@ -66,6 +66,29 @@ export function projectRetention(
   return fsrsInstance.forgetting_curve(totalElapsed, stability);
 }
 
+/**
+ * Exam capping (supabase/functions/_shared/exam-capping.ts): a card reviewed before
+ * the last EXAM_REVIEW_WINDOW_DAYS and due after the exam is moved to
+ * EXAM_REVIEW_LEAD_DAYS before it. Must stay in sync with the edge functions.
+ */
+export const EXAM_REVIEW_WINDOW_DAYS = 3;
+export const EXAM_REVIEW_LEAD_DAYS = 2;
+
+/**
+ * Project R on exam day following the exam-capped plan: when the exam is far
+ * enough out, a review is scheduled EXAM_REVIEW_LEAD_DAYS before it, so R at the
+ * exam is at least the R of a card reviewed then. Otherwise plain decay.
+ */
+export function projectExamRetention(
+  stability: number,
+  elapsedDays: number,
+  daysUntilExam: number
+): number {
+  const withoutReview = projectRetention(stability, elapsedDays, daysUntilExam);
+  if (daysUntilExam <= EXAM_REVIEW_WINDOW_DAYS) return withoutReview;
+  return Math.max(withoutReview, projectRetention(stability, 0, EXAM_REVIEW_LEAD_DAYS));
+}
+
 /** Color class for risk badges. */
 export function riskColorClass(risk: 'safe' | 'warning' | 'danger'): string {
   switch (risk) {
@@ -1,14 +1,56 @@
-import { FSRS, Card, Rating, State, createEmptyCard, generatorParameters } from 'ts-fsrs';
+import { FSRS, Card, Rating, State, createEmptyCard, generatorParameters, type Grade } from 'ts-fsrs';
+
+// App-wide defaults; users can override per course (see src/hooks/use-retention-settings.ts)
+export const DEFAULT_REQUEST_RETENTION = 0.9;
+export const DEFAULT_MAXIMUM_INTERVAL = 365;
 
 // Singleton FSRS instance with app-wide parameters
 const params = generatorParameters({
   enable_fuzz: true,
-  maximum_interval: 365,
-  request_retention: 0.9,
+  maximum_interval: DEFAULT_MAXIMUM_INTERVAL,
+  request_retention: DEFAULT_REQUEST_RETENTION,
 });
 
 export const fsrsInstance = new FSRS(params);
 
+export interface FsrsSchedulerOptions {
+  /** Personalized weights (see src/lib/fsrs-optimizer.ts); null = defaults */
+  weights?: readonly number[] | null;
+  requestRetention?: number;
+  maximumInterval?: number;
+}
+
+// Schedulers for non-default options, keyed by weights + retention + max interval
+const schedulerCache = new Map<string, FSRS>();
+
+// Get a scheduler for a student's fitted weights and retention settings. Falls back to
+// the app-wide instance when everything is default.
+export function getFsrsScheduler(options: FsrsSchedulerOptions = {}): FSRS {
+  const weights = options.weights && options.weights.length > 0 ? options.weights : null;
+  const requestRetention = options.requestRetention ?? DEFAULT_REQUEST_RETENTION;
+  const maximumInterval = options.maximumInterval ?? DEFAULT_MAXIMUM_INTERVAL;
+  if (
+    !weights &&
+    requestRetention === DEFAULT_REQUEST_RETENTION &&
+    maximumInterval === DEFAULT_MAXIMUM_INTERVAL
+  ) {
+    return fsrsInstance;
+  }
+
+  const key = `${weights?.join(',') ?? 'default'}|${requestRetention}|${maximumInterval}`;
+  let scheduler = schedulerCache.get(key);
+  if (!scheduler) {
+    scheduler = new FSRS({
+      ...params,
+      ...(weights ? { w: [...weights] } : {}),
+      request_retention: requestRetention,
+      maximum_interval: maximumInterval,
+    });
+    schedulerCache.set(key, scheduler);
+  }
+  return scheduler;
+}
+
 // Shape of the srs_state DB row (FSRS fields only)
 export interface DbSrsRow {
   due_at: string;
@@ -56,9 +98,74 @@ export function cardToDbRow(card: Card): DbSrsRow {
 }
 
 // Schedule a card given a rating. Returns the updated Card.
-export function scheduleCard(card: Card, rating: Rating, now: Date = new Date()): Card {
-  const result = fsrsInstance.repeat(card, now);
+export function scheduleCard(
+  card: Card,
+  rating: Rating,
+  now: Date = new Date(),
+  options?: FsrsSchedulerOptions
+): Card {
+  const result = getFsrsScheduler(options).repeat(card, now);
   return result[rating].card;
 }
 
+/** Predicted outcome of one rating button ("buttons" rating mode) */
+export interface RatingPreview {
+  rating: Grade;
+  due: Date;
+}
+
+const GRADES: Grade[] = [Rating.Again, Rating.Hard, Rating.Good, Rating.Easy];
+
+// Next due date for each of the four ratings, from the scheduler's repeat().
+// `card` null = never reviewed. Fuzz can shift the real due date by a few days.
+export function previewRatings(
+  card: Card | null,
+  now: Date = new Date(),
+  options?: FsrsSchedulerOptions
+): RatingPreview[] {
+  const preview = getFsrsScheduler(options).repeat(card ?? createEmptyCard(now), now);
+  return GRADES.map((rating) => ({ rating, due: preview[rating].card.due }));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DECAY = 0.1542;
+
+// Review interval (days) for a card at a target retention, without fuzz: FSRS-6
+// I = S / (0.9^(1/-decay) - 1) * (R^(1/-decay) - 1), clamped to [1, maximumInterval].
+// Mirrors apply_retention_settings(), which reschedules Review cards after a settings change.
+export function retentionIntervalDays(
+  stability: number,
+  desiredRetention: number,
+  maximumInterval: number,
+  decay: number = DEFAULT_DECAY
+): number {
+  const factor = Math.pow(0.9, 1 / -decay) - 1;
+  const interval = Math.round((stability / factor) * (Math.pow(desiredRetention, 1 / -decay) - 1));
+  return Math.min(maximumInterval, Math.max(1, interval));
+}
+
+// Due date after a retention change: the new interval from the last review, plus whatever
+// moved the card since (a study pause shift, backlog smoothing). Mirrors apply_retention_settings().
+export function rescheduledDueAt(
+  row: Pick<DbSrsRow, 'due_at' | 'last_reviewed_at' | 'scheduled_days'>,
+  intervalDays: number
+): string {
+  const reviewedAt = new Date(row.last_reviewed_at!).getTime();
+  const offset = new Date(row.due_at).getTime() - (reviewedAt + row.scheduled_days * DAY_MS);
+  return new Date(reviewedAt + intervalDays * DAY_MS + offset).toISOString();
+}
+
+// Short interval label for a rating button: "<1m", "10m", "3h", "4d", "2mo", "1.5y"
+export function formatIntervalLabel(now: Date, due: Date): string {
+  const minutes = Math.max(0, (due.getTime() - now.getTime()) / 60_000);
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  const hours = minutes / 60;
+  if (hours < 24) return `${Math.round(hours)}h`;
+  const days = hours / 24;
+  if (days < 30) return `${Math.round(days)}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round((days / 365) * 10) / 10}y`;
+}
+
 export { Rating, State, createEmptyCard };
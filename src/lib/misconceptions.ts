@@ -0,0 +1,110 @@
+/**
+ * Misconception profile: the misconceptions behind the wrong choices a student picked
+ * (get_misconception_profile RPC, supabase/migrations/20260409000001_misconception_profile.sql).
+ * A misconception fades as the student answers questions carrying it correctly after last
+ * picking it, and is cleared after MISCONCEPTION_CLEARED_AFTER such answers.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DistractorRationale } from '@/types/study';
+
+/** Correct answers since the last pick that clear a misconception (mirrors the migration) */
+export const MISCONCEPTION_CLEARED_AFTER = 3;
+
+export type MisconceptionStatus = 'active' | 'fading' | 'cleared';
+
+export interface Misconception {
+  /** Normalised diagnosis, shared by every question carrying it */
+  key: string;
+  diagnosis: string;
+  fix: string | null;
+  /** Questions carrying the misconception, picked or not */
+  questionIds: string[];
+  topicIds: string[];
+  timesSelected: number;
+  firstSelectedAt: string;
+  lastSelectedAt: string;
+  /** Correct answers on its questions since the last pick */
+  correctSince: number;
+  status: MisconceptionStatus;
+}
+
+interface MisconceptionProfileRow {
+  misconception_key: string;
+  diagnosis: string;
+  fix: string | null;
+  question_ids: string[] | null;
+  topic_ids: string[] | null;
+  times_selected: number;
+  first_selected_at: string;
+  last_selected_at: string;
+  correct_since: number;
+}
+
+export function misconceptionStatus(correctSince: number): MisconceptionStatus {
+  if (correctSince >= MISCONCEPTION_CLEARED_AFTER) return 'cleared';
+  return correctSince > 0 ? 'fading' : 'active';
+}
+
+export function mapMisconceptionRow(row: MisconceptionProfileRow): Misconception {
+  const correctSince = Number(row.correct_since);
+  return {
+    key: row.misconception_key,
+    diagnosis: row.diagnosis,
+    fix: row.fix,
+    questionIds: row.question_ids ?? [],
+    topicIds: row.topic_ids ?? [],
+    timesSelected: Number(row.times_selected),
+    firstSelectedAt: row.first_selected_at,
+    lastSelectedAt: row.last_selected_at,
+    correctSince,
+    status: misconceptionStatus(correctSince),
+  };
+}
+
+/** Most recently picked first; `courseIds` empty = every course */
+export async function fetchMisconceptionProfile(
+  client: SupabaseClient,
+  userId: string,
+  courseIds: string[]
+): Promise<Misconception[]> {
+  const { data, error } = await (client.rpc as CallableFunction)('get_misconception_profile', {
+    p_user_id: userId,
+    p_course_ids: courseIds.length > 0 ? courseIds : null,
+  });
+  if (error) throw error;
+  return ((data ?? []) as MisconceptionProfileRow[]).map(mapMisconceptionRow);
+}
+
+/** Same normalisation as the migration: whitespace collapsed, lower case */
+export function misconceptionKey(diagnosis: string): string {
+  return diagnosis.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Key of the misconception behind a wrong choice; null when the choice names none */
+export function misconceptionKeyForChoice(
+  rationales: DistractorRationale[] | null | undefined,
+  choiceId: string
+): string | null {
+  const rationale = rationales?.find((r) => r.id === choiceId);
+  if (!rationale) return null;
+  const key = misconceptionKey(rationale.diagnosis?.trim() || rationale.misconception || '');
+  return key || null;
+}
+
+/** Profile entries for `keys`, in the order of `keys` */
+export function misconceptionsWithKeys(profile: Misconception[], keys: string[]): Misconception[] {
+  const byKey = new Map(profile.map((m) => [m.key, m]));
+  return keys.flatMap((key) => byKey.get(key) ?? []);
+}
+
+/**
+ * Questions to practise for the misconceptions not yet cleared: active ones before fading
+ * ones, then most recently picked first, each question once.
+ */
+export function misconceptionTargetQuestionIds(profile: Misconception[]): string[] {
+  const rank: Record<MisconceptionStatus, number> = { active: 0, fading: 1, cleared: 2 };
+  const targets = profile
+    .filter((m) => m.status !== 'cleared')
+    .sort((a, b) => rank[a.status] - rank[b.status] || b.lastSelectedAt.localeCompare(a.lastSelectedAt));
+  return [...new Set(targets.flatMap((m) => m.questionIds))];
+}
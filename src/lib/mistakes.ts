@@ -0,0 +1,173 @@
+/**
+ * Mistake notebook: the student's wrong answers (attempts joined with questions), one entry
+ * per question or subpart, with the answer given, the correct answer, the grader's feedback
+ * and the misconception behind the picked choice. An entry is corrected once a later
+ * attempt on it was right.
+ */
+import type { AnswerGrade, DistractorRationale, StudySubpart } from '@/types/study';
+
+interface MistakeChoice {
+  id: string;
+  text: string;
+  isCorrect?: boolean;
+}
+
+/** attempts row with its question, as selected by useMistakes */
+export interface MistakeAttemptRow {
+  id: string;
+  question_id: string;
+  subpart_id: string | null;
+  selected_choice_id: string | null;
+  answer_text: string | null;
+  ai_feedback: AnswerGrade | null;
+  created_at: string;
+  questions: {
+    prompt: string;
+    choices: MistakeChoice[] | null;
+    correct_answer: string | null;
+    distractor_rationales: DistractorRationale[] | null;
+    subparts: StudySubpart[] | null;
+    topic_ids: string[] | null;
+    course_pack_id: string | null;
+    course_packs: { title: string } | null;
+  } | null;
+}
+
+/** A correct attempt, only needed to tell whether a mistake was corrected */
+export interface CorrectAttemptRow {
+  question_id: string;
+  subpart_id: string | null;
+  created_at: string;
+}
+
+export interface MistakeEntry {
+  /** question id, or question id:subpart id */
+  key: string;
+  questionId: string;
+  subpartId: string | null;
+  courseId: string | null;
+  courseTitle: string | null;
+  topics: Array<{ id: string; title: string }>;
+  prompt: string;
+  /** Latest wrong answer: the picked choice or the typed answer */
+  answer: string | null;
+  correctAnswer: string | null;
+  feedback: AnswerGrade | null;
+  rationale: DistractorRationale | null;
+  wrongCount: number;
+  lastWrongAt: string;
+  corrected: boolean;
+}
+
+export type MistakeStatus = 'all' | 'open' | 'corrected';
+
+export interface MistakeFilters {
+  courseId: string | null;
+  topicId: string | null;
+  /** Inclusive yyyy-mm-dd bounds on the latest wrong answer (local dates) */
+  from: string | null;
+  to: string | null;
+  status: MistakeStatus;
+}
+
+export const DEFAULT_MISTAKE_FILTERS: MistakeFilters = {
+  courseId: null,
+  topicId: null,
+  from: null,
+  to: null,
+  status: 'all',
+};
+
+function choiceLabel(choice: MistakeChoice): string {
+  return `${choice.id}. ${choice.text}`;
+}
+
+function entryKey(questionId: string, subpartId: string | null): string {
+  return subpartId ? `${questionId}:${subpartId}` : questionId;
+}
+
+/**
+ * One entry per question / subpart from wrong attempts (any order), newest mistake first.
+ * `topicTitles` names the topics; unknown ids are left out.
+ */
+export function buildMistakeEntries(
+  wrongAttempts: MistakeAttemptRow[],
+  correctAttempts: CorrectAttemptRow[],
+  topicTitles: Map<string, string>
+): MistakeEntry[] {
+  const lastCorrectAt = new Map<string, string>();
+  for (const attempt of correctAttempts) {
+    const key = entryKey(attempt.question_id, attempt.subpart_id);
+    if ((lastCorrectAt.get(key) ?? '') < attempt.created_at) lastCorrectAt.set(key, attempt.created_at);
+  }
+
+  const byKey = new Map<string, { latest: MistakeAttemptRow; count: number }>();
+  for (const attempt of wrongAttempts) {
+    if (!attempt.questions) continue;
+    const key = entryKey(attempt.question_id, attempt.subpart_id);
+    const group = byKey.get(key);
+    if (!group) {
+      byKey.set(key, { latest: attempt, count: 1 });
+    } else {
+      group.count += 1;
+      if (attempt.created_at > group.latest.created_at) group.latest = attempt;
+    }
+  }
+
+  return [...byKey].map(([key, { latest, count }]): MistakeEntry => {
+    const question = latest.questions!;
+    const subpart = latest.subpart_id
+      ? (question.subparts ?? []).find((s) => s.id === latest.subpart_id) ?? null
+      : null;
+    const choices = subpart ? [] : question.choices ?? [];
+    const picked = choices.find((c) => c.id === latest.selected_choice_id);
+    const correctChoice = choices.find((c) => c.isCorrect) ?? choices.find((c) => c.id === question.correct_answer);
+    const topicIds = question.topic_ids ?? [];
+
+    return {
+      key,
+      questionId: latest.question_id,
+      subpartId: latest.subpart_id,
+      courseId: question.course_pack_id,
+      courseTitle: question.course_packs?.title ?? null,
+      topics: topicIds.filter((id) => topicTitles.has(id)).map((id) => ({ id, title: topicTitles.get(id)! })),
+      prompt: subpart ? `${question.prompt}\n\n**(${subpart.id})** ${subpart.prompt}` : question.prompt,
+      answer: picked ? choiceLabel(picked) : latest.answer_text?.trim() || null,
+      correctAnswer: subpart
+        ? subpart.correctAnswer ?? subpart.modelAnswer ?? null
+        : correctChoice ? choiceLabel(correctChoice) : question.correct_answer,
+      feedback: latest.ai_feedback,
+      rationale: picked
+        ? (question.distractor_rationales ?? []).find((r) => r.id === picked.id) ?? null
+        : null,
+      wrongCount: count,
+      lastWrongAt: latest.created_at,
+      corrected: (lastCorrectAt.get(key) ?? '') > latest.created_at,
+    };
+  }).sort((a, b) => b.lastWrongAt.localeCompare(a.lastWrongAt));
+}
+
+function localDay(iso: string): string {
+  const date = new Date(iso);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function filterMistakes(entries: MistakeEntry[], filters: MistakeFilters): MistakeEntry[] {
+  return entries.filter((entry) => {
+    if (filters.courseId && entry.courseId !== filters.courseId) return false;
+    if (filters.topicId && !entry.topics.some((t) => t.id === filters.topicId)) return false;
+    if (filters.status === 'open' && entry.corrected) return false;
+    if (filters.status === 'corrected' && !entry.corrected) return false;
+    const day = localDay(entry.lastWrongAt);
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+    return true;
+  });
+}
+
+/** Questions to re-practise, each once, in entry order */
+export function mistakeQuestionIds(entries: MistakeEntry[]): string[] {
+  return [...new Set(entries.map((entry) => entry.questionId))];
+}
@@ -0,0 +1,235 @@
+/**
+ * Timed mock exams: a full paper taken against the clock, with no feedback until it is
+ * submitted. A paper is either a real past exam (questions.source_exam, in question_order)
+ * or a blueprint of an upcoming exam: the topics it covers (topics.midterm_coverage),
+ * weighted by how often past papers of the same kind asked about them.
+ *
+ * Papers are graded on the device, so only single-part multiple-choice questions are used.
+ */
+import type { StudyQuestion } from '@/types/study';
+
+export type MockExamSource = 'past_exam' | 'blueprint';
+
+/** Blueprint length when there is no past paper of the same kind to copy */
+export const DEFAULT_BLUEPRINT_LENGTH = 20;
+/** Pace the default time limit allows for */
+export const MINUTES_PER_QUESTION = 2.5;
+
+/** The fields a paper needs from a question */
+export type MockExamQuestion = Pick<
+  StudyQuestion,
+  'id' | 'choices' | 'correctChoiceId' | 'subparts' | 'difficulty' | 'topicIds' | 'topicNames' | 'questionType' | 'familyId'
+>;
+
+export function isGradableMockQuestion(q: Pick<StudyQuestion, 'choices' | 'correctChoiceId' | 'subparts'>): boolean {
+  return !!q.correctChoiceId && (q.choices?.length ?? 0) > 0 && !(q.subparts && q.subparts.length > 0);
+}
+
+/** Midterm number of an exam name or calendar title ("Fall 2024 Midterm 2" -> 2); null = final */
+export function examKindOf(name: string): number | null {
+  const match = name.match(/midterm\s*(\d)/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/** Time limit for a paper, rounded up to 5 minutes */
+export function defaultTimeLimitMinutes(questionCount: number): number {
+  return Math.max(10, Math.ceil((questionCount * MINUTES_PER_QUESTION) / 5) * 5);
+}
+
+/** Seconds as m:ss, or h:mm:ss from an hour */
+export function formatClock(totalSeconds: number): string {
+  const s = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(s / 3600);
+  const minutes = Math.floor((s % 3600) / 60);
+  const seconds = String(s % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/** Median gradable length of past papers of the same kind; DEFAULT_BLUEPRINT_LENGTH if none */
+export function typicalPaperLength(paperLengths: number[]): number {
+  const lengths = paperLengths.filter((n) => n > 0).sort((a, b) => a - b);
+  if (lengths.length === 0) return DEFAULT_BLUEPRINT_LENGTH;
+  return lengths[Math.floor((lengths.length - 1) / 2)];
+}
+
+/**
+ * Split `total` questions across topics in proportion to their weights (largest remainder),
+ * so the counts always add up to `total`.
+ */
+export function allocateByWeight(weights: Map<string, number>, total: number): Map<string, number> {
+  const entries = [...weights.entries()].filter(([, w]) => w > 0);
+  const sum = entries.reduce((s, [, w]) => s + w, 0);
+  const quotas = new Map<string, number>();
+  if (sum === 0 || total <= 0) return quotas;
+
+  const exact = entries.map(([id, w]) => ({ id, exact: (w / sum) * total }));
+  exact.forEach(({ id, exact: e }) => quotas.set(id, Math.floor(e)));
+  let left = total - [...quotas.values()].reduce((s, n) => s + n, 0);
+  for (const { id } of [...exact].sort((a, b) => (b.exact % 1) - (a.exact % 1))) {
+    if (left-- <= 0) break;
+    quotas.set(id, quotas.get(id)! + 1);
+  }
+  return quotas;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+export interface BlueprintInput<T extends MockExamQuestion> {
+  /** Candidate questions (gradable ones are used) */
+  pool: T[];
+  /** Topics on the exam and how much of the paper each should take */
+  topicWeights: Map<string, number>;
+  length: number;
+  random?: () => number;
+}
+
+/**
+ * Assemble a blueprint paper: each topic gets its share of `length`, one question per sibling
+ * family; shares a topic can't fill go to the other topics on the exam. Ordered easiest first.
+ */
+export function assembleBlueprint<T extends MockExamQuestion>({
+  pool,
+  topicWeights,
+  length,
+  random = Math.random,
+}: BlueprintInput<T>): T[] {
+  const inScope = shuffle(
+    pool.filter((q) => isGradableMockQuestion(q) && q.topicIds.some((id) => topicWeights.has(id))),
+    random
+  );
+  const quotas = allocateByWeight(topicWeights, length);
+  const picked: T[] = [];
+  const usedFamilies = new Set<string>();
+  const take = (q: T) => {
+    picked.push(q);
+    usedFamilies.add(q.familyId ?? q.id);
+  };
+  const isFree = (q: T) => !usedFamilies.has(q.familyId ?? q.id);
+
+  for (const [topicId, quota] of [...quotas.entries()].sort((a, b) => b[1] - a[1])) {
+    let count = 0;
+    for (const q of inScope) {
+      if (count >= quota || picked.length >= length) break;
+      if (q.topicIds.includes(topicId) && isFree(q)) {
+        take(q);
+        count++;
+      }
+    }
+  }
+  for (const q of inScope) {
+    if (picked.length >= length) break;
+    if (isFree(q)) take(q);
+  }
+
+  return picked.sort((a, b) => a.difficulty - b.difficulty);
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+export interface ScoreBreakdown {
+  key: string;
+  label: string;
+  correct: number;
+  total: number;
+  score: number;
+}
+
+export interface MockExamScore {
+  correct: number;
+  total: number;
+  answered: number;
+  score: number;
+  /** Weakest first; a question counts toward each of its topics */
+  byTopic: ScoreBreakdown[];
+  /** Weakest first */
+  byQuestionType: ScoreBreakdown[];
+}
+
+function addTo(groups: Map<string, ScoreBreakdown>, key: string, label: string, isCorrect: boolean) {
+  const group = groups.get(key) ?? { key, label, correct: 0, total: 0, score: 0 };
+  group.total++;
+  if (isCorrect) group.correct++;
+  groups.set(key, group);
+}
+
+function weakestFirst(groups: Map<string, ScoreBreakdown>): ScoreBreakdown[] {
+  return [...groups.values()]
+    .map((g) => ({ ...g, score: g.correct / g.total }))
+    .sort((a, b) => a.score - b.score || b.total - a.total || a.label.localeCompare(b.label));
+}
+
+/** Grade a submitted paper; `answers` maps question id to the chosen choice (unanswered = wrong) */
+export function scoreMockExam(
+  questions: MockExamQuestion[],
+  answers: Record<string, string | null | undefined>
+): MockExamScore {
+  const byTopic = new Map<string, ScoreBreakdown>();
+  const byType = new Map<string, ScoreBreakdown>();
+  let correct = 0;
+  let answered = 0;
+
+  for (const q of questions) {
+    const selected = answers[q.id] ?? null;
+    const isCorrect = selected !== null && selected === q.correctChoiceId;
+    if (selected !== null) answered++;
+    if (isCorrect) correct++;
+
+    q.topicIds.forEach((id, i) => addTo(byTopic, id, q.topicNames[i] ?? 'Unknown Topic', isCorrect));
+    const type = q.questionType || 'Other';
+    addTo(byType, type, type, isCorrect);
+  }
+
+  return {
+    correct,
+    total: questions.length,
+    answered,
+    score: questions.length > 0 ? correct / questions.length : 0,
+    byTopic: weakestFirst(byTopic),
+    byQuestionType: weakestFirst(byType),
+  };
+}
+
+// ============================================
+// Readiness
+// ============================================
+
+/** Share of exam readiness taken by the latest mock exam score */
+export const MOCK_READINESS_WEIGHT = 0.3;
+
+/** What matching a mock exam to an exam needs from a result */
+export interface MockExamResultRef {
+  source: MockExamSource;
+  coursePackId: string;
+  sourceExam: string | null;
+  calendarEventId: string | null;
+}
+
+/**
+ * Latest mock exam for an exam: its blueprint, or a past paper of the same kind
+ * (`results` latest first).
+ */
+export function latestMockForExam<T extends MockExamResultRef>(
+  exam: { examId: string; examTitle: string; coursePackId: string },
+  results: T[]
+): T | undefined {
+  const kind = examKindOf(exam.examTitle);
+  return results.find((r) =>
+    r.calendarEventId === exam.examId ||
+    (r.source === 'past_exam' && r.coursePackId === exam.coursePackId && r.sourceExam != null && examKindOf(r.sourceExam) === kind)
+  );
+}
+
+/** Readiness score (0-100) with the latest mock exam score (0-1) blended in; unchanged without one */
+export function readinessWithMock(readinessScore: number, mockScore: number | null): number {
+  if (mockScore === null) return readinessScore;
+  return Math.round(readinessScore * (1 - MOCK_READINESS_WEIGHT) + mockScore * 100 * MOCK_READINESS_WEIGHT);
+}
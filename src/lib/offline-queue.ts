@@ -0,0 +1,253 @@
+/**
+ * Offline answer queue. Answers given without a connection are stored in IndexedDB
+ * with the time they were given and replayed in order through the submit-review edge
+ * function once the connection is back; the edge function schedules each at its
+ * answer time and keeps the server card when it was reviewed later elsewhere.
+ *
+ * The store is an interface so tests (and a simulated offline network) can use the
+ * in-memory one.
+ */
+import type { AnswerGrade } from '@/types/study';
+
+/** Body of the submit-review edge function */
+export interface SubmitReviewBody {
+  questionId: string;
+  rating: number;
+  selectedChoiceId: string | null;
+  isCorrect: boolean;
+  confidence: string | null;
+  hintUsed: boolean;
+  guideUsed: boolean;
+  timeSpentMs?: number;
+  subpartId?: string;
+  answerText?: string;
+  /** answer-images storage path of a photo of the work */
+  answerImagePath?: string;
+  aiFeedback?: AnswerGrade;
+  pointsEarned?: number;
+  maxPoints?: number;
+  /** ISO time an offline answer was given */
+  reviewedAt?: string;
+}
+
+export interface QueuedAttempt {
+  /** OFFLINE_ATTEMPT_PREFIX + uuid; stands in for the attempt id until synced */
+  id: string;
+  userId: string;
+  body: SubmitReviewBody & { reviewedAt: string };
+  /** Syncs the server rejected the answer in (see isRejectedAnswer) */
+  tries: number;
+}
+
+export interface AttemptQueueStore {
+  add(attempt: QueuedAttempt): Promise<void>;
+  /** A user's queued attempts, oldest answer first */
+  list(userId: string): Promise<QueuedAttempt[]>;
+  update(attempt: QueuedAttempt): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export const OFFLINE_ATTEMPT_PREFIX = 'offline:';
+/** An attempt the server keeps rejecting is dropped after this many tries */
+export const MAX_SYNC_TRIES = 3;
+
+export function isQueuedAttemptId(id: string): boolean {
+  return id.startsWith(OFFLINE_ATTEMPT_PREFIX);
+}
+
+/** fetch() rejects with a TypeError when the request never reached the server */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+/**
+ * The server refused the answer itself (4xx from submit-review). Server errors, unreadable
+ * responses and conflicts/rate limits are temporary: the answer stays queued.
+ */
+export function isRejectedAnswer(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && ![408, 409, 429].includes(status);
+}
+
+export function createQueuedAttempt(userId: string, body: SubmitReviewBody, reviewedAt: Date): QueuedAttempt {
+  return {
+    id: `${OFFLINE_ATTEMPT_PREFIX}${crypto.randomUUID()}`,
+    userId,
+    body: { ...body, reviewedAt: reviewedAt.toISOString() },
+    tries: 0,
+  };
+}
+
+function byAnswerTime(a: QueuedAttempt, b: QueuedAttempt): number {
+  return a.body.reviewedAt < b.body.reviewedAt ? -1 : a.body.reviewedAt > b.body.reviewedAt ? 1 : 0;
+}
+
+export function createMemoryAttemptQueue(): AttemptQueueStore {
+  const attempts = new Map<string, QueuedAttempt>();
+  return {
+    add: async (attempt) => {
+      attempts.set(attempt.id, { ...attempt });
+    },
+    list: async (userId) =>
+      [...attempts.values()].filter((a) => a.userId === userId).map((a) => ({ ...a })).sort(byAnswerTime),
+    update: async (attempt) => {
+      attempts.set(attempt.id, { ...attempt });
+    },
+    remove: async (id) => {
+      attempts.delete(id);
+    },
+  };
+}
+
+// ============================================
+// IndexedDB
+// ============================================
+
+const DB_NAME = 'study-offline';
+const DB_VERSION = 1;
+export const ATTEMPTS_STORE = 'attempts';
+export const SNAPSHOTS_STORE = 'snapshots';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** The offline database (queued attempts + study snapshots, src/lib/offline-snapshot.ts) */
+export function openOfflineDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ATTEMPTS_STORE)) {
+          db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'id' }).createIndex('userId', 'userId');
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'userId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/** Run one request in its own transaction */
+export async function idbRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openOfflineDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDbAttemptQueue(): AttemptQueueStore {
+  return {
+    add: async (attempt) => {
+      await idbRequest(ATTEMPTS_STORE, 'readwrite', (store) => store.add(attempt));
+    },
+    list: async (userId) => {
+      const attempts = await idbRequest<QueuedAttempt[]>(ATTEMPTS_STORE, 'readonly', (store) =>
+        store.index('userId').getAll(userId)
+      );
+      return attempts.sort(byAnswerTime);
+    },
+    update: async (attempt) => {
+      await idbRequest(ATTEMPTS_STORE, 'readwrite', (store) => store.put(attempt));
+    },
+    remove: async (id) => {
+      await idbRequest(ATTEMPTS_STORE, 'readwrite', (store) => store.delete(id));
+    },
+  };
+}
+
+/** The browser's queue; in-memory where IndexedDB is unavailable (tests, private mode) */
+export const attemptQueue: AttemptQueueStore = typeof indexedDB === 'undefined'
+  ? createMemoryAttemptQueue()
+  : createIndexedDbAttemptQueue();
+
+// ============================================
+// Submit + sync
+// ============================================
+
+export type SubmitReview = (body: SubmitReviewBody) => Promise<void>;
+
+/**
+ * Submit an answer, or queue it when offline or the request can't reach the server.
+ * Resolves to the queued attempt, or null when it was submitted.
+ */
+export async function submitOrQueue(
+  store: AttemptQueueStore,
+  userId: string,
+  body: SubmitReviewBody,
+  submit: SubmitReview,
+  isOnline: boolean,
+  now: Date = new Date()
+): Promise<QueuedAttempt | null> {
+  if (isOnline) {
+    try {
+      await submit(body);
+      return null;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  const queued = createQueuedAttempt(userId, body, now);
+  await store.add(queued);
+  return queued;
+}
+
+export interface SyncResult {
+  synced: number;
+  /** Dropped after MAX_SYNC_TRIES rejections */
+  dropped: number;
+  /** Still queued (network down again, or will be retried) */
+  remaining: number;
+}
+
+/**
+ * Replay a user's queued answers oldest first. Stops at the first failure so later
+ * answers never overtake earlier ones. An answer the server rejects is retried on the
+ * next sync and dropped after MAX_SYNC_TRIES; other failures are retried indefinitely.
+ */
+export async function syncAttemptQueue(
+  store: AttemptQueueStore,
+  userId: string,
+  submit: SubmitReview
+): Promise<SyncResult> {
+  const queued = await store.list(userId);
+  let synced = 0;
+  let dropped = 0;
+
+  for (let i = 0; i < queued.length; i++) {
+    const attempt = queued[i];
+    try {
+      await submit(attempt.body);
+      await store.remove(attempt.id);
+      synced++;
+    } catch (error) {
+      if (!isRejectedAnswer(error)) {
+        if (!isNetworkError(error)) console.error('[syncAttemptQueue] Sync failed, will retry:', attempt.id, error);
+        return { synced, dropped, remaining: queued.length - synced - dropped };
+      }
+      console.error('[syncAttemptQueue] Server rejected queued answer:', attempt.id, error);
+      if (attempt.tries + 1 >= MAX_SYNC_TRIES) {
+        await store.remove(attempt.id);
+        dropped++;
+      } else {
+        await store.update({ ...attempt, tries: attempt.tries + 1 });
+        // Keep the order: later answers wait for this one
+        return { synced, dropped, remaining: queued.length - synced - dropped };
+      }
+    }
+  }
+
+  return { synced, dropped, remaining: 0 };
+}
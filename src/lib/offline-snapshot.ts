@@ -0,0 +1,74 @@
+/**
+ * Offline study snapshot: the last study set loaded online, with its images, kept in
+ * IndexedDB (src/lib/offline-queue.ts) so a session can start or continue without a
+ * connection. Images are stored as blobs and served back as object URLs.
+ */
+import type { StudyQuestion } from '@/types/study';
+import { SNAPSHOTS_STORE, idbRequest } from '@/lib/offline-queue';
+
+/** The fields the snapshot reads; the rest of the question is stored as is */
+type SnapshotQuestion = Pick<StudyQuestion, 'id' | 'imageUrl' | 'choices' | 'subparts'>;
+
+interface StudySnapshot {
+  userId: string;
+  savedAt: string;
+  questions: StudyQuestion[];
+  images: Record<string, Blob>;
+}
+
+/** Every image a question can show: question, choices and subparts */
+export function collectImageUrls(questions: SnapshotQuestion[]): string[] {
+  const urls = new Set<string>();
+  for (const q of questions) {
+    if (q.imageUrl) urls.add(q.imageUrl);
+    q.choices?.forEach((c) => c.imageUrl && urls.add(c.imageUrl));
+    q.subparts?.forEach((s) => s.imageUrl && urls.add(s.imageUrl));
+  }
+  return [...urls];
+}
+
+/** Swap image URLs through `resolve` (e.g. to object URLs of stored blobs) */
+export function mapImageUrls<T extends SnapshotQuestion>(questions: T[], resolve: (url: string) => string): T[] {
+  return questions.map((q) => ({
+    ...q,
+    imageUrl: q.imageUrl ? resolve(q.imageUrl) : q.imageUrl,
+    choices: q.choices?.map((c) => (c.imageUrl ? { ...c, imageUrl: resolve(c.imageUrl) } : c)) ?? q.choices,
+    subparts: q.subparts?.map((s) => (s.imageUrl ? { ...s, imageUrl: resolve(s.imageUrl) } : s)) ?? q.subparts,
+  }));
+}
+
+/** Save the study set and prefetch its images; images that fail to load are skipped */
+export async function saveStudySnapshot(userId: string, questions: SnapshotQuestion[]): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+
+  const images: Record<string, Blob> = {};
+  await Promise.all(collectImageUrls(questions).map(async (url) => {
+    try {
+      const res = await fetch(url);
+      if (res.ok) images[url] = await res.blob();
+    } catch {
+      // Shown as a broken image offline
+    }
+  }));
+
+  const snapshot = { userId, savedAt: new Date().toISOString(), questions, images };
+  await idbRequest(SNAPSHOTS_STORE, 'readwrite', (store) => store.put(snapshot));
+}
+
+/** Last saved study set, minus `answeredIds`; null if none was saved */
+export async function loadStudySnapshot(userId: string, answeredIds: Set<string>): Promise<StudyQuestion[] | null> {
+  if (typeof indexedDB === 'undefined') return null;
+
+  const snapshot = await idbRequest<StudySnapshot | undefined>(SNAPSHOTS_STORE, 'readonly', (store) => store.get(userId));
+  if (!snapshot) return null;
+
+  const objectUrls = new Map<string, string>();
+  const resolve = (url: string) => {
+    const blob = snapshot.images[url];
+    if (!blob) return url;
+    if (!objectUrls.has(url)) objectUrls.set(url, URL.createObjectURL(blob));
+    return objectUrls.get(url)!;
+  };
+
+  return mapImageUrls(snapshot.questions.filter((q) => !answeredIds.has(q.id)), resolve);
+}
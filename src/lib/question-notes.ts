@@ -0,0 +1,64 @@
+/**
+ * Personal bookmarks, "confusing" flags and notes on questions (question_notes table):
+ * search and Markdown export for the Notes page.
+ */
+
+export interface QuestionNote {
+  questionId: string;
+  bookmarked: boolean;
+  confusing: boolean;
+  note: string;
+  updatedAt: string;
+}
+
+/** A note with the question it belongs to, for listing, search and export */
+export interface QuestionNoteEntry extends QuestionNote {
+  prompt: string;
+  courseTitle: string | null;
+  topicNames: string[];
+}
+
+export type QuestionNotePatch = Partial<Pick<QuestionNote, 'bookmarked' | 'confusing' | 'note'>>;
+
+/** Nothing set: the row is deleted rather than kept */
+export function isEmptyNote(note: Pick<QuestionNote, 'bookmarked' | 'confusing' | 'note'>): boolean {
+  return !note.bookmarked && !note.confusing && note.note.trim() === '';
+}
+
+/** Entries matching every word of the query in the note, prompt, course or topics; newest first */
+export function searchNotes(entries: QuestionNoteEntry[], query: string): QuestionNoteEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries
+    .filter((entry) => {
+      const haystack = [entry.note, entry.prompt, entry.courseTitle ?? '', ...entry.topicNames]
+        .join('\n')
+        .toLowerCase();
+      return words.every((word) => haystack.includes(word));
+    })
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/** Markdown export, grouped by course; notes keep their own Markdown/LaTeX */
+export function notesToMarkdown(entries: QuestionNoteEntry[], exportedAt: Date): string {
+  const byCourse = new Map<string, QuestionNoteEntry[]>();
+  for (const entry of entries) {
+    const course = entry.courseTitle ?? 'Other';
+    byCourse.set(course, [...(byCourse.get(course) ?? []), entry]);
+  }
+
+  const lines = [`# My question notes`, '', `Exported ${exportedAt.toISOString().slice(0, 10)}`];
+  for (const [course, courseEntries] of [...byCourse].sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push('', `## ${course}`);
+    for (const entry of courseEntries) {
+      const tags = [
+        entry.bookmarked ? 'bookmarked' : null,
+        entry.confusing ? 'confusing' : null,
+        ...entry.topicNames,
+      ].filter(Boolean);
+      lines.push('', `### ${entry.prompt.split('\n')[0].trim()}`);
+      if (tags.length > 0) lines.push('', `_${tags.join(' · ')}_`);
+      if (entry.note.trim()) lines.push('', entry.note.trim());
+    }
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,73 @@
+/**
+ * Student problem reports on questions (question_reports table): categories and the
+ * per-question roll-up behind the admin triage queue.
+ */
+
+export type ReportCategory = 'wrong_key' | 'ambiguous' | 'rendering' | 'typo' | 'other';
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export const REPORT_CATEGORIES: { value: ReportCategory; label: string; description: string }[] = [
+  { value: 'wrong_key', label: 'Wrong answer key', description: 'The marked answer or solution is wrong' },
+  { value: 'ambiguous', label: 'Ambiguous', description: 'More than one answer fits, or information is missing' },
+  { value: 'rendering', label: 'Display problem', description: 'Broken math, a missing image or garbled text' },
+  { value: 'typo', label: 'Typo', description: 'A spelling or wording mistake' },
+  { value: 'other', label: 'Something else', description: 'Tell us in the details' },
+];
+
+export const REPORT_CATEGORY_LABELS = Object.fromEntries(
+  REPORT_CATEGORIES.map((c) => [c.value, c.label])
+) as Record<ReportCategory, string>;
+
+/** Different students with an open report before a question is hidden (see migration) */
+export const REPORT_HIDE_THRESHOLD = 3;
+
+export interface QuestionReport {
+  id: string;
+  questionId: string;
+  subpartId: string | null;
+  userId: string;
+  category: ReportCategory;
+  details: string;
+  status: ReportStatus;
+  createdAt: string;
+}
+
+/** One row of the triage queue: a question's open reports */
+export interface ReportedQuestion {
+  questionId: string;
+  reports: QuestionReport[];
+  reporterCount: number;
+  categoryCounts: Partial<Record<ReportCategory, number>>;
+  /** The category most reports agree on; ties go to the more serious (earlier) category */
+  topCategory: ReportCategory;
+  latestAt: string;
+}
+
+const CATEGORY_ORDER = REPORT_CATEGORIES.map((c) => c.value);
+
+/** Open reports grouped per question, most reporters first, then most recent */
+export function aggregateReports(reports: QuestionReport[]): ReportedQuestion[] {
+  const byQuestion = new Map<string, QuestionReport[]>();
+  for (const report of reports) {
+    if (report.status !== 'open') continue;
+    byQuestion.set(report.questionId, [...(byQuestion.get(report.questionId) ?? []), report]);
+  }
+
+  return [...byQuestion].map(([questionId, questionReports]) => {
+    const categoryCounts: Partial<Record<ReportCategory, number>> = {};
+    for (const report of questionReports) {
+      categoryCounts[report.category] = (categoryCounts[report.category] ?? 0) + 1;
+    }
+    const topCategory = CATEGORY_ORDER.reduce((best, category) =>
+      (categoryCounts[category] ?? 0) > (categoryCounts[best] ?? 0) ? category : best
+    );
+    return {
+      questionId,
+      reports: [...questionReports].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+      reporterCount: new Set(questionReports.map((r) => r.userId)).size,
+      categoryCounts,
+      topCategory,
+      latestAt: questionReports.reduce((latest, r) => (r.createdAt > latest ? r.createdAt : latest), ''),
+    };
+  }).sort((a, b) => b.reporterCount - a.reporterCount || b.latestAt.localeCompare(a.latestAt));
+}
@@ -16,6 +16,14 @@ export const supabase = createClient<Database>(EXTERNAL_SUPABASE_URL, EXTERNAL_S
     },
 });
 
+/** Error returned by invokeEdgeFunction; status is null when the response could not be read */
+export class EdgeFunctionError extends Error {
+    constructor(message: string, public status: number | null) {
+        super(message);
+        this.name = 'EdgeFunctionError';
+    }
+}
+
 // Edge-function helper — calls functions deployed on the External Supabase Project
 // We must use the external project URL and Anon Key for these calls to match the project
 // where the functions are actually deployed.
@@ -45,9 +53,15 @@ export async function invokeEdgeFunction<T = unknown>(
             body: options.body ? JSON.stringify(options.body) : undefined,
         });
 
-        const data = await res.json();
+        let data;
+        try {
+            data = await res.json();
+        } catch {
+            // Gateway error pages, truncated bodies: no answer from the function itself
+            return { data: null, error: new EdgeFunctionError(`Edge function returned an invalid response: ${res.status}`, null) };
+        }
         if (!res.ok) {
-            return { data: null, error: new Error(data.error || `Edge function error: ${res.status}`) };
+            return { data: null, error: new EdgeFunctionError(data.error || `Edge function error: ${res.status}`, res.status) };
         }
         return { data: data as T, error: null };
     } catch (err) {
@@ -0,0 +1,73 @@
+/**
+ * Per-topic mastery and retention from the FSRS cards under each topic
+ * (get_topic_mastery RPC, supabase/migrations/20260401000001_fsrs_topic_mastery.sql).
+ * Weak areas, exam readiness and the dashboard all read these numbers.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/** Practiced topics below this mastery are weak (mastery leaves unreviewed cards out) */
+export const WEAK_TOPIC_MASTERY = 0.7;
+
+export interface TopicMastery {
+  topicId: string;
+  title: string;
+  coursePackId: string;
+  cardsTotal: number;
+  cardsReviewed: number;
+  /** Share of the topic's cards reviewed at least once */
+  coverage: number;
+  /** Mean current retrievability over all the topic's cards (unreviewed = 0) */
+  retention: number;
+  /** Mean retrievability 30 days ahead over the reviewed cards: what sticks without review */
+  mastery: number;
+  lastPracticedAt: string | null;
+}
+
+interface TopicMasteryRow {
+  topic_id: string;
+  topic_title: string;
+  course_pack_id: string;
+  cards_total: number;
+  cards_reviewed: number;
+  retention_0_1: number;
+  mastery_0_1: number;
+  last_practiced_at: string | null;
+}
+
+export function mapTopicMasteryRow(row: TopicMasteryRow): TopicMastery {
+  const cardsTotal = Number(row.cards_total);
+  const cardsReviewed = Number(row.cards_reviewed);
+  return {
+    topicId: row.topic_id,
+    title: row.topic_title,
+    coursePackId: row.course_pack_id,
+    cardsTotal,
+    cardsReviewed,
+    coverage: cardsTotal > 0 ? cardsReviewed / cardsTotal : 0,
+    retention: Number(row.retention_0_1),
+    mastery: Number(row.mastery_0_1),
+    lastPracticedAt: row.last_practiced_at,
+  };
+}
+
+/** Weakest first. `courseIds` empty = every course */
+export async function fetchTopicMastery(
+  client: SupabaseClient,
+  userId: string,
+  courseIds: string[]
+): Promise<TopicMastery[]> {
+  const { data, error } = await (client.rpc as CallableFunction)('get_topic_mastery', {
+    p_user_id: userId,
+    p_course_ids: courseIds.length > 0 ? courseIds : null,
+  });
+  if (error) throw error;
+  return ((data ?? []) as TopicMasteryRow[]).map(mapTopicMasteryRow);
+}
+
+/** Practiced topics below WEAK_TOPIC_MASTERY, weakest first */
+export function selectWeakTopics(topics: TopicMastery[], limit = 5): TopicMastery[] {
+  return topics
+    .filter((t) => t.cardsReviewed > 0 && t.mastery < WEAK_TOPIC_MASTERY)
+    .sort((a, b) => a.mastery - b.mastery)
+    .slice(0, limit);
+}
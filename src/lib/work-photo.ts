@@ -0,0 +1,43 @@
+/**
+ * Photos of handwritten work for free-response parts. Photos are downscaled on the
+ * device before upload (phone photos are 5–12 MB; the grader only needs legible
+ * handwriting) and stored in the answer-images bucket under the student's folder,
+ * which the bucket policies require.
+ */
+
+export const WORK_PHOTO_BUCKET = 'answer-images';
+/** Longest side after downscaling, in pixels */
+export const WORK_PHOTO_MAX_SIDE = 2000;
+/** Larger files are rejected when they can't be downscaled (e.g. HEIC in most browsers) */
+export const WORK_PHOTO_MAX_BYTES = 10 * 1024 * 1024;
+
+/** Scale (width, height) to fit within maxSide, never upscaling */
+export function fitWithin(width: number, height: number, maxSide = WORK_PHOTO_MAX_SIDE): { width: number; height: number } {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+/** <user_id>/<question_id>/<uuid>.<ext>: the first folder must be the uploader (bucket RLS) */
+export function workPhotoPath(userId: string, questionId: string, fileName: string, id: string = crypto.randomUUID()): string {
+  const ext = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : 'jpg';
+  return `${userId}/${questionId}/${id}.${ext}`;
+}
+
+/** JPEG no larger than WORK_PHOTO_MAX_SIDE; the original file if the browser can't decode it */
+export async function downscaleWorkPhoto(file: File): Promise<File> {
+  if (typeof createImageBitmap !== 'function') return file;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const { width, height } = fitWithin(bitmap.width, bitmap.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+    if (!blob || blob.size >= file.size) return file;
+    return new File([blob], file.name.replace(/\.[^.]+$/, '') + '.jpg', { type: 'image/jpeg' });
+  } catch {
+    return file;
+  }
+}
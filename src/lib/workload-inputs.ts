@@ -0,0 +1,66 @@
+/**
+ * Loads the workload simulator's inputs (src/lib/workload-simulator.ts) for one
+ * student. Takes the Supabase client so the browser hook and
+ * scripts/simulate-workload.ts (service role) share it.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Card } from 'ts-fsrs';
+import { dbRowToCard, type DbSrsRow } from '@/lib/fsrs';
+import type { UnseenQuestion } from '@/lib/workload-simulator';
+
+export interface WorkloadInputs {
+  cards: Card[];
+  unseenQuestions: UnseenQuestion[];
+}
+
+/** `courseIds` empty = every course */
+export async function fetchWorkloadInputs(
+  client: SupabaseClient,
+  userId: string,
+  courseIds: string[]
+): Promise<WorkloadInputs> {
+  let cardQuery = client
+    .from('srs_state')
+    .select('question_id, due_at, last_reviewed_at, reps, stability, difficulty, elapsed_days, scheduled_days, lapses, learning_steps, state, suspended_at, questions!inner(course_pack_id)')
+    .eq('user_id', userId);
+  let questionQuery = client
+    .from('questions')
+    .select('id, topic_ids')
+    .eq('needs_review', false);
+  let topicQuery = client
+    .from('topics')
+    .select('id, scheduled_date');
+  if (courseIds.length > 0) {
+    cardQuery = cardQuery.in('questions.course_pack_id', courseIds);
+    questionQuery = questionQuery.in('course_pack_id', courseIds);
+    topicQuery = topicQuery.in('course_pack_id', courseIds);
+  }
+
+  const [cardsResult, questionsResult, topicsResult] = await Promise.all([cardQuery, questionQuery, topicQuery]);
+  if (cardsResult.error) throw cardsResult.error;
+  if (questionsResult.error) throw questionsResult.error;
+  if (topicsResult.error) throw topicsResult.error;
+
+  const cardRows = (cardsResult.data ?? []) as unknown as Array<DbSrsRow & { question_id: string; suspended_at: string | null }>;
+  const seen = new Set(cardRows.map((row) => row.question_id));
+
+  const scheduledDates = new Map<string, string | null>();
+  (topicsResult.data ?? []).forEach((t: { id: string; scheduled_date: string | null }) => scheduledDates.set(t.id, t.scheduled_date));
+
+  const unseenQuestions = ((questionsResult.data ?? []) as Array<{ id: string; topic_ids: string[] | null }>)
+    .filter((q) => !seen.has(q.id))
+    .map((q) => {
+      // Opens with its earliest topic; an unscheduled topic is open already
+      const dates = (q.topic_ids ?? []).map((id) => scheduledDates.get(id) ?? null);
+      const scheduledDate = dates.length === 0 || dates.includes(null)
+        ? null
+        : dates.reduce((min, d) => (d! < min! ? d : min));
+      return { scheduledDate };
+    });
+
+  return {
+    // Suspended leeches are out of the queue
+    cards: cardRows.filter((row) => !row.suspended_at).map(dbRowToCard),
+    unseenQuestions,
+  };
+}
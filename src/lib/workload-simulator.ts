@@ -0,0 +1,161 @@
+/**
+ * Workload simulator: projects daily review load and expected retrievability for
+ * "what if" settings (daily goal, pace offset, retention) from the student's current
+ * cards and the course calendar. Pure — the Progress panel and
+ * scripts/simulate-workload.ts load the data and call simulateWorkload().
+ */
+import { Rating, createEmptyCard, type Card } from 'ts-fsrs';
+import { getFsrsScheduler } from '@/lib/fsrs';
+import { projectRetention } from '@/lib/fsrs-stats';
+
+const DAY_MS = 86_400_000;
+// Learning steps can bring a card back the same day; stop after this many reviews
+const MAX_REVIEWS_PER_CARD_PER_DAY = 4;
+
+export interface WorkloadSettings {
+  /** user_settings.daily_goal: new cards fill the session up to this after reviews */
+  dailyGoal: number;
+  /** user_settings.pace_offset: weeks ahead of the calendar new topics open */
+  paceOffset: number;
+  desiredRetention: number;
+  maximumInterval: number;
+  /** Personalized FSRS weights; null = defaults */
+  weights?: readonly number[] | null;
+}
+
+/** An unseen question; it opens with its earliest topic (topics.scheduled_date) */
+export interface UnseenQuestion {
+  /** YYYY-MM-DD; null = already open */
+  scheduledDate: string | null;
+}
+
+export interface WorkloadSimulationInput {
+  cards: Card[];
+  unseenQuestions: UnseenQuestion[];
+  settings: WorkloadSettings;
+  start: Date;
+  days: number;
+  /** Seed for the simulated recall outcomes, so runs are reproducible */
+  seed?: number;
+}
+
+export interface WorkloadDay {
+  date: string;        // YYYY-MM-DD
+  reviews: number;     // reviews of cards already introduced
+  newCards: number;    // unseen questions introduced that day
+  /** Mean retrievability of all introduced cards at the end of the day; null = no cards */
+  expectedRetention: number | null;
+}
+
+// Small seeded PRNG (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Day a question opens: its scheduled date moved earlier by pace_offset weeks */
+function openingTime(question: UnseenQuestion, paceOffset: number): number {
+  if (!question.scheduledDate) return -Infinity;
+  return new Date(`${question.scheduledDate}T00:00:00Z`).getTime() - paceOffset * 7 * DAY_MS;
+}
+
+function retrievability(card: Card, at: number): number | null {
+  if (!card.last_review || card.stability <= 0) return null;
+  return projectRetention(card.stability, Math.max(0, (at - card.last_review.getTime()) / DAY_MS));
+}
+
+/**
+ * Simulate `days` days. Each day every due card is reviewed (recalled with its current
+ * retrievability, rated Good, else Again), then new cards fill the rest of the daily
+ * goal from the questions whose topic is open by then.
+ */
+export function simulateWorkload(input: WorkloadSimulationInput): WorkloadDay[] {
+  const { settings, start, days } = input;
+  const scheduler = getFsrsScheduler({
+    weights: settings.weights,
+    requestRetention: settings.desiredRetention,
+    maximumInterval: settings.maximumInterval,
+  });
+  const random = createRandom(input.seed ?? 1);
+
+  const cards = input.cards.map((card) => ({ ...card }));
+  const unseen = input.unseenQuestions
+    .map((question) => openingTime(question, settings.paceOffset))
+    .sort((a, b) => a - b);
+  let nextUnseen = 0;
+
+  const firstDay = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const result: WorkloadDay[] = [];
+
+  for (let day = 0; day < days; day++) {
+    const dayStart = firstDay + day * DAY_MS;
+    const dayEnd = dayStart + DAY_MS;
+    // Reviews happen mid-day; overdue cards are all caught up on the first day
+    const reviewTime = Math.max(dayStart + DAY_MS / 2, start.getTime());
+
+    let reviews = 0;
+    for (let i = 0; i < cards.length; i++) {
+      for (let n = 0; n < MAX_REVIEWS_PER_CARD_PER_DAY && cards[i].due.getTime() < dayEnd; n++) {
+        const at = Math.max(reviewTime, cards[i].due.getTime());
+        const r = retrievability(cards[i], at) ?? 1;
+        const rating = random() < r ? Rating.Good : Rating.Again;
+        cards[i] = scheduler.next(cards[i], new Date(at), rating).card;
+        reviews++;
+      }
+    }
+
+    let newCards = 0;
+    const newSlots = Math.max(0, settings.dailyGoal - reviews);
+    while (newCards < newSlots && nextUnseen < unseen.length && unseen[nextUnseen] < dayEnd) {
+      // First answer of a new card: recalled or not is unknown, assume the target
+      const rating = random() < settings.desiredRetention ? Rating.Good : Rating.Again;
+      const now = new Date(reviewTime);
+      cards.push(scheduler.next(createEmptyCard(now), now, rating).card);
+      nextUnseen++;
+      newCards++;
+    }
+
+    const retentions = cards
+      .map((card) => retrievability(card, dayEnd))
+      .filter((r): r is number => r !== null);
+
+    result.push({
+      date: toDateKey(new Date(dayStart)),
+      reviews,
+      newCards,
+      expectedRetention: retentions.length > 0
+        ? retentions.reduce((sum, r) => sum + r, 0) / retentions.length
+        : null,
+    });
+  }
+
+  return result;
+}
+
+/** Totals for comparing two simulations */
+export function summarizeWorkload(days: WorkloadDay[]): {
+  totalReviews: number;
+  peakReviews: number;
+  averageReviews: number;
+  totalNewCards: number;
+  finalRetention: number | null;
+} {
+  const totalReviews = days.reduce((sum, d) => sum + d.reviews, 0);
+  return {
+    totalReviews,
+    peakReviews: days.reduce((max, d) => Math.max(max, d.reviews), 0),
+    averageReviews: days.length > 0 ? totalReviews / days.length : 0,
+    totalNewCards: days.reduce((sum, d) => sum + d.newCards, 0),
+    finalRetention: days.length > 0 ? days[days.length - 1].expectedRetention : null,
+  };
+}
@@ -84,6 +84,7 @@ import {
   useUpdateCalendarEvent,
   useGenerateTopicsFromEvents,
 } from "@/hooks/use-ingestion";
+import { CourseSchedulingSettings } from "@/components/admin/CourseSchedulingSettings";
 import { useToast } from "@/hooks/use-toast";
 import { toast as sonnerToast } from "sonner";
 import { cn } from "@/lib/utils";
@@ -228,7 +229,7 @@ function CourseManageDialog({
   const updateCalendarEvent = useUpdateCalendarEvent();
   const generateTopics = useGenerateTopicsFromEvents();
 
-  const [activeTab, setActiveTab] = useState<"topics" | "calendar">("topics");
+  const [activeTab, setActiveTab] = useState<"topics" | "calendar" | "scheduling">("topics");
   const [uploadingImage, setUploadingImage] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [eventsDialogOpen, setEventsDialogOpen] = useState(false);
@@ -400,7 +401,7 @@ function CourseManageDialog({
             <DialogDescription>Manage topics and import calendar images for this course</DialogDescription>
           </DialogHeader>
 
-          <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "topics" | "calendar")}>
+          <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "topics" | "calendar" | "scheduling")}>
             <TabsList className="mb-4">
               <TabsTrigger value="topics">Topics</TabsTrigger>
               <TabsTrigger value="calendar">
@@ -409,6 +410,7 @@ function CourseManageDialog({
                   <Badge variant="secondary" className="ml-2 text-xs">{calendarEvents.length}</Badge>
                 )}
               </TabsTrigger>
+              <TabsTrigger value="scheduling">Scheduling</TabsTrigger>
             </TabsList>
 
             {/* ── Topics Tab ── */}
@@ -596,6 +598,11 @@ function CourseManageDialog({
                 )}
               </div>
             </TabsContent>
+
+            {/* ── Scheduling Tab ── */}
+            <TabsContent value="scheduling">
+              <CourseSchedulingSettings courseId={courseId} />
+            </TabsContent>
           </Tabs>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronUp, EyeOff, ExternalLink, Flag, CheckCircle2, X } from "lucide-react";
+import { PageTransition } from "@/components/motion/PageTransition";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MathRenderer } from "@/components/study/MathRenderer";
+import { useOpenQuestionReports, useCloseQuestionReports, type ReportedQuestionRow } from "@/hooks/use-question-reports";
+import { REPORT_CATEGORY_LABELS, REPORT_HIDE_THRESHOLD, type ReportCategory } from "@/lib/question-reports";
+
+/** AdminQuestionDetail route for a reported question */
+function questionDetailPath(row: ReportedQuestionRow): string | null {
+  if (!row.coursePackId || !row.sourceExam) return null;
+  return `/admin/questions/${row.coursePackId}/${encodeURIComponent(row.sourceExam)}/${row.questionId}`;
+}
+
+function ReportedQuestionCard({ row }: { row: ReportedQuestionRow }) {
+  const [expanded, setExpanded] = useState(false);
+  const closeReports = useCloseQuestionReports();
+  const detailPath = questionDetailPath(row);
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2 flex-wrap">
+          <Badge variant="destructive" className="gap-1">
+            <Flag className="h-3 w-3" />
+            {row.reporterCount} {row.reporterCount === 1 ? "student" : "students"}
+          </Badge>
+          {(Object.entries(row.categoryCounts) as [ReportCategory, number][]).map(([category, count]) => (
+            <Badge key={category} variant={category === row.topCategory ? "default" : "secondary"}>
+              {REPORT_CATEGORY_LABELS[category]} · {count}
+            </Badge>
+          ))}
+          {row.hidden && (
+            <Badge variant="outline" className="gap-1 border-warning/40 text-warning">
+              <EyeOff className="h-3 w-3" />
+              Hidden from study
+            </Badge>
+          )}
+          <span className="ml-auto text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(row.latestAt), { addSuffix: true })}
+          </span>
+        </div>
+
+        <div className="text-xs text-muted-foreground">
+          {[row.courseTitle, row.sourceExam].filter(Boolean).join(" · ")}
+        </div>
+        <div className="text-sm line-clamp-3">
+          <MathRenderer content={row.prompt} />
+        </div>
+
+        {expanded && (
+          <ul className="space-y-2 border-t pt-3">
+            {row.reports.map((report) => (
+              <li key={report.id} className="text-sm">
+                <span className="font-medium">{REPORT_CATEGORY_LABELS[report.category]}</span>
+                {report.subpartId && <span className="text-muted-foreground"> · part {report.subpartId}</span>}
+                <span className="text-muted-foreground"> · {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}</span>
+                {report.details && <p className="text-muted-foreground mt-0.5">{report.details}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center gap-2 flex-wrap">
+          <Button variant="ghost" size="sm" className="gap-1" onClick={() => setExpanded((prev) => !prev)}>
+            {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            {row.reports.length} {row.reports.length === 1 ? "report" : "reports"}
+          </Button>
+          <div className="ml-auto flex items-center gap-2">
+            {detailPath && (
+              <Button variant="outline" size="sm" className="gap-1" asChild>
+                <Link to={detailPath}>
+                  <ExternalLink className="h-4 w-4" />
+                  Open question
+                </Link>
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              disabled={closeReports.isPending}
+              onClick={() => closeReports.mutate({ questionId: row.questionId, status: "dismissed" })}
+            >
+              <X className="h-4 w-4" />
+              Dismiss
+            </Button>
+            <Button
+              size="sm"
+              className="gap-1"
+              disabled={closeReports.isPending}
+              onClick={() => closeReports.mutate({ questionId: row.questionId, status: "resolved" })}
+            >
+              <CheckCircle2 className="h-4 w-4" />
+              Resolved
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminReports() {
+  const { data: rows = [], isLoading } = useOpenQuestionReports();
+
+  return (
+    <PageTransition>
+      <div className="container max-w-4xl py-6 space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold">Reported Questions</h1>
+          <p className="text-muted-foreground">
+            Problems students reported from the player. A question reported by {REPORT_HIDE_THRESHOLD} or more
+            students is hidden from study until its reports are resolved or dismissed.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => <Skeleton key={i} className="h-32 w-full" />)}
+          </div>
+        ) : rows.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <CheckCircle2 className="h-8 w-8 mx-auto mb-3 text-success" />
+              No open reports.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {rows.map((row) => <ReportedQuestionCard key={row.questionId} row={row} />)}
+          </div>
+        )}
+      </div>
+    </PageTransition>
+  );
+}
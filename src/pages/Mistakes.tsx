@@ -0,0 +1,250 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle2, Loader2, RotateCcw, XCircle } from 'lucide-react';
+import { PageTransition } from '@/components/motion/PageTransition';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { MathRenderer } from '@/components/study/MathRenderer';
+import { useFocusContext } from '@/contexts/FocusContext';
+import { useMistakes } from '@/hooks/use-mistakes';
+import {
+  DEFAULT_MISTAKE_FILTERS,
+  filterMistakes,
+  mistakeQuestionIds,
+  type MistakeEntry,
+  type MistakeFilters,
+  type MistakeStatus,
+} from '@/lib/mistakes';
+
+function MistakeCard({ entry }: { entry: MistakeEntry }) {
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2 flex-wrap">
+          {entry.courseTitle && (
+            <Badge variant="outline" className="text-xs bg-primary/5 border-primary/30">
+              {entry.courseTitle}
+            </Badge>
+          )}
+          {entry.topics.map((topic) => (
+            <Badge key={topic.id} variant="secondary" className="text-xs">{topic.title}</Badge>
+          ))}
+          <div className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+            {entry.wrongCount > 1 && <span>Wrong {entry.wrongCount}×</span>}
+            <span>{format(new Date(entry.lastWrongAt), 'MMM d, yyyy')}</span>
+            {entry.corrected && (
+              <Badge variant="outline" className="text-xs gap-1 border-success/40 text-success">
+                <CheckCircle2 className="h-3 w-3" />
+                Corrected
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        <div className="text-sm">
+          <MathRenderer content={entry.prompt} />
+        </div>
+
+        <div className="grid gap-2 sm:grid-cols-2 text-sm">
+          <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-3">
+            <p className="text-xs font-medium text-muted-foreground mb-1 flex items-center gap-1">
+              <XCircle className="h-3 w-3 text-destructive" />
+              Your answer
+            </p>
+            {entry.answer ? <MathRenderer content={entry.answer} /> : <span className="text-muted-foreground">No answer recorded</span>}
+          </div>
+          <div className="rounded-lg border border-success/30 bg-success/5 p-3">
+            <p className="text-xs font-medium text-muted-foreground mb-1 flex items-center gap-1">
+              <CheckCircle2 className="h-3 w-3 text-success" />
+              Correct answer
+            </p>
+            {entry.correctAnswer ? <MathRenderer content={entry.correctAnswer} /> : <span className="text-muted-foreground">Not available</span>}
+          </div>
+        </div>
+
+        {entry.rationale && (
+          <div className="rounded-lg bg-amber-500/5 border border-amber-500/20 p-3 text-sm space-y-1">
+            <p className="text-xs font-medium flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3 text-amber-600 dark:text-amber-400" />
+              Why this choice is tempting
+            </p>
+            <MathRenderer content={entry.rationale.diagnosis || entry.rationale.misconception} />
+            {entry.rationale.fix && (
+              <p className="text-xs text-muted-foreground">
+                <MathRenderer content={entry.rationale.fix} />
+              </p>
+            )}
+          </div>
+        )}
+
+        {entry.feedback?.feedback && (
+          <div className="rounded-lg bg-muted/50 border p-3 text-sm">
+            <p className="text-xs font-medium text-muted-foreground mb-1">Feedback</p>
+            <MathRenderer content={entry.feedback.feedback} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Mistakes() {
+  const navigate = useNavigate();
+  const { applyPreset } = useFocusContext();
+  const { data: entries = [], isLoading } = useMistakes();
+  const [filters, setFilters] = useState<MistakeFilters>(DEFAULT_MISTAKE_FILTERS);
+
+  const results = useMemo(() => filterMistakes(entries, filters), [entries, filters]);
+
+  const courses = useMemo(() => {
+    const byId = new Map<string, string>();
+    entries.forEach(e => e.courseId && byId.set(e.courseId, e.courseTitle ?? 'Course'));
+    return [...byId].map(([id, title]) => ({ id, title })).sort((a, b) => a.title.localeCompare(b.title));
+  }, [entries]);
+
+  // Topics of the selected course (or every course)
+  const topics = useMemo(() => {
+    const byId = new Map<string, string>();
+    entries
+      .filter(e => !filters.courseId || e.courseId === filters.courseId)
+      .forEach(e => e.topics.forEach(t => byId.set(t.id, t.title)));
+    return [...byId].map(([id, title]) => ({ id, title })).sort((a, b) => a.title.localeCompare(b.title));
+  }, [entries, filters.courseId]);
+
+  const updateFilters = (patch: Partial<MistakeFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  const handleRepractice = () => {
+    applyPreset({
+      id: 'mistakes',
+      label: 'Mistakes',
+      filters: { questionIds: mistakeQuestionIds(results) },
+    });
+    navigate('/study', { state: { startPractice: true } });
+  };
+
+  if (isLoading) {
+    return (
+      <PageTransition className="flex items-center justify-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </PageTransition>
+    );
+  }
+
+  return (
+    <PageTransition>
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Mistake Notebook</h1>
+            <p className="text-muted-foreground mt-1">
+              Every question you got wrong, with the right answer and what went wrong
+            </p>
+          </div>
+          <Button className="gap-2 shrink-0" disabled={results.length === 0} onClick={handleRepractice}>
+            <RotateCcw className="h-4 w-4" />
+            Re-practice these
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3">
+          {courses.length > 1 && (
+            <Select
+              value={filters.courseId ?? 'all'}
+              onValueChange={(v) => updateFilters({ courseId: v === 'all' ? null : v, topicId: null })}
+            >
+              <SelectTrigger className="w-[200px] h-8 text-xs">
+                <SelectValue placeholder="All Courses" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Courses</SelectItem>
+                {courses.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>{c.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {topics.length > 0 && (
+            <Select
+              value={filters.topicId ?? 'all'}
+              onValueChange={(v) => updateFilters({ topicId: v === 'all' ? null : v })}
+            >
+              <SelectTrigger className="w-[200px] h-8 text-xs">
+                <SelectValue placeholder="All Topics" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Topics</SelectItem>
+                {topics.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>{t.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Input
+              type="date"
+              value={filters.from ?? ''}
+              max={filters.to ?? undefined}
+              onChange={(e) => updateFilters({ from: e.target.value || null })}
+              className="h-8 w-[140px] text-xs"
+              aria-label="From"
+            />
+            <span>to</span>
+            <Input
+              type="date"
+              value={filters.to ?? ''}
+              min={filters.from ?? undefined}
+              onChange={(e) => updateFilters({ to: e.target.value || null })}
+              className="h-8 w-[140px] text-xs"
+              aria-label="To"
+            />
+          </div>
+
+          <ToggleGroup
+            type="single"
+            value={filters.status}
+            onValueChange={(v) => {
+              if (v) updateFilters({ status: v as MistakeStatus });
+            }}
+            size="sm"
+          >
+            <ToggleGroupItem value="all" className="text-xs px-3">All</ToggleGroupItem>
+            <ToggleGroupItem value="open" className="text-xs px-3">Not yet corrected</ToggleGroupItem>
+            <ToggleGroupItem value="corrected" className="text-xs px-3">Corrected</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {entries.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <CheckCircle2 className="h-8 w-8 mx-auto mb-3" />
+              No mistakes yet. Questions you get wrong show up here.
+            </CardContent>
+          </Card>
+        ) : results.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No mistakes match these filters.</p>
+        ) : (
+          <div className="space-y-3">
+            {results.map((entry) => (
+              <MistakeCard key={entry.key} entry={entry} />
+            ))}
+          </div>
+        )}
+      </div>
+    </PageTransition>
+  );
+}
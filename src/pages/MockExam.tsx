@@ -0,0 +1,389 @@
+import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { ArrowLeft, ChevronLeft, ChevronRight, ClipboardCheck, Calendar, FileText, Loader2, Target } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { PageTransition } from '@/components/motion/PageTransition';
+import { QuestionNav } from '@/components/study/QuestionNav';
+import { QuestionPrompt } from '@/components/study/QuestionPrompt';
+import { ChoiceList } from '@/components/study/ChoiceList';
+import { MockExamTimer } from '@/components/mock-exam/MockExamTimer';
+import { MockExamReport } from '@/components/mock-exam/MockExamReport';
+import { useFocusContext } from '@/contexts/FocusContext';
+import { useEnrollments } from '@/hooks/use-enrollments';
+import { useUpcomingExams, usePastExamsHierarchy } from '@/hooks/use-focus';
+import { useMockExamPaper, useSubmitMockExam, type MockExamConfig, type MockExamPaper } from '@/hooks/use-mock-exam';
+import type { MockExamScore } from '@/lib/mock-exam';
+
+/** Preselection passed in router state (from Focus or exam readiness) */
+interface MockExamLocationState {
+  coursePackId?: string;
+  calendarEventId?: string;
+  sourceExam?: string;
+}
+
+type MockExamPhase = 'setup' | 'running' | 'report';
+
+/** Topics below this score are offered for practice after the report */
+const PRACTICE_BELOW_SCORE = 0.7;
+
+export default function MockExam() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const preselect = (location.state ?? {}) as MockExamLocationState;
+  const { setCourseIds, setTopicIds } = useFocusContext();
+  const { enrollments, enrolledCourseIdsArray } = useEnrollments();
+
+  const courses = useMemo(() => {
+    return enrollments
+      .filter(e => e.course_packs)
+      .map(e => ({
+        id: e.course_pack_id,
+        title: (e.course_packs as { title?: string })?.title || 'Unknown Course',
+      }));
+  }, [enrollments]);
+
+  const [courseId, setCourseId] = useState<string | null>(preselect.coursePackId ?? null);
+  const effectiveCourseId = courseId ?? enrolledCourseIdsArray[0] ?? null;
+  const courseIds = useMemo(() => (effectiveCourseId ? [effectiveCourseId] : []), [effectiveCourseId]);
+
+  const { data: upcomingExams = [] } = useUpcomingExams(courseIds);
+  const { data: pastExams = [] } = usePastExamsHierarchy(courseIds);
+  const futureExams = useMemo(
+    () => upcomingExams.filter(e => e.daysUntil !== null && e.daysUntil >= 0),
+    [upcomingExams]
+  );
+
+  // "event:<calendar event id>" (blueprint) or "exam:<source_exam>" (past exam)
+  const [selection, setSelection] = useState<string | null>(
+    preselect.calendarEventId ? `event:${preselect.calendarEventId}` :
+    preselect.sourceExam ? `exam:${preselect.sourceExam}` : null
+  );
+
+  const config = useMemo((): MockExamConfig | null => {
+    if (!selection || !effectiveCourseId) return null;
+    if (selection.startsWith('event:')) {
+      const exam = futureExams.find(e => `event:${e.id}` === selection);
+      return exam
+        ? { source: 'blueprint', coursePackId: effectiveCourseId, calendarEventId: exam.id, title: exam.title }
+        : null;
+    }
+    const sourceExam = selection.slice('exam:'.length);
+    return { source: 'past_exam', coursePackId: effectiveCourseId, sourceExam, title: sourceExam };
+  }, [selection, effectiveCourseId, futureExams]);
+
+  const { data: preparedPaper, isLoading: isLoadingPaper } = useMockExamPaper(config);
+  const submitMockExam = useSubmitMockExam();
+
+  // Session
+  const [phase, setPhase] = useState<MockExamPhase>('setup');
+  const [paper, setPaper] = useState<MockExamPaper | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string | null>>({});
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [startedAt, setStartedAt] = useState<Date | null>(null);
+  const [score, setScore] = useState<MockExamScore | null>(null);
+  const [timeUsedSeconds, setTimeUsedSeconds] = useState(0);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const submitting = useRef(false);
+
+  const endsAt = startedAt && paper ? startedAt.getTime() + paper.timeLimitMinutes * 60 * 1000 : 0;
+  const answeredCount = paper ? paper.questions.filter(q => answers[q.id]).length : 0;
+
+  // Leaving mid-exam loses the answers
+  useEffect(() => {
+    if (phase !== 'running') return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [phase]);
+
+  const handleStart = () => {
+    if (!preparedPaper || preparedPaper.questions.length === 0) return;
+    setPaper(preparedPaper);
+    setAnswers({});
+    setCurrentIndex(0);
+    setStartedAt(new Date());
+    setPhase('running');
+  };
+
+  const handleSubmit = useCallback(async () => {
+    if (!paper || !startedAt || submitting.current) return;
+    submitting.current = true;
+    setConfirmOpen(false);
+    const used = Math.min(paper.timeLimitMinutes * 60, Math.round((Date.now() - startedAt.getTime()) / 1000));
+    try {
+      const result = await submitMockExam.mutateAsync({ paper, answers, startedAt, timeUsedSeconds: used });
+      setTimeUsedSeconds(used);
+      setScore(result);
+      setPhase('report');
+    } catch {
+      // Toasted by the mutation; answers stay for another try
+    } finally {
+      submitting.current = false;
+    }
+  }, [paper, startedAt, answers, submitMockExam]);
+
+  const handlePracticeWeakTopics = () => {
+    if (!paper || !score) return;
+    const weakTopicIds = score.byTopic.filter(t => t.score < PRACTICE_BELOW_SCORE).slice(0, 3).map(t => t.key);
+    setCourseIds([paper.coursePackId]);
+    setTopicIds(weakTopicIds);
+    navigate('/study', { state: { startPractice: true } });
+  };
+
+  // REPORT
+  if (phase === 'report' && paper && score) {
+    const hasWeakTopics = score.byTopic.some(t => t.score < PRACTICE_BELOW_SCORE);
+    return (
+      <PageTransition className="max-w-3xl mx-auto p-4 space-y-6">
+        <div className="flex items-center gap-3">
+          <ClipboardCheck className="h-5 w-5 text-primary" />
+          <h1 className="text-xl font-semibold">Mock exam results</h1>
+        </div>
+        <MockExamReport paper={paper} score={score} answers={answers} timeUsedSeconds={timeUsedSeconds} />
+        <div className="flex flex-col sm:flex-row gap-3">
+          {hasWeakTopics && (
+            <Button className="flex-1" onClick={handlePracticeWeakTopics}>
+              Practice weakest topics
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          )}
+          <Button variant="outline" className="flex-1" onClick={() => navigate('/study')}>
+            Back to study
+          </Button>
+        </div>
+      </PageTransition>
+    );
+  }
+
+  // RUNNING
+  if (phase === 'running' && paper && startedAt) {
+    const question = paper.questions[currentIndex];
+    const unanswered = paper.questions.length - answeredCount;
+    const completedIndices = paper.questions
+      .map((q, i) => (answers[q.id] ? i : -1))
+      .filter(i => i >= 0);
+
+    return (
+      <div className="flex flex-col h-full min-h-screen">
+        <header className="px-4 py-3 border-b bg-card/50 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{paper.title}</p>
+            <p className="text-xs text-muted-foreground">
+              {answeredCount} of {paper.questions.length} answered
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <MockExamTimer endsAt={endsAt} onExpire={handleSubmit} />
+            <Button
+              size="sm"
+              onClick={() => (unanswered > 0 ? setConfirmOpen(true) : handleSubmit())}
+              disabled={submitMockExam.isPending}
+            >
+              {submitMockExam.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Submit'}
+            </Button>
+          </div>
+        </header>
+
+        <div className="px-4 border-b">
+          <QuestionNav
+            totalQuestions={paper.questions.length}
+            currentIndex={currentIndex}
+            completedIndices={completedIndices}
+            onNavigate={setCurrentIndex}
+          />
+        </div>
+
+        <div className="flex-1 p-4 overflow-auto">
+          <div className="max-w-2xl mx-auto space-y-6">
+            <QuestionPrompt
+              prompt={question.prompt}
+              topicName={question.topicNames[0] || 'General'}
+              questionType={question.questionType}
+              difficulty={question.difficulty}
+              imageUrl={question.imageUrl}
+            />
+            {/* No correct answer and never submitted: no feedback until the paper is in */}
+            <ChoiceList
+              choices={question.choices ?? []}
+              selectedChoice={answers[question.id] ?? null}
+              correctAnswer=""
+              isSubmitted={false}
+              onSelect={(choiceId) => setAnswers(prev => ({ ...prev, [question.id]: choiceId }))}
+            />
+            <div className="flex justify-between">
+              <Button
+                variant="ghost"
+                onClick={() => setCurrentIndex(i => i - 1)}
+                disabled={currentIndex === 0}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => setCurrentIndex(i => i + 1)}
+                disabled={currentIndex === paper.questions.length - 1}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Submit with {unanswered} unanswered?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Unanswered questions are marked wrong and scheduled for review.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep working</AlertDialogCancel>
+              <AlertDialogAction onClick={handleSubmit}>Submit</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    );
+  }
+
+  // SETUP
+  const optionClass = (value: string) => cn(
+    'w-full flex items-center gap-3 p-3 rounded-lg border text-left transition-colors',
+    selection === value ? 'border-primary bg-primary/5' : 'hover:bg-accent/50'
+  );
+
+  return (
+    <PageTransition className="max-w-2xl mx-auto p-4 space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-xl font-semibold">Mock exam</h1>
+          <p className="text-sm text-muted-foreground">
+            A full paper against the clock. No feedback until you submit.
+          </p>
+        </div>
+      </div>
+
+      {courses.length > 1 && (
+        <Select
+          value={effectiveCourseId ?? undefined}
+          onValueChange={(v) => {
+            setCourseId(v);
+            setSelection(null);
+          }}
+        >
+          <SelectTrigger className="w-full sm:w-[260px]">
+            <SelectValue placeholder="Choose a course" />
+          </SelectTrigger>
+          <SelectContent>
+            {courses.map((c) => (
+              <SelectItem key={c.id} value={c.id}>
+                {c.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {futureExams.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+            Practice for an upcoming exam
+          </h2>
+          {futureExams.map((exam) => (
+            <button key={exam.id} className={optionClass(`event:${exam.id}`)} onClick={() => setSelection(`event:${exam.id}`)}>
+              <Calendar className="h-4 w-4 text-primary shrink-0" />
+              <span className="flex-1 text-sm">{exam.title}</span>
+              <Badge variant="outline" className="text-xs">
+                {exam.daysUntil === 0 ? 'Today' : `In ${exam.daysUntil}d`}
+              </Badge>
+            </button>
+          ))}
+        </section>
+      )}
+
+      {pastExams.map((group) => (
+        <section key={group.examType} className="space-y-2">
+          <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+            Past {group.examType} papers
+          </h2>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {group.exams.map((exam) => (
+              <button key={exam.name} className={optionClass(`exam:${exam.name}`)} onClick={() => setSelection(`exam:${exam.name}`)}>
+                <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                <span className="text-sm">{exam.label}</span>
+              </button>
+            ))}
+          </div>
+        </section>
+      ))}
+
+      {futureExams.length === 0 && pastExams.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No past exams or upcoming exams for this course yet.
+        </p>
+      )}
+
+      {config && (
+        <div className="bg-surface border border-border rounded-xl p-5 space-y-4">
+          {isLoadingPaper || !preparedPaper ? (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Assembling the paper...
+            </p>
+          ) : preparedPaper.questions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No multiple-choice questions to build this paper from yet.
+            </p>
+          ) : (
+            <>
+              <div className="flex items-start gap-3">
+                <Target className="h-5 w-5 text-primary mt-0.5" />
+                <div className="space-y-1">
+                  <p className="font-medium">{preparedPaper.title}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {preparedPaper.questions.length} questions · {preparedPaper.timeLimitMinutes} minutes
+                    {preparedPaper.source === 'blueprint' && ' · topics weighted like past papers'}
+                  </p>
+                  {preparedPaper.skippedCount > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {preparedPaper.skippedCount} written or multi-part questions are left out: they can't be graded here yet.
+                    </p>
+                  )}
+                </div>
+              </div>
+              <Button className="w-full" onClick={handleStart}>
+                Start the clock
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </PageTransition>
+  );
+}
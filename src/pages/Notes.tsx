@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bookmark, Download, HelpCircle, Loader2, NotebookPen, Search, XCircle } from 'lucide-react';
+import { PageTransition } from '@/components/motion/PageTransition';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { MathRenderer } from '@/components/study/MathRenderer';
+import { useQuestionNoteEntries } from '@/hooks/use-question-notes';
+import { searchNotes, notesToMarkdown } from '@/lib/question-notes';
+
+export default function Notes() {
+  const { data: entries = [], isLoading } = useQuestionNoteEntries();
+  const [query, setQuery] = useState('');
+
+  const results = useMemo(() => searchNotes(entries, query), [entries, query]);
+
+  const handleExport = () => {
+    const blob = new Blob([notesToMarkdown(results, new Date())], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'question-notes.md';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (isLoading) {
+    return (
+      <PageTransition className="flex items-center justify-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </PageTransition>
+    );
+  }
+
+  return (
+    <PageTransition>
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Your Notes</h1>
+            <p className="text-muted-foreground mt-1">
+              Bookmarked questions, questions you flagged as confusing, and your own notes
+            </p>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <Button variant="outline" className="gap-2" asChild>
+              <Link to="/mistakes">
+                <XCircle className="h-4 w-4" />
+                Mistakes
+              </Link>
+            </Button>
+            <Button variant="outline" className="gap-2" disabled={results.length === 0} onClick={handleExport}>
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+          </div>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search notes, questions, courses and topics"
+            className="pl-9"
+          />
+        </div>
+
+        {entries.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <NotebookPen className="h-8 w-8 mx-auto mb-3" />
+              Bookmark a question or add a note after answering it, and it shows up here.
+            </CardContent>
+          </Card>
+        ) : results.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No notes match "{query}".</p>
+        ) : (
+          <div className="space-y-3">
+            {results.map((entry) => (
+              <Card key={entry.questionId}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    {entry.courseTitle && (
+                      <Badge variant="outline" className="text-xs bg-primary/5 border-primary/30">
+                        {entry.courseTitle}
+                      </Badge>
+                    )}
+                    {entry.topicNames.map((topic) => (
+                      <Badge key={topic} variant="secondary" className="text-xs">{topic}</Badge>
+                    ))}
+                    <div className="ml-auto flex items-center gap-2 text-muted-foreground">
+                      {entry.confusing && <HelpCircle className="h-4 w-4 text-amber-600" aria-label="Confusing" />}
+                      {entry.bookmarked && <Bookmark className="h-4 w-4 fill-current text-primary" aria-label="Bookmarked" />}
+                    </div>
+                  </div>
+                  <div className="text-sm line-clamp-3">
+                    <MathRenderer content={entry.prompt} />
+                  </div>
+                  {entry.note.trim() && (
+                    <div className="rounded-lg bg-muted/50 border p-3 text-sm">
+                      <MathRenderer content={entry.note} />
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </PageTransition>
+  );
+}
@@ -11,6 +11,9 @@ import { type TimeRange } from '@/types/progress';
 import { StatCards } from '@/components/progress/StatCards';
 import { ReviewForecastChart } from '@/components/progress/ReviewForecastChart';
 import { TopicRiskList } from '@/components/progress/TopicRiskList';
+import { LeechList } from '@/components/progress/LeechList';
+import { CalibrationCard } from '@/components/progress/CalibrationCard';
+import { WorkloadSimulatorPanel } from '@/components/progress/WorkloadSimulatorPanel';
 import { ExamReadinessPanel } from '@/components/progress/ExamReadinessPanel';
 import { ProgressFilters } from '@/components/progress/ProgressFilters';
 import { NoCoursesEmptyState } from '@/components/shared/NoCoursesEmptyState';
@@ -104,8 +107,29 @@ export default function Progress(): React.ReactElement {
           onIncludeOverdueChange={setIncludeOverdue}
         />
 
+        {/* What-if workload simulation */}
+        {hasAttempts && (
+          <WorkloadSimulatorPanel
+            courseIds={effectiveCourseIds}
+            coursePackId={selectedCourseId}
+          />
+        )}
+
         {/* Exam readiness (only renders if upcoming exams exist) */}
-        <ExamReadinessPanel courseIds={effectiveCourseIds} topics={topics} />
+        <ExamReadinessPanel
+          courseIds={effectiveCourseIds}
+          topics={topics}
+          targetRetention={summary.targetRetention}
+        />
+
+        {/* Leeches (only renders if the student has any) */}
+        <LeechList
+          courseIds={effectiveCourseIds}
+          onFixLeeches={() => navigate('/study', { state: { leechRepair: true } })}
+        />
+
+        {/* Confidence calibration (only renders once confidence has been rated) */}
+        <CalibrationCard courseIds={effectiveCourseIds} />
 
         {/* Topic risk list */}
         <TopicRiskList
@@ -7,10 +7,18 @@ import { Slider } from "@/components/ui/slider";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { EnrollmentCard } from "@/components/settings/EnrollmentCard";
+import { RetentionControls } from "@/components/settings/RetentionControls";
 import { ClearDataCard } from "@/components/settings/ClearDataCard";
+import { StudyPauseCard } from "@/components/settings/StudyPauseCard";
 import { useTheme } from "@/hooks/use-theme";
 import { useAuth } from "@/hooks/use-auth";
 import { useUserSettings } from "@/hooks/use-settings";
+import {
+  useRetentionSettings,
+  useUpdateRetentionSettings,
+  DEFAULT_RETENTION_SETTINGS,
+  type RetentionSettings,
+} from "@/hooks/use-retention-settings";
 import { useToast } from "@/hooks/use-toast";
 import {
   Moon,
@@ -21,7 +29,9 @@ import {
   Target,
   Bell,
   Loader2,
-  Zap
+  Zap,
+  ListChecks,
+  PauseCircle
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
@@ -31,6 +41,8 @@ export default function Settings() {
   const { theme, setTheme } = useTheme();
   const { user, signOut } = useAuth();
   const { settings, isLoading, updateSettings, isUpdating } = useUserSettings();
+  const { data: retentionSource } = useRetentionSettings();
+  const updateRetention = useUpdateRetentionSettings();
   const { toast } = useToast();
   const navigate = useNavigate();
   const prefersReducedMotion = useReducedMotion();
@@ -71,6 +83,33 @@ export default function Settings() {
     updateSettings({ pace_offset: value[0] });
   };
 
+  const handleRatingModeChange = (useButtons: boolean) => {
+    updateSettings({ rating_mode: useButtons ? 'buttons' : 'confidence' });
+  };
+
+  const handleLeechActionChange = (suspend: boolean) => {
+    updateSettings({ leech_action: suspend ? 'suspend' : 'tag' });
+  };
+
+  const handleRetentionChange = (value: RetentionSettings) => {
+    updateRetention.mutate(
+      {
+        coursePackId: null,
+        desiredRetention: value.desiredRetention,
+        maximumInterval: value.maximumInterval,
+      },
+      {
+        onError: (error) => {
+          toast({
+            title: 'Failed to update retention',
+            description: error.message,
+            variant: 'destructive',
+          });
+        },
+      }
+    );
+  };
+
   const handleThemeChange = (isDark: boolean) => {
     const newTheme = isDark ? 'dark' : 'light';
     setTheme(newTheme);
@@ -186,7 +225,7 @@ export default function Settings() {
                     <CardTitle className="text-lg">Study Preferences</CardTitle>
                     <CardDescription>Customize your daily learning</CardDescription>
                   </div>
-                  {isUpdating && (
+                  {(isUpdating || updateRetention.isPending) && (
                     <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
                   )}
                 </div>
@@ -252,10 +291,62 @@ export default function Settings() {
                     How far ahead of the syllabus you want to study
                   </p>
                 </div>
+
+                {/* Rating mode */}
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <ListChecks className="h-4 w-4 text-muted-foreground" />
+                    <div>
+                      <Label htmlFor="rating-buttons" className="text-sm font-medium cursor-pointer">
+                        Rate Answers Yourself
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        Pick Again, Hard, Good or Easy after each answer instead of a confidence tap
+                      </p>
+                    </div>
+                  </div>
+                  <Switch
+                    id="rating-buttons"
+                    checked={settings.rating_mode === 'buttons'}
+                    onCheckedChange={handleRatingModeChange}
+                  />
+                </div>
+
+                {/* Leech action */}
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <PauseCircle className="h-4 w-4 text-muted-foreground" />
+                    <div>
+                      <Label htmlFor="suspend-leeches" className="text-sm font-medium cursor-pointer">
+                        Suspend Leeches
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        Hold cards you keep forgetting out of your reviews until you fix them
+                      </p>
+                    </div>
+                  </div>
+                  <Switch
+                    id="suspend-leeches"
+                    checked={settings.leech_action === 'suspend'}
+                    onCheckedChange={handleLeechActionChange}
+                  />
+                </div>
+
+                {/* Retention (default for all courses; overridable per course below) */}
+                <RetentionControls
+                  value={retentionSource?.defaults ?? DEFAULT_RETENTION_SETTINGS}
+                  onCommit={handleRetentionChange}
+                  disabled={updateRetention.isPending}
+                />
               </CardContent>
             </Card>
           </motion.div>
 
+          {/* Study pause */}
+          <motion.div variants={itemVariants}>
+            <StudyPauseCard />
+          </motion.div>
+
           {/* Appearance */}
           <motion.div variants={itemVariants}>
             <Card className="bg-surface shadow-surface rounded-xl overflow-hidden">
@@ -1,12 +1,13 @@
 import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import { AnimatePresence } from "framer-motion";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, Undo2 } from "lucide-react";
 import { StudyLoadingScreen } from "@/components/study/StudyLoadingScreen";
 import { Button } from "@/components/ui/button";
 import { PageTransition } from "@/components/motion/PageTransition";
 import { QuestionPlayer } from "@/components/study/QuestionPlayer";
 import { MultiPartQuestionPlayer } from "@/components/study/MultiPartQuestionPlayer";
+import { FlashcardPlayer } from "@/components/study/FlashcardPlayer";
 import { TodayPlanCard } from "@/components/study/TodayPlanCard";
 import { FocusBar } from "@/components/study/FocusBar";
 import { CompletionCard } from "@/components/study/CompletionCard";
@@ -15,7 +16,8 @@ import { StudyFocusBar } from "@/components/study/StudyFocusBar";
 import { RecommendationCards } from "@/components/study/RecommendationCards";
 import { StatsStrip } from "@/components/study/StatsStrip";
 import { SessionProgressDots } from "@/components/study/SessionProgressDots";
-import { useStudyQuestions, useSubmitAttempt } from "@/hooks/use-study";
+import { useStudyQuestions, useSubmitAttempt, useUndoAttempt } from "@/hooks/use-study";
+import { useLeechRepairQuestions } from "@/hooks/use-leeches";
 import { useFocusContext, FocusPreset } from "@/contexts/FocusContext";
 import { useStudyDashboard, PracticeRecommendation } from "@/hooks/use-study-dashboard";
 import { useEnrollments } from "@/hooks/use-enrollments";
@@ -24,17 +26,31 @@ import { useAuth } from "@/hooks/use-auth";
 import { useUserSettings } from "@/hooks/use-settings";
 import { useQueryClient } from "@tanstack/react-query";
 import { useSidebar } from "@/hooks/use-sidebar";
-import { SubpartResult } from "@/types/study";
+import { StudyQuestion, SubpartResult } from "@/types/study";
+import type { Grade } from "ts-fsrs";
 import { useDiagnosticData, useSubmitDiagnostic } from "@/hooks/use-diagnostic";
 import { useSessionRecommendation } from "@/hooks/use-session-recommendation";
 import { useAdaptiveSequencer } from "@/hooks/use-adaptive-sequencer";
+import { useMisconceptionProfile, useMisconceptionPreset } from "@/hooks/use-misconceptions";
+import { misconceptionKeyForChoice, misconceptionsWithKeys } from "@/lib/misconceptions";
 import { Loader2 } from "lucide-react";
 
-type StudyPhase = "session" | "diagnostic";
+// leech_repair: "Fix my leeches" (started from the Progress page), played in order
+type StudyPhase = "session" | "diagnostic" | "leech_repair";
 type StudyState = "home" | "playing" | "complete" | "keep_going_prompt";
 
 const CONTINUATION_BATCH = 5;
 
+/** Session state before the last answer, restored by "Undo" */
+interface LastAnswer {
+  attemptIds: Promise<string[]>;
+  sessionResults: { correct: number; total: number };
+  completedIndices: number[];
+  questionOutcomes: Record<number, 'correct' | 'incorrect' | 'skipped'>;
+  sessionMisconceptionKeys: string[];
+  hasPassedBoundary: boolean;
+}
+
 export default function Study() {
   const location = useLocation();
   const navigate = useNavigate();
@@ -47,10 +63,16 @@ export default function Study() {
     correct: number;
     total: number;
   }>({ correct: 0, total: 0 });
+  // Misconceptions behind the wrong choices picked this session
+  const [sessionMisconceptionKeys, setSessionMisconceptionKeys] = useState<string[]>([]);
   const questionStartTime = useRef<number>(Date.now());
   // Track the recommended boundary for "Keep going?" prompt
   const [recommendedBoundary, setRecommendedBoundary] = useState<number>(10);
   const [hasPassedBoundary, setHasPassedBoundary] = useState(false);
+  const [lastAnswer, setLastAnswer] = useState<LastAnswer | null>(null);
+  const [leechRepairRequested, setLeechRepairRequested] = useState(false);
+  // Leech queue fixed at the start, so repaired cards don't drop out mid-session
+  const [leechQueue, setLeechQueue] = useState<StudyQuestion[]>([]);
 
   const { user } = useAuth();
   const { settings } = useUserSettings();
@@ -86,6 +108,9 @@ export default function Study() {
     if (location.state?.startPractice) {
       handleStartSession();
       navigate(location.pathname, { replace: true, state: {} });
+    } else if (location.state?.leechRepair) {
+      setLeechRepairRequested(true);
+      navigate(location.pathname, { replace: true, state: {} });
     }
   }, [location.state]);
 
@@ -120,6 +145,9 @@ export default function Study() {
       questionTypeId: filters.questionTypeId,
       enrolledCourseIds: enrolledCourseIdsArray,
       ignoreConstraints: hasCustomFilters,
+      bookmarkedOnly: filters.bookmarkedOnly ?? false,
+      misconceptionsOnly: filters.misconceptionsOnly ?? false,
+      questionIds: filters.questionIds ?? [],
     };
   }, [effectiveSessionSize, settings.pace_offset, filters, enrolledCourseIdsArray]);
 
@@ -140,16 +168,31 @@ export default function Study() {
   const submitDiagnostic = useSubmitDiagnostic();
   const [diagnosticResults, setDiagnosticResults] = useState<Array<{ topicId: string, isCorrect: boolean }>>([]);
 
+  // "Fix my leeches" from the Progress page
+  const { data: leechRepairQuestions } = useLeechRepairQuestions(leechRepairRequested);
+
   // Active questions: for session phase, use sequencer queue; for diagnostic, use diagnostic data
   const activeQuestions = studyPhase === "diagnostic"
     ? diagnosticData?.questions
-    : sequencer.queue.length > 0 ? sequencer.queue : questions;
+    : studyPhase === "leech_repair"
+      ? leechQueue
+      : sequencer.queue.length > 0 ? sequencer.queue : questions;
 
-  const activeCurrentIndex = studyPhase === "diagnostic"
+  const activeCurrentIndex = studyPhase !== "session"
     ? currentIndex
     : sequencer.queue.length > 0 ? sequencer.currentIndex : currentIndex;
 
   const submitAttempt = useSubmitAttempt();
+  const undoAttempt = useUndoAttempt();
+
+  // Submit one attempt; resolves to its id (empty if saving failed — already toasted)
+  const submitForUndo = useCallback(
+    (params: Parameters<typeof submitAttempt.mutateAsync>[0]): Promise<string[]> =>
+      submitAttempt.mutateAsync(params)
+        .then((result) => (result?.attemptId ? [result.attemptId] : []))
+        .catch(() => []),
+    [submitAttempt]
+  );
 
   const handleStartDiagnostic = useCallback(() => {
     if (!diagnosticData?.questions || diagnosticData.questions.length === 0) return;
@@ -159,11 +202,30 @@ export default function Study() {
     setCompletedIndices([]);
     setQuestionOutcomes({});
     setSessionResults({ correct: 0, total: 0 });
+    setSessionMisconceptionKeys([]);
     setDiagnosticResults([]);
     setHasPassedBoundary(false);
+    setLastAnswer(null);
     questionStartTime.current = Date.now();
   }, [diagnosticData]);
 
+  useEffect(() => {
+    if (!leechRepairRequested || !leechRepairQuestions) return;
+    setLeechRepairRequested(false);
+    if (leechRepairQuestions.length === 0) return;
+    setLeechQueue(leechRepairQuestions);
+    setStudyState("playing");
+    setStudyPhase("leech_repair");
+    setCurrentIndex(0);
+    setCompletedIndices([]);
+    setQuestionOutcomes({});
+    setSessionResults({ correct: 0, total: 0 });
+    setSessionMisconceptionKeys([]);
+    setHasPassedBoundary(false);
+    setLastAnswer(null);
+    questionStartTime.current = Date.now();
+  }, [leechRepairRequested, leechRepairQuestions]);
+
   const handleQuestionComplete = useCallback(
     async (result: {
       isCorrect: boolean;
@@ -172,6 +234,7 @@ export default function Study() {
       guideUsed: boolean;
       skipped: boolean;
       selectedChoiceId: string | null;
+      rating?: Grade;
     }) => {
       const currentQuestions = studyPhase === "diagnostic" ? diagnosticData?.questions : activeQuestions;
       if (!currentQuestions) return;
@@ -183,16 +246,27 @@ export default function Study() {
       const timeSpentMs = Date.now() - questionStartTime.current;
 
       // Submit attempt for non-diagnostic
-      if (studyPhase !== "diagnostic" && !result.skipped) {
-        submitAttempt.mutate({
-          questionId: currentQuestion.id,
-          selectedChoiceId: result.selectedChoiceId,
-          isCorrect: result.isCorrect,
-          confidence: result.confidence,
-          hintUsed: result.hintsUsed,
-          guideUsed: result.guideUsed,
-          timeSpentMs,
-        });
+      if (studyPhase !== "diagnostic") {
+        const attemptIds = result.skipped
+          ? Promise.resolve([])
+          : submitForUndo({
+            questionId: currentQuestion.id,
+            selectedChoiceId: result.selectedChoiceId,
+            isCorrect: result.isCorrect,
+            confidence: result.confidence,
+            hintUsed: result.hintsUsed,
+            guideUsed: result.guideUsed,
+            timeSpentMs,
+            rating: result.rating,
+          });
+        setLastAnswer({ attemptIds, sessionResults, completedIndices, questionOutcomes, sessionMisconceptionKeys, hasPassedBoundary });
+
+        const misconceptionKey = !result.skipped && !result.isCorrect && result.selectedChoiceId
+          ? misconceptionKeyForChoice(currentQuestion.distractorRationales, result.selectedChoiceId)
+          : null;
+        if (misconceptionKey && !sessionMisconceptionKeys.includes(misconceptionKey)) {
+          setSessionMisconceptionKeys(prev => [...prev, misconceptionKey]);
+        }
       }
 
       // Diagnostic results
@@ -261,7 +335,7 @@ export default function Study() {
         setStudyState("complete");
       }
     },
-    [currentIndex, activeCurrentIndex, activeQuestions, diagnosticData, submitAttempt, studyPhase, sessionResults, diagnosticResults, submitDiagnostic, sequencer, recommendedBoundary, hasPassedBoundary]
+    [currentIndex, activeCurrentIndex, activeQuestions, diagnosticData, submitForUndo, studyPhase, sessionResults, completedIndices, questionOutcomes, sessionMisconceptionKeys, diagnosticResults, submitDiagnostic, sequencer, recommendedBoundary, hasPassedBoundary]
   );
 
   // Handle multi-part question completion
@@ -277,20 +351,25 @@ export default function Study() {
       const timeSpentMs = Date.now() - questionStartTime.current;
 
       if (studyPhase !== "diagnostic") {
-        for (const result of results) {
-          if (!result.skipped) {
-            submitAttempt.mutate({
-              questionId: currentQuestion.id,
-              subpartId: result.subpartId,
-              selectedChoiceId: result.selectedChoiceId || null,
-              isCorrect: result.isCorrect,
-              confidence: result.confidence,
-              hintUsed: result.hintsUsed,
-              guideUsed: result.guideUsed,
-              timeSpentMs: Math.floor(timeSpentMs / results.length),
-            });
-          }
-        }
+        const submissions = results
+          .filter((result) => !result.skipped)
+          .map((result) => submitForUndo({
+            questionId: currentQuestion.id,
+            subpartId: result.subpartId,
+            selectedChoiceId: result.selectedChoiceId || null,
+            isCorrect: result.isCorrect,
+            confidence: result.confidence,
+            hintUsed: result.hintsUsed,
+            guideUsed: result.guideUsed,
+            timeSpentMs: Math.floor(timeSpentMs / results.length),
+            answerText: result.answerText,
+            answerImagePath: result.answerImagePath,
+            grade: result.grade,
+            maxPoints: result.maxPoints,
+            rating: result.rating,
+          }));
+        const attemptIds = Promise.all(submissions).then((ids) => ids.flat());
+        setLastAnswer({ attemptIds, sessionResults, completedIndices, questionOutcomes, sessionMisconceptionKeys, hasPassedBoundary });
       }
 
       const allCorrect = results.every(r => r.isCorrect);
@@ -350,15 +429,39 @@ export default function Study() {
         setStudyState("complete");
       }
     },
-    [currentIndex, activeCurrentIndex, activeQuestions, diagnosticData, submitAttempt, studyPhase, sessionResults, diagnosticResults, submitDiagnostic, sequencer, recommendedBoundary, hasPassedBoundary]
+    [currentIndex, activeCurrentIndex, activeQuestions, diagnosticData, submitForUndo, studyPhase, sessionResults, completedIndices, questionOutcomes, sessionMisconceptionKeys, diagnosticResults, submitDiagnostic, sequencer, recommendedBoundary, hasPassedBoundary]
   );
 
+  // Undo the last answer: delete its attempts server-side, then put the question
+  // back in front of the sequencer queue and restore the session counters
+  const handleUndoLastAnswer = useCallback(async () => {
+    if (!lastAnswer) return;
+    setLastAnswer(null);
+    try {
+      const attemptIds = await lastAnswer.attemptIds;
+      await undoAttempt.mutateAsync(attemptIds);
+    } catch {
+      setLastAnswer(lastAnswer);
+      return;
+    }
+    sequencer.undo();
+    setSessionResults(lastAnswer.sessionResults);
+    setCompletedIndices(lastAnswer.completedIndices);
+    setQuestionOutcomes(lastAnswer.questionOutcomes);
+    setSessionMisconceptionKeys(lastAnswer.sessionMisconceptionKeys);
+    setHasPassedBoundary(lastAnswer.hasPassedBoundary);
+    setStudyState("playing");
+    questionStartTime.current = Date.now();
+  }, [lastAnswer, undoAttempt, sequencer]);
+
   const resetSessionState = useCallback(() => {
     setCurrentIndex(0);
     setCompletedIndices([]);
     setQuestionOutcomes({});
     setSessionResults({ correct: 0, total: 0 });
+    setSessionMisconceptionKeys([]);
     setHasPassedBoundary(false);
+    setLastAnswer(null);
     questionStartTime.current = Date.now();
   }, []);
 
@@ -394,6 +497,7 @@ export default function Study() {
     queryClient.invalidateQueries({ queryKey: ['today-plan-stats'] });
     queryClient.invalidateQueries({ queryKey: ['session-recommendation'] });
     queryClient.invalidateQueries({ queryKey: ['study-dashboard'] });
+    queryClient.invalidateQueries({ queryKey: ['leeches'] });
   }, [queryClient, clearFilters, resetSessionState]);
 
   // Navigate to specific question index
@@ -409,6 +513,13 @@ export default function Study() {
   }, []);
 
   // Build completion suggestions from dashboard data
+  const misconceptionPreset = useMisconceptionPreset();
+  const { data: misconceptionProfile } = useMisconceptionProfile();
+  const sessionMisconceptions = useMemo(
+    () => misconceptionsWithKeys(misconceptionProfile ?? [], sessionMisconceptionKeys),
+    [misconceptionProfile, sessionMisconceptionKeys]
+  );
+
   const completionSuggestions = useMemo(() => {
     const suggestions: { id: string; label: string; description?: string; icon: 'arrow' | 'target' | 'refresh'; onClick: () => void }[] = [];
 
@@ -452,8 +563,18 @@ export default function Study() {
       });
     }
 
+    if (misconceptionPreset && sessionMisconceptionKeys.length > 0) {
+      suggestions.push({
+        id: 'misconceptions',
+        label: misconceptionPreset.label,
+        description: misconceptionPreset.description,
+        icon: 'target',
+        onClick: () => handleStartSession(misconceptionPreset),
+      });
+    }
+
     return suggestions;
-  }, [dashboardData, setCourseIds, setTopicIds, handleStartSession]);
+  }, [dashboardData, misconceptionPreset, sessionMisconceptionKeys, setCourseIds, setTopicIds, handleStartSession]);
 
   const handleContinueSession = useCallback(() => {
     handleStartSession();
@@ -466,6 +587,19 @@ export default function Study() {
     handleStartSession();
   }, [setTopicIds, handleStartSession]);
 
+  const undoButton = studyPhase === "session" && lastAnswer && sequencer.canUndo ? (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={handleUndoLastAnswer}
+      disabled={undoAttempt.isPending}
+      className="gap-1.5 ml-auto"
+    >
+      <Undo2 className="h-4 w-4" />
+      <span className="text-meta">Undo last answer</span>
+    </Button>
+  ) : null;
+
   // HOME state — enrollment gate
   const hasEnrollments = enrollments.length > 0;
 
@@ -665,6 +799,7 @@ export default function Study() {
           <Button variant="ghost" size="icon" onClick={handleGoHome}>
             <ArrowLeft className="h-5 w-5" />
           </Button>
+          {undoButton}
         </div>
         <PageTransition className="flex-1 flex items-center justify-center p-4">
           <div className="max-w-sm mx-auto text-center space-y-6">
@@ -721,9 +856,14 @@ export default function Study() {
             <span className="text-meta">Exit</span>
           </Button>
           <span className="text-meta text-muted-foreground">
-            {studyPhase === "diagnostic" ? "Diagnostic Quiz" : `Question ${effectiveIndex + 1}`}
+            {studyPhase === "diagnostic"
+              ? "Diagnostic Quiz"
+              : studyPhase === "leech_repair"
+                ? `Fix my leeches · ${effectiveIndex + 1}`
+                : `Question ${effectiveIndex + 1}`}
             {` of ${activeQuestions.length}`}
           </span>
+          {undoButton}
         </div>
 
         {/* Session progress dots */}
@@ -743,7 +883,16 @@ export default function Study() {
 
         <PageTransition className="flex-1 space-y-6 p-4">
           <AnimatePresence mode="wait">
-            {hasSubparts ? (
+            {currentQuestion.questionFormat === "flashcard" ? (
+              <FlashcardPlayer
+                key={`flashcard-${currentQuestion.id}`}
+                question={currentQuestion}
+                questionNumber={effectiveIndex + 1}
+                totalQuestions={activeQuestions.length}
+                onComplete={handleQuestionComplete}
+                ratingMode={studyPhase === "diagnostic" ? "confidence" : settings.rating_mode}
+              />
+            ) : hasSubparts ? (
               <MultiPartQuestionPlayer
                 key={`multi-${currentQuestion.id}`}
                 question={currentQuestion}
@@ -751,6 +900,8 @@ export default function Study() {
                 totalQuestions={activeQuestions.length}
                 onComplete={handleMultiPartComplete}
                 onSimilar={handleSimilar}
+                ratingMode={studyPhase === "diagnostic" ? "confidence" : settings.rating_mode}
+                repairMode={studyPhase === "leech_repair"}
               />
             ) : (
               <QuestionPlayer
@@ -760,6 +911,8 @@ export default function Study() {
                 totalQuestions={activeQuestions.length}
                 onComplete={handleQuestionComplete}
                 onSimilar={handleSimilar}
+                ratingMode={studyPhase === "diagnostic" ? "confidence" : settings.rating_mode}
+                repairMode={studyPhase === "leech_repair"}
               />
             )}
           </AnimatePresence>
@@ -771,17 +924,24 @@ export default function Study() {
   // COMPLETE state
   if (studyState === "complete") {
     const isDiagnostic = studyPhase === "diagnostic";
+    const isLeechRepair = studyPhase === "leech_repair";
     return (
       <PageTransition className="flex-1">
+        {undoButton && <div className="px-4 pt-3 flex">{undoButton}</div>}
         <CompletionCard
-          title={isDiagnostic ? "Diagnostic Complete!" : "Session Complete!"}
-          subtitle={isDiagnostic ? "We've calibrated your study plan." : "Great work today"}
+          title={isDiagnostic ? "Diagnostic Complete!" : isLeechRepair ? "Leech Repair Complete!" : "Session Complete!"}
+          subtitle={isDiagnostic
+            ? "We've calibrated your study plan."
+            : isLeechRepair
+              ? "Get a leech right twice in a row to clear it."
+              : "Great work today"}
           correctCount={sessionResults.correct}
           totalCount={sessionResults.total}
-          suggestions={isDiagnostic ? [] : completionSuggestions}
+          suggestions={isDiagnostic || isLeechRepair ? [] : completionSuggestions}
           onDone={handleGoHome}
           outcomes={questionOutcomes}
           totalQuestions={activeQuestions?.length}
+          misconceptions={isDiagnostic ? [] : sessionMisconceptions}
         />
       </PageTransition>
     );
@@ -1,7 +1,7 @@
 import { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, ChevronRight, Star, Calendar, Target, RefreshCw, Check, BookOpen, X } from 'lucide-react';
+import { ArrowLeft, ChevronRight, Star, Calendar, Target, RefreshCw, AlertTriangle, Bookmark, Check, BookOpen, X, Timer } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
@@ -18,6 +18,8 @@ import {
 } from '@/hooks/use-focus';
 import { useEnrollments } from '@/hooks/use-enrollments';
 import { useRecommendedPresets } from '@/hooks/use-study-recommendations';
+import { useBookmarkedPreset } from '@/hooks/use-question-notes';
+import { useMisconceptionPreset } from '@/hooks/use-misconceptions';
 import { fadeSlideUp, duration, easing, distance, stagger } from '@/lib/motion';
 import { getCourseCardColor } from '@/lib/examUtils';
 
@@ -58,6 +60,11 @@ export default function StudyFocus() {
   const { data: pastExams = [] } = usePastExamsHierarchy(effectiveCourseIds);
   const { data: questionTypes = [] } = useQuestionTypesForCourses(effectiveCourseIds);
   const recommendedPresets = useRecommendedPresets(filters.courseIds, enrolledCourseIdsArray);
+  const bookmarkedPreset = useBookmarkedPreset();
+  const misconceptionPreset = useMisconceptionPreset();
+  const presets = [...recommendedPresets, misconceptionPreset, bookmarkedPreset].filter(
+    (preset): preset is FocusPreset => preset !== null
+  );
 
   const hasCoursesSelected = filters.courseIds.length > 0;
 
@@ -140,6 +147,8 @@ export default function StudyFocus() {
       case 'calendar': return <Calendar className="h-4 w-4" />;
       case 'target': return <Target className="h-4 w-4" />;
       case 'refresh': return <RefreshCw className="h-4 w-4" />;
+      case 'alert': return <AlertTriangle className="h-4 w-4" />;
+      case 'bookmark': return <Bookmark className="h-4 w-4" />;
       default: return <Star className="h-4 w-4" />;
     }
   };
@@ -176,7 +185,7 @@ export default function StudyFocus() {
           }}
         >
           {/* Recommended Presets */}
-          {recommendedPresets.length > 0 && (
+          {presets.length > 0 && (
             <motion.section
               layout
               variants={{
@@ -190,7 +199,7 @@ export default function StudyFocus() {
                 Recommended
               </h2>
               <div className="grid gap-3 sm:grid-cols-2">
-                {recommendedPresets.map((preset) => (
+                {presets.map((preset) => (
                   <Button
                     key={preset.id}
                     variant="outline"
@@ -542,9 +551,25 @@ export default function StudyFocus() {
                 transition={{ duration: duration.normal, ease: easing.easeOut }}
                 className="space-y-4"
               >
-                <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-                  Past Exams
-                </h2>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                    Past Exams
+                  </h2>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1.5 text-xs"
+                    onClick={() => navigate('/mock-exam', {
+                      state: {
+                        coursePackId: filters.courseIds[0],
+                        sourceExam: filters.examNames.length === 1 ? filters.examNames[0] : undefined,
+                      },
+                    })}
+                  >
+                    <Timer className="h-3.5 w-3.5" />
+                    Timed mock exam
+                  </Button>
+                </div>
                 <div className="space-y-6">
                   {pastExams.map((group) => (
                     <div key={group.examType} className="space-y-2">
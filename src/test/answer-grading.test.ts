@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  gradeSubpartLocally,
+  gradeWithSpec,
+  parseNumericAnswer,
+  parseUnit,
+  resolveAnswerSpec,
+} from '@/lib/answer-grading';
+
+describe('parseNumericAnswer', () => {
+  it('reads plain, scientific and fraction forms with units', () => {
+    expect(parseNumericAnswer('12.5 m/s')).toMatchObject({ value: 12.5, unit: 'm/s', sigFigs: { min: 3, max: 3 } });
+    expect(parseNumericAnswer('3.0 \\times 10^{-4} kg')!.value).toBeCloseTo(3e-4);
+    expect(parseNumericAnswer('1.2e3')!.value).toBe(1200);
+    expect(parseNumericAnswer('v = 1,250 J')).toMatchObject({ value: 1250, unit: 'J' });
+    expect(parseNumericAnswer('$\\frac{1}{4}$')).toMatchObject({ value: 0.25, sigFigs: null });
+    expect(parseNumericAnswer('1200')!.sigFigs).toEqual({ min: 2, max: 4 });
+  });
+
+  it('rejects things that are not a number', () => {
+    expect(parseNumericAnswer('about five')).toBeNull();
+    expect(parseNumericAnswer('5 + 3i')).toBeNull();
+    expect(parseNumericAnswer('1.5.3')).toBeNull();
+  });
+});
+
+describe('parseUnit', () => {
+  it('converts compound and prefixed units to SI', () => {
+    expect(parseUnit('km/h')!.factor).toBeCloseTo(1000 / 3600);
+    expect(parseUnit('kg m^2 s^-2')!.dim).toEqual(parseUnit('J')!.dim);
+    expect(parseUnit('meters per second')!.dim).toEqual({ L: 1, T: -1 });
+    expect(parseUnit('\\mu m')!.factor).toBeCloseTo(1e-6);
+    expect(parseUnit('µm')!.factor).toBeCloseTo(1e-6);
+    expect(parseUnit('furlongs')).toBeNull();
+  });
+});
+
+describe('gradeWithSpec', () => {
+  const speed = resolveAnswerSpec({ value: 25, unit: 'm/s' });
+
+  it('accepts answers within tolerance, in any unit of the same dimension', () => {
+    expect(gradeWithSpec('25.4 m/s', speed, { tolerance_rel: 0.02 })).toMatchObject({ isCorrect: true, score: 1 });
+    expect(gradeWithSpec('90 km/h', speed, { tolerance_rel: 0.01 })).toMatchObject({ isCorrect: true });
+    expect(gradeWithSpec('27 m/s', speed, { tolerance_rel: 0.02 })).toMatchObject({ isCorrect: false, score: 0 });
+  });
+
+  it('flags wrong dimensions and missing required units', () => {
+    expect(gradeWithSpec('25 m', speed, null)!.feedback).toMatch(/units/);
+    expect(gradeWithSpec('25', speed, { units_required: true, partial_credit: true }, 2)).toMatchObject({
+      isCorrect: false,
+      score: 1,
+    });
+    // Units optional: a bare number is read in the expected unit
+    expect(gradeWithSpec('25', speed, { units_required: false })).toMatchObject({ isCorrect: true });
+  });
+
+  it('ignores an absolute tolerance as large as the answer itself', () => {
+    const small = resolveAnswerSpec({ value: 0.0032, unit: null });
+    expect(gradeWithSpec('0.0051', small, { tolerance_abs: 0.01, tolerance_rel: 0.05 })).toMatchObject({ isCorrect: false });
+    expect(gradeWithSpec('0.00325', small, { tolerance_abs: 0.01, tolerance_rel: 0.05 })).toMatchObject({ isCorrect: true });
+  });
+
+  it('checks significant figures, with partial credit', () => {
+    const g = resolveAnswerSpec({ value: 9.81, unit: null });
+    expect(gradeWithSpec('9.81', g, { sig_figs: 3 })).toMatchObject({ isCorrect: true });
+    expect(gradeWithSpec('9.810', g, { sig_figs: 3 }, 2)).toMatchObject({ isCorrect: false, score: 1 });
+    expect(gradeWithSpec('9.810', g, { sig_figs: 3, partial_credit: false }, 2)).toMatchObject({ score: 0 });
+  });
+
+  it('matches accepted forms, checks other expressions by equivalence and leaves text undecided', () => {
+    const expr = resolveAnswerSpec({ canonical: 'x^2+1', alt: ['1+x^2'] });
+    expect(gradeWithSpec('$1 + x^2$', expr, null)).toMatchObject({ isCorrect: true, feedback: 'Correct.' });
+    expect(gradeWithSpec('x*x+1', expr, null)).toMatchObject({ isCorrect: true });
+    expect(gradeWithSpec('x^2+2', expr, null)).toMatchObject({ isCorrect: false, feedback: expect.stringMatching(/constant/) });
+
+    const text = resolveAnswerSpec({ accepted: ['Photosynthesis'] });
+    expect(gradeWithSpec('photosynthesis.', text, { case_sensitive: false })).toMatchObject({ isCorrect: true });
+    expect(gradeWithSpec('photosynthesis', text, { case_sensitive: true })).toBeNull();
+  });
+
+  it('is undecided without a spec, an unparseable answer or an unknown unit', () => {
+    expect(gradeWithSpec('42', null, null)).toBeNull();
+    expect(gradeWithSpec('roughly 25', speed, null)).toBeNull();
+    expect(gradeWithSpec('25 furlongs/fortnight', speed, null)).toBeNull();
+    expect(gradeWithSpec('2x', resolveAnswerSpec({ value: 2 }), null)).toBeNull();
+  });
+});
+
+describe('gradeSubpartLocally', () => {
+  it('falls back to a plain-number correct answer when the extracted spec has no value', () => {
+    const subpart = {
+      answer_spec: { value: null, unit: null },
+      grading_spec: { tolerance_abs: 0.01, tolerance_rel: 0.05, units_required: false },
+      correctAnswer: 'a = 4.9 m/s^2',
+      points: 3,
+    };
+    expect(gradeSubpartLocally(subpart, '4.85 m/s^2')).toMatchObject({ isCorrect: true, score: 3 });
+    expect(gradeSubpartLocally({ ...subpart, correctAnswer: 'The block slides because friction is too small' }, 'it slides'))
+      .toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeCalibration, buildCalibrationReport, type CalibrationRow } from '@/lib/calibration';
+import type { ConfidenceLevel } from '@/types/study';
+
+function row(
+  topicId: string | null,
+  confidence: ConfidenceLevel,
+  attempts: number,
+  correct: number
+): CalibrationRow {
+  return { topicId, topicTitle: topicId === null ? null : `Topic ${topicId}`, confidence, attempts, correct };
+}
+
+describe('summarizeCalibration', () => {
+  it('returns empty bins and no score without attempts', () => {
+    const summary = summarizeCalibration([]);
+    expect(summary.attempts).toBe(0);
+    expect(summary.brierScore).toBeNull();
+    expect(summary.bins.map(b => b.accuracy)).toEqual([null, null, null]);
+  });
+
+  it('computes the Brier score and bias from the stated probabilities', () => {
+    // knew_it (0.9): 8 right, 2 wrong → 8 * 0.01 + 2 * 0.81 = 1.7
+    // guessed (0.25): 1 right, 3 wrong → 0.5625 + 3 * 0.0625 = 0.75
+    const summary = summarizeCalibration([row(null, 'knew_it', 10, 8), row(null, 'guessed', 4, 1)]);
+    expect(summary.attempts).toBe(14);
+    expect(summary.brierScore).toBeCloseTo(2.45 / 14);
+    // (8 - 9) + (1 - 1) over 14 attempts
+    expect(summary.bias).toBeCloseTo(-1 / 14);
+    expect(summary.bins.find(b => b.confidence === 'knew_it')?.accuracy).toBeCloseTo(0.8);
+  });
+});
+
+describe('buildCalibrationReport', () => {
+  it('separates totals from topics and calls out the largest gaps', () => {
+    const report = buildCalibrationReport([
+      row(null, 'knew_it', 20, 14),
+      row('a', 'knew_it', 10, 6),
+      row('b', 'knew_it', 10, 9),
+      row('b', 'guessed', 6, 5),
+      row('c', 'knew_it', 3, 0),
+    ]);
+
+    expect(report.overall.attempts).toBe(20);
+    expect(report.topics.map(t => t.topicId)).toEqual(['b', 'a', 'c']);
+
+    // c has too few attempts; b's knew_it is within the gap
+    expect(report.callouts.map(c => [c.topicId, c.confidence, c.kind])).toEqual([
+      ['b', 'guessed', 'underconfident'],
+      ['a', 'knew_it', 'overconfident'],
+    ]);
+    expect(report.callouts[1].message).toBe("You mark 'knew it' on Topic a but are right only 60% of the time.");
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import type { ReviewCardRow } from '../../supabase/functions/_shared/review-submission.ts';
+import { capDueForExam, nextExamDate } from '../../supabase/functions/_shared/exam-capping.ts';
+
+const REVIEWED_AT = new Date('2026-03-10T12:00:00Z');
+
+const card = (dueAt: string, scheduledDays: number): ReviewCardRow => ({
+  due_at: dueAt,
+  last_reviewed_at: REVIEWED_AT.toISOString(),
+  reps: 3,
+  stability: 40,
+  difficulty: 5,
+  elapsed_days: 12,
+  scheduled_days: scheduledDays,
+  lapses: 0,
+  learning_steps: 0,
+  state: 2,
+});
+
+describe('capDueForExam', () => {
+  it('pulls a review scheduled past the exam into the days before it', () => {
+    const capped = capDueForExam(card('2026-04-19T12:00:00Z', 40), REVIEWED_AT, ['2026-03-20'], REVIEWED_AT);
+
+    expect(capped.due_at).toBe('2026-03-18T00:00:00.000Z');
+    expect(capped.scheduled_days).toBe(8);
+    expect(capped.stability).toBe(40);
+  });
+
+  it('leaves cards already due before the exam alone', () => {
+    const next = card('2026-03-15T12:00:00Z', 5);
+    expect(capDueForExam(next, REVIEWED_AT, ['2026-03-20'], REVIEWED_AT)).toEqual(next);
+  });
+
+  it('does not cap the review taken in the final days before the exam', () => {
+    const next = card('2026-04-19T12:00:00Z', 40);
+    expect(capDueForExam(next, REVIEWED_AT, ['2026-03-12'], REVIEWED_AT)).toEqual(next);
+  });
+
+  it('caps against the next exam, ignoring past ones', () => {
+    const capped = capDueForExam(
+      card('2026-06-01T12:00:00Z', 83),
+      REVIEWED_AT,
+      ['2026-05-10', '2026-02-20', '2026-04-01'],
+      REVIEWED_AT,
+    );
+    expect(capped.due_at).toBe('2026-03-30T00:00:00.000Z');
+  });
+
+  it('leaves the card unchanged without upcoming exams', () => {
+    const next = card('2026-04-19T12:00:00Z', 40);
+    expect(capDueForExam(next, REVIEWED_AT, [], REVIEWED_AT)).toEqual(next);
+    expect(nextExamDate(['2026-03-01'], REVIEWED_AT)).toBeNull();
+  });
+
+  it('skips exams that have passed since the review was taken', () => {
+    const next = card('2026-04-19T12:00:00Z', 40);
+    const replayedAt = new Date('2026-03-25T00:00:00Z');
+    expect(capDueForExam(next, REVIEWED_AT, ['2026-03-20'], replayedAt)).toEqual(next);
+
+    const capped = capDueForExam(next, REVIEWED_AT, ['2026-03-20', '2026-04-10'], replayedAt);
+    expect(capped.due_at).toBe('2026-04-08T00:00:00.000Z');
+  });
+});
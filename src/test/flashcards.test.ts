@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { blankVariable, buildFlashcards, interleaveFlashcards } from '@/lib/flashcards';
+import type { MaterialAnalysisV4, QuestionReadyChunk, AnalyzedTopicV2 } from '@/types/materials';
+import type { QuestionFormat } from '@/types/study';
+
+function chunk(overrides: Partial<QuestionReadyChunk>): QuestionReadyChunk {
+  return {
+    chunk_index: 0,
+    chunk_type: 'page',
+    summary: '',
+    atomic_facts: [],
+    definitions: [],
+    formulas: [],
+    constraints: [],
+    worked_examples: [],
+    common_misconceptions: [],
+    evidence_spans: [],
+    key_terms: [],
+    content_density: 'normal',
+    question_potential: 'high',
+    ...overrides,
+  };
+}
+
+function analysis(chunks: QuestionReadyChunk[], topics: Partial<AnalyzedTopicV2>[] = []): MaterialAnalysisV4 {
+  return {
+    schema_version: 4,
+    question_ready_chunks: chunks,
+    outline: [],
+    topics: topics as AnalyzedTopicV2[],
+  } as MaterialAnalysisV4;
+}
+
+describe('blankVariable', () => {
+  it('blanks every standalone occurrence of the symbol', () => {
+    expect(blankVariable('v = v_0 + a t', 'a')).toBe('v = v_0 + \\boxed{?} t');
+    expect(blankVariable('x^2 + x', 'x')).toBe('\\boxed{?}^2 + \\boxed{?}');
+  });
+
+  it('leaves symbols inside commands and subscripted names alone', () => {
+    expect(blankVariable('\\frac{F}{m}', 'a')).toBeNull();
+    expect(blankVariable('v_0 + a t', 'v')).toBeNull();
+    expect(blankVariable('v = v_0 + a t', 'v_0')).toBe('v = \\boxed{?} + a t');
+  });
+});
+
+describe('buildFlashcards', () => {
+  const kinematics = chunk({
+    chunk_index: 2,
+    definitions: [{ term: 'Velocity', definition: 'Rate of change of position.', evidence_span_id: 'e_2_1' }],
+    key_terms: ['velocity', 'acceleration', 'jerk'],
+    atomic_facts: [{
+      fact_id: 'f_2_1',
+      statement: 'Acceleration is the rate of change of velocity.',
+      fact_type: 'definition',
+      evidence_span_id: 'e_2_2',
+    }],
+    formulas: [{
+      name: 'Constant acceleration',
+      expression: 'v = v_0 + a t',
+      variables: [
+        { symbol: 'v_0', meaning: 'initial velocity', domain: null },
+        { symbol: 'a', meaning: 'acceleration', domain: 'constant' },
+        { symbol: 'q', meaning: 'not in the expression', domain: null },
+      ],
+      conditions: ['a is constant'],
+      evidence_span_id: 'e_2_3',
+    }],
+    evidence_spans: [
+      { span_id: 'e_2_1', text: 'Velocity is the rate of change of position' },
+      { span_id: 'e_2_3', text: 'For constant a, v = v0 + at' },
+    ],
+  });
+
+  it('builds definition, key term, formula and cloze cards with evidence and topic', () => {
+    const drafts = buildFlashcards(analysis([kinematics], [{ title: 'Kinematics', supporting_chunks: [2] }]));
+
+    expect(drafts.map(d => d.flashcard.key)).toEqual([
+      'definition:velocity',
+      'definition:acceleration',
+      'formula:constant acceleration',
+      'cloze:constant acceleration:v_0',
+      'cloze:constant acceleration:a',
+    ]);
+    expect(drafts.every(d => d.topicTitle === 'Kinematics')).toBe(true);
+
+    const [velocity, acceleration, formula, cloze] = drafts.map(d => d.flashcard);
+    expect(velocity).toMatchObject({ kind: 'definition', back: 'Rate of change of position.', evidence: 'Velocity is the rate of change of position' });
+    expect(acceleration).toMatchObject({ back: 'Acceleration is the rate of change of velocity.', evidence: null });
+    expect(formula.kind).toBe('formula');
+    expect(formula.back).toContain('**Constant acceleration**');
+    expect(formula.back).toContain('- $a$: acceleration (constant)');
+    expect(formula.conditions).toEqual(['a is constant']);
+    expect(cloze.front).toContain('v = \\boxed{?} + a t');
+    expect(cloze.back).toBe('$v_0$: initial velocity');
+  });
+
+  it('keeps the first card of a key across chunks, without a topic when none covers the chunk', () => {
+    const repeat = chunk({
+      chunk_index: 5,
+      definitions: [{ term: 'velocity ', definition: 'Speed with a direction.', evidence_span_id: 'x' }],
+    });
+    const drafts = buildFlashcards(analysis([repeat, kinematics]));
+    const velocity = drafts.filter(d => d.flashcard.key === 'definition:velocity');
+    expect(velocity).toHaveLength(1);
+    expect(velocity[0].flashcard.back).toBe('Speed with a direction.');
+    expect(velocity[0].topicTitle).toBeNull();
+  });
+});
+
+describe('interleaveFlashcards', () => {
+  const item = (id: string, questionFormat: QuestionFormat) => ({ id, questionFormat });
+
+  it('spreads flashcards evenly, capped at one per two questions', () => {
+    const items = [
+      item('f1', 'flashcard'), item('f2', 'flashcard'), item('f3', 'flashcard'),
+      item('q1', 'multiple_choice'), item('q2', 'multiple_choice'),
+      item('q3', 'numeric'), item('q4', 'multiple_choice'),
+    ];
+    expect(interleaveFlashcards(items).map(i => i.id)).toEqual(['q1', 'q2', 'f1', 'q3', 'q4', 'f2']);
+  });
+
+  it('keeps everything when only one kind is present', () => {
+    const cards = [item('f1', 'flashcard'), item('f2', 'flashcard')];
+    expect(interleaveFlashcards(cards)).toEqual(cards);
+    expect(interleaveFlashcards([item('q1', 'multiple_choice'), item('f1', 'flashcard')]).map(i => i.id)).toEqual(['q1', 'f1']);
+  });
+});
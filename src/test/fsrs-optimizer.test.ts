@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Rating, default_w, type Grade } from 'ts-fsrs';
+import {
+  buildReviewSequences,
+  computeLogLoss,
+  optimizeFsrsWeights,
+  MIN_REVIEWS_FOR_OPTIMIZATION,
+  type OptimizerReview,
+} from '@/lib/fsrs-optimizer';
+import {
+  optimizeFsrsParametersForUser,
+  resolveFsrsWeights,
+  type FsrsParameterRow,
+} from '@/hooks/use-fsrs-parameters';
+
+// The real optimizer, recorded so the tests can see which reviews it was given
+vi.mock('@/lib/fsrs-optimizer', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/fsrs-optimizer')>();
+  return { ...actual, optimizeFsrsWeights: vi.fn(actual.optimizeFsrsWeights) };
+});
+
+const mockFrom = vi.fn();
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}));
+
+/** Query builder stand-in: every filter returns itself, awaiting it gives `result` */
+function query(result: { data?: unknown; error: unknown }) {
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve),
+  };
+  for (const method of ['select', 'eq', 'not', 'order', 'range', 'upsert']) builder[method] = vi.fn(() => builder);
+  return builder;
+}
+
+const DAY = 86_400_000;
+
+// Deterministic PRNG so the synthetic history is stable across runs
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A student who forgets much faster than the default model predicts:
+ * recall probability after t days is 0.9^(t / 2), whatever the history.
+ */
+function simulateForgetfulStudent(cards: number, reviewsPerCard: number): OptimizerReview[] {
+  const random = mulberry32(42);
+  const start = Date.UTC(2026, 0, 5);
+  const reviews: OptimizerReview[] = [];
+  for (let c = 0; c < cards; c++) {
+    let at = start + c * 3_600_000;
+    for (let r = 0; r < reviewsPerCard; r++) {
+      const gapDays = r === 0 ? 0 : 2 + Math.floor(random() * 10);
+      at += gapDays * DAY;
+      const recalled = r === 0 || random() < Math.pow(0.9, gapDays / 2);
+      reviews.push({
+        cardId: `card-${c}`,
+        reviewedAt: new Date(at),
+        rating: (recalled ? Rating.Good : Rating.Again) as Grade,
+      });
+    }
+  }
+  return reviews;
+}
+
+describe('buildReviewSequences', () => {
+  it('groups by card and orders by review time with whole-day gaps', () => {
+    const sequences = buildReviewSequences([
+      { cardId: 'a', reviewedAt: new Date('2026-02-10T10:00:00Z'), rating: Rating.Good },
+      { cardId: 'b', reviewedAt: new Date('2026-02-01T10:00:00Z'), rating: Rating.Again },
+      { cardId: 'a', reviewedAt: new Date('2026-02-01T10:00:00Z'), rating: Rating.Hard },
+    ]);
+
+    expect(sequences).toHaveLength(2);
+    const a = sequences.find(s => s.length === 2)!;
+    expect(a.map(s => s.rating)).toEqual([Rating.Hard, Rating.Good]);
+    expect(a.map(s => s.deltaDays)).toEqual([0, 9]);
+  });
+});
+
+describe('computeLogLoss', () => {
+  it('ignores first reviews and same-day repeats', () => {
+    const sequences = buildReviewSequences([
+      { cardId: 'a', reviewedAt: new Date('2026-02-01T10:00:00Z'), rating: Rating.Good },
+      { cardId: 'a', reviewedAt: new Date('2026-02-01T10:05:00Z'), rating: Rating.Good },
+    ]);
+    expect(computeLogLoss(default_w, sequences).count).toBe(0);
+  });
+});
+
+describe('optimizeFsrsWeights', () => {
+  it('returns null below the minimum review count', () => {
+    const reviews = simulateForgetfulStudent(10, 5);
+    expect(reviews.length).toBeLessThan(MIN_REVIEWS_FOR_OPTIMIZATION);
+    expect(optimizeFsrsWeights(reviews)).toBeNull();
+  });
+
+  it('fits weights that predict a forgetful student better than the defaults', () => {
+    const reviews = simulateForgetfulStudent(40, 6);
+    const result = optimizeFsrsWeights(reviews, { iterations: 25 });
+
+    expect(result).not.toBeNull();
+    expect(result!.reviewCount).toBe(reviews.length);
+    expect(result!.weights).toHaveLength(default_w.length);
+    expect(result!.logLoss).toBeLessThan(result!.defaultLogLoss);
+  });
+});
+
+describe('resolveFsrsWeights', () => {
+  const row = (course: string | null, weights: number[] | null): FsrsParameterRow => ({
+    id: `${course}`,
+    user_id: 'u1',
+    course_pack_id: course,
+    weights,
+    review_count: 200,
+    log_loss: 0.3,
+    default_log_loss: 0.4,
+    optimized_at: '2026-03-01T00:00:00Z',
+  });
+
+  it('prefers the course fit, then the global fit, then defaults', () => {
+    const rows = [row(null, [1]), row('c1', [2])];
+    expect(resolveFsrsWeights(rows, 'c1')).toEqual([2]);
+    expect(resolveFsrsWeights(rows, 'c2')).toEqual([1]);
+    expect(resolveFsrsWeights([], 'c1')).toBeNull();
+  });
+
+  it('uses the defaults when the global fit found nothing to fit', () => {
+    const rows = [row(null, null), row('c1', [2])];
+    expect(resolveFsrsWeights(rows, 'c1')).toEqual([2]);
+    expect(resolveFsrsWeights(rows, 'c2')).toBeNull();
+  });
+
+  it('falls back to the global fit when the course row has no weights', () => {
+    const rows = [row(null, [1]), row('c1', null)];
+    expect(resolveFsrsWeights(rows, 'c1')).toEqual([1]);
+  });
+});
+
+describe('optimizeFsrsParametersForUser', () => {
+  it('fits each subpart of a question as its own card', async () => {
+    // Two subparts of one question, answered together in each session
+    const start = Date.UTC(2026, 0, 5);
+    const attempts = Array.from({ length: MIN_REVIEWS_FOR_OPTIMIZATION }, (_, i) => ({
+      question_id: 'q1',
+      subpart_id: i % 2 === 0 ? 'a' : 'b',
+      created_at: new Date(start + Math.floor(i / 2) * 3 * DAY + i * 60_000).toISOString(),
+      fsrs_rating: Rating.Good,
+      questions: { course_pack_id: null },
+    }));
+    mockFrom.mockImplementation((table: string) =>
+      query(table === 'attempts' ? { data: attempts, error: null } : { data: [], error: null })
+    );
+    vi.mocked(optimizeFsrsWeights).mockClear();
+
+    await optimizeFsrsParametersForUser('u1');
+
+    const [reviews] = vi.mocked(optimizeFsrsWeights).mock.calls[0];
+    expect(new Set(reviews.map((review) => review.cardId))).toEqual(new Set(['q1:a', 'q1:b']));
+    expect(buildReviewSequences(reviews)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { Rating } from 'ts-fsrs';
+import { deriveFsrsRating } from '@/types/study';
+import { previewRatings, formatIntervalLabel, dbRowToCard, type DbSrsRow } from '@/lib/fsrs';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+describe('deriveFsrsRating', () => {
+  it('maps correctness and confidence to a rating', () => {
+    expect(deriveFsrsRating(false, 3)).toBe(Rating.Again);
+    expect(deriveFsrsRating(true, 1)).toBe(Rating.Hard);
+    expect(deriveFsrsRating(true, 2)).toBe(Rating.Good);
+    expect(deriveFsrsRating(true, 3)).toBe(Rating.Easy);
+    expect(deriveFsrsRating(true, null)).toBe(Rating.Good);
+  });
+
+  it('drops the rating one step when a hint was used', () => {
+    expect(deriveFsrsRating(true, 3, { hintUsed: true })).toBe(Rating.Good);
+    expect(deriveFsrsRating(true, 2, { hintUsed: true })).toBe(Rating.Hard);
+    expect(deriveFsrsRating(true, 1, { hintUsed: true })).toBe(Rating.Hard);
+  });
+
+  it('caps the rating at Hard when Guide Me was used', () => {
+    expect(deriveFsrsRating(true, 3, { guideUsed: true })).toBe(Rating.Hard);
+    expect(deriveFsrsRating(true, null, { hintUsed: true, guideUsed: true })).toBe(Rating.Hard);
+    expect(deriveFsrsRating(false, 3, { guideUsed: true })).toBe(Rating.Again);
+  });
+});
+
+describe('previewRatings', () => {
+  const reviewCard: DbSrsRow = {
+    due_at: NOW.toISOString(),
+    last_reviewed_at: new Date(NOW.getTime() - 10 * 86_400_000).toISOString(),
+    reps: 4,
+    stability: 10,
+    difficulty: 5,
+    elapsed_days: 10,
+    scheduled_days: 10,
+    lapses: 0,
+    learning_steps: 0,
+    state: 2,
+  };
+
+  it('returns one preview per button, in button order with growing intervals', () => {
+    const previews = previewRatings(dbRowToCard(reviewCard), NOW);
+    expect(previews.map((p) => p.rating)).toEqual([Rating.Again, Rating.Hard, Rating.Good, Rating.Easy]);
+
+    const dues = previews.map((p) => p.due.getTime());
+    expect([...dues].sort((a, b) => a - b)).toEqual(dues);
+    expect(dues[3]).toBeGreaterThan(dues[0]);
+  });
+
+  it('previews a new card with learning steps', () => {
+    const [again] = previewRatings(null, NOW);
+    expect(formatIntervalLabel(NOW, again.due)).toBe('1m');
+  });
+});
+
+describe('formatIntervalLabel', () => {
+  it('formats minutes, hours, days, months and years', () => {
+    const later = (ms: number) => new Date(NOW.getTime() + ms);
+    expect(formatIntervalLabel(NOW, later(20_000))).toBe('<1m');
+    expect(formatIntervalLabel(NOW, later(10 * 60_000))).toBe('10m');
+    expect(formatIntervalLabel(NOW, later(3 * 3_600_000))).toBe('3h');
+    expect(formatIntervalLabel(NOW, later(4 * 86_400_000))).toBe('4d');
+    expect(formatIntervalLabel(NOW, later(60 * 86_400_000))).toBe('2mo');
+    expect(formatIntervalLabel(NOW, later(548 * 86_400_000))).toBe('1.5y');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { groupLeechesByTopic, type Leech } from '@/hooks/use-leeches';
+
+const leech = (cardId: string, topicIds: string[]): Leech => ({
+  cardId,
+  questionId: `q-${cardId}`,
+  subpartId: null,
+  prompt: 'Prompt',
+  topicIds,
+  coursePackId: 'course-1',
+  lapses: 8,
+  leechAt: '2026-03-10T12:00:00Z',
+  isSuspended: false,
+});
+
+const titles = new Map([
+  ['t-limits', 'Limits'],
+  ['t-series', 'Series'],
+]);
+
+describe('groupLeechesByTopic', () => {
+  it('groups leeches by topic, most leeches first', () => {
+    const groups = groupLeechesByTopic(
+      [leech('1', ['t-limits']), leech('2', ['t-series']), leech('3', ['t-series'])],
+      titles
+    );
+    expect(groups.map((g) => [g.topicTitle, g.leeches.length])).toEqual([
+      ['Series', 2],
+      ['Limits', 1],
+    ]);
+  });
+
+  it('lists a question under each of its topics', () => {
+    const groups = groupLeechesByTopic([leech('1', ['t-limits', 't-series'])], titles);
+    expect(groups.map((g) => g.topicTitle)).toEqual(['Limits', 'Series']);
+  });
+
+  it('puts leeches without a known topic under Other', () => {
+    const groups = groupLeechesByTopic([leech('1', []), leech('2', ['t-unknown'])], titles);
+    expect(groups.map((g) => [g.topicTitle, g.leeches.length])).toEqual([['Other', 2]]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import type { ReviewCardRow } from '../../supabase/functions/_shared/review-submission.ts';
+import { balanceDueDate, pickBalancedInterval } from '../../supabase/functions/_shared/load-balancing.ts';
+
+const REVIEWED_AT = new Date('2026-03-10T12:00:00Z');
+
+const card = (scheduledDays: number, state = 2): ReviewCardRow => ({
+  due_at: new Date(REVIEWED_AT.getTime() + scheduledDays * 86_400_000).toISOString(),
+  last_reviewed_at: REVIEWED_AT.toISOString(),
+  reps: 2,
+  stability: scheduledDays,
+  difficulty: 5,
+  elapsed_days: 3,
+  scheduled_days: scheduledDays,
+  lapses: 0,
+  learning_steps: 0,
+  state,
+});
+
+describe('pickBalancedInterval', () => {
+  it('picks the least-loaded day in the fuzz range', () => {
+    const dueCounts = new Map([
+      ['2026-03-19', 80],
+      ['2026-03-20', 12],
+      ['2026-03-21', 40],
+    ]);
+    expect(pickBalancedInterval(10, { min_ivl: 9, max_ivl: 11 }, REVIEWED_AT, dueCounts)).toBe(10);
+
+    dueCounts.set('2026-03-20', 95);
+    expect(pickBalancedInterval(10, { min_ivl: 9, max_ivl: 11 }, REVIEWED_AT, dueCounts)).toBe(11);
+  });
+
+  it('prefers the optimal interval on ties', () => {
+    expect(pickBalancedInterval(10, { min_ivl: 8, max_ivl: 12 }, REVIEWED_AT, new Map())).toBe(10);
+  });
+
+  it('spreads a batch of reviews instead of stacking them on one day', () => {
+    const dueCounts = new Map<string, number>();
+    for (let i = 0; i < 30; i++) {
+      const days = pickBalancedInterval(10, { min_ivl: 8, max_ivl: 12 }, REVIEWED_AT, dueCounts);
+      const key = new Date(REVIEWED_AT.getTime() + days * 86_400_000).toISOString().slice(0, 10);
+      dueCounts.set(key, (dueCounts.get(key) ?? 0) + 1);
+    }
+    expect([...dueCounts.values()]).toEqual([6, 6, 6, 6, 6]);
+  });
+});
+
+describe('balanceDueDate', () => {
+  it('moves the due date with the interval', () => {
+    const balanced = balanceDueDate(card(10), REVIEWED_AT, { min_ivl: 9, max_ivl: 11 }, new Map([
+      ['2026-03-20', 50],
+      ['2026-03-21', 50],
+    ]));
+    expect(balanced.scheduled_days).toBe(9);
+    expect(balanced.due_at).toBe('2026-03-19T12:00:00.000Z');
+  });
+
+  it('leaves learning cards and short intervals alone', () => {
+    const busy = new Map([['2026-03-12', 99]]);
+    const learning = card(2, 1);
+    const short = card(2);
+    expect(balanceDueDate(learning, REVIEWED_AT, { min_ivl: 2, max_ivl: 3 }, busy)).toEqual(learning);
+    expect(balanceDueDate(short, REVIEWED_AT, { min_ivl: 2, max_ivl: 3 }, busy)).toEqual(short);
+  });
+});
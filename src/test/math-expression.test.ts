@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkEquivalence,
+  evaluate,
+  gradeWithSpec,
+  parseExpression,
+  resolveAnswerSpec,
+  toLatex,
+  variablesOf,
+  type MathNode,
+} from '@/lib/answer-grading';
+
+function parse(text: string): MathNode {
+  const tree = parseExpression(text);
+  if (!tree) throw new Error(`could not parse ${text}`);
+  return tree;
+}
+
+function equivalent(answer: string, expected: string) {
+  return checkEquivalence(parse(answer), parse(expected));
+}
+
+describe('parseExpression', () => {
+  it('reads ASCII and LaTeX with implicit multiplication', () => {
+    expect(evaluate(parse('2x*cos(x^2)'), { x: 1 })).toBeCloseTo(2 * Math.cos(1));
+    expect(evaluate(parse('2xcos(x^2)'), { x: 1 })).toBeCloseTo(2 * Math.cos(1));
+    expect(evaluate(parse('\\frac{1}{2}'), {})).toBe(0.5);
+    expect(evaluate(parse('\\sin^2 x + \\cos^{2}(x)'), { x: 0.7 })).toBeCloseTo(1);
+    expect(evaluate(parse('\\sqrt[3]{-8}'), {})).toBeCloseTo(-2);
+    expect(evaluate(parse('e^{-x}|x|'), { x: -1 })).toBeCloseTo(Math.E);
+    expect(evaluate(parse("f'(x) = \\sin^{-1} x"), { x: 1 })).toBeCloseTo(Math.PI / 2);
+    expect(evaluate(parse('-x^2'), { x: 3 })).toBe(-9);
+    expect(variablesOf(parse('v_0 t + \\frac{1}{2} a t^2'))).toEqual(['a', 't', 'v_0']);
+  });
+
+  it('rejects prose and malformed input', () => {
+    expect(parseExpression('the derivative is zero')).toBeNull();
+    expect(parseExpression('(x+1')).toBeNull();
+    expect(parseExpression('x +')).toBeNull();
+    expect(parseExpression('\\int x dx')).toBeNull();
+  });
+
+  it('renders what it parsed as LaTeX for the preview', () => {
+    expect(toLatex(parse('2x*cos(x^2)'))).toBe('2 x \\cos\\left(x^{2}\\right)');
+    expect(toLatex(parse('(x+1)/(x-1)'))).toBe('\\frac{x + 1}{x - 1}');
+    expect(toLatex(parse('(a+b)^2'))).toBe('\\left(a + b\\right)^{2}');
+    expect(toLatex(parse('theta_0 - (x - y)'))).toBe('\\theta_{0} - \\left(x - y\\right)');
+  });
+});
+
+describe('checkEquivalence', () => {
+  it('accepts rearranged and identity-equivalent forms', () => {
+    expect(equivalent('2x cos(x^2)', 'cos(x^2) * 2 * x')).toEqual({ equivalent: true, reason: null });
+    expect(equivalent('(x+1)^2', 'x^2 + 2x + 1')!.equivalent).toBe(true);
+    expect(equivalent('\\sin(2x)', '2\\sin x\\cos x')!.equivalent).toBe(true);
+    expect(equivalent('ln(x^2)', '2 ln x')!.equivalent).toBe(true);
+    // A bare log may be natural log
+    expect(equivalent('log(x)/2', 'ln(sqrt(x))')!.equivalent).toBe(true);
+  });
+
+  it('explains why an answer is not equivalent', () => {
+    expect(equivalent('x^2/2 + 1', 'x^2/2')!.reason).toMatch(/constant \(1\)/);
+    expect(equivalent('x^3', '3x^3')!.reason).toMatch(/0\.3333 times/);
+    expect(equivalent('x^2', 'x^3')!.reason).toMatch(/^At x = .*, your answer gives/);
+    expect(equivalent('x + y', 'x')!.reason).toMatch(/uses y/);
+    expect(equivalent('x^3/3', 'x^3/3 + C')!.reason).toMatch(/\+ C/);
+  });
+
+  it('gives up when neither domain has enough points', () => {
+    expect(equivalent('sqrt(-x^2 - 1)', 'sqrt(-x^2 - 1)')).toBeNull();
+  });
+});
+
+describe('grading expressions from the correct answer', () => {
+  it('treats a math correct answer as an expression and a word as undecidable', () => {
+    expect(resolveAnswerSpec(null, '2x\\cos(x^2)')).toEqual({ kind: 'expression', forms: ['2x\\cos(x^2)'] });
+    expect(resolveAnswerSpec(null, 'No')).toBeNull();
+  });
+
+  it('grades exact constants numerically', () => {
+    const expected = resolveAnswerSpec(null, '\\frac{\\sqrt{2}}{2}');
+    expect(gradeWithSpec('1/sqrt(2)', expected, null)).toMatchObject({ isCorrect: true });
+    expect(gradeWithSpec('0.707', expected, null)).toMatchObject({ isCorrect: true });
+    expect(gradeWithSpec('0.5', expected, null)).toMatchObject({ isCorrect: false });
+  });
+
+  it('explains a wrong derivative in the feedback', () => {
+    const expected = resolveAnswerSpec(null, '2x\\cos(x^2)');
+    expect(gradeWithSpec('2x*cos(x^2)', expected, null, 2)).toMatchObject({ isCorrect: true, score: 2 });
+    expect(gradeWithSpec('cos(x^2)', expected, null)).toMatchObject({
+      isCorrect: false,
+      feedback: expect.stringMatching(/^Not equivalent\. At x = /),
+    });
+    expect(gradeWithSpec('its cos', expected, null)).toBeNull();
+  });
+});
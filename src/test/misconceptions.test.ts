@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mapMisconceptionRow,
+  misconceptionKeyForChoice,
+  misconceptionStatus,
+  misconceptionTargetQuestionIds,
+  misconceptionsWithKeys,
+  type Misconception,
+} from '@/lib/misconceptions';
+
+function misconception(overrides: Partial<Misconception>): Misconception {
+  return {
+    key: 'k',
+    diagnosis: 'k',
+    fix: null,
+    questionIds: [],
+    topicIds: [],
+    timesSelected: 1,
+    firstSelectedAt: '2026-04-01T10:00:00Z',
+    lastSelectedAt: '2026-04-01T10:00:00Z',
+    correctSince: 0,
+    status: 'active',
+    ...overrides,
+  };
+}
+
+describe('misconceptionStatus', () => {
+  it('fades with correct answers since the last pick and clears after three', () => {
+    expect(misconceptionStatus(0)).toBe('active');
+    expect(misconceptionStatus(2)).toBe('fading');
+    expect(misconceptionStatus(3)).toBe('cleared');
+  });
+
+  it('maps RPC rows, counting bigint strings as numbers', () => {
+    const row = mapMisconceptionRow({
+      misconception_key: 'sign error',
+      diagnosis: 'Sign error',
+      fix: null,
+      question_ids: null,
+      topic_ids: ['t1'],
+      times_selected: '4' as unknown as number,
+      first_selected_at: '2026-04-01T10:00:00Z',
+      last_selected_at: '2026-04-02T10:00:00Z',
+      correct_since: '1' as unknown as number,
+    });
+    expect(row).toMatchObject({ timesSelected: 4, correctSince: 1, status: 'fading', questionIds: [] });
+  });
+});
+
+describe('misconceptionKeyForChoice', () => {
+  const rationales = [
+    { id: 'B', misconception: '[Diagnosis] Drops  the\nnegative sign [Fix] ...', diagnosis: '  Drops  the\nNegative sign ' },
+    { id: 'C', misconception: 'Confuses mass and weight' },
+    { id: 'D', misconception: '' },
+  ];
+
+  it('normalises the diagnosis, falling back to the raw misconception', () => {
+    expect(misconceptionKeyForChoice(rationales, 'B')).toBe('drops the negative sign');
+    expect(misconceptionKeyForChoice(rationales, 'C')).toBe('confuses mass and weight');
+  });
+
+  it('returns null when the choice names no misconception', () => {
+    expect(misconceptionKeyForChoice(rationales, 'D')).toBeNull();
+    expect(misconceptionKeyForChoice(rationales, 'A')).toBeNull();
+    expect(misconceptionKeyForChoice(null, 'B')).toBeNull();
+  });
+});
+
+describe('misconception targeting', () => {
+  const profile = [
+    misconception({ key: 'a', status: 'fading', lastSelectedAt: '2026-04-03T00:00:00Z', questionIds: ['q1', 'q2'] }),
+    misconception({ key: 'b', status: 'active', lastSelectedAt: '2026-04-01T00:00:00Z', questionIds: ['q2', 'q3'] }),
+    misconception({ key: 'c', status: 'active', lastSelectedAt: '2026-04-02T00:00:00Z', questionIds: ['q4'] }),
+    misconception({ key: 'd', status: 'cleared', lastSelectedAt: '2026-04-04T00:00:00Z', questionIds: ['q5'] }),
+  ];
+
+  it('targets active misconceptions before fading ones and skips cleared ones', () => {
+    expect(misconceptionTargetQuestionIds(profile)).toEqual(['q4', 'q2', 'q3', 'q1']);
+  });
+
+  it('looks up session keys in order, ignoring ones not in the profile yet', () => {
+    expect(misconceptionsWithKeys(profile, ['c', 'x', 'a']).map(m => m.key)).toEqual(['c', 'a']);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMistakeEntries,
+  filterMistakes,
+  mistakeQuestionIds,
+  DEFAULT_MISTAKE_FILTERS,
+  type MistakeAttemptRow,
+} from '@/lib/mistakes';
+
+const mcq: MistakeAttemptRow['questions'] = {
+  prompt: 'What is $2 + 2$?',
+  choices: [
+    { id: 'A', text: '3', isCorrect: false },
+    { id: 'B', text: '4', isCorrect: true },
+  ],
+  correct_answer: 'B',
+  distractor_rationales: [{ id: 'A', misconception: 'Off by one', diagnosis: 'Counts one short', fix: 'Count again' }],
+  subparts: null,
+  topic_ids: ['t1', 'gone'],
+  course_pack_id: 'c1',
+  course_packs: { title: 'Arithmetic' },
+};
+
+const multiPart: MistakeAttemptRow['questions'] = {
+  prompt: 'A ball is thrown upwards.',
+  choices: null,
+  correct_answer: null,
+  distractor_rationales: null,
+  subparts: [{ id: 'a', prompt: 'Find the peak height.', points: 2, correctAnswer: '5 m' }],
+  topic_ids: [],
+  course_pack_id: 'c2',
+  course_packs: { title: 'Physics' },
+};
+
+function attempt(overrides: Partial<MistakeAttemptRow>): MistakeAttemptRow {
+  return {
+    id: 'x',
+    question_id: 'q1',
+    subpart_id: null,
+    selected_choice_id: null,
+    answer_text: null,
+    ai_feedback: null,
+    created_at: '2026-04-01T10:00:00+00:00',
+    questions: mcq,
+    ...overrides,
+  };
+}
+
+const topicTitles = new Map([['t1', 'Addition']]);
+
+describe('buildMistakeEntries', () => {
+  const wrong = [
+    attempt({ id: 'w1', selected_choice_id: 'A', created_at: '2026-04-01T10:00:00+00:00' }),
+    attempt({ id: 'w2', selected_choice_id: 'A', created_at: '2026-04-03T10:00:00+00:00' }),
+    attempt({
+      id: 'w3',
+      question_id: 'q2',
+      subpart_id: 'a',
+      answer_text: ' 3 m ',
+      ai_feedback: { isCorrect: false, score: 0, feedback: 'Use v^2 = 2gh.' },
+      created_at: '2026-04-02T10:00:00+00:00',
+      questions: multiPart,
+    }),
+  ];
+
+  it('groups attempts per question / subpart with answers, feedback and rationale', () => {
+    const [first, second] = buildMistakeEntries(wrong, [], topicTitles);
+
+    expect(first).toMatchObject({
+      key: 'q1',
+      answer: 'A. 3',
+      correctAnswer: 'B. 4',
+      wrongCount: 2,
+      lastWrongAt: '2026-04-03T10:00:00+00:00',
+      topics: [{ id: 't1', title: 'Addition' }],
+      corrected: false,
+    });
+    expect(first.rationale?.diagnosis).toBe('Counts one short');
+
+    expect(second).toMatchObject({ key: 'q2:a', answer: '3 m', correctAnswer: '5 m', rationale: null });
+    expect(second.prompt).toContain('Find the peak height.');
+    expect(second.feedback?.feedback).toBe('Use v^2 = 2gh.');
+  });
+
+  it('counts a mistake as corrected only after a later right answer on the same part', () => {
+    const entries = buildMistakeEntries(wrong, [
+      { question_id: 'q1', subpart_id: null, created_at: '2026-04-02T10:00:00+00:00' },
+      { question_id: 'q2', subpart_id: 'a', created_at: '2026-04-05T10:00:00+00:00' },
+      { question_id: 'q2', subpart_id: null, created_at: '2026-04-06T10:00:00+00:00' },
+    ], topicTitles);
+    expect(entries.map(e => [e.key, e.corrected])).toEqual([['q1', false], ['q2:a', true]]);
+  });
+});
+
+describe('filterMistakes', () => {
+  const entries = buildMistakeEntries([
+    attempt({ id: 'w1', selected_choice_id: 'A', created_at: '2026-04-03T12:00:00' }),
+    attempt({ id: 'w2', question_id: 'q2', subpart_id: 'a', questions: multiPart, created_at: '2026-04-01T12:00:00' }),
+  ], [{ question_id: 'q2', subpart_id: 'a', created_at: '2026-04-02T12:00:00' }], topicTitles);
+
+  it('filters by course, topic, status and local date range', () => {
+    const keys = (patch: Partial<typeof DEFAULT_MISTAKE_FILTERS>) =>
+      filterMistakes(entries, { ...DEFAULT_MISTAKE_FILTERS, ...patch }).map(e => e.key);
+
+    expect(keys({})).toEqual(['q1', 'q2:a']);
+    expect(keys({ courseId: 'c2' })).toEqual(['q2:a']);
+    expect(keys({ topicId: 't1' })).toEqual(['q1']);
+    expect(keys({ status: 'open' })).toEqual(['q1']);
+    expect(keys({ status: 'corrected' })).toEqual(['q2:a']);
+    expect(keys({ from: '2026-04-02' })).toEqual(['q1']);
+    expect(keys({ to: '2026-04-01' })).toEqual(['q2:a']);
+  });
+
+  it('re-practises each question once', () => {
+    expect(mistakeQuestionIds([...entries, ...entries])).toEqual(['q1', 'q2']);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  allocateByWeight,
+  assembleBlueprint,
+  defaultTimeLimitMinutes,
+  examKindOf,
+  formatClock,
+  isGradableMockQuestion,
+  latestMockForExam,
+  readinessWithMock,
+  scoreMockExam,
+  typicalPaperLength,
+  DEFAULT_BLUEPRINT_LENGTH,
+  type MockExamQuestion,
+  type MockExamResultRef,
+} from '@/lib/mock-exam';
+
+function question(id: string, overrides: Partial<MockExamQuestion> = {}): MockExamQuestion {
+  return {
+    id,
+    choices: [
+      { id: 'a', text: 'A', isCorrect: true },
+      { id: 'b', text: 'B', isCorrect: false },
+    ],
+    correctChoiceId: 'a',
+    subparts: null,
+    difficulty: 3,
+    topicIds: ['t1'],
+    topicNames: ['Limits'],
+    questionType: 'Computation',
+    familyId: id,
+    ...overrides,
+  };
+}
+
+/** Deterministic stand-in for Math.random */
+function sequence(...values: number[]): () => number {
+  let i = 0;
+  return () => values[i++ % values.length];
+}
+
+describe('mock exam papers', () => {
+  it('only grades single-part multiple-choice questions', () => {
+    expect(isGradableMockQuestion(question('q1'))).toBe(true);
+    expect(isGradableMockQuestion(question('q2', { choices: null, correctChoiceId: null }))).toBe(false);
+    expect(isGradableMockQuestion(question('q3', { subparts: [{ id: 'a', prompt: 'Part a', points: 1 }] }))).toBe(false);
+  });
+
+  it('reads the exam kind from a past exam name or calendar title', () => {
+    expect(examKindOf('Fall 2024 Midterm 2')).toBe(2);
+    expect(examKindOf('MIDTERM1 review')).toBe(1);
+    expect(examKindOf('Spring 2023 Final')).toBeNull();
+  });
+
+  it('sizes blueprints and time limits from past papers', () => {
+    expect(typicalPaperLength([12, 18, 15])).toBe(15);
+    expect(typicalPaperLength([])).toBe(DEFAULT_BLUEPRINT_LENGTH);
+    expect(defaultTimeLimitMinutes(15)).toBe(40);
+    expect(defaultTimeLimitMinutes(2)).toBe(10);
+    expect(formatClock(75)).toBe('1:15');
+    expect(formatClock(3725)).toBe('1:02:05');
+  });
+
+  it('splits questions across topics by weight, adding up to the paper length', () => {
+    const quotas = allocateByWeight(new Map([['t1', 5], ['t2', 3], ['t3', 2], ['t4', 0]]), 7);
+    expect(Object.fromEntries(quotas)).toEqual({ t1: 4, t2: 2, t3: 1 });
+  });
+
+  it('assembles a blueprint by topic share, one question per family, easiest first', () => {
+    const pool = [
+      question('a1', { topicIds: ['t1'], difficulty: 4 }),
+      question('a2', { topicIds: ['t1'], difficulty: 2, familyId: 'a1' }),
+      question('a3', { topicIds: ['t1'], difficulty: 1 }),
+      question('b1', { topicIds: ['t2'], difficulty: 3 }),
+      question('b2', { topicIds: ['t2'], difficulty: 5 }),
+      question('c1', { topicIds: ['t3'], difficulty: 1 }),
+      question('x1', { topicIds: ['t1'], choices: null, correctChoiceId: null }),
+    ];
+
+    const paper = assembleBlueprint({
+      pool,
+      topicWeights: new Map([['t1', 3], ['t2', 1]]),
+      length: 4,
+      random: sequence(0.5, 0.1, 0.9, 0.3),
+    });
+
+    expect(paper).toHaveLength(4);
+    // Out-of-scope topics and ungradable questions never appear
+    expect(paper.map((q) => q.id)).not.toContain('c1');
+    expect(paper.map((q) => q.id)).not.toContain('x1');
+    // a1 and a2 are siblings: only one of them
+    expect(paper.filter((q) => q.familyId === 'a1')).toHaveLength(1);
+    // t1 can only fill two of its three slots; the rest go to t2
+    expect(paper.filter((q) => q.topicIds.includes('t2'))).toHaveLength(2);
+    expect(paper.map((q) => q.difficulty)).toEqual([...paper.map((q) => q.difficulty)].sort((x, y) => x - y));
+  });
+});
+
+describe('scoreMockExam', () => {
+  it('scores overall, by topic and by question type, weakest first', () => {
+    const questions = [
+      question('q1', { topicIds: ['t1'], topicNames: ['Limits'], questionType: 'Computation' }),
+      question('q2', { topicIds: ['t1', 't2'], topicNames: ['Limits', 'Series'], questionType: 'Proof' }),
+      question('q3', { topicIds: ['t2'], topicNames: ['Series'], questionType: 'Computation' }),
+      question('q4', { topicIds: ['t2'], topicNames: ['Series'], questionType: 'Computation' }),
+    ];
+
+    const score = scoreMockExam(questions, { q1: 'a', q2: 'b', q3: 'a' });
+
+    expect(score).toMatchObject({ correct: 2, total: 4, answered: 3, score: 0.5 });
+    expect(score.byTopic.map((t) => [t.label, t.correct, t.total])).toEqual([
+      ['Series', 1, 3],
+      ['Limits', 1, 2],
+    ]);
+    expect(score.byQuestionType.map((t) => [t.label, t.correct, t.total])).toEqual([
+      ['Proof', 0, 1],
+      ['Computation', 2, 3],
+    ]);
+  });
+});
+
+describe('mock exams in readiness', () => {
+  const exam = { examId: 'ev-mid2', examTitle: 'Midterm 2', coursePackId: 'c1' };
+  const result = (id: string, overrides: Partial<MockExamResultRef> = {}) => ({
+    id,
+    source: 'past_exam' as const,
+    coursePackId: 'c1',
+    sourceExam: 'Midterm 2 Fall 2024',
+    calendarEventId: null,
+    ...overrides,
+  });
+
+  it('matches the exam blueprint or a past paper of the same kind, latest first', () => {
+    const results = [
+      result('other-kind', { sourceExam: 'Midterm 1 Fall 2024' }),
+      result('other-course', { coursePackId: 'c2' }),
+      result('blueprint', { source: 'blueprint', sourceExam: null, calendarEventId: 'ev-mid2' }),
+      result('past'),
+    ];
+
+    expect(latestMockForExam(exam, results)?.id).toBe('blueprint');
+    expect(latestMockForExam(exam, results.slice(3))?.id).toBe('past');
+    expect(latestMockForExam(exam, results.slice(0, 2))).toBeUndefined();
+  });
+
+  it('blends the mock score into readiness', () => {
+    expect(readinessWithMock(60, null)).toBe(60);
+    expect(readinessWithMock(60, 0.9)).toBe(69);
+    expect(readinessWithMock(60, 0.2)).toBe(48);
+  });
+});
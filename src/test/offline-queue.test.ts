@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createMemoryAttemptQueue,
+  submitOrQueue,
+  syncAttemptQueue,
+  isQueuedAttemptId,
+  MAX_SYNC_TRIES,
+  type SubmitReviewBody,
+} from '@/lib/offline-queue';
+import { EdgeFunctionError } from '@/lib/supabase';
+import { isStaleOfflineReview } from '../../supabase/functions/_shared/review-submission.ts';
+
+const USER = 'user-1';
+
+const answer = (questionId: string): SubmitReviewBody => ({
+  questionId,
+  rating: 3,
+  selectedChoiceId: 'a',
+  isCorrect: true,
+  confidence: null,
+  hintUsed: false,
+  guideUsed: false,
+});
+
+/** Simulated network: fetch() rejects with a TypeError while offline */
+function createNetwork() {
+  const network = {
+    online: true,
+    rejectQuestionIds: new Set<string>(),
+    failQuestionIds: new Set<string>(),
+    received: [] as SubmitReviewBody[],
+    submit: async (body: SubmitReviewBody) => {
+      if (!network.online) throw new TypeError('Failed to fetch');
+      if (network.rejectQuestionIds.has(body.questionId)) throw new EdgeFunctionError('Question not found', 404);
+      if (network.failQuestionIds.has(body.questionId)) throw new EdgeFunctionError('Internal error', 500);
+      network.received.push(body);
+    },
+  };
+  return network;
+}
+
+describe('submitOrQueue', () => {
+  it('submits directly when online', async () => {
+    const store = createMemoryAttemptQueue();
+    const network = createNetwork();
+    const queued = await submitOrQueue(store, USER, answer('q1'), network.submit, true);
+    expect(queued).toBeNull();
+    expect(network.received).toHaveLength(1);
+    expect(await store.list(USER)).toEqual([]);
+  });
+
+  it('queues with the answer time when offline or the request cannot reach the server', async () => {
+    const store = createMemoryAttemptQueue();
+    const network = createNetwork();
+    network.online = false;
+
+    const first = await submitOrQueue(store, USER, answer('q1'), network.submit, false, new Date('2026-04-01T09:00:00Z'));
+    // navigator.onLine can still say online on a dead connection
+    const second = await submitOrQueue(store, USER, answer('q2'), network.submit, true, new Date('2026-04-01T09:01:00Z'));
+
+    expect(isQueuedAttemptId(first!.id)).toBe(true);
+    expect(second!.body.reviewedAt).toBe('2026-04-01T09:01:00.000Z');
+    expect((await store.list(USER)).map((a) => a.body.questionId)).toEqual(['q1', 'q2']);
+  });
+
+  it('does not queue answers the server rejected', async () => {
+    const store = createMemoryAttemptQueue();
+    const network = createNetwork();
+    network.rejectQuestionIds.add('q1');
+    await expect(submitOrQueue(store, USER, answer('q1'), network.submit, true)).rejects.toThrow('Question not found');
+    expect(await store.list(USER)).toEqual([]);
+  });
+});
+
+describe('syncAttemptQueue', () => {
+  async function queueOffline(store: ReturnType<typeof createMemoryAttemptQueue>, questionIds: string[]) {
+    const offline = createNetwork();
+    offline.online = false;
+    for (const [i, id] of questionIds.entries()) {
+      await submitOrQueue(store, USER, answer(id), offline.submit, false, new Date(Date.UTC(2026, 3, 1, 9, i)));
+    }
+  }
+
+  it('replays queued answers oldest first with their answer times', async () => {
+    const store = createMemoryAttemptQueue();
+    await queueOffline(store, ['q1', 'q2', 'q3']);
+    const network = createNetwork();
+
+    const result = await syncAttemptQueue(store, USER, network.submit);
+
+    expect(result).toEqual({ synced: 3, dropped: 0, remaining: 0 });
+    expect(network.received.map((b) => b.questionId)).toEqual(['q1', 'q2', 'q3']);
+    expect(network.received[0].reviewedAt).toBe('2026-04-01T09:00:00.000Z');
+    expect(await store.list(USER)).toEqual([]);
+  });
+
+  it('stops when the connection drops and resumes in order', async () => {
+    const store = createMemoryAttemptQueue();
+    await queueOffline(store, ['q1', 'q2', 'q3']);
+    const network = createNetwork();
+    const flaky = async (body: SubmitReviewBody) => {
+      await network.submit(body);
+      if (body.questionId === 'q1') network.online = false;
+    };
+
+    expect(await syncAttemptQueue(store, USER, flaky)).toEqual({ synced: 1, dropped: 0, remaining: 2 });
+
+    network.online = true;
+    expect(await syncAttemptQueue(store, USER, network.submit)).toEqual({ synced: 2, dropped: 0, remaining: 0 });
+    expect(network.received.map((b) => b.questionId)).toEqual(['q1', 'q2', 'q3']);
+  });
+
+  it('retries a rejected answer before later ones and drops it after MAX_SYNC_TRIES', async () => {
+    const store = createMemoryAttemptQueue();
+    await queueOffline(store, ['q1', 'q2']);
+    const network = createNetwork();
+    network.rejectQuestionIds.add('q1');
+
+    for (let i = 1; i < MAX_SYNC_TRIES; i++) {
+      expect(await syncAttemptQueue(store, USER, network.submit)).toEqual({ synced: 0, dropped: 0, remaining: 2 });
+    }
+    expect(await syncAttemptQueue(store, USER, network.submit)).toEqual({ synced: 1, dropped: 1, remaining: 0 });
+    expect(network.received.map((b) => b.questionId)).toEqual(['q2']);
+  });
+
+  it('keeps retrying answers that failed on server errors or unreadable responses', async () => {
+    const store = createMemoryAttemptQueue();
+    await queueOffline(store, ['q1', 'q2']);
+    const network = createNetwork();
+    network.failQuestionIds.add('q1');
+
+    for (let i = 0; i <= MAX_SYNC_TRIES; i++) {
+      expect(await syncAttemptQueue(store, USER, network.submit)).toEqual({ synced: 0, dropped: 0, remaining: 2 });
+    }
+    const unreadable = async () => {
+      throw new EdgeFunctionError('Edge function returned an invalid response: 502', null);
+    };
+    expect(await syncAttemptQueue(store, USER, unreadable)).toEqual({ synced: 0, dropped: 0, remaining: 2 });
+    expect((await store.list(USER)).map((a) => a.tries)).toEqual([0, 0]);
+
+    network.failQuestionIds.clear();
+    expect(await syncAttemptQueue(store, USER, network.submit)).toEqual({ synced: 2, dropped: 0, remaining: 0 });
+  });
+});
+
+describe('isStaleOfflineReview', () => {
+  const card = { last_reviewed_at: '2026-04-01T10:00:00Z' } as Parameters<typeof isStaleOfflineReview>[0];
+
+  it('keeps the server card when it was reviewed after the offline answer', () => {
+    expect(isStaleOfflineReview(card, new Date('2026-04-01T09:00:00Z'))).toBe(true);
+    expect(isStaleOfflineReview(card, new Date('2026-04-01T11:00:00Z'))).toBe(false);
+    expect(isStaleOfflineReview(null, new Date('2026-04-01T09:00:00Z'))).toBe(false);
+  });
+});
@@ -49,6 +49,15 @@ vi.mock('@/components/progress/TopicRiskList', () => ({
 vi.mock('@/components/progress/ExamReadinessPanel', () => ({
   ExamReadinessPanel: () => null,
 }));
+vi.mock('@/components/progress/WorkloadSimulatorPanel', () => ({
+  WorkloadSimulatorPanel: () => null,
+}));
+vi.mock('@/components/progress/LeechList', () => ({
+  LeechList: () => null,
+}));
+vi.mock('@/components/progress/CalibrationCard', () => ({
+  CalibrationCard: () => null,
+}));
 vi.mock('@/components/progress/ProgressFilters', () => ({
   ProgressFilters: () => <div data-testid="progress-filters" />,
 }));
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { isEmptyNote, searchNotes, notesToMarkdown, type QuestionNoteEntry } from '@/lib/question-notes';
+
+function entry(overrides: Partial<QuestionNoteEntry>): QuestionNoteEntry {
+  return {
+    questionId: 'q1',
+    bookmarked: false,
+    confusing: false,
+    note: '',
+    updatedAt: '2026-04-01T10:00:00Z',
+    prompt: 'Find the derivative of $x^2$',
+    courseTitle: 'Calculus I',
+    topicNames: ['Derivatives'],
+    ...overrides,
+  };
+}
+
+describe('isEmptyNote', () => {
+  it('is empty with no flags and a blank note', () => {
+    expect(isEmptyNote({ bookmarked: false, confusing: false, note: '  \n' })).toBe(true);
+    expect(isEmptyNote({ bookmarked: true, confusing: false, note: '' })).toBe(false);
+    expect(isEmptyNote({ bookmarked: false, confusing: false, note: 'power rule' })).toBe(false);
+  });
+});
+
+describe('searchNotes', () => {
+  const entries = [
+    entry({ questionId: 'q1', note: 'Remember the power rule', updatedAt: '2026-04-01T10:00:00Z' }),
+    entry({ questionId: 'q2', prompt: 'Integrate $\\sin x$', topicNames: ['Integrals'], updatedAt: '2026-04-03T10:00:00Z' }),
+    entry({ questionId: 'q3', courseTitle: 'Physics', topicNames: ['Kinematics'], note: 'units!', updatedAt: '2026-04-02T10:00:00Z' }),
+  ];
+
+  it('returns everything newest first for an empty query', () => {
+    expect(searchNotes(entries, '').map(e => e.questionId)).toEqual(['q2', 'q3', 'q1']);
+  });
+
+  it('matches every word across note, prompt, course and topics', () => {
+    expect(searchNotes(entries, 'POWER derivative').map(e => e.questionId)).toEqual(['q1']);
+    expect(searchNotes(entries, 'physics units').map(e => e.questionId)).toEqual(['q3']);
+    expect(searchNotes(entries, 'integrals power')).toEqual([]);
+  });
+});
+
+describe('notesToMarkdown', () => {
+  it('groups by course with tags and the note text', () => {
+    const markdown = notesToMarkdown([
+      entry({ questionId: 'q1', bookmarked: true, note: 'Remember the power rule' }),
+      entry({ questionId: 'q2', courseTitle: null, confusing: true, topicNames: [], prompt: 'Line one\nLine two' }),
+    ], new Date('2026-04-05T12:00:00Z'));
+
+    expect(markdown).toBe([
+      '# My question notes',
+      '',
+      'Exported 2026-04-05',
+      '',
+      '## Calculus I',
+      '',
+      '### Find the derivative of $x^2$',
+      '',
+      '_bookmarked · Derivatives_',
+      '',
+      'Remember the power rule',
+      '',
+      '## Other',
+      '',
+      '### Line one',
+      '',
+      '_confusing_',
+      '',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateReports, type QuestionReport } from '@/lib/question-reports';
+
+let nextId = 0;
+function report(overrides: Partial<QuestionReport>): QuestionReport {
+  nextId += 1;
+  return {
+    id: `r${nextId}`,
+    questionId: 'q1',
+    subpartId: null,
+    userId: 'u1',
+    category: 'typo',
+    details: '',
+    status: 'open',
+    createdAt: '2026-04-06T10:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('aggregateReports', () => {
+  it('groups open reports per question and counts distinct reporters', () => {
+    const [row] = aggregateReports([
+      report({ userId: 'u1', category: 'wrong_key', createdAt: '2026-04-06T09:00:00Z' }),
+      report({ userId: 'u1', category: 'typo', createdAt: '2026-04-06T11:00:00Z' }),
+      report({ userId: 'u2', category: 'wrong_key', createdAt: '2026-04-06T10:00:00Z' }),
+      report({ userId: 'u3', status: 'dismissed' }),
+    ]);
+
+    expect(row.reporterCount).toBe(2);
+    expect(row.reports.map(r => r.createdAt)).toEqual([
+      '2026-04-06T11:00:00Z',
+      '2026-04-06T10:00:00Z',
+      '2026-04-06T09:00:00Z',
+    ]);
+    expect(row.categoryCounts).toEqual({ wrong_key: 2, typo: 1 });
+    expect(row.topCategory).toBe('wrong_key');
+    expect(row.latestAt).toBe('2026-04-06T11:00:00Z');
+  });
+
+  it('breaks category ties toward the more serious category', () => {
+    const [row] = aggregateReports([
+      report({ userId: 'u1', category: 'typo' }),
+      report({ userId: 'u2', category: 'ambiguous' }),
+    ]);
+    expect(row.topCategory).toBe('ambiguous');
+  });
+
+  it('orders questions by reporters, then most recent report', () => {
+    const rows = aggregateReports([
+      report({ questionId: 'q1', userId: 'u1', createdAt: '2026-04-06T12:00:00Z' }),
+      report({ questionId: 'q2', userId: 'u1', createdAt: '2026-04-05T10:00:00Z' }),
+      report({ questionId: 'q2', userId: 'u2', createdAt: '2026-04-05T11:00:00Z' }),
+      report({ questionId: 'q3', userId: 'u3', createdAt: '2026-04-06T13:00:00Z' }),
+    ]);
+    expect(rows.map(r => r.questionId)).toEqual(['q2', 'q3', 'q1']);
+  });
+
+  it('leaves out questions with only closed reports', () => {
+    expect(aggregateReports([report({ status: 'resolved' })])).toEqual([]);
+  });
+});
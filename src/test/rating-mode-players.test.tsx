@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { Rating } from 'ts-fsrs';
+import { FlashcardPlayer } from '@/components/study/FlashcardPlayer';
+import { MultiPartQuestionPlayer } from '@/components/study/MultiPartQuestionPlayer';
+import type { StudyQuestion } from '@/types/study';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {},
+  invokeEdgeFunction: vi.fn(),
+}));
+
+vi.mock('@/hooks/use-work-photos', () => ({
+  useUploadWorkPhoto: () => ({ mutateAsync: vi.fn() }),
+}));
+
+vi.mock('@/hooks/use-reduced-motion', () => ({
+  useReducedMotion: () => true,
+}));
+
+vi.mock('@/components/study/QuestionNotePanel', () => ({
+  QuestionNoteToggles: () => null,
+  QuestionNoteEditor: () => null,
+}));
+
+vi.mock('@/components/study/ReportProblemDialog', () => ({
+  ReportProblemDialog: () => null,
+}));
+
+// Rating buttons without the interval previews (those read the card from Supabase)
+vi.mock('@/components/study/FsrsRatingButtons', () => ({
+  FsrsRatingButtons: ({ subpartId, onRate }: { subpartId?: string | null; onRate: (rating: number) => void }) => (
+    <div data-testid={`rating-buttons-${subpartId ?? 'question'}`}>
+      <button onClick={() => onRate(Rating.Hard)}>Hard</button>
+      <button onClick={() => onRate(Rating.Easy)}>Easy</button>
+    </div>
+  ),
+}));
+
+function question(overrides: Partial<StudyQuestion>): StudyQuestion {
+  return {
+    id: 'q1',
+    prompt: 'A ball is thrown upwards.',
+    choices: [],
+    correctChoiceId: null,
+    hint: null,
+    difficulty: 3,
+    topicIds: ['t1'],
+    topicNames: ['Kinematics'],
+    sourceExam: null,
+    solutionSteps: null,
+    questionType: 'short_answer',
+    imageUrl: null,
+    guideMeSteps: null,
+    questionFormat: 'short_answer',
+    subparts: null,
+    coursePackId: 'c1',
+    courseName: null,
+    distractorRationales: null,
+    sourcePages: null,
+    fullSolution: null,
+    ...overrides,
+  };
+}
+
+const multiPart = question({
+  subparts: [
+    { id: 'a', prompt: 'Initial speed?', points: 1, correctAnswer: '12' },
+    { id: 'b', prompt: 'Time to the top?', points: 1, correctAnswer: '3' },
+  ],
+});
+
+async function answerPart(answer: string) {
+  fireEvent.change(screen.getByPlaceholderText('Type your answer here...'), { target: { value: answer } });
+  fireEvent.click(screen.getByRole('button', { name: /Submit Part/ }));
+  await waitFor(() => expect(screen.queryByPlaceholderText('Type your answer here...')).toBeNull());
+}
+
+describe('MultiPartQuestionPlayer rating modes', () => {
+  it('rates each part with the FSRS buttons in buttons mode', async () => {
+    const onComplete = vi.fn();
+    render(
+      <MultiPartQuestionPlayer
+        question={multiPart}
+        questionNumber={1}
+        onComplete={onComplete}
+        onSimilar={vi.fn()}
+        ratingMode="buttons"
+      />
+    );
+
+    await answerPart('12');
+    expect(screen.queryByText('How confident were you?')).toBeNull();
+    fireEvent.click(within(screen.getByTestId('rating-buttons-a')).getByText('Easy'));
+
+    await answerPart('3');
+    fireEvent.click(within(screen.getByTestId('rating-buttons-b')).getByText('Hard'));
+
+    await waitFor(() => expect(onComplete).toHaveBeenCalled());
+    const results = onComplete.mock.calls[0][0];
+    expect(results.map((r: { subpartId: string; rating?: number }) => [r.subpartId, r.rating])).toEqual([
+      ['a', Rating.Easy],
+      ['b', Rating.Hard],
+    ]);
+  });
+
+  it('keeps the confidence taps and Next in confidence mode', async () => {
+    render(
+      <MultiPartQuestionPlayer question={multiPart} questionNumber={1} onComplete={vi.fn()} onSimilar={vi.fn()} />
+    );
+
+    await answerPart('12');
+    expect(screen.getByText('How confident were you?')).toBeTruthy();
+    expect(screen.queryByTestId('rating-buttons-a')).toBeNull();
+    expect(screen.getByRole('button', { name: /Next: Part b/ })).toBeTruthy();
+  });
+});
+
+describe('FlashcardPlayer rating modes', () => {
+  const flashcard = question({ questionFormat: 'flashcard', fullSolution: 'v = u + at' });
+
+  it('rates recall with the FSRS buttons in buttons mode', () => {
+    const onComplete = vi.fn();
+    render(<FlashcardPlayer question={flashcard} questionNumber={1} onComplete={onComplete} ratingMode="buttons" />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Show answer/ }));
+    fireEvent.click(screen.getByText('Hard'));
+
+    expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ isCorrect: true, rating: Rating.Hard }));
+  });
+
+  it('leaves the rating to be derived from recall and confidence in confidence mode', () => {
+    const onComplete = vi.fn();
+    render(<FlashcardPlayer question={flashcard} questionNumber={1} onComplete={onComplete} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Show answer/ }));
+    expect(screen.queryByTestId('rating-buttons-question')).toBeNull();
+    fireEvent.click(screen.getByText('Knew it'));
+    fireEvent.click(screen.getByRole('button', { name: /Didn't remember it/ }));
+
+    expect(onComplete.mock.calls.map(([result]) => [result.isCorrect, result.confidence, result.rating])).toEqual([
+      [true, 3, undefined],
+      [false, null, undefined],
+    ]);
+  });
+});
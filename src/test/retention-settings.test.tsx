@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { FSRS, generatorParameters } from 'ts-fsrs';
+import {
+  fetchRetentionSettings,
+  resolveRetentionSettings,
+  useUpdateRetentionSettings,
+  DEFAULT_RETENTION_SETTINGS,
+  type RetentionSettingsSource,
+} from '@/hooks/use-retention-settings';
+import { rescheduledDueAt, retentionIntervalDays } from '@/lib/fsrs';
+
+const mockRpc = vi.fn();
+const mockFrom = vi.fn();
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}));
+
+vi.mock('@/hooks/use-auth', () => ({
+  useAuth: () => ({ user: { id: 'test-user' } }),
+}));
+
+/** Query builder stand-in: every filter returns itself, awaiting it gives `result` */
+function query(result: { data?: unknown; error: unknown }) {
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve),
+  };
+  for (const method of ['select', 'update', 'eq']) builder[method] = vi.fn(() => builder);
+  builder.maybeSingle = vi.fn(() => Promise.resolve(result));
+  return builder;
+}
+
+describe('retention settings', () => {
+  const source: RetentionSettingsSource = {
+    defaults: { desiredRetention: 0.85, maximumInterval: 180 },
+    overrides: [
+      { course_pack_id: 'c1', desired_retention: 0.95, maximum_interval: null },
+    ],
+  };
+
+  it('takes the enrollment override, then the user default', () => {
+    expect(resolveRetentionSettings(source, 'c1')).toEqual({ desiredRetention: 0.95, maximumInterval: 180 });
+    expect(resolveRetentionSettings(source, 'c2')).toEqual({ desiredRetention: 0.85, maximumInterval: 180 });
+    expect(resolveRetentionSettings(undefined, 'c1')).toEqual(DEFAULT_RETENTION_SETTINGS);
+  });
+
+  it('falls back to the app defaults before the columns are migrated', async () => {
+    const missing = { error: { code: '42703', message: 'column user_settings.desired_retention does not exist' } };
+    mockFrom.mockImplementation(() => query(missing));
+
+    expect(await fetchRetentionSettings('test-user')).toEqual({
+      defaults: DEFAULT_RETENTION_SETTINGS,
+      overrides: [],
+    });
+  });
+});
+
+describe('useUpdateRetentionSettings', () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+    mockFrom.mockReset();
+  });
+
+  it('saves the override, then reschedules and re-caps the cards', async () => {
+    const enrollments = query({ error: null });
+    mockFrom.mockReturnValue(enrollments);
+    mockRpc.mockResolvedValue({ data: { success: true }, error: null });
+
+    const queryClient = new QueryClient({ defaultOptions: { mutations: { retry: false } } });
+    const { result } = renderHook(() => useUpdateRetentionSettings(), {
+      wrapper: ({ children }) => <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>,
+    });
+    await result.current.mutateAsync({ coursePackId: 'c1', desiredRetention: 0.95, maximumInterval: null });
+
+    expect(mockFrom).toHaveBeenCalledWith('user_enrollments');
+    expect(enrollments.update).toHaveBeenCalledWith({ desired_retention: 0.95, maximum_interval: null });
+    expect(mockRpc.mock.calls.map(([name, args]) => [name, args])).toEqual([
+      ['apply_retention_settings', { p_user_id: 'test-user', p_course_id: 'c1' }],
+      ['cap_due_dates_for_exams', { p_user_id: 'test-user' }],
+    ]);
+  });
+
+  it('stops before rescheduling when the settings could not be saved', async () => {
+    mockFrom.mockReturnValue(query({ error: new Error('permission denied') }));
+
+    const queryClient = new QueryClient({ defaultOptions: { mutations: { retry: false } } });
+    const { result } = renderHook(() => useUpdateRetentionSettings(), {
+      wrapper: ({ children }) => <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>,
+    });
+
+    await expect(
+      result.current.mutateAsync({ coursePackId: null, desiredRetention: 0.8, maximumInterval: 90 })
+    ).rejects.toThrow('permission denied');
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+});
+
+describe('interval recompute', () => {
+  it('matches the ts-fsrs interval for the new target retention', () => {
+    for (const retention of [0.7, 0.85, 0.9, 0.97]) {
+      const scheduler = new FSRS(generatorParameters({ request_retention: retention, enable_fuzz: false }));
+      for (const stability of [2.5, 13, 60, 240]) {
+        expect(retentionIntervalDays(stability, retention, 36500)).toBe(scheduler.next_interval(stability, 0));
+      }
+    }
+  });
+
+  it('shortens intervals for a higher target and clamps to the maximum interval', () => {
+    expect(retentionIntervalDays(30, 0.95, 365)).toBeLessThan(retentionIntervalDays(30, 0.9, 365));
+    expect(retentionIntervalDays(30, 0.9, 365)).toBe(30);
+    expect(retentionIntervalDays(400, 0.8, 90)).toBe(90);
+    expect(retentionIntervalDays(0.1, 0.97, 365)).toBe(1);
+  });
+
+  it('keeps what moved the card since its review', () => {
+    // Reviewed Mar 1 for 10 days, then pushed back 7 days by a study pause
+    const paused = { last_reviewed_at: '2026-03-01T09:00:00.000Z', scheduled_days: 10, due_at: '2026-03-18T09:00:00.000Z' };
+    expect(rescheduledDueAt(paused, 6)).toBe('2026-03-14T09:00:00.000Z');
+
+    const untouched = { ...paused, due_at: '2026-03-11T09:00:00.000Z' };
+    expect(rescheduledDueAt(untouched, 6)).toBe('2026-03-07T09:00:00.000Z');
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import { FSRS, Rating, generatorParameters, type Grade } from 'ts-fsrs';
+import { dbRowToCard, cardToDbRow, createEmptyCard } from '@/lib/fsrs';
+import type { ReviewCardRow } from '../../supabase/functions/_shared/review-submission.ts';
+import {
+  reapplyScheduleAdjustments,
+  replayCardHistory,
+  replayReviewLog,
+  shiftForPauses,
+  type LoggedReview,
+  type ReviewStep,
+} from '../../supabase/functions/_shared/review-replay.ts';
+import type { StudyPauseRow } from '../../supabase/functions/_shared/study-pause.ts';
+
+const stepWith = (scheduler: FSRS): ReviewStep => (current, reviewedAt, rating) => {
+  const card = current ? dbRowToCard(current) : createEmptyCard(reviewedAt);
+  return cardToDbRow(scheduler.next(card, reviewedAt, rating as Grade).card);
+};
+
+const defaultStep = stepWith(new FSRS(generatorParameters({ enable_fuzz: false })));
+
+const log = (id: string, questionId: string, rating: Grade, reviewedAt: string): LoggedReview => ({
+  id,
+  question_id: questionId,
+  rating,
+  reviewed_at: reviewedAt,
+});
+
+describe('replayCardHistory', () => {
+  const reviews = [
+    log('r3', 'q1', Rating.Good, '2026-03-12T09:00:00Z'),
+    log('r1', 'q1', Rating.Easy, '2026-03-01T09:00:00Z'),
+    log('r2', 'q1', Rating.Again, '2026-03-04T09:00:00Z'),
+  ];
+
+  it('matches reviewing the card live, in time order', () => {
+    const replayed = replayCardHistory(reviews, defaultStep);
+
+    let live: ReviewCardRow | null = null;
+    for (const r of [reviews[1], reviews[2], reviews[0]]) {
+      live = defaultStep(live, new Date(r.reviewed_at), r.rating, new Map());
+    }
+
+    expect(replayed.map((r) => r.id)).toEqual(['r1', 'r2', 'r3']);
+    expect(replayed[2].after).toEqual(live);
+  });
+
+  it('chains each review from the card the previous one produced', () => {
+    const replayed = replayCardHistory(reviews, defaultStep);
+
+    expect(replayed[0].before).toBeNull();
+    expect(replayed[1].before).toEqual(replayed[0].after);
+    expect(replayed[2].before).toEqual(replayed[1].after);
+    expect(replayed[1].after.lapses).toBe(1);
+  });
+
+  it('reschedules with the parameters it is given', () => {
+    const strict = stepWith(new FSRS(generatorParameters({ enable_fuzz: false, request_retention: 0.97 })));
+
+    const history = [
+      log('r1', 'q1', Rating.Easy, '2026-03-01T09:00:00Z'),
+      log('r2', 'q1', Rating.Good, '2026-03-20T09:00:00Z'),
+    ];
+    const atDefault = replayCardHistory(history, defaultStep);
+    const atStrict = replayCardHistory(history, strict);
+
+    expect(atStrict[1].scheduled_days).toBeLessThan(atDefault[1].scheduled_days);
+  });
+});
+
+describe('replayReviewLog', () => {
+  it('replays each card independently', () => {
+    const cards = replayReviewLog(
+      [
+        log('a1', 'qa', Rating.Good, '2026-03-01T09:00:00Z'),
+        log('b1', 'qb', Rating.Again, '2026-03-02T09:00:00Z'),
+        log('a2', 'qa', Rating.Good, '2026-03-05T09:00:00Z'),
+      ],
+      () => defaultStep,
+    );
+
+    const qa = cards.find((c) => c.question_id === 'qa')!;
+    const qb = cards.find((c) => c.question_id === 'qb')!;
+    expect(qa.reviews.map((r) => r.id)).toEqual(['a1', 'a2']);
+    expect(qa.card.reps).toBe(2);
+    expect(qb.card.reps).toBe(1);
+    expect(qb.card).toEqual(qb.reviews[0].after);
+  });
+
+  it('keeps the subparts of a multi-part question on separate cards', () => {
+    const cards = replayReviewLog(
+      [
+        { ...log('a1', 'qm', Rating.Good, '2026-03-01T09:00:00Z'), subpart_id: 'a' },
+        { ...log('c1', 'qm', Rating.Again, '2026-03-01T09:01:00Z'), subpart_id: 'c' },
+        { ...log('a2', 'qm', Rating.Good, '2026-03-04T09:00:00Z'), subpart_id: 'a' },
+      ],
+      () => defaultStep,
+    );
+
+    expect(cards.map((c) => [c.question_id, c.subpart_id, c.card.reps])).toEqual([
+      ['qm', 'a', 2],
+      ['qm', 'c', 1],
+    ]);
+  });
+
+  it('shows each step the other cards due at the time of the review', () => {
+    const seen: Array<[string, number | undefined]> = [];
+    const recording: ReviewStep = (current, reviewedAt, rating, dueCounts) => {
+      seen.push([reviewedAt.toISOString().slice(0, 10), dueCounts.get('2026-03-04')]);
+      return { ...defaultStep(current, reviewedAt, rating, dueCounts), due_at: '2026-03-04T09:00:00.000Z' };
+    };
+
+    replayReviewLog(
+      [
+        log('a1', 'qa', Rating.Good, '2026-03-01T09:00:00Z'),
+        log('b1', 'qb', Rating.Good, '2026-03-02T09:00:00Z'),
+        log('a2', 'qa', Rating.Good, '2026-03-03T09:00:00Z'),
+      ],
+      () => recording,
+    );
+
+    // qa's own due date is left out when it is reviewed again
+    expect(seen).toEqual([
+      ['2026-03-01', undefined],
+      ['2026-03-02', 1],
+      ['2026-03-03', 1],
+    ]);
+  });
+});
+
+describe('replay after a study pause', () => {
+  const card = (overrides: Partial<ReviewCardRow>): ReviewCardRow => ({
+    due_at: '2026-04-12T09:00:00.000Z',
+    last_reviewed_at: '2026-03-30T09:00:00.000Z',
+    reps: 3,
+    stability: 13,
+    difficulty: 5,
+    elapsed_days: 5,
+    scheduled_days: 13,
+    lapses: 0,
+    learning_steps: 0,
+    state: 2,
+    ...overrides,
+  });
+  const pause: StudyPauseRow = {
+    starts_on: '2026-04-10',
+    ends_on: '2026-04-16',
+    frozen_at: '2026-04-10T06:00:00Z',
+    resumed_at: '2026-04-17T00:00:00Z',
+  };
+  const now = new Date('2026-04-20T12:00:00Z');
+
+  it('pushes a replayed card back by the pause, as the freeze did', () => {
+    // Scheduled 13 days out: due inside the pause
+    const thirteenDays: ReviewStep = (current, reviewedAt, rating, dueCounts) => ({
+      ...defaultStep(current, reviewedAt, rating, dueCounts),
+      due_at: new Date(reviewedAt.getTime() + 13 * 86400000).toISOString(),
+    });
+    const [replayed] = replayReviewLog(
+      [
+        log('r1', 'q1', Rating.Good, '2026-03-20T09:00:00Z'),
+        log('r2', 'q1', Rating.Good, '2026-03-30T09:00:00Z'),
+      ],
+      () => thirteenDays,
+    );
+
+    expect(replayed.card.due_at).toBe('2026-04-12T09:00:00.000Z');
+    expect(reapplyScheduleAdjustments(replayed.card, { pauses: [pause], examDates: [], live: null, now }).due_at)
+      .toBe('2026-04-19T09:00:00.000Z');
+  });
+
+  it('only shifts by the days taken when the pause was ended early', () => {
+    const endedEarly = { ...pause, resumed_at: '2026-04-13T15:00:00Z' };
+    expect(shiftForPauses(card({}), [endedEarly]).due_at).toBe('2026-04-15T09:00:00.000Z');
+  });
+
+  it('leaves cards due before the pause, reviewed during it, or paused later alone', () => {
+    const dueBefore = card({ due_at: '2026-04-08T09:00:00.000Z' });
+    const reviewedDuring = card({ last_reviewed_at: '2026-04-11T09:00:00.000Z', due_at: '2026-04-25T09:00:00.000Z' });
+    const notStarted = { ...pause, frozen_at: null, resumed_at: null };
+
+    expect(shiftForPauses(dueBefore, [pause])).toBe(dueBefore);
+    expect(shiftForPauses(reviewedDuring, [pause])).toBe(reviewedDuring);
+    expect(shiftForPauses(card({}), [notStarted]).due_at).toBe('2026-04-12T09:00:00.000Z');
+    expect(shiftForPauses(card({}), [pause]).due_at).toBe('2026-04-19T09:00:00.000Z');
+  });
+
+  it('re-caps before an exam the pause pushed the card past, unless that day is paused', () => {
+    const duringPause = new Date('2026-04-11T12:00:00Z');
+    const capped = reapplyScheduleAdjustments(card({}), {
+      pauses: [pause],
+      examDates: ['2026-04-19'],
+      live: null,
+      now: duringPause,
+    });
+    expect(capped.due_at).toBe('2026-04-17T00:00:00.000Z');
+
+    const inPause = reapplyScheduleAdjustments(card({}), {
+      pauses: [pause],
+      examDates: ['2026-04-18'],
+      live: null,
+      now: duringPause,
+    });
+    expect(inPause.due_at).toBe('2026-04-19T09:00:00.000Z');
+  });
+
+  it('keeps a smoothed due date the replay would make overdue', () => {
+    const overdue = card({ due_at: '2026-04-15T09:00:00.000Z' });
+    const live = card({ due_at: '2026-04-22T00:00:00.000Z', last_reviewed_at: '2026-03-30T09:00:00+00:00' });
+
+    expect(reapplyScheduleAdjustments(overdue, { pauses: [], examDates: [], live, now }).due_at)
+      .toBe('2026-04-22T00:00:00.000Z');
+    // Reviewed since: the live card is not the one the replay rebuilt
+    expect(reapplyScheduleAdjustments(overdue, {
+      pauses: [],
+      examDates: [],
+      live: { ...live, last_reviewed_at: '2026-04-01T09:00:00.000Z' },
+      now,
+    }).due_at).toBe('2026-04-15T09:00:00.000Z');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useAdaptiveSequencer } from '@/hooks/use-adaptive-sequencer';
+import type { StudyQuestion } from '@/types/study';
+
+vi.mock('@/hooks/use-reserve-pool', () => {
+  const pool = {
+    fetchReserve: vi.fn(),
+    getReserveForTopic: vi.fn(() => null),
+    needsRefetch: vi.fn(() => false),
+  };
+  return { useReservePool: () => pool };
+});
+
+function question(id: string, familyId?: string): StudyQuestion {
+  return {
+    id,
+    prompt: `Question ${id}`,
+    choices: [],
+    correctChoiceId: null,
+    hint: null,
+    difficulty: 3,
+    topicIds: ['t1'],
+    topicNames: ['Limits'],
+    sourceExam: null,
+    solutionSteps: null,
+    questionType: 'multiple_choice',
+    imageUrl: null,
+    guideMeSteps: null,
+    questionFormat: 'multiple_choice',
+    subparts: null,
+    coursePackId: 'c1',
+    courseName: null,
+    distractorRationales: null,
+    sourcePages: null,
+    fullSolution: null,
+    familyId: familyId ?? id,
+  };
+}
+
+const answered = { isCorrect: true, guideUsed: false, confidence: null, questionTopicIds: ['t1'] };
+
+describe('sibling burying in a study session', () => {
+  it('drops the answered question\'s siblings from the rest of the queue', () => {
+    const { result } = renderHook(() => useAdaptiveSequencer());
+
+    act(() => {
+      result.current.initQueue(
+        [question('p1a', 'p1'), question('q2'), question('p1b', 'p1'), question('q3'), question('p1c', 'p1')],
+        ['t1'],
+        [],
+      );
+    });
+    act(() => result.current.advance(answered));
+
+    expect(result.current.queue.map((q) => q.id)).toEqual(['p1a', 'q2', 'q3']);
+    expect(result.current.currentQuestion?.id).toBe('q2');
+  });
+
+  it('brings the siblings back when the answer is undone', () => {
+    const { result } = renderHook(() => useAdaptiveSequencer());
+
+    act(() => {
+      result.current.initQueue([question('p1a', 'p1'), question('p1b', 'p1'), question('q2')], ['t1'], []);
+    });
+    act(() => result.current.advance(answered));
+    expect(result.current.queue.map((q) => q.id)).toEqual(['p1a', 'q2']);
+
+    act(() => result.current.undo());
+    expect(result.current.queue.map((q) => q.id)).toEqual(['p1a', 'p1b', 'q2']);
+  });
+});
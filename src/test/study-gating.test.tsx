@@ -69,7 +69,8 @@ vi.mock('@/hooks/use-study-dashboard', () => ({
 
 vi.mock('@/hooks/use-study', () => ({
   useStudyQuestions: () => ({ data: [], isLoading: false, error: null, refetch: vi.fn() }),
-  useSubmitAttempt: () => ({ mutate: vi.fn() }),
+  useSubmitAttempt: () => ({ mutate: vi.fn(), mutateAsync: vi.fn() }),
+  useUndoAttempt: () => ({ mutateAsync: vi.fn(), isPending: false }),
 }));
 
 vi.mock('@/contexts/FocusContext', () => ({
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import type { ReviewCardRow } from '../../supabase/functions/_shared/review-submission.ts';
+import {
+  countPausedDays,
+  endPauseDueDate,
+  freezeDueDate,
+  isPausedDay,
+  lastPausedDay,
+  studyStreak,
+  type StudyPauseRow,
+} from '../../supabase/functions/_shared/study-pause.ts';
+import { capDueForExam } from '../../supabase/functions/_shared/exam-capping.ts';
+
+const card = (dueAt: string, lastReviewedAt = '2026-03-20T09:00:00Z', state = 2): ReviewCardRow => ({
+  due_at: dueAt,
+  last_reviewed_at: lastReviewedAt,
+  reps: 3,
+  stability: 20,
+  difficulty: 5,
+  elapsed_days: 10,
+  scheduled_days: 15,
+  lapses: 0,
+  learning_steps: 0,
+  state,
+});
+
+// Apr 1–10, frozen on the start day
+const pause: StudyPauseRow = {
+  starts_on: '2026-04-01',
+  ends_on: '2026-04-10',
+  frozen_at: '2026-04-01T07:00:00Z',
+  resumed_at: null,
+};
+
+describe('countPausedDays', () => {
+  it('counts the days of a range inside a pause', () => {
+    expect(countPausedDays([pause], '2026-03-25', '2026-04-30')).toBe(10);
+    expect(countPausedDays([pause], '2026-04-08', '2026-04-20')).toBe(3);
+    expect(countPausedDays([pause], '2026-04-11', '2026-04-20')).toBe(0);
+  });
+
+  it('stops a pause ended early on the day before it was ended', () => {
+    const ended = { ...pause, resumed_at: '2026-04-05T15:00:00Z' };
+
+    expect(lastPausedDay(ended)).toBe('2026-04-04');
+    expect(countPausedDays([ended], '2026-04-01', '2026-04-10')).toBe(4);
+  });
+
+  it('counts overlapping pauses once', () => {
+    const other = { ...pause, starts_on: '2026-04-09', ends_on: '2026-04-12' };
+    expect(countPausedDays([pause, other], '2026-04-01', '2026-04-30')).toBe(12);
+  });
+});
+
+describe('freezeDueDate (apply_study_pause)', () => {
+  it('pushes cards due from the start day on back by the pause length', () => {
+    expect(freezeDueDate(card('2026-04-03T09:00:00Z'), pause).due_at).toBe('2026-04-13T09:00:00.000Z');
+    expect(freezeDueDate(card('2026-04-01T00:00:00Z'), pause).due_at).toBe('2026-04-11T00:00:00.000Z');
+  });
+
+  it('leaves cards due before the pause and new cards alone', () => {
+    const overdue = card('2026-03-31T23:00:00Z');
+    const fresh = card('2026-04-03T09:00:00Z', '2026-03-20T09:00:00Z', 0);
+
+    expect(freezeDueDate(overdue, pause)).toBe(overdue);
+    expect(freezeDueDate(fresh, pause)).toBe(fresh);
+  });
+});
+
+describe('endPauseDueDate (end_study_pause)', () => {
+  const frozen = freezeDueDate(card('2026-04-08T09:00:00Z'), pause);
+
+  it('gives back the unused days when the student comes back early', () => {
+    // Ended on Apr 5: Apr 5–10 unused
+    expect(endPauseDueDate(frozen, pause, '2026-04-05').due_at).toBe('2026-04-12T09:00:00.000Z');
+  });
+
+  it('never brings a card back into the past', () => {
+    // Pulled in before its exam after the freeze
+    const capped = card('2026-04-04T09:00:00Z');
+    expect(endPauseDueDate(capped, pause, '2026-04-03').due_at).toBe('2026-04-03T00:00:00.000Z');
+  });
+
+  it('keeps the schedule of cards reviewed during the pause', () => {
+    const reviewed = card('2026-04-20T09:00:00Z', '2026-04-02T18:00:00Z');
+    expect(endPauseDueDate(reviewed, pause, '2026-04-05')).toBe(reviewed);
+  });
+
+  it('does nothing once the pause has run its course', () => {
+    expect(endPauseDueDate(frozen, pause, '2026-04-11')).toBe(frozen);
+  });
+});
+
+describe('studyStreak (get_study_streak)', () => {
+  it('counts consecutive study days ending today or yesterday', () => {
+    expect(studyStreak(['2026-04-18', '2026-04-19', '2026-04-20'], [], '2026-04-20')).toBe(3);
+    expect(studyStreak(['2026-04-18', '2026-04-19'], [], '2026-04-20')).toBe(2);
+    expect(studyStreak(['2026-04-17', '2026-04-19'], [], '2026-04-20')).toBe(1);
+    expect(studyStreak([], [], '2026-04-20')).toBe(0);
+  });
+
+  it('bridges paused days without counting them', () => {
+    const days = ['2026-03-30', '2026-03-31', '2026-04-11', '2026-04-12'];
+
+    expect(studyStreak(days, [pause], '2026-04-12')).toBe(4);
+    expect(studyStreak(days, [], '2026-04-12')).toBe(2);
+  });
+
+  it('only bridges the days actually taken of a pause ended early', () => {
+    const ended = { ...pause, resumed_at: '2026-04-05T15:00:00Z' };
+    const days = ['2026-03-31', '2026-04-06'];
+
+    // Apr 5 is no longer paused and wasn't studied
+    expect(studyStreak(days, [ended], '2026-04-06')).toBe(1);
+    expect(studyStreak([...days, '2026-04-05'], [ended], '2026-04-06')).toBe(3);
+  });
+});
+
+describe('exam caps during a pause (cap_due_dates_for_exams)', () => {
+  const exam = '2026-04-07';
+
+  it('skips a pre-exam review that would fall inside the pause', () => {
+    const frozen = freezeDueDate(card('2026-04-08T09:00:00Z'), pause);
+    const capped = capDueForExam(frozen, new Date(frozen.last_reviewed_at!), [exam], new Date('2026-04-01T08:00:00Z'));
+
+    expect(capped.due_at.slice(0, 10)).toBe('2026-04-05');
+    expect(isPausedDay([pause], capped.due_at.slice(0, 10))).toBe(true);
+  });
+
+  it('lets caps land outside the pause', () => {
+    expect(isPausedDay([pause], '2026-03-31')).toBe(false);
+    expect(isPausedDay([pause], '2026-04-11')).toBe(false);
+    expect(isPausedDay([{ ...pause, resumed_at: '2026-04-05T15:00:00Z' }], '2026-04-05')).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { FSRS, Rating, generatorParameters, type Grade } from 'ts-fsrs';
+import { dbRowToCard, cardToDbRow, createEmptyCard } from '@/lib/fsrs';
+import {
+  submitReviewWithRetry,
+  ReviewConflictError,
+  type ReviewCardRow,
+  type ReviewStore,
+  type VersionedCardRow,
+} from '../../supabase/functions/_shared/review-submission.ts';
+
+// No fuzz so sequential and concurrent schedules can be compared exactly
+const scheduler = new FSRS(generatorParameters({ enable_fuzz: false }));
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+const schedule = (rating: Grade) => (current: ReviewCardRow | null): ReviewCardRow => {
+  const card = current ? dbRowToCard(current) : createEmptyCard(NOW);
+  return cardToDbRow(scheduler.next(card, NOW, rating).card);
+};
+
+/** In-memory srs_state row + attempts log with submit_review's semantics */
+function createDb(initial: VersionedCardRow | null = null) {
+  const db = { row: initial, attempts: [] as string[] };
+  // Yield so concurrent tabs interleave like separate HTTP requests
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const tab = (label: string): ReviewStore => ({
+    load: async () => {
+      await tick();
+      return db.row ? { ...db.row } : null;
+    },
+    commit: async (expectedVersion, next) => {
+      await tick();
+      // Everything below runs without yielding — the equivalent of the RPC's
+      // row lock + single transaction
+      const stale = db.row ? db.row.version !== expectedVersion : expectedVersion !== null;
+      if (stale) return { committed: false, current: db.row ? { ...db.row } : null };
+      db.row = { ...next, version: db.row ? db.row.version + 1 : 0 };
+      db.attempts.push(label);
+      return { committed: true, card: { ...db.row }, attemptId: label };
+    },
+  });
+
+  return { db, tab };
+}
+
+describe('submitReviewWithRetry', () => {
+  it('applies concurrent first reviews from two tabs one after the other', async () => {
+    const { db, tab } = createDb();
+
+    const [a, b] = await Promise.all([
+      submitReviewWithRetry(tab('tab-a'), schedule(Rating.Good)),
+      submitReviewWithRetry(tab('tab-b'), schedule(Rating.Good)),
+    ]);
+
+    // Both attempts recorded, card reviewed twice
+    expect(db.attempts).toHaveLength(2);
+    expect(db.row!.reps).toBe(2);
+    expect(db.row!.version).toBe(1);
+    expect([a.tries, b.tries].sort()).toEqual([1, 2]);
+
+    // Same card as two sequential Good reviews
+    const sequential = schedule(Rating.Good)(schedule(Rating.Good)(null));
+    expect(db.row!.stability).toBeCloseTo(sequential.stability, 6);
+    expect(db.row!.due_at).toBe(sequential.due_at);
+  });
+
+  it('recomputes from the winning review when an existing card is updated concurrently', async () => {
+    const reviewed = schedule(Rating.Good)(null);
+    const { db, tab } = createDb({ ...reviewed, version: 3 });
+
+    await Promise.all([
+      submitReviewWithRetry(tab('again'), schedule(Rating.Again)),
+      submitReviewWithRetry(tab('easy'), schedule(Rating.Easy)),
+    ]);
+
+    expect(db.attempts).toEqual(['again', 'easy']);
+    expect(db.row!.version).toBe(5);
+    const expected = schedule(Rating.Easy)(schedule(Rating.Again)(reviewed));
+    expect(db.row!.reps).toBe(expected.reps);
+    expect(db.row!.lapses).toBe(expected.lapses);
+    expect(db.row!.stability).toBeCloseTo(expected.stability, 6);
+  });
+
+  it('gives up after repeated conflicts', async () => {
+    const alwaysStale: ReviewStore = {
+      load: async () => null,
+      commit: async () => ({ committed: false, current: null }),
+    };
+
+    await expect(
+      submitReviewWithRetry(alwaysStale, schedule(Rating.Good), 3)
+    ).rejects.toBeInstanceOf(ReviewConflictError);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { selectDueSubparts, getSubpartId } from '@/types/study';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+const subparts = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+const card = (subpart_id: string, due_at: string) => ({ subpart_id, due_at });
+
+describe('selectDueSubparts', () => {
+  it('plays the whole question when it has no subpart cards yet', () => {
+    expect(selectDueSubparts(subparts, [], NOW)).toBeNull();
+  });
+
+  it('plays only the due parts', () => {
+    const cards = [
+      card('a', '2026-03-20T00:00:00Z'),
+      card('b', '2026-03-20T00:00:00Z'),
+      card('c', '2026-03-09T00:00:00Z'),
+    ];
+    expect(selectDueSubparts(subparts, cards, NOW)).toEqual(['c']);
+  });
+
+  it('includes parts that were never reviewed', () => {
+    const cards = [card('a', '2026-03-20T00:00:00Z'), card('b', '2026-03-01T00:00:00Z')];
+    expect(selectDueSubparts(subparts, cards, NOW)).toEqual(['b', 'c']);
+  });
+
+  it('plays everything when all or none of the parts are due', () => {
+    const allDue = subparts.map((sp) => card(sp.id, '2026-03-01T00:00:00Z'));
+    const noneDue = subparts.map((sp) => card(sp.id, '2026-04-01T00:00:00Z'));
+    expect(selectDueSubparts(subparts, allDue, NOW)).toBeNull();
+    expect(selectDueSubparts(subparts, noneDue, NOW)).toBeNull();
+  });
+
+  it('skips suspended parts even when they are due', () => {
+    const cards = [
+      { ...card('a', '2026-03-01T00:00:00Z'), suspended_at: '2026-03-05T00:00:00Z' },
+      card('b', '2026-03-01T00:00:00Z'),
+      card('c', '2026-03-01T00:00:00Z'),
+    ];
+    expect(selectDueSubparts(subparts, cards, NOW)).toEqual(['b', 'c']);
+  });
+
+  it('falls back to part letters for subparts without an id', () => {
+    expect(getSubpartId({ id: '' }, 2)).toBe('c');
+    const cards = [card('a', '2026-03-20T00:00:00Z')];
+    expect(selectDueSubparts([{ id: '' }, { id: '' }], cards, NOW)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { mapTopicMasteryRow, selectWeakTopics, type TopicMastery } from '@/lib/topic-mastery';
+
+const topic = (topicId: string, mastery: number, cardsReviewed = 4): TopicMastery => ({
+  topicId,
+  title: topicId,
+  coursePackId: 'course-1',
+  cardsTotal: 4,
+  cardsReviewed,
+  coverage: cardsReviewed / 4,
+  retention: mastery,
+  mastery,
+  lastPracticedAt: null,
+});
+
+describe('mapTopicMasteryRow', () => {
+  it('derives coverage from reviewed cards and parses numeric columns', () => {
+    const mapped = mapTopicMasteryRow({
+      topic_id: 't-limits',
+      topic_title: 'Limits',
+      course_pack_id: 'course-1',
+      cards_total: 8,
+      cards_reviewed: 2,
+      retention_0_1: 0.22,
+      mastery_0_1: 0.72,
+      last_practiced_at: '2026-03-30T12:00:00Z',
+    });
+    expect(mapped.coverage).toBe(0.25);
+    expect(mapped.retention).toBe(0.22);
+    expect(mapped.mastery).toBe(0.72);
+  });
+});
+
+describe('selectWeakTopics', () => {
+  it('returns practiced topics below the threshold, weakest first', () => {
+    const weak = selectWeakTopics([
+      topic('strong', 0.9),
+      topic('shaky', 0.6),
+      topic('weakest', 0.2),
+      topic('unseen', 0, 0),
+      // Mastery leaves unreviewed cards out: one well-learned card of four isn't weak
+      topic('started', 0.85, 1),
+    ]);
+    expect(weak.map((t) => t.topicId)).toEqual(['weakest', 'shaky']);
+  });
+
+  it('caps the list', () => {
+    const topics = ['a', 'b', 'c'].map((id, i) => topic(id, 0.1 * i));
+    expect(selectWeakTopics(topics, 2).map((t) => t.topicId)).toEqual(['a', 'b']);
+  });
+});
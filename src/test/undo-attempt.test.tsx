@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useUndoAttempt } from '@/hooks/use-study';
+import { attemptQueue, createQueuedAttempt } from '@/lib/offline-queue';
+
+const mockRpc = vi.fn();
+vi.mock('@/lib/supabase', () => ({
+  supabase: { rpc: (...args: unknown[]) => mockRpc(...args) },
+  invokeEdgeFunction: vi.fn(),
+}));
+
+vi.mock('@/hooks/use-auth', () => ({
+  useAuth: () => ({ user: { id: 'test-user' } }),
+}));
+
+const mockToast = vi.fn();
+vi.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: mockToast }),
+}));
+
+function renderUndo(queryClient = new QueryClient({ defaultOptions: { mutations: { retry: false } } })) {
+  return renderHook(() => useUndoAttempt(), {
+    wrapper: ({ children }) => <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>,
+  });
+}
+
+describe('useUndoAttempt', () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+    mockToast.mockReset();
+  });
+
+  it('undoes a single-card answer and refreshes the card', async () => {
+    mockRpc.mockResolvedValue({ data: { success: true, undone: 1 }, error: null });
+    const queryClient = new QueryClient({ defaultOptions: { mutations: { retry: false } } });
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries');
+
+    const { result } = renderUndo(queryClient);
+    await result.current.mutateAsync(['attempt-a']);
+
+    expect(mockRpc).toHaveBeenCalledWith('undo_review', { p_attempt_ids: ['attempt-a'] });
+    expect(invalidate).toHaveBeenCalledWith({ queryKey: ['srs-state'] });
+    expect(mockToast).not.toHaveBeenCalled();
+  });
+
+  it('drops a single-card answer still queued offline without calling the server', async () => {
+    const queued = createQueuedAttempt('test-user', {
+      questionId: 'q2',
+      rating: 3,
+      selectedChoiceId: 'b',
+      isCorrect: true,
+      confidence: 'unsure',
+      hintUsed: false,
+      guideUsed: false,
+    }, new Date('2026-03-10T12:00:00Z'));
+    await attemptQueue.add(queued);
+
+    const { result } = renderUndo();
+    await result.current.mutateAsync([queued.id]);
+
+    expect(mockRpc).not.toHaveBeenCalled();
+    expect(await attemptQueue.list('test-user')).toEqual([]);
+  });
+
+  it('does nothing for an answer that was never saved', async () => {
+    const { result } = renderUndo();
+    await result.current.mutateAsync([]);
+
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it('undoes every part of a multi-part answer in one call and drops parts still queued offline', async () => {
+    mockRpc.mockResolvedValue({ data: { success: true, undone: 2 }, error: null });
+    const queued = createQueuedAttempt('test-user', {
+      questionId: 'q1',
+      subpartId: 'c',
+      rating: 1,
+      selectedChoiceId: null,
+      isCorrect: false,
+      confidence: null,
+      hintUsed: false,
+      guideUsed: false,
+    }, new Date('2026-03-10T12:00:00Z'));
+    await attemptQueue.add(queued);
+
+    const { result } = renderUndo();
+    await result.current.mutateAsync(['attempt-a', 'attempt-b', queued.id]);
+
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+    expect(mockRpc).toHaveBeenCalledWith('undo_review', { p_attempt_ids: ['attempt-a', 'attempt-b'] });
+    expect(await attemptQueue.list('test-user')).toEqual([]);
+  });
+
+  it('surfaces a refused undo', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: new Error('This card has changed since the answer was recorded') });
+
+    const { result } = renderUndo();
+    await expect(result.current.mutateAsync(['attempt-a', 'attempt-b'])).rejects.toThrow('This card has changed');
+    expect(mockToast).toHaveBeenCalledWith(expect.objectContaining({ variant: 'destructive' }));
+  });
+});
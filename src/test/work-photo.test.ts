@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { fitWithin, workPhotoPath } from '@/lib/work-photo';
+
+describe('work photos', () => {
+  it('downscales to the longest side without upscaling', () => {
+    expect(fitWithin(4032, 3024)).toEqual({ width: 2000, height: 1500 });
+    expect(fitWithin(3024, 4032)).toEqual({ width: 1500, height: 2000 });
+    expect(fitWithin(800, 600)).toEqual({ width: 800, height: 600 });
+  });
+
+  it("stores photos under the student's own folder", () => {
+    expect(workPhotoPath('user-1', 'q-1', 'IMG_0042.HEIC', 'abc')).toBe('user-1/q-1/abc.heic');
+    expect(workPhotoPath('user-1', 'q-1', 'blob', 'abc')).toBe('user-1/q-1/abc.jpg');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { createEmptyCard, Rating } from 'ts-fsrs';
+import { fsrsInstance } from '@/lib/fsrs';
+import { simulateWorkload, summarizeWorkload, type WorkloadSettings } from '@/lib/workload-simulator';
+
+const START = new Date('2026-03-02T08:00:00Z');
+const settings: WorkloadSettings = {
+  dailyGoal: 10,
+  paceOffset: 0,
+  desiredRetention: 0.9,
+  maximumInterval: 365,
+};
+
+// A card reviewed once, `daysAgo` before START
+function reviewedCard(daysAgo: number) {
+  const reviewedAt = new Date(START.getTime() - daysAgo * 86_400_000);
+  return fsrsInstance.next(createEmptyCard(reviewedAt), reviewedAt, Rating.Good).card;
+}
+
+describe('simulateWorkload', () => {
+  it('is reproducible for the same seed', () => {
+    const input = {
+      cards: Array.from({ length: 20 }, (_, i) => reviewedCard(i % 5)),
+      unseenQuestions: Array.from({ length: 30 }, () => ({ scheduledDate: null })),
+      settings,
+      start: START,
+      days: 14,
+    };
+    expect(simulateWorkload(input)).toEqual(simulateWorkload(input));
+  });
+
+  it('fills the daily goal with new cards once their topic opens', () => {
+    const days = simulateWorkload({
+      cards: [],
+      unseenQuestions: [
+        ...Array.from({ length: 15 }, () => ({ scheduledDate: null })),
+        ...Array.from({ length: 5 }, () => ({ scheduledDate: '2026-03-20' })),
+      ],
+      settings,
+      start: START,
+      days: 7,
+    });
+    expect(days[0].newCards).toBeLessThanOrEqual(10);
+    expect(summarizeWorkload(days).totalNewCards).toBe(15);
+  });
+
+  it('opens topics earlier with a pace offset', () => {
+    const input = {
+      cards: [],
+      unseenQuestions: Array.from({ length: 5 }, () => ({ scheduledDate: '2026-03-12' })),
+      start: START,
+      days: 7,
+    };
+    expect(summarizeWorkload(simulateWorkload({ ...input, settings })).totalNewCards).toBe(0);
+    expect(summarizeWorkload(simulateWorkload({ ...input, settings: { ...settings, paceOffset: 1 } })).totalNewCards).toBe(5);
+  });
+
+  it('reviews more often at a higher target retention', () => {
+    const input = {
+      cards: Array.from({ length: 50 }, (_, i) => reviewedCard(i % 10)),
+      unseenQuestions: [],
+      start: START,
+      days: 42,
+    };
+    const low = summarizeWorkload(simulateWorkload({ ...input, settings: { ...settings, desiredRetention: 0.8 } }));
+    const high = summarizeWorkload(simulateWorkload({ ...input, settings: { ...settings, desiredRetention: 0.95 } }));
+    expect(high.totalReviews).toBeGreaterThan(low.totalReviews);
+    expect(high.finalRetention!).toBeGreaterThan(low.finalRetention!);
+  });
+});
@@ -33,7 +33,7 @@ export interface ProgressSummary {
   globalMedianStability: number | null;
   globalMedianDifficulty: number | null;
   observedRecall: number | null;       // correct_count / attempts_count in window
-  targetRetention: number;             // 0.9
+  targetRetention: number;             // user's desired retention (mean over selected courses)
   totalAttempts: number;
 }
 
@@ -44,6 +44,8 @@ export interface ForecastDay {
   reviewCount: number;
   coursePackId: string | null;
   isOverdue: boolean;
+  overdueCount: number;      // part of reviewCount carried over from earlier days
+  examTitles: string[];      // exams that day (reviews are pulled ahead of them)
 }
 
 /** Per-topic exam projection */
@@ -60,9 +62,11 @@ export interface TopicExamProjection {
 export interface ExamProjection {
   examId: string;
   examTitle: string;
+  coursePackId: string;
   courseTitle: string;
   examDate: string;
   daysUntil: number;
+  includesPreExamReview: boolean;  // projection assumes the exam-capped review before it
   overallProjectedR: number;
   topics: TopicExamProjection[];
 }
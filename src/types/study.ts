@@ -1,6 +1,7 @@
 import { Tables } from '@/integrations/supabase/types';
 import { GuideMe } from './guide';
-import { Rating } from 'ts-fsrs';
+import { Rating, type Grade } from 'ts-fsrs';
+import type { AnswerSpec, GradingSpec, SpecGrade } from '@/lib/answer-grading';
 
 // Database types
 export type DbQuestion = Tables<'questions'>;
@@ -36,6 +37,9 @@ export interface StudySubpart {
   imageUrl?: string;        // Optional image for subpart
   modelAnswer?: string;     // Model answer for free response
   gradingRubric?: string;   // Grading rubric
+  // Typed answer + grading rules from extraction (see src/lib/answer-grading.ts)
+  answer_spec?: AnswerSpec | null;
+  grading_spec?: GradingSpec | null;
   // Per-part guide me, explanation, and key takeaway
   guideMeSteps?: GuideMe | null;
   explanation?: string | null;
@@ -56,7 +60,22 @@ export interface DistractorRationale {
 export type QuestionCategory = 'review' | 'current' | 'bridge' | 'stretch';
 
 // Question format type
-export type QuestionFormat = 'multiple_choice' | 'short_answer' | 'numeric';
+export type QuestionFormat = 'multiple_choice' | 'short_answer' | 'numeric' | 'flashcard';
+
+// Flashcard built from a material's V4 chunk analysis (questions.flashcard)
+export type FlashcardKind = 'definition' | 'formula' | 'cloze';
+
+export interface Flashcard {
+  kind: FlashcardKind;
+  // Unique per source material; regenerating skips cards that already exist
+  key: string;
+  // Markdown/LaTeX
+  front: string;
+  back: string;
+  conditions?: string[];
+  // Source excerpt the card was built from
+  evidence?: string | null;
+}
 
 // Enriched question for the player (with topic info joined)
 export interface StudyQuestion {
@@ -76,6 +95,8 @@ export interface StudyQuestion {
   // Multi-part question support
   questionFormat: QuestionFormat;
   subparts: StudySubpart[] | null;
+  // Set when questionFormat is 'flashcard'
+  flashcard?: Flashcard | null;
   // V2 generation metadata
   distractorRationales: DistractorRationale[] | null;
   sourcePages: number[] | null;
@@ -83,6 +104,10 @@ export interface StudyQuestion {
   // Course info
   coursePackId: string | null;
   courseName: string | null;
+  // Sibling family (parent_question_id, else own id); siblings are buried after a review
+  familyId?: string;
+  // Multi-part: subparts whose own SRS card is due (see selectDueSubparts); unset = all parts
+  dueSubpartIds?: string[] | null;
   // Optional fields from daily plan
   category?: QuestionCategory;
   whySelected?: string;
@@ -127,6 +152,7 @@ export function mapDbQuestionToStudy(
     guideMeSteps: dbQuestion.guide_me_steps as unknown as GuideMe | null,
     questionFormat: (dbQuestion.question_format || 'multiple_choice') as QuestionFormat,
     subparts,
+    flashcard: ((dbQuestion as Record<string, unknown>).flashcard as Flashcard | null) ?? null,
     distractorRationales: Array.isArray((dbQuestion as Record<string, unknown>).distractor_rationales)
       ? ((dbQuestion as Record<string, unknown>).distractor_rationales as unknown as DistractorRationale[])
       : null,
@@ -136,6 +162,7 @@ export function mapDbQuestionToStudy(
     fullSolution: (dbQuestion.full_solution as string) || null,
     coursePackId: dbQuestion.course_pack_id || null,
     courseName: null,
+    familyId: dbQuestion.parent_question_id || dbQuestion.id,
   };
 }
 
@@ -152,6 +179,46 @@ export function mapConfidenceToDb(confidence: number | null): ConfidenceLevel |
   }
 }
 
+// Card id of a subpart (srs_state.subpart_id / attempts.subpart_id); falls back to its letter
+export function getSubpartId(subpart: Pick<StudySubpart, 'id'>, index: number): string {
+  return subpart.id || String.fromCharCode(97 + index);
+}
+
+// Each subpart is its own SRS card. Pick the parts to play: those due (or never reviewed)
+// when only some are; null = play the whole question (new, nothing due, or all due).
+// Suspended parts (leeches held out of the queue) are never due.
+export function selectDueSubparts(
+  subparts: Pick<StudySubpart, 'id'>[],
+  cards: Array<{ subpart_id: string | null; due_at: string; suspended_at?: string | null }>,
+  now: Date = new Date()
+): string[] | null {
+  if (cards.length === 0) return null;
+
+  const cardBySubpart = new Map(cards.map(c => [c.subpart_id, c]));
+  const ids = subparts.map(getSubpartId);
+  const due = ids.filter(id => {
+    const card = cardBySubpart.get(id);
+    if (!card) return true;
+    return !card.suspended_at && new Date(card.due_at).getTime() <= now.getTime();
+  });
+
+  return due.length === 0 || due.length === ids.length ? null : due;
+}
+
+// One step of a student's written work, as judged by the photo grader
+export interface WorkStep {
+  step: string;
+  status: 'correct' | 'error' | 'missing';
+  comment: string;
+}
+
+// grade-answer result for a free-response answer; stored as attempts.ai_feedback
+export interface AnswerGrade extends SpecGrade {
+  gradedBy?: 'spec' | 'ai';
+  /** Step-level feedback on a photo of the work */
+  steps?: WorkStep[];
+}
+
 // Result type for subpart completion
 export interface SubpartResult {
   subpartId: string;
@@ -161,19 +228,41 @@ export interface SubpartResult {
   guideUsed: boolean;
   skipped: boolean;
   answerText?: string;
+  /** answer-images storage path of a photo of the work */
+  answerImagePath?: string;
+  grade?: AnswerGrade;
   selectedChoiceId?: string | null;
   pointsEarned?: number;
   maxPoints?: number;
+  /** Set in "buttons" rating mode */
+  rating?: Grade;
 }
 
-// FSRS rating derivation from correctness + confidence
-// Maps existing UX signals to FSRS Rating without any UI change
-export function deriveFsrsRating(isCorrect: boolean, confidence: number | null): Rating {
+// Help used on the question; a correct answer with help is remembered less well
+export interface AnswerAssists {
+  hintUsed?: boolean;
+  guideUsed?: boolean;
+}
+
+// FSRS rating derivation from correctness + confidence ("confidence" rating mode)
+// Maps existing UX signals to FSRS Rating without any UI change.
+// Help caps the rating: a hint drops it one step, Guide Me caps it at Hard.
+export function deriveFsrsRating(
+  isCorrect: boolean,
+  confidence: number | null,
+  assists: AnswerAssists = {}
+): Rating {
   if (!isCorrect) return Rating.Again;
+
+  let rating: Rating;
   switch (confidence) {
-    case 1:  return Rating.Hard;   // guessed
-    case 2:  return Rating.Good;   // unsure
-    case 3:  return Rating.Easy;   // knew_it
-    default: return Rating.Good;   // no confidence tap
+    case 1:  rating = Rating.Hard; break;   // guessed
+    case 2:  rating = Rating.Good; break;   // unsure
+    case 3:  rating = Rating.Easy; break;   // knew_it
+    default: rating = Rating.Good; break;   // no confidence tap
   }
+
+  if (assists.guideUsed) return Rating.Hard;
+  if (assists.hintUsed) return Math.max(Rating.Hard, rating - 1) as Rating;
+  return rating;
 }
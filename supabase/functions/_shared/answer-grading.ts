@@ -0,0 +1,406 @@
+/**
+ * Deterministic grading of typed answers against questions.answer_spec / grading_spec
+ * (see the column comments in 20260125230110 and buildAnswerSpec/buildGradingSpec in
+ * analyze-question): numbers within tolerance, with unit conversion and significant
+ * figures; expressions by equivalence (math-expression.ts); accepted forms for short text.
+ *
+ * gradeWithSpec returns null when the spec can't decide (unparseable answer, unknown
+ * unit, text not in the accepted forms); only then is the LLM grader (grade-answer) asked.
+ *
+ * Runtime-agnostic (no package imports) so the client (src/lib/answer-grading.ts), the
+ * grade-answer edge function and the Vitest tests share the same code.
+ */
+import { checkEquivalence, evaluate, parseExpression, variablesOf } from "./math-expression.ts";
+
+/** questions.answer_spec (and subparts[].answer_spec) */
+export interface AnswerSpec {
+  value?: number | null;
+  unit?: string | null;
+  canonical?: string | null;
+  alt?: string[] | null;
+  accepted?: string[] | null;
+  model_answer?: string | null;
+}
+
+/** questions.grading_spec (and subparts[].grading_spec) */
+export interface GradingSpec {
+  tolerance_abs?: number | null;
+  tolerance_rel?: number | null;
+  sig_figs?: number | null;
+  units_required?: boolean | null;
+  units_allowed?: string[] | null;
+  case_sensitive?: boolean | null;
+  partial_credit?: boolean | null;
+}
+
+export type ResolvedAnswer =
+  | { kind: "numeric"; value: number; unit: string | null }
+  | { kind: "expression"; forms: string[] }
+  | { kind: "text"; forms: string[] };
+
+export interface SpecGrade {
+  isCorrect: boolean;
+  score: number;
+  feedback: string;
+}
+
+/** Relative tolerance when the question has no grading spec */
+export const DEFAULT_TOLERANCE_REL = 0.01;
+
+// ============================================
+// Numbers
+// ============================================
+
+export interface ParsedNumber {
+  value: number;
+  /** Unit text after the number, null if none */
+  unit: string | null;
+  /** Significant figures written; min < max when trailing zeros are ambiguous ("1200"). Null for fractions */
+  sigFigs: { min: number; max: number } | null;
+}
+
+function stripMath(text: string): string {
+  return text
+    .trim()
+    .replace(/^\$+|\$+$/g, "")
+    .replace(/\\(?:text|mathrm|rm|operatorname)\s*\{([^}]*)\}/g, "$1")
+    .replace(/\\left|\\right/g, "")
+    .replace(/\\[,;!]|\\ /g, " ")
+    .replace(/\\mu\s*/g, "µ")
+    .replace(/\\Omega/g, "Ω")
+    .replace(/\\%/g, "%")
+    .trim();
+}
+
+/** Drop a leading "v =" / "x_1 =" so "v = 12 m/s" reads as the number */
+function stripAssignment(text: string): string {
+  return text.replace(/^[A-Za-z][\w{}\\]*\s*(?:=|≈|\\approx)\s*/, "");
+}
+
+function countSigFigs(mantissa: string): { min: number; max: number } {
+  const digits = mantissa.replace(/^[+-]/, "").replace(/,/g, "");
+  if (digits.includes(".")) {
+    const significant = digits.replace(".", "").replace(/^0+/, "");
+    const n = Math.max(1, significant.length);
+    return { min: n, max: n };
+  }
+  const significant = digits.replace(/^0+/, "");
+  if (significant.length === 0) return { min: 1, max: 1 };
+  const withoutTrailing = significant.replace(/0+$/, "");
+  return { min: Math.max(1, withoutTrailing.length), max: significant.length };
+}
+
+const NUMBER_PATTERN =
+  /^([+-]?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d*)?|[+-]?\.\d+)\s*(?:(?:\*|x|×|\\times|\\cdot|·)\s*10\s*\^\s*\{?\s*([+-]?\d+)\s*\}?|[eE]([+-]?\d+))?(?![\d.])\s*(.*)$/;
+const FRACTION_PATTERN = /^(?:\\[dt]?frac\s*\{\s*([+-]?\d+)\s*\}\s*\{\s*(\d+)\s*\}|([+-]?\d+)\s*\/\s*(\d+)(?![\d.]))\s*(.*)$/;
+
+/** A number with an optional unit ("1.2e3 m/s", "3.0 × 10^{-4} kg", "1/2"); null if it isn't one */
+export function parseNumericAnswer(text: string): ParsedNumber | null {
+  const cleaned = stripAssignment(stripMath(text)).replace(/−/g, "-");
+
+  const fraction = cleaned.match(FRACTION_PATTERN);
+  if (fraction) {
+    const num = Number(fraction[1] ?? fraction[3]);
+    const den = Number(fraction[2] ?? fraction[4]);
+    if (den === 0) return null;
+    return { value: num / den, unit: fraction[5].trim() || null, sigFigs: null };
+  }
+
+  const match = cleaned.match(NUMBER_PATTERN);
+  if (!match) return null;
+  const [, mantissa, timesTenExp, eExp, rest] = match;
+  // Anything after the number must look like a unit ("5 + 3i" and "1,5" are not numbers)
+  if (rest && !/^[A-Za-zµμΩ°%]/.test(rest)) return null;
+  const exponent = Number(timesTenExp ?? eExp ?? "0");
+  const value = Number(mantissa.replace(/,/g, "")) * Math.pow(10, exponent);
+  if (!Number.isFinite(value)) return null;
+  return { value, unit: rest.trim() || null, sigFigs: countSigFigs(mantissa) };
+}
+
+// ============================================
+// Units
+// ============================================
+
+/** Exponents of the SI base dimensions */
+type Dimension = Record<string, number>;
+
+interface UnitDef {
+  /** Multiplier to SI base units */
+  factor: number;
+  dim: Dimension;
+  /** Takes SI prefixes (k, m, µ, ...) */
+  prefixable?: boolean;
+}
+
+const ENERGY = { M: 1, L: 2, T: -2 };
+const PRESSURE = { M: 1, L: -1, T: -2 };
+
+const UNITS: Record<string, UnitDef> = {
+  m: { factor: 1, dim: { L: 1 }, prefixable: true },
+  g: { factor: 1e-3, dim: { M: 1 }, prefixable: true },
+  s: { factor: 1, dim: { T: 1 }, prefixable: true },
+  A: { factor: 1, dim: { I: 1 }, prefixable: true },
+  K: { factor: 1, dim: { Θ: 1 }, prefixable: true },
+  mol: { factor: 1, dim: { N: 1 }, prefixable: true },
+  N: { factor: 1, dim: { M: 1, L: 1, T: -2 }, prefixable: true },
+  J: { factor: 1, dim: ENERGY, prefixable: true },
+  eV: { factor: 1.602176634e-19, dim: ENERGY, prefixable: true },
+  cal: { factor: 4.184, dim: ENERGY, prefixable: true },
+  W: { factor: 1, dim: { M: 1, L: 2, T: -3 }, prefixable: true },
+  Pa: { factor: 1, dim: PRESSURE, prefixable: true },
+  atm: { factor: 101325, dim: PRESSURE },
+  bar: { factor: 1e5, dim: PRESSURE },
+  Hz: { factor: 1, dim: { T: -1 }, prefixable: true },
+  C: { factor: 1, dim: { I: 1, T: 1 }, prefixable: true },
+  V: { factor: 1, dim: { M: 1, L: 2, T: -3, I: -1 }, prefixable: true },
+  "Ω": { factor: 1, dim: { M: 1, L: 2, T: -3, I: -2 }, prefixable: true },
+  L: { factor: 1e-3, dim: { L: 3 }, prefixable: true },
+  min: { factor: 60, dim: { T: 1 } },
+  h: { factor: 3600, dim: { T: 1 } },
+  in: { factor: 0.0254, dim: { L: 1 } },
+  ft: { factor: 0.3048, dim: { L: 1 } },
+  mi: { factor: 1609.344, dim: { L: 1 } },
+  lb: { factor: 0.45359237, dim: { M: 1 } },
+  rad: { factor: 1, dim: {} },
+  deg: { factor: Math.PI / 180, dim: {} },
+  "%": { factor: 0.01, dim: {} },
+};
+
+const PREFIXES: Record<string, number> = {
+  G: 1e9, M: 1e6, k: 1e3, c: 1e-2, m: 1e-3, "µ": 1e-6, "μ": 1e-6, u: 1e-6, n: 1e-9, p: 1e-12,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  meter: "m", meters: "m", metre: "m", metres: "m",
+  kilometer: "km", kilometers: "km", centimeter: "cm", centimeters: "cm", millimeter: "mm", millimeters: "mm",
+  gram: "g", grams: "g", kilogram: "kg", kilograms: "kg",
+  second: "s", seconds: "s", sec: "s", secs: "s",
+  minute: "min", minutes: "min", mins: "min", hour: "h", hours: "h", hr: "h", hrs: "h",
+  newton: "N", newtons: "N", joule: "J", joules: "J", watt: "W", watts: "W",
+  pascal: "Pa", pascals: "Pa", hertz: "Hz", coulomb: "C", coulombs: "C", volt: "V", volts: "V",
+  ampere: "A", amperes: "A", amp: "A", amps: "A", ohm: "Ω", ohms: "Ω",
+  liter: "L", liters: "L", litre: "L", litres: "L", l: "L", ml: "mL",
+  degree: "deg", degrees: "deg", "°": "deg", radian: "rad", radians: "rad", percent: "%",
+  inch: "in", inches: "in", foot: "ft", feet: "ft", mile: "mi", miles: "mi", lbs: "lb",
+};
+
+function lookupSymbol(symbol: string): UnitDef | null {
+  const aliased = UNIT_ALIASES[symbol] ?? UNIT_ALIASES[symbol.toLowerCase()] ?? symbol;
+  if (UNITS[aliased]) return UNITS[aliased];
+  for (const [prefix, multiplier] of Object.entries(PREFIXES)) {
+    if (!aliased.startsWith(prefix)) continue;
+    const base = UNITS[aliased.slice(prefix.length)];
+    if (base?.prefixable) return { factor: base.factor * multiplier, dim: base.dim };
+  }
+  return null;
+}
+
+/** A unit expression ("km/h", "kg m^2 s^-2", "N·m", "meters per second") in SI base units; null if unknown */
+export function parseUnit(text: string): UnitDef | null {
+  const normalized = stripMath(text)
+    .replace(/\s+per\s+/gi, "/")
+    .replace(/[·*⋅]|\\cdot/g, " ")
+    .replace(/°(?![CF])/g, "° ")
+    .trim();
+  if (!normalized) return null;
+
+  let factor = 1;
+  const dim: Dimension = {};
+  const parts = normalized.split("/");
+  for (const [i, part] of parts.entries()) {
+    const sign = i === 0 ? 1 : -1;
+    const tokens = part.trim().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) return null;
+    for (const token of tokens) {
+      const match = token.match(/^([A-Za-zµμΩ°%]+)(?:\^?\{?([+-]?\d+)\}?)?$/);
+      if (!match) return null;
+      const unit = lookupSymbol(match[1]);
+      if (!unit) return null;
+      const power = sign * Number(match[2] ?? 1);
+      factor *= Math.pow(unit.factor, power);
+      for (const [d, e] of Object.entries(unit.dim)) dim[d] = (dim[d] ?? 0) + e * power;
+    }
+  }
+  return { factor, dim };
+}
+
+function sameDimension(a: Dimension, b: Dimension): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((k) => (a[k] ?? 0) === (b[k] ?? 0));
+}
+
+function sameUnitText(a: string, b: string): boolean {
+  return stripMath(a).replace(/\s+/g, "") === stripMath(b).replace(/\s+/g, "");
+}
+
+// ============================================
+// Spec resolution + grading
+// ============================================
+
+/**
+ * What the answer is checked against: the typed answer_spec, or, when it has no value
+ * (specs extracted from exams leave values null), a correct answer that is a plain number
+ * with an optional unit. Null = nothing deterministic to check against.
+ */
+export function resolveAnswerSpec(
+  spec: AnswerSpec | null | undefined,
+  correctAnswer?: string | null
+): ResolvedAnswer | null {
+  if (spec && typeof spec.value === "number" && Number.isFinite(spec.value)) {
+    return { kind: "numeric", value: spec.value, unit: spec.unit || null };
+  }
+  if (spec?.canonical) {
+    return { kind: "expression", forms: [spec.canonical, ...(spec.alt ?? [])] };
+  }
+  if (spec?.accepted && spec.accepted.length > 0) {
+    return { kind: "text", forms: spec.accepted };
+  }
+
+  const answer = correctAnswer ?? spec?.model_answer;
+  if (!answer) return null;
+  const parsed = parseNumericAnswer(answer);
+  if (parsed && (!parsed.unit || parseUnit(parsed.unit))) {
+    return { kind: "numeric", value: parsed.value, unit: parsed.unit };
+  }
+  // A math answer ("2x\cos(x^2)" is not 2 of some unit); a bare word like "No" parses as variables but isn't one
+  if (/[\d+\-*/^\\(]/.test(answer) && parseExpression(answer)) {
+    return { kind: "expression", forms: [answer] };
+  }
+  return null;
+}
+
+/** A typed constant ("\frac{\sqrt{2}}{2}", "3pi/4") read as a number, for numeric answers */
+function parseConstantExpression(text: string): ParsedNumber | null {
+  const tree = parseExpression(text);
+  if (!tree || variablesOf(tree).length > 0) return null;
+  const value = evaluate(tree, {});
+  return Number.isFinite(value) ? { value, unit: null, sigFigs: null } : null;
+}
+
+function formatValue(value: number, unit: string | null): string {
+  const shown = Math.abs(value) >= 1e-3 && Math.abs(value) < 1e6
+    ? String(Number(value.toPrecision(6)))
+    : value.toExponential(3);
+  return unit ? `${shown} ${unit}` : shown;
+}
+
+function allowedError(expected: number, grading: GradingSpec | null | undefined): number {
+  const abs = grading?.tolerance_abs ?? null;
+  const rel = grading?.tolerance_rel ?? (abs === null ? DEFAULT_TOLERANCE_REL : null);
+  const relError = rel !== null ? rel * Math.abs(expected) : 0;
+  // Specs carry a default absolute tolerance regardless of scale; one as large as the
+  // answer itself would accept anything, so it only counts for small tolerances
+  const absError = abs !== null && (expected === 0 || abs < Math.abs(expected)) ? abs : 0;
+  return Math.max(relError, absError, Number.EPSILON * Math.abs(expected));
+}
+
+function gradeNumeric(
+  answer: string,
+  expected: { value: number; unit: string | null },
+  grading: GradingSpec | null | undefined,
+  maxPoints: number
+): SpecGrade | null {
+  const parsed = parseNumericAnswer(answer) ?? parseConstantExpression(answer);
+  if (!parsed) return null;
+
+  // Bring the student's number into the expected unit
+  let value = parsed.value;
+  if (parsed.unit && expected.unit && !sameUnitText(parsed.unit, expected.unit)) {
+    const allowed = grading?.units_allowed?.some((u) => sameUnitText(u, parsed.unit!));
+    if (!allowed) {
+      const from = parseUnit(parsed.unit);
+      const to = parseUnit(expected.unit);
+      if (!from || !to) return null;
+      if (!sameDimension(from.dim, to.dim)) {
+        return { isCorrect: false, score: 0, feedback: `Check your units: the answer is in ${expected.unit}.` };
+      }
+      value = (parsed.value * from.factor) / to.factor;
+    }
+  } else if (parsed.unit && !expected.unit && !parseUnit(parsed.unit)) {
+    // "2x" is not the number 2
+    return null;
+  } else if (!parsed.unit && expected.unit && grading?.units_required) {
+    return {
+      isCorrect: false,
+      score: grading.partial_credit ? maxPoints / 2 : 0,
+      feedback: `Include units (${expected.unit}).`,
+    };
+  }
+
+  if (Math.abs(value - expected.value) > allowedError(expected.value, grading)) {
+    return { isCorrect: false, score: 0, feedback: `Not quite. Expected about ${formatValue(expected.value, expected.unit)}.` };
+  }
+
+  const sigFigs = grading?.sig_figs;
+  if (sigFigs && parsed.sigFigs && (sigFigs < parsed.sigFigs.min || sigFigs > parsed.sigFigs.max)) {
+    return {
+      isCorrect: false,
+      score: grading.partial_credit === false ? 0 : maxPoints / 2,
+      feedback: `Right value, but give it to ${sigFigs} significant figure${sigFigs === 1 ? "" : "s"}.`,
+    };
+  }
+
+  return { isCorrect: true, score: maxPoints, feedback: "Correct." };
+}
+
+function normalizeForm(text: string, kind: "expression" | "text", caseSensitive: boolean): string {
+  let out = stripMath(text).replace(/\\cdot|×|·/g, "*").replace(/\*\*/g, "^");
+  out = kind === "expression"
+    ? out.replace(/\s+/g, "")
+    : out.replace(/\s+/g, " ").replace(/[.!]+$/, "").trim();
+  return caseSensitive || kind === "expression" ? out : out.toLowerCase();
+}
+
+/**
+ * Grade `answer` deterministically. Returns null when the spec can't decide, so the
+ * caller falls back to the LLM grader.
+ */
+export function gradeWithSpec(
+  answer: string,
+  expected: ResolvedAnswer | null,
+  grading: GradingSpec | null | undefined,
+  maxPoints = 1
+): SpecGrade | null {
+  if (!expected) return null;
+  if (!answer.trim()) return { isCorrect: false, score: 0, feedback: "No answer given." };
+
+  if (expected.kind === "numeric") return gradeNumeric(answer, expected, grading, maxPoints);
+
+  const caseSensitive = !!grading?.case_sensitive;
+  const given = normalizeForm(answer, expected.kind, caseSensitive);
+  const matches = expected.forms.some((form) => normalizeForm(form, expected.kind, caseSensitive) === given);
+  if (matches) return { isCorrect: true, score: maxPoints, feedback: "Correct." };
+  // A text answer not on the list may still be a synonym
+  return expected.kind === "expression" ? gradeExpression(answer, expected.forms, grading, maxPoints) : null;
+}
+
+function gradeExpression(
+  answer: string,
+  forms: string[],
+  grading: GradingSpec | null | undefined,
+  maxPoints: number
+): SpecGrade | null {
+  const trees = forms.map(parseExpression);
+  if (!trees[0]) return null;
+
+  // A constant answer ("\frac{\pi}{4}") is graded as a number, so 0.785 within tolerance counts
+  if (variablesOf(trees[0]).length === 0) {
+    const value = evaluate(trees[0], {});
+    return Number.isFinite(value) ? gradeNumeric(answer, { value, unit: null }, grading, maxPoints) : null;
+  }
+
+  const given = parseExpression(answer);
+  if (!given) return null;
+
+  let firstMismatch: string | null = null;
+  for (const tree of trees) {
+    if (!tree) continue;
+    const result = checkEquivalence(given, tree);
+    if (!result) return null;
+    if (result.equivalent) {
+      return { isCorrect: true, score: maxPoints, feedback: "Correct: equivalent to the expected answer." };
+    }
+    firstMismatch ??= result.reason;
+  }
+  return { isCorrect: false, score: 0, feedback: `Not equivalent. ${firstMismatch}` };
+}
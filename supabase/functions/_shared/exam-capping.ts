@@ -0,0 +1,63 @@
+/**
+ * Exam-aware interval capping.
+ *
+ * FSRS knows nothing about the calendar: it may schedule a card 40 days out
+ * while the midterm covering it is in 10 days. After scheduling, if the new
+ * due date is on or after the next exam covering the question, pull it into
+ * the final days before that exam so the student sees the card once more
+ * while it still counts. The review after the exam schedules normally.
+ *
+ * Mirrors cap_due_dates_for_exams() in SQL. Runtime-agnostic (type imports
+ * only) so submit-review, replay-reviews and the Vitest suite share it.
+ */
+import type { ReviewCardRow } from "./review-submission.ts";
+
+/** A review in the last N days before an exam counts as the pre-exam review */
+export const EXAM_REVIEW_WINDOW_DAYS = 3;
+/** Capped cards are due this many days before the exam */
+export const EXAM_REVIEW_LEAD_DAYS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Exam day as a timestamp (event_date is a DATE; 00:00 UTC) */
+function examStart(examDate: string): number {
+  return new Date(`${examDate.slice(0, 10)}T00:00:00Z`).getTime();
+}
+
+/** Earliest exam starting after `after`, or null */
+export function nextExamDate(examDates: string[], after: Date): Date | null {
+  let next: number | null = null;
+  for (const date of examDates) {
+    const start = examStart(date);
+    if (start > after.getTime() && (next === null || start < next)) next = start;
+  }
+  return next === null ? null : new Date(next);
+}
+
+/**
+ * Cap a freshly scheduled card so a review lands before the next exam
+ * covering it. `examDates` are the question's exam dates (get_question_exam_dates).
+ * Exams that started before `now` are ignored: capping to them would make the
+ * card overdue (replay-reviews passes historical review times).
+ */
+export function capDueForExam(
+  card: ReviewCardRow,
+  reviewedAt: Date,
+  examDates: string[],
+  now: Date = new Date(),
+): ReviewCardRow {
+  const exam = nextExamDate(examDates, reviewedAt > now ? reviewedAt : now);
+  if (!exam) return card;
+
+  const examMs = exam.getTime();
+  // Due before the exam already, or this review was the pre-exam review
+  if (new Date(card.due_at).getTime() < examMs) return card;
+  if (reviewedAt.getTime() >= examMs - EXAM_REVIEW_WINDOW_DAYS * DAY_MS) return card;
+
+  const due = new Date(examMs - EXAM_REVIEW_LEAD_DAYS * DAY_MS);
+  return {
+    ...card,
+    due_at: due.toISOString(),
+    scheduled_days: Math.max(0, Math.round((due.getTime() - reviewedAt.getTime()) / DAY_MS)),
+  };
+}
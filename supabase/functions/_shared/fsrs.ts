@@ -0,0 +1,123 @@
+/**
+ * Server-side FSRS scheduling for edge functions.
+ * Must stay in sync with src/lib/fsrs.ts (same ts-fsrs version and generatorParameters).
+ */
+import {
+  FSRS,
+  createEmptyCard,
+  generatorParameters,
+  type Card,
+  type State,
+} from "npm:ts-fsrs@5.2.3";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ReviewCardRow } from "./review-submission.ts";
+
+export const DEFAULT_REQUEST_RETENTION = 0.9;
+export const DEFAULT_MAXIMUM_INTERVAL = 365;
+
+export interface SchedulerSettings {
+  weights: number[] | null;
+  requestRetention: number;
+  maximumInterval: number;
+}
+
+/** `enableFuzz: false` when the caller picks the day itself (see load-balancing.ts) */
+export function createScheduler(settings: SchedulerSettings, enableFuzz = true): FSRS {
+  return new FSRS({
+    ...generatorParameters({
+      enable_fuzz: enableFuzz,
+      maximum_interval: settings.maximumInterval,
+      request_retention: settings.requestRetention,
+    }),
+    ...(settings.weights && settings.weights.length > 0 ? { w: settings.weights } : {}),
+  });
+}
+
+/** Student's fitted weights + retention settings for a course (see get_user_fsrs_weights / get_fsrs_settings) */
+export async function loadSchedulerSettings(
+  supabase: SupabaseClient,
+  userId: string,
+  courseId: string | null,
+): Promise<SchedulerSettings> {
+  const [weightsResult, settingsResult] = await Promise.all([
+    supabase.rpc("get_user_fsrs_weights", { p_user_id: userId, p_course_id: courseId }),
+    supabase.rpc("get_fsrs_settings", { p_user_id: userId, p_course_id: courseId }),
+  ]);
+  if (weightsResult.error) throw weightsResult.error;
+  if (settingsResult.error) throw settingsResult.error;
+
+  const settings = (settingsResult.data as Array<{ desired_retention: number; maximum_interval: number }>)?.[0];
+  return {
+    weights: (weightsResult.data as number[] | null) ?? null,
+    requestRetention: settings?.desired_retention ?? DEFAULT_REQUEST_RETENTION,
+    maximumInterval: settings?.maximum_interval ?? DEFAULT_MAXIMUM_INTERVAL,
+  };
+}
+
+/** Dates of the exams covering each question (see get_question_exam_dates), for capDueForExam */
+export async function loadExamDates(
+  supabase: SupabaseClient,
+  questionIds: string[],
+): Promise<Map<string, string[]>> {
+  const { data, error } = await supabase.rpc("get_question_exam_dates", { p_question_ids: questionIds });
+  if (error) throw error;
+
+  const byQuestion = new Map<string, string[]>();
+  for (const row of (data ?? []) as Array<{ question_id: string; exam_date: string }>) {
+    const dates = byQuestion.get(row.question_id);
+    if (dates) dates.push(row.exam_date);
+    else byQuestion.set(row.question_id, [row.exam_date]);
+  }
+  return byQuestion;
+}
+
+/** Cards due per day (YYYY-MM-DD) across all the student's courses, for load balancing */
+export async function loadDueCounts(
+  supabase: SupabaseClient,
+  userId: string,
+  daysAhead: number,
+): Promise<Map<string, number>> {
+  const { data, error } = await supabase.rpc("get_review_forecast", {
+    p_user_id: userId,
+    p_course_ids: null,
+    p_days_ahead: daysAhead,
+  });
+  if (error) throw error;
+
+  const counts = new Map<string, number>();
+  for (const row of (data ?? []) as Array<{ due_date: string; review_count: number }>) {
+    counts.set(row.due_date, (counts.get(row.due_date) ?? 0) + Number(row.review_count));
+  }
+  return counts;
+}
+
+export function rowToCard(row: ReviewCardRow | null, now: Date): Card {
+  if (!row) return createEmptyCard(now);
+  return {
+    due: new Date(row.due_at),
+    last_review: row.last_reviewed_at ? new Date(row.last_reviewed_at) : undefined,
+    reps: row.reps,
+    stability: row.stability,
+    difficulty: row.difficulty,
+    elapsed_days: row.elapsed_days,
+    scheduled_days: row.scheduled_days,
+    lapses: row.lapses,
+    learning_steps: row.learning_steps,
+    state: row.state as State,
+  };
+}
+
+export function cardToRow(card: Card): ReviewCardRow {
+  return {
+    due_at: card.due.toISOString(),
+    last_reviewed_at: card.last_review ? card.last_review.toISOString() : null,
+    reps: card.reps,
+    stability: card.stability,
+    difficulty: card.difficulty,
+    elapsed_days: card.elapsed_days,
+    scheduled_days: card.scheduled_days,
+    lapses: card.lapses,
+    learning_steps: card.learning_steps,
+    state: card.state as number,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Review load balancing.
+ *
+ * ts-fsrs fuzz picks a random interval within a range around the optimal one.
+ * Instead, pick the day in that range with the fewest reviews already due, so
+ * cards from the same session (e.g. a diagnostic) spread out rather than all
+ * coming due on one day. Ties go to the day closest to the optimal interval.
+ *
+ * Runtime-agnostic (type imports only); the caller supplies the fuzz range
+ * (ts-fsrs get_fuzz_range) and the student's daily due counts (get_review_forecast).
+ */
+import type { ReviewCardRow } from "./review-submission.ts";
+
+/** ts-fsrs get_fuzz_range() result */
+export interface IntervalRange {
+  min_ivl: number;
+  max_ivl: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REVIEW_STATE = 2;
+/** ts-fsrs only fuzzes intervals of 2.5 days or more */
+const MIN_BALANCED_INTERVAL = 3;
+
+function dateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Interval (days) in `range` whose due date has the lowest load.
+ * `dueCounts` maps YYYY-MM-DD → cards already due that day.
+ */
+export function pickBalancedInterval(
+  interval: number,
+  range: IntervalRange,
+  reviewedAt: Date,
+  dueCounts: Map<string, number>,
+): number {
+  let best = interval;
+  let bestLoad = Infinity;
+
+  for (let days = range.min_ivl; days <= range.max_ivl; days++) {
+    const load = dueCounts.get(dateKey(new Date(reviewedAt.getTime() + days * DAY_MS))) ?? 0;
+    if (load < bestLoad || (load === bestLoad && Math.abs(days - interval) < Math.abs(best - interval))) {
+      best = days;
+      bestLoad = load;
+    }
+  }
+  return best;
+}
+
+/**
+ * Move a freshly scheduled Review card to the least-loaded day in its fuzz
+ * range. Learning/relearning cards and short intervals (which ts-fsrs would not
+ * fuzz either) are returned unchanged.
+ */
+export function balanceDueDate(
+  card: ReviewCardRow,
+  reviewedAt: Date,
+  range: IntervalRange,
+  dueCounts: Map<string, number>,
+): ReviewCardRow {
+  if (card.state !== REVIEW_STATE || card.scheduled_days < MIN_BALANCED_INTERVAL) return card;
+  if (range.max_ivl <= range.min_ivl) return card;
+
+  const days = pickBalancedInterval(card.scheduled_days, range, reviewedAt, dueCounts);
+  if (days === card.scheduled_days) return card;
+
+  return {
+    ...card,
+    due_at: new Date(reviewedAt.getTime() + days * DAY_MS).toISOString(),
+    scheduled_days: days,
+  };
+}
@@ -0,0 +1,590 @@
+/**
+ * Parsing and equivalence checking for typed math expressions ("2x*cos(x^2)",
+ * "\frac{1}{2}\sin^2 x"), used by answer-grading for expression answers.
+ *
+ * Equivalence is tested by evaluating both sides at seeded random points rather than
+ * by symbolic simplification: it is deterministic (client and edge function agree), handles
+ * any rearrangement, and a mismatch comes with a concrete point to explain the verdict.
+ *
+ * Runtime-agnostic (no imports) so the client, the grade-answer edge function and the
+ * Vitest tests share the same code.
+ */
+
+export type MathNode =
+  | { type: "num"; value: number }
+  | { type: "var"; name: string }
+  | { type: "const"; name: "pi" | "e" }
+  | { type: "neg"; arg: MathNode }
+  | { type: "bin"; op: "+" | "-" | "*" | "/" | "^"; left: MathNode; right: MathNode }
+  /** log carries its base as a second argument when written (log_2 x); root carries its index */
+  | { type: "fn"; name: string; args: MathNode[] };
+
+export interface EquivalenceResult {
+  equivalent: boolean;
+  /** Why not, in words a student can act on ("At x = 1.3, ...") */
+  reason: string | null;
+}
+
+// ============================================
+// Tokenizer
+// ============================================
+
+type Token =
+  | { kind: "num"; value: number }
+  | { kind: "var"; name: string }
+  | { kind: "const"; name: "pi" | "e" }
+  | { kind: "fn"; name: string; base?: number }
+  | { kind: "frac" }
+  | { kind: "sqrt" }
+  | { kind: "op"; op: string };
+
+const FUNCTIONS = [
+  "arcsin", "arccos", "arctan", "sinh", "cosh", "tanh",
+  "sin", "cos", "tan", "sec", "csc", "cot", "ln", "log", "exp", "sqrt", "abs",
+];
+
+const GREEK = ["alpha", "beta", "gamma", "delta", "theta", "lambda", "mu", "sigma", "tau", "phi", "omega"];
+
+const INVERSE_TRIG: Record<string, string> = { sin: "arcsin", cos: "arccos", tan: "arctan" };
+
+function normalizeInput(text: string): string {
+  let out = text
+    .trim()
+    .replace(/^\$+|\$+$/g, "")
+    .replace(/\\(?:text|mathrm|rm|operatorname)\s*\{([^}]*)\}/g, "$1")
+    .replace(/\\left|\\right/g, "")
+    .replace(/\\[,;!]|\\ /g, " ")
+    .replace(/\\[dt]frac/g, "\\frac")
+    .replace(/\\cdot|\\times|[×·⋅]/g, "*")
+    .replace(/\*\*/g, "^")
+    .replace(/[−–]/g, "-")
+    .replace(/π/g, "\\pi")
+    .replace(/θ/g, "\\theta")
+    .replace(/√/g, "\\sqrt");
+  // "f'(x) = 2x" / "y = 2x": grade the right-hand side
+  const sides = out.split("=");
+  if (sides.length === 2) out = sides[1];
+  return out.trim();
+}
+
+function tokenize(input: string): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // x_1, x_{12}, \theta_0
+  const readSubscript = (): string => {
+    if (input[i] !== "_") return "";
+    const braced = input.slice(i + 1).match(/^\{([A-Za-z0-9]+)\}/);
+    if (braced) {
+      i += 1 + braced[0].length;
+      return `_${braced[1]}`;
+    }
+    if (/[A-Za-z0-9]/.test(input[i + 1] ?? "")) {
+      i += 2;
+      return `_${input[i - 1]}`;
+    }
+    return "";
+  };
+
+  const pushFunction = (name: string) => {
+    if (name === "sqrt") {
+      tokens.push({ kind: "sqrt" });
+      return;
+    }
+    if (name === "log" && input[i] === "_") {
+      const base = input.slice(i + 1).match(/^\{?(\d+)\}?/);
+      if (base) {
+        i += 1 + base[0].length;
+        tokens.push({ kind: "fn", name, base: Number(base[1]) });
+        return;
+      }
+    }
+    tokens.push({ kind: "fn", name });
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = input.slice(i).match(/^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+(?![A-Za-z]))?/);
+    if (number) {
+      tokens.push({ kind: "num", value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+
+    if (ch === "\\") {
+      const command = input.slice(i + 1).match(/^[A-Za-z]+/)?.[0];
+      if (!command) return null;
+      i += 1 + command.length;
+      if (command === "frac") tokens.push({ kind: "frac" });
+      else if (command === "pi") tokens.push({ kind: "const", name: "pi" });
+      else if (FUNCTIONS.includes(command)) pushFunction(command);
+      else if (GREEK.includes(command)) tokens.push({ kind: "var", name: command + readSubscript() });
+      else return null;
+      continue;
+    }
+
+    if (/[A-Za-z]/.test(ch)) {
+      // Split a run of letters into function names and one-letter variables ("xsinx")
+      const run = input.slice(i).match(/^[A-Za-z]+/)![0];
+      const runEnd = i + run.length;
+      let sawName = false;
+      while (i < runEnd) {
+        const rest = input.slice(i, runEnd);
+        const name = [...FUNCTIONS, ...GREEK, "pi"].find((n) => rest.startsWith(n));
+        if (name) {
+          sawName = true;
+          i += name.length;
+          if (name === "pi") tokens.push({ kind: "const", name: "pi" });
+          else if (GREEK.includes(name)) tokens.push({ kind: "var", name: name + readSubscript() });
+          else pushFunction(name);
+          continue;
+        }
+        i++;
+        if (rest[0] === "e") tokens.push({ kind: "const", name: "e" });
+        else tokens.push({ kind: "var", name: rest[0] + (i === runEnd ? readSubscript() : "") });
+      }
+      // A longer run with no function in it is a word, not a product of variables
+      if (run.length >= 3 && !sawName) return null;
+      continue;
+    }
+
+    if ("+-*/^(){}[]|".includes(ch)) {
+      tokens.push({ kind: "op", op: ch });
+      i++;
+      continue;
+    }
+
+    return null;
+  }
+
+  return tokens;
+}
+
+// ============================================
+// Parser
+// ============================================
+
+const CLOSERS: Record<string, string> = { "(": ")", "{": "}", "[": "]" };
+
+class ParseError extends Error {}
+
+function parseTokens(tokens: Token[]): MathNode {
+  let pos = 0;
+  let absDepth = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+  const isOp = (op: string, t = peek()) => t?.kind === "op" && t.op === op;
+  const expect = (op: string) => {
+    if (!isOp(op)) throw new ParseError(`expected ${op}`);
+    pos++;
+  };
+
+  const startsFactor = (t: Token | undefined): boolean => {
+    if (!t) return false;
+    if (t.kind !== "op") return true;
+    return t.op in CLOSERS || (t.op === "|" && absDepth === 0);
+  };
+
+  const parseGroup = (): MathNode => {
+    const t = peek();
+    if (t?.kind === "op" && t.op in CLOSERS) {
+      pos++;
+      const inner = parseExpr();
+      expect(CLOSERS[t.op]);
+      return inner;
+    }
+    // \frac12
+    return parsePrimary();
+  };
+
+  // "\sin 2x" applies to 2x; "\sin x \cos x" stops at the next function
+  const parseFunctionArg = (): MathNode => {
+    const t = peek();
+    if (t?.kind === "op" && t.op in CLOSERS) return parseGroup();
+    let arg = parsePower();
+    while (startsFactor(peek()) && !["fn", "sqrt", "frac"].includes(peek()!.kind) && !isOp("(")) {
+      arg = { type: "bin", op: "*", left: arg, right: parsePower() };
+    }
+    return arg;
+  };
+
+  const parsePrimary = (): MathNode => {
+    const t = peek();
+    if (!t) throw new ParseError("unexpected end");
+    pos++;
+
+    switch (t.kind) {
+      case "num":
+        return { type: "num", value: t.value };
+      case "var":
+        return { type: "var", name: t.name };
+      case "const":
+        return { type: "const", name: t.name };
+      case "frac": {
+        const num = parseGroup();
+        const den = parseGroup();
+        return { type: "bin", op: "/", left: num, right: den };
+      }
+      case "sqrt": {
+        let index: MathNode | null = null;
+        if (isOp("[")) {
+          pos++;
+          index = parseExpr();
+          expect("]");
+        }
+        const arg = parseFunctionArg();
+        return index ? { type: "fn", name: "root", args: [arg, index] } : { type: "fn", name: "sqrt", args: [arg] };
+      }
+      case "fn": {
+        // \sin^2 x = (\sin x)^2, \sin^{-1} x = \arcsin x
+        let power: MathNode | null = null;
+        if (isOp("^")) {
+          pos++;
+          power = parseExponent();
+        }
+        let name = t.name;
+        if (power?.type === "neg" && power.arg.type === "num" && power.arg.value === 1 && INVERSE_TRIG[name]) {
+          name = INVERSE_TRIG[name];
+          power = null;
+        }
+        const arg = parseFunctionArg();
+        const args = t.base ? [arg, { type: "num" as const, value: t.base }] : [arg];
+        const call: MathNode = { type: "fn", name, args };
+        return power ? { type: "bin", op: "^", left: call, right: power } : call;
+      }
+      case "op": {
+        if (t.op in CLOSERS) {
+          const inner = parseExpr();
+          expect(CLOSERS[t.op]);
+          return inner;
+        }
+        if (t.op === "|" && absDepth === 0) {
+          absDepth++;
+          const inner = parseExpr();
+          absDepth--;
+          expect("|");
+          return { type: "fn", name: "abs", args: [inner] };
+        }
+        throw new ParseError(`unexpected ${t.op}`);
+      }
+    }
+  };
+
+  const parseExponent = (): MathNode => {
+    if (isOp("-")) {
+      pos++;
+      return { type: "neg", arg: parseExponent() };
+    }
+    if (isOp("+")) pos++;
+    return parsePower();
+  };
+
+  const parsePower = (): MathNode => {
+    const base = parsePrimary();
+    if (!isOp("^")) return base;
+    pos++;
+    return { type: "bin", op: "^", left: base, right: parseExponent() };
+  };
+
+  const parseUnary = (): MathNode => {
+    if (isOp("-")) {
+      pos++;
+      return { type: "neg", arg: parseUnary() };
+    }
+    if (isOp("+")) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parseTerm = (): MathNode => {
+    let left = parseUnary();
+    for (;;) {
+      if (isOp("*") || isOp("/")) {
+        const op = (peek() as { op: "*" | "/" }).op;
+        pos++;
+        left = { type: "bin", op, left, right: parseUnary() };
+      } else if (startsFactor(peek())) {
+        left = { type: "bin", op: "*", left, right: parsePower() };
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseExpr = (): MathNode => {
+    let left = parseTerm();
+    while (isOp("+") || isOp("-")) {
+      const op = (peek() as { op: "+" | "-" }).op;
+      pos++;
+      left = { type: "bin", op, left, right: parseTerm() };
+    }
+    return left;
+  };
+
+  const tree = parseExpr();
+  if (pos !== tokens.length) throw new ParseError("trailing input");
+  return tree;
+}
+
+/** Parse ASCII or LaTeX math ("2x*cos(x^2)", "\frac{1}{2}"); null if it isn't an expression */
+export function parseExpression(text: string): MathNode | null {
+  const tokens = tokenize(normalizeInput(text));
+  if (!tokens || tokens.length === 0) return null;
+  try {
+    return parseTokens(tokens);
+  } catch (e) {
+    if (e instanceof ParseError) return null;
+    throw e;
+  }
+}
+
+/** Free variables, sorted */
+export function variablesOf(node: MathNode): string[] {
+  const names = new Set<string>();
+  const walk = (n: MathNode) => {
+    if (n.type === "var") names.add(n.name);
+    else if (n.type === "neg") walk(n.arg);
+    else if (n.type === "bin") {
+      walk(n.left);
+      walk(n.right);
+    } else if (n.type === "fn") n.args.forEach(walk);
+  };
+  walk(node);
+  return [...names].sort();
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+function usesBareLog(node: MathNode): boolean {
+  if (node.type === "fn") return (node.name === "log" && node.args.length === 1) || node.args.some(usesBareLog);
+  if (node.type === "neg") return usesBareLog(node.arg);
+  if (node.type === "bin") return usesBareLog(node.left) || usesBareLog(node.right);
+  return false;
+}
+
+/** Evaluate at `vars`; NaN outside the domain. An unsubscripted log is base `logBase` */
+export function evaluate(node: MathNode, vars: Record<string, number>, logBase = 10): number {
+  const ev = (n: MathNode) => evaluate(n, vars, logBase);
+  switch (node.type) {
+    case "num":
+      return node.value;
+    case "var":
+      return vars[node.name] ?? NaN;
+    case "const":
+      return node.name === "pi" ? Math.PI : Math.E;
+    case "neg":
+      return -ev(node.arg);
+    case "bin": {
+      const a = ev(node.left);
+      const b = ev(node.right);
+      if (node.op === "+") return a + b;
+      if (node.op === "-") return a - b;
+      if (node.op === "*") return a * b;
+      if (node.op === "/") return a / b;
+      return Math.pow(a, b);
+    }
+    case "fn": {
+      const x = ev(node.args[0]);
+      switch (node.name) {
+        case "sin": return Math.sin(x);
+        case "cos": return Math.cos(x);
+        case "tan": return Math.tan(x);
+        case "sec": return 1 / Math.cos(x);
+        case "csc": return 1 / Math.sin(x);
+        case "cot": return 1 / Math.tan(x);
+        case "arcsin": return Math.asin(x);
+        case "arccos": return Math.acos(x);
+        case "arctan": return Math.atan(x);
+        case "sinh": return Math.sinh(x);
+        case "cosh": return Math.cosh(x);
+        case "tanh": return Math.tanh(x);
+        case "ln": return Math.log(x);
+        case "log": return Math.log(x) / Math.log(node.args[1] ? ev(node.args[1]) : logBase);
+        case "exp": return Math.exp(x);
+        case "sqrt": return Math.sqrt(x);
+        case "abs": return Math.abs(x);
+        case "root": {
+          const n = ev(node.args[1]);
+          // Odd roots of negatives are real
+          return x < 0 && Number.isInteger(n) && n % 2 !== 0 ? -Math.pow(-x, 1 / n) : Math.pow(x, 1 / n);
+        }
+        default: return NaN;
+      }
+    }
+  }
+}
+
+// ============================================
+// LaTeX (live preview)
+// ============================================
+
+const PRECEDENCE = { "+": 1, "-": 1, "*": 2, "/": 2, "^": 3 } as const;
+
+function precedenceOf(node: MathNode): number {
+  if (node.type === "bin") return PRECEDENCE[node.op];
+  if (node.type === "neg") return 1.5;
+  return 4;
+}
+
+function formatVar(name: string): string {
+  const [base, sub] = name.split("_");
+  const shown = GREEK.includes(base) ? `\\${base}` : base;
+  return sub ? `${shown}_{${sub}}` : shown;
+}
+
+/** LaTeX for the parsed expression, so students see how their input was read */
+export function toLatex(node: MathNode): string {
+  const wrap = (n: MathNode, minPrecedence: number) =>
+    precedenceOf(n) < minPrecedence ? `\\left(${toLatex(n)}\\right)` : toLatex(n);
+
+  switch (node.type) {
+    case "num":
+      return String(node.value);
+    case "var":
+      return formatVar(node.name);
+    case "const":
+      return node.name === "pi" ? "\\pi" : "e";
+    case "neg":
+      return `-${wrap(node.arg, 2)}`;
+    case "bin": {
+      if (node.op === "/") return `\\frac{${toLatex(node.left)}}{${toLatex(node.right)}}`;
+      if (node.op === "^") return `${wrap(node.left, 4)}^{${toLatex(node.right)}}`;
+      if (node.op === "*") {
+        const left = wrap(node.left, 2);
+        const right = wrap(node.right, 2);
+        // Juxtapose "2x", but keep a dot between numbers and before a negative
+        const needsDot = /[\d.]$/.test(left) && /^[\d.-]/.test(right);
+        return needsDot ? `${left} \\cdot ${right}` : `${left} ${right}`;
+      }
+      const right = node.op === "-" ? wrap(node.right, 2) : wrap(node.right, 1.5);
+      return `${toLatex(node.left)} ${node.op} ${right}`;
+    }
+    case "fn": {
+      const arg = toLatex(node.args[0]);
+      if (node.name === "sqrt") return `\\sqrt{${arg}}`;
+      if (node.name === "root") return `\\sqrt[${toLatex(node.args[1])}]{${arg}}`;
+      if (node.name === "abs") return `\\left|${arg}\\right|`;
+      if (node.name === "exp") return `e^{${arg}}`;
+      const base = node.name === "log" && node.args[1] ? `_{${toLatex(node.args[1])}}` : "";
+      return `\\${node.name}${base}\\left(${arg}\\right)`;
+    }
+  }
+}
+
+// ============================================
+// Equivalence
+// ============================================
+
+const SAMPLES = 24;
+const MIN_VALID_SAMPLES = 6;
+
+/** Small seeded PRNG (mulberry32) so every grader samples the same points */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function close(a: number, b: number): boolean {
+  return Math.abs(a - b) <= 1e-7 * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+function formatNumber(n: number): string {
+  return String(Number(n.toPrecision(4)));
+}
+
+function compareAt(
+  answer: MathNode,
+  expected: MathNode,
+  variables: string[],
+  logBase: number
+): EquivalenceResult | null {
+  const random = seededRandom(0x5eed);
+  const points: { vars: Record<string, number>; given: number; want: number }[] = [];
+
+  for (let i = 0; i < SAMPLES; i++) {
+    // Half the points positive only, so sqrt(x) and ln(x) get enough valid samples
+    const vars: Record<string, number> = {};
+    for (const v of variables) {
+      vars[v] = i % 2 === 0 ? 0.1 + random() * 2.9 : -3 + random() * 6;
+    }
+    const given = evaluate(answer, vars, logBase);
+    const want = evaluate(expected, vars, logBase);
+    // Points outside either domain say nothing (ln(x^2) vs 2ln(x) at x < 0)
+    if (Number.isFinite(given) && Number.isFinite(want)) points.push({ vars, given, want });
+  }
+
+  if (points.length < (variables.length === 0 ? 1 : MIN_VALID_SAMPLES)) return null;
+
+  const mismatch = points.find((p) => !close(p.given, p.want));
+  if (!mismatch) return { equivalent: true, reason: null };
+
+  if (variables.length === 0) {
+    return {
+      equivalent: false,
+      reason: `Your answer evaluates to ${formatNumber(mismatch.given)}, but the answer is ${formatNumber(mismatch.want)}.`,
+    };
+  }
+
+  const offset = points[0].given - points[0].want;
+  if (points.every((p) => close(p.given - p.want, offset))) {
+    return {
+      equivalent: false,
+      reason: `Your answer differs from the correct one by a constant (${formatNumber(offset)}).`,
+    };
+  }
+  const ratio = points[0].given / points[0].want;
+  if (Number.isFinite(ratio) && points.every((p) => close(p.given, p.want * ratio))) {
+    return {
+      equivalent: false,
+      reason: `Your answer is ${formatNumber(ratio)} times the correct one.`,
+    };
+  }
+
+  const at = variables.map((v) => `${v} = ${formatNumber(mismatch.vars[v])}`).join(", ");
+  return {
+    equivalent: false,
+    reason: `At ${at}, your answer gives ${formatNumber(mismatch.given)} but the correct one gives ${formatNumber(mismatch.want)}.`,
+  };
+}
+
+/**
+ * Is `answer` the same function as `expected`? Null when it can't tell (too few points in
+ * both domains). A bare "log" may be read as base 10 or natural log.
+ */
+export function checkEquivalence(answer: MathNode, expected: MathNode): EquivalenceResult | null {
+  const expectedVars = variablesOf(expected);
+  const answerVars = variablesOf(answer);
+  const extra = answerVars.filter((v) => !expectedVars.includes(v));
+  if (extra.length > 0) {
+    return {
+      equivalent: false,
+      reason: `Your answer uses ${extra.join(", ")}, which the correct answer doesn't.`,
+    };
+  }
+  if (expectedVars.includes("C") && !answerVars.includes("C")) {
+    return { equivalent: false, reason: "Don't forget the constant of integration (+ C)." };
+  }
+
+  const result = compareAt(answer, expected, expectedVars, 10);
+  if (result?.equivalent === false && (usesBareLog(answer) || usesBareLog(expected))) {
+    const natural = compareAt(answer, expected, expectedVars, Math.E);
+    if (natural?.equivalent) return natural;
+  }
+  return result;
+}
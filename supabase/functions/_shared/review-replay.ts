@@ -0,0 +1,204 @@
+/**
+ * Replay a student's review log to rebuild their cards.
+ *
+ * Each card's reviews are re-scheduled in order from an empty card, so the
+ * resulting srs_state reflects the current FSRS parameters (fitted weights,
+ * retention settings) or a fixed scheduling bug as if it had always applied.
+ * What changed the live cards outside of reviews (study pauses, backlog smoothing)
+ * is then re-applied to the replayed ones.
+ *
+ * Runtime-agnostic (no Deno or npm imports) so the replay-reviews edge function and
+ * the Vitest suite share the same code; the caller supplies the FSRS step.
+ */
+import type { ReviewCardRow } from "./review-submission.ts";
+import { capDueForExam } from "./exam-capping.ts";
+import { countPausedDays, isPausedDay, type StudyPauseRow } from "./study-pause.ts";
+
+/** review_logs row fields needed to replay */
+export interface LoggedReview {
+  id: string;
+  question_id: string;
+  /** Subpart card of a multi-part question; null = whole question */
+  subpart_id?: string | null;
+  rating: number;
+  reviewed_at: string;
+}
+
+/** One review after replay, with the card before and after it (ts-fsrs ReviewLog shape) */
+export interface ReplayedReview {
+  id: string;
+  /** null = the review created the card */
+  before: ReviewCardRow | null;
+  after: ReviewCardRow;
+  elapsed_days: number;
+  scheduled_days: number;
+}
+
+export interface ReplayedCard {
+  question_id: string;
+  subpart_id: string | null;
+  card: ReviewCardRow;
+  reviews: ReplayedReview[];
+}
+
+/**
+ * Schedule one review: the card before (null = new) → the card after. `dueCounts` maps
+ * YYYY-MM-DD → the student's other cards due that day at the time of the review (for
+ * load balancing, as submit-review does with get_review_forecast).
+ */
+export type ReviewStep = (
+  current: ReviewCardRow | null,
+  reviewedAt: Date,
+  rating: number,
+  dueCounts: Map<string, number>,
+) => ReviewCardRow;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTIVE_STATES = [1, 2, 3];
+
+function dateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addCount(counts: Map<string, number>, dueAt: string, delta: number) {
+  const key = dateKey(new Date(dueAt));
+  counts.set(key, (counts.get(key) ?? 0) + delta);
+}
+
+function compareReviews(a: LoggedReview, b: LoggedReview): number {
+  const byTime = new Date(a.reviewed_at).getTime() - new Date(b.reviewed_at).getTime();
+  if (byTime !== 0) return byTime;
+  // Same tie-break as ORDER BY reviewed_at, id
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/** Replay one card's reviews in order. */
+export function replayCardHistory(
+  reviews: LoggedReview[],
+  step: ReviewStep,
+  dueCounts: Map<string, number> = new Map(),
+): ReplayedReview[] {
+  const replayed: ReplayedReview[] = [];
+  let current: ReviewCardRow | null = null;
+
+  for (const review of [...reviews].sort(compareReviews)) {
+    const after = step(current, new Date(review.reviewed_at), review.rating, dueCounts);
+    replayed.push({
+      id: review.id,
+      before: current,
+      after,
+      elapsed_days: after.elapsed_days,
+      scheduled_days: after.scheduled_days,
+    });
+    current = after;
+  }
+
+  return replayed;
+}
+
+/**
+ * Replay a whole log in time order (a card is a question, or one subpart of a
+ * multi-part question). Every step sees the other cards' due dates as they were
+ * at that review. `stepFor` picks the scheduler per question (e.g. course-specific
+ * weights).
+ */
+export function replayReviewLog(
+  logs: LoggedReview[],
+  stepFor: (questionId: string) => ReviewStep,
+): ReplayedCard[] {
+  const cards = new Map<string, ReplayedCard>();
+  const dueCounts = new Map<string, number>();
+
+  for (const log of [...logs].sort(compareReviews)) {
+    const key = `${log.question_id}:${log.subpart_id ?? ""}`;
+    const entry = cards.get(key);
+    const before = entry?.card ?? null;
+    if (before) addCount(dueCounts, before.due_at, -1);
+
+    const after = stepFor(log.question_id)(before, new Date(log.reviewed_at), log.rating, dueCounts);
+    addCount(dueCounts, after.due_at, 1);
+
+    const review: ReplayedReview = {
+      id: log.id,
+      before,
+      after,
+      elapsed_days: after.elapsed_days,
+      scheduled_days: after.scheduled_days,
+    };
+    if (entry) {
+      entry.card = after;
+      entry.reviews.push(review);
+    } else {
+      cards.set(key, {
+        question_id: log.question_id,
+        subpart_id: log.subpart_id ?? null,
+        card: after,
+        reviews: [review],
+      });
+    }
+  }
+  return [...cards.values()];
+}
+
+// ============================================
+// Adjustments outside of reviews
+// ============================================
+
+/**
+ * Push a card back over the pauses that froze the queue after its last review, as
+ * apply_study_pause() did (and end_study_pause() partly undid when the student came
+ * back early): by the days of each pause actually taken (count_paused_days).
+ */
+export function shiftForPauses(card: ReviewCardRow, pauses: StudyPauseRow[]): ReviewCardRow {
+  if (!ACTIVE_STATES.includes(card.state) || !card.last_reviewed_at) return card;
+
+  let due = new Date(card.due_at).getTime();
+  const lastReviewed = new Date(card.last_reviewed_at).getTime();
+  for (const pause of [...pauses].sort((a, b) => a.starts_on.localeCompare(b.starts_on))) {
+    if (!pause.frozen_at || new Date(pause.frozen_at).getTime() <= lastReviewed) continue;
+    if (due < Date.parse(`${pause.starts_on}T00:00:00Z`)) continue;
+    due += countPausedDays([pause], pause.starts_on, pause.ends_on) * DAY_MS;
+  }
+  return due === new Date(card.due_at).getTime() ? card : { ...card, due_at: new Date(due).toISOString() };
+}
+
+export interface ScheduleAdjustments {
+  /** The student's study pauses */
+  pauses: StudyPauseRow[];
+  /** The question's exam dates (get_question_exam_dates) */
+  examDates: string[];
+  /** The live card the replay replaces, if any */
+  live: ReviewCardRow | null;
+  now?: Date;
+}
+
+/**
+ * Re-apply to a replayed card what changed the live card outside of reviews:
+ *   - study pauses, then the exam re-cap a pause's end runs (unless that review day is
+ *     paused too, as cap_due_dates_for_exams() skips it);
+ *   - backlog smoothing: a card the replay would make overdue keeps its live due date
+ *     when that is still ahead and comes from the same last review (smooth_review_backlog()
+ *     moved it, and the replay shouldn't bring the backlog back).
+ */
+export function reapplyScheduleAdjustments(
+  card: ReviewCardRow,
+  { pauses, examDates, live, now = new Date() }: ScheduleAdjustments,
+): ReviewCardRow {
+  let adjusted = shiftForPauses(card, pauses);
+  if (adjusted !== card) {
+    const capped = capDueForExam(adjusted, new Date(adjusted.last_reviewed_at!), examDates, now);
+    if (!isPausedDay(pauses, capped.due_at.slice(0, 10))) adjusted = capped;
+  }
+
+  const today = `${dateKey(now)}T00:00:00Z`;
+  if (
+    live?.last_reviewed_at &&
+    adjusted.last_reviewed_at &&
+    new Date(live.last_reviewed_at).getTime() === new Date(adjusted.last_reviewed_at).getTime() &&
+    new Date(adjusted.due_at).getTime() < Date.parse(today) &&
+    new Date(live.due_at).getTime() >= Date.parse(today)
+  ) {
+    adjusted = { ...adjusted, due_at: live.due_at };
+  }
+  return adjusted;
+}
@@ -0,0 +1,81 @@
+/**
+ * Compare-and-swap loop for review submission.
+ *
+ * The submit_review RPC commits the attempt and the new srs_state row in one
+ * transaction, but only if the card's version still matches the one the FSRS
+ * update was computed from. On a conflict (another tab reviewed the same card)
+ * we recompute from the card the RPC returned and try again.
+ *
+ * Runtime-agnostic (no imports) so the Deno edge function and the Vitest
+ * concurrency test share the same code.
+ */
+
+/** srs_state FSRS fields as stored in the DB */
+export interface ReviewCardRow {
+  due_at: string;
+  last_reviewed_at: string | null;
+  reps: number;
+  stability: number;
+  difficulty: number;
+  elapsed_days: number;
+  scheduled_days: number;
+  lapses: number;
+  learning_steps: number;
+  state: number;
+}
+
+export interface VersionedCardRow extends ReviewCardRow {
+  version: number;
+}
+
+export type CommitResult =
+  | { committed: true; card: VersionedCardRow; attemptId: string | null }
+  | { committed: false; current: VersionedCardRow | null };
+
+export interface ReviewStore {
+  /** Current card, or null if the student has never reviewed it */
+  load(): Promise<VersionedCardRow | null>;
+  /**
+   * Write `next` and the attempt atomically if the card is still at
+   * `expectedVersion` (null = card must not exist yet).
+   */
+  commit(expectedVersion: number | null, next: ReviewCardRow): Promise<CommitResult>;
+}
+
+export class ReviewConflictError extends Error {
+  constructor(attempts: number) {
+    super(`Review could not be saved after ${attempts} concurrent update conflicts`);
+    this.name = "ReviewConflictError";
+  }
+}
+
+export const MAX_SUBMIT_ATTEMPTS = 5;
+
+/**
+ * An answer queued offline is stale when the server card was reviewed after it was
+ * given (e.g. on another device): the newer server card is kept and the answer is
+ * only recorded.
+ */
+export function isStaleOfflineReview(current: ReviewCardRow | null, reviewedAt: Date): boolean {
+  return !!current?.last_reviewed_at && new Date(current.last_reviewed_at).getTime() > reviewedAt.getTime();
+}
+
+export async function submitReviewWithRetry(
+  store: ReviewStore,
+  schedule: (current: ReviewCardRow | null) => ReviewCardRow,
+  maxAttempts: number = MAX_SUBMIT_ATTEMPTS,
+): Promise<{ card: VersionedCardRow; attemptId: string | null; tries: number }> {
+  let current = await store.load();
+
+  for (let tries = 1; tries <= maxAttempts; tries++) {
+    const next = schedule(current);
+    const result = await store.commit(current ? current.version : null, next);
+    if ("card" in result) {
+      return { card: result.card, attemptId: result.attemptId, tries };
+    }
+    // Lost the race — schedule again from the winner's card
+    current = result.current;
+  }
+
+  throw new ReviewConflictError(maxAttempts);
+}
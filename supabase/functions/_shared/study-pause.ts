@@ -0,0 +1,99 @@
+/**
+ * Study pause rules.
+ *
+ * Mirrors the study pause SQL (count_paused_days, apply_study_pause, end_study_pause,
+ * get_study_streak and the pause check in cap_due_dates_for_exams) so replay-reviews
+ * re-applies a pause the way it was applied to the live cards.
+ *
+ * Runtime-agnostic (type imports only) so replay-reviews and the Vitest suite share it.
+ * Days are YYYY-MM-DD (UTC).
+ */
+import type { ReviewCardRow } from "./review-submission.ts";
+
+/** study_pauses row fields the rules need */
+export interface StudyPauseRow {
+  starts_on: string;
+  ends_on: string;
+  /** When the queue was frozen (due dates pushed back); null = not started yet */
+  frozen_at: string | null;
+  resumed_at: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTIVE_STATES = [1, 2, 3];
+
+function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function dayStart(day: string): number {
+  return Date.parse(`${day}T00:00:00Z`);
+}
+
+/** Last day a pause covers: the day before it was ended early, else ends_on */
+export function lastPausedDay(pause: StudyPauseRow): string {
+  if (pause.resumed_at && pause.resumed_at.slice(0, 10) <= pause.ends_on) {
+    return addDays(pause.resumed_at.slice(0, 10), -1);
+  }
+  return pause.ends_on;
+}
+
+/** Days in [from, to] covered by one of the pauses (count_paused_days) */
+export function countPausedDays(pauses: StudyPauseRow[], from: string, to: string): number {
+  const days = new Set<string>();
+  for (const pause of pauses) {
+    const last = lastPausedDay(pause) < to ? lastPausedDay(pause) : to;
+    for (let day = pause.starts_on > from ? pause.starts_on : from; day <= last; day = addDays(day, 1)) {
+      days.add(day);
+    }
+  }
+  return days.size;
+}
+
+/** Whether a day falls inside one of the pauses (cap_due_dates_for_exams skips caps on it) */
+export function isPausedDay(pauses: StudyPauseRow[], day: string): boolean {
+  return countPausedDays(pauses, day, day) > 0;
+}
+
+/** Start day reached (apply_study_pause): cards due from the start day on move back by the pause length */
+export function freezeDueDate(card: ReviewCardRow, pause: StudyPauseRow): ReviewCardRow {
+  if (!ACTIVE_STATES.includes(card.state) || Date.parse(card.due_at) < dayStart(pause.starts_on)) return card;
+
+  const length = (dayStart(pause.ends_on) - dayStart(pause.starts_on)) / DAY_MS + 1;
+  return { ...card, due_at: new Date(Date.parse(card.due_at) + length * DAY_MS).toISOString() };
+}
+
+/**
+ * Pause ended on `today` (end_study_pause): cards pushed past today come back by the
+ * unused days, never into the past. Cards reviewed during the pause keep their schedule.
+ */
+export function endPauseDueDate(card: ReviewCardRow, pause: StudyPauseRow, today: string): ReviewCardRow {
+  const unused = Math.max(0, (dayStart(pause.ends_on) - dayStart(today)) / DAY_MS + 1);
+  if (unused === 0 || !ACTIVE_STATES.includes(card.state)) return card;
+  if (Date.parse(card.due_at) < dayStart(today)) return card;
+  if (card.last_reviewed_at && pause.frozen_at && Date.parse(card.last_reviewed_at) >= Date.parse(pause.frozen_at)) {
+    return card;
+  }
+
+  const due = Math.max(Date.parse(card.due_at) - unused * DAY_MS, dayStart(today));
+  return { ...card, due_at: new Date(due).toISOString() };
+}
+
+/**
+ * Consecutive study days ending today or yesterday (get_study_streak). Paused days
+ * neither break the streak nor add to it.
+ */
+export function studyStreak(studyDays: string[], pauses: StudyPauseRow[], today: string): number {
+  const studied = new Set(studyDays);
+  if (studied.size === 0) return 0;
+  const first = [...studied].sort()[0];
+
+  // Today only counts once studied; it doesn't break the streak yet
+  let day = studied.has(today) ? today : addDays(today, -1);
+  let streak = 0;
+  for (; day >= first; day = addDays(day, -1)) {
+    if (studied.has(day)) streak++;
+    else if (!isPausedDay(pauses, day)) break;
+  }
+  return streak;
+}
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
 import { EXTERNAL_SUPABASE_URL, getExternalServiceRoleKey } from "../_shared/external-db.ts";
+import { parseNumericAnswer } from "../_shared/answer-grading.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -18,8 +19,9 @@ function buildAnswerSpec(format: string, correctAnswer: string, choices: any[] |
     return { correct_choice_ids: ids };
   }
   if (format === 'numeric') {
-    const num = parseFloat(correctAnswer);
-    return { value: isNaN(num) ? null : num, unit: null };
+    // "12.5 m/s" -> value + unit, graded by _shared/answer-grading.ts
+    const parsed = parseNumericAnswer(correctAnswer);
+    return { value: parsed?.value ?? null, unit: parsed?.unit ?? null };
   }
   // For short_answer, expression, free_response
   return { model_answer: correctAnswer };
@@ -1,6 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { EXTERNAL_SUPABASE_URL, getExternalServiceRoleKey } from "../_shared/external-db.ts";
+import {
+  gradeWithSpec,
+  resolveAnswerSpec,
+  type AnswerSpec,
+  type GradingSpec,
+} from "../_shared/answer-grading.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,18 +17,40 @@ const corsHeaders = {
 interface GradeRequest {
   questionPrompt: string;
   subpartPrompt?: string;
-  studentAnswer: string;
+  /** Typed answer; may be empty when a photo of the work is attached */
+  studentAnswer?: string;
+  /** answer-images storage path of a photo of the handwritten work (<user_id>/...) */
+  answerImagePath?: string;
   correctAnswer?: string;
   modelAnswer?: string;
   gradingRubric?: string;
   solutionSteps?: string[];
   maxPoints?: number;
+  answerSpec?: AnswerSpec | null;
+  gradingSpec?: GradingSpec | null;
+}
+
+interface WorkStep {
+  step: string;
+  status: "correct" | "error" | "missing";
+  comment: string;
 }
 
 interface GradeResult {
   isCorrect: boolean;
   score: number;
   feedback: string;
+  /** "spec": decided by the answer/grading spec without calling the model */
+  gradedBy?: "spec" | "ai";
+  /** Step-level feedback on a photo of the work */
+  steps?: WorkStep[];
+}
+
+function imageMimeType(path: string): string {
+  const ext = path.split(".").pop()?.toLowerCase() || "jpg";
+  return ext === "png" ? "image/png" :
+    ext === "webp" ? "image/webp" :
+    ext === "heic" ? "image/heic" : "image/jpeg";
 }
 
 serve(async (req) => {
@@ -33,11 +61,6 @@ serve(async (req) => {
   try {
     const SUPABASE_URL = EXTERNAL_SUPABASE_URL;
     const SUPABASE_SERVICE_ROLE_KEY = getExternalServiceRoleKey();
-    const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
-
-    if (!GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY is not configured");
-    }
 
     // Authenticate user (any authenticated user, not admin-only)
     const authHeader = req.headers.get("authorization");
@@ -64,9 +87,10 @@ serve(async (req) => {
 
     const body: GradeRequest = await req.json();
 
-    if (!body.studentAnswer || !body.questionPrompt) {
+    const studentAnswer = body.studentAnswer?.trim() ?? "";
+    if ((!studentAnswer && !body.answerImagePath) || !body.questionPrompt) {
       return new Response(
-        JSON.stringify({ error: "studentAnswer and questionPrompt are required" }),
+        JSON.stringify({ error: "questionPrompt and a studentAnswer or answerImagePath are required" }),
         {
           status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -76,6 +100,33 @@ serve(async (req) => {
 
     const maxPoints = body.maxPoints ?? 1;
 
+    if (body.answerImagePath && !body.answerImagePath.startsWith(`${user.id}/`)) {
+      return new Response(JSON.stringify({ error: "answerImagePath must be in your own folder" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Deterministic grading first; the model is only asked when the spec can't decide.
+    // Photos of the work always go to the model, for the step-level feedback.
+    const specGrade = body.answerImagePath ? null : gradeWithSpec(
+      studentAnswer,
+      resolveAnswerSpec(body.answerSpec, body.correctAnswer),
+      body.gradingSpec,
+      maxPoints
+    );
+    if (specGrade) {
+      const result: GradeResult = { ...specGrade, gradedBy: "spec" };
+      return new Response(JSON.stringify(result), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
+    if (!GEMINI_API_KEY) {
+      throw new Error("GEMINI_API_KEY is not configured");
+    }
+
     // Build context for Gemini
     const contextParts: string[] = [];
 
@@ -103,12 +154,42 @@ serve(async (req) => {
       );
     }
 
+    // Photo of the handwritten work, sent inline with the prompt
+    let imagePart: { inlineData: { mimeType: string; data: string } } | null = null;
+    if (body.answerImagePath) {
+      const { data: imageData, error: downloadError } = await supabase.storage
+        .from("answer-images")
+        .download(body.answerImagePath);
+      if (downloadError || !imageData) {
+        throw new Error(`Failed to download work photo: ${downloadError?.message}`);
+      }
+      const bytes = new Uint8Array(await imageData.arrayBuffer());
+      // Chunked to avoid a stack overflow on large photos
+      let binary = "";
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+      }
+      imagePart = { inlineData: { mimeType: imageMimeType(body.answerImagePath), data: btoa(binary) } };
+    }
+
+    const studentSection = imagePart
+      ? `STUDENT WORK:
+The attached photo shows the student's handwritten work.${studentAnswer ? `\nTyped final answer: ${studentAnswer}` : ""}`
+      : `STUDENT ANSWER:
+${studentAnswer}`;
+
+    const photoInstructions = imagePart
+      ? `
+- Read the work in the photo step by step and compare it with the solution steps.
+- Return "steps": one entry per step of the student's work, in order, with status "correct", "error" (where the work went wrong) or "missing" (a required step that was skipped), and a short comment. Quote the student's step briefly.
+- If the photo is unreadable or unrelated, score 0 and say so in the feedback.`
+      : "";
+
     const gradingPrompt = `You are an expert academic grader. Grade the following student answer.
 
 ${contextParts.join("\n\n")}
 
-STUDENT ANSWER:
-${body.studentAnswer}
+${studentSection}
 
 MAX POINTS: ${maxPoints}
 
@@ -117,7 +198,7 @@ GRADING INSTRUCTIONS:
 - Be fair but rigorous. Allow minor differences in wording or notation if the mathematical/conceptual content is equivalent.
 - For math answers: equivalent forms are acceptable (e.g., 1/2 = 0.5 = 50%).
 - Award partial credit proportional to how much of the solution the student got right.
-- Provide brief, constructive feedback (1-2 sentences).
+- Provide brief, constructive feedback (1-2 sentences).${photoInstructions}
 
 Return your assessment using the grade_answer function.`;
 
@@ -128,7 +209,7 @@ Return your assessment using the grade_answer function.`;
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          contents: [{ role: "user", parts: [{ text: gradingPrompt }] }],
+          contents: [{ role: "user", parts: imagePart ? [imagePart, { text: gradingPrompt }] : [{ text: gradingPrompt }] }],
           tools: [
             {
               functionDeclarations: [
@@ -153,6 +234,19 @@ Return your assessment using the grade_answer function.`;
                         description:
                           "Brief constructive feedback (1-2 sentences). If wrong, explain what was incorrect. If correct, confirm.",
                       },
+                      steps: {
+                        type: "array",
+                        description: "Photo of the work only: the student's steps in order, each judged",
+                        items: {
+                          type: "object",
+                          required: ["step", "status", "comment"],
+                          properties: {
+                            step: { type: "string", description: "The student's step, briefly quoted" },
+                            status: { type: "string", enum: ["correct", "error", "missing"] },
+                            comment: { type: "string", description: "What is right or wrong about this step" },
+                          },
+                        },
+                      },
                     },
                   },
                 },
@@ -214,7 +308,7 @@ Return your assessment using the grade_answer function.`;
       );
     }
 
-    return new Response(JSON.stringify(gradeResult), {
+    return new Response(JSON.stringify({ ...gradeResult, gradedBy: "ai" }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
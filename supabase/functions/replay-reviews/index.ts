@@ -0,0 +1,218 @@
+// Replay Reviews Edge Function
+// Rebuilds a user's srs_state from review_logs with the current FSRS parameters
+// (fitted weights + retention settings per course), load balancing and exam caps, then
+// re-applies study pauses and backlog smoothing. Students may replay their own log;
+// admins may replay any user's (e.g. after a scheduling bug fix).
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { get_fuzz_range, type FSRS, type Grade } from "npm:ts-fsrs@5.2.3";
+import { EXTERNAL_SUPABASE_URL, getExternalServiceRoleKey } from "../_shared/external-db.ts";
+import {
+  createScheduler,
+  loadSchedulerSettings,
+  loadExamDates,
+  rowToCard,
+  cardToRow,
+  type SchedulerSettings,
+} from "../_shared/fsrs.ts";
+import { capDueForExam } from "../_shared/exam-capping.ts";
+import { balanceDueDate } from "../_shared/load-balancing.ts";
+import type { ReviewCardRow } from "../_shared/review-submission.ts";
+import {
+  replayReviewLog,
+  reapplyScheduleAdjustments,
+  type LoggedReview,
+  type ReviewStep,
+} from "../_shared/review-replay.ts";
+import type { StudyPauseRow } from "../_shared/study-pause.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const PAGE_SIZE = 1000;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(EXTERNAL_SUPABASE_URL, getExternalServiceRoleKey());
+
+    // Authenticate user
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const body: { userId?: string } = await req.json().catch(() => ({}));
+    const userId = body.userId ?? user.id;
+
+    // Replaying someone else's log is admin-only
+    if (userId !== user.id) {
+      const { data: roleData } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id)
+        .eq("role", "admin")
+        .maybeSingle();
+
+      if (!roleData) {
+        return jsonResponse({ error: "Admin access required" }, 403);
+      }
+    }
+
+    // 1. Load the full log in replay order
+    const logs: LoggedReview[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("review_logs")
+        .select("id, question_id, subpart_id, rating, reviewed_at")
+        .eq("user_id", userId)
+        .order("reviewed_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+      logs.push(...(data as LoggedReview[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    if (logs.length === 0) {
+      return jsonResponse({ success: true, cards: 0, reviews: 0 });
+    }
+
+    // 2. One scheduler per course (weights and retention can differ by course)
+    const questionIds = [...new Set(logs.map((l) => l.question_id))];
+    const courseByQuestion = new Map<string, string | null>();
+    for (let i = 0; i < questionIds.length; i += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("questions")
+        .select("id, course_pack_id")
+        .in("id", questionIds.slice(i, i + PAGE_SIZE));
+      if (error) throw error;
+      for (const q of data ?? []) courseByQuestion.set(q.id, q.course_pack_id);
+    }
+
+    // No fuzz: balanceDueDate picks the day within the fuzz range, as in submit-review
+    const schedulersByCourse = new Map<string, { scheduler: FSRS; settings: SchedulerSettings }>();
+    for (const courseId of new Set(courseByQuestion.values())) {
+      const settings = await loadSchedulerSettings(supabase, userId, courseId);
+      schedulersByCourse.set(courseId ?? "", { scheduler: createScheduler(settings, false), settings });
+    }
+
+    // Exam dates per question, so replayed reviews get the same pre-exam caps
+    const examDates = new Map<string, string[]>();
+    for (let i = 0; i < questionIds.length; i += PAGE_SIZE) {
+      const chunk = await loadExamDates(supabase, questionIds.slice(i, i + PAGE_SIZE));
+      for (const [questionId, dates] of chunk) examDates.set(questionId, dates);
+    }
+
+    // Study pauses that froze the queue, and the live cards (to keep smoothed due dates)
+    const { data: pauses, error: pausesError } = await supabase
+      .from("study_pauses")
+      .select("starts_on, ends_on, frozen_at, resumed_at")
+      .eq("user_id", userId)
+      .not("frozen_at", "is", null);
+    if (pausesError) throw pausesError;
+
+    const liveCards = new Map<string, ReviewCardRow>();
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("srs_state")
+        .select("question_id, subpart_id, due_at, last_reviewed_at, reps, stability, difficulty, elapsed_days, scheduled_days, lapses, learning_steps, state")
+        .eq("user_id", userId)
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+      for (const row of data ?? []) liveCards.set(`${row.question_id}:${row.subpart_id ?? ""}`, row as ReviewCardRow);
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    // 3. Replay: schedule, spread across days, cap before exams (as submit-review does)
+    const replayed = replayReviewLog(logs, (questionId): ReviewStep => {
+      const { scheduler, settings } = schedulersByCourse.get(courseByQuestion.get(questionId) ?? "")!;
+      const dates = examDates.get(questionId) ?? [];
+      return (current, reviewedAt, rating, dueCounts) => {
+        const next = cardToRow(scheduler.next(rowToCard(current, reviewedAt), reviewedAt, rating as Grade).card);
+        const balanced = balanceDueDate(
+          next,
+          reviewedAt,
+          get_fuzz_range(next.scheduled_days, next.elapsed_days, settings.maximumInterval),
+          dueCounts,
+        );
+        return capDueForExam(balanced, reviewedAt, dates);
+      };
+    });
+
+    const cards = replayed.map((c) => ({
+      question_id: c.question_id,
+      subpart_id: c.subpart_id,
+      ...reapplyScheduleAdjustments(c.card, {
+        pauses: (pauses ?? []) as StudyPauseRow[],
+        examDates: examDates.get(c.question_id) ?? [],
+        live: liveCards.get(`${c.question_id}:${c.subpart_id ?? ""}`) ?? null,
+      }),
+    }));
+    const reviewRows = replayed.flatMap((c) =>
+      c.reviews.map((r) => ({
+        id: r.id,
+        // Undo before-image of the review (kept for each card's last review)
+        card_before: r.before,
+        state: r.before?.state ?? 0,
+        due: r.before?.due_at ?? r.after.last_reviewed_at,
+        stability: r.before?.stability ?? 0,
+        difficulty: r.before?.difficulty ?? 0,
+        learning_steps: r.before?.learning_steps ?? 0,
+        state_after: r.after.state,
+        due_after: r.after.due_at,
+        stability_after: r.after.stability,
+        difficulty_after: r.after.difficulty,
+        learning_steps_after: r.after.learning_steps,
+        elapsed_days: r.elapsed_days,
+        scheduled_days: r.scheduled_days,
+      }))
+    );
+
+    // 4. Write atomically; refuses if the student answered meanwhile
+    const { data, error } = await supabase.rpc("apply_review_replay", {
+      p_user_id: userId,
+      p_latest_log_id: logs[logs.length - 1].id,
+      p_cards: cards,
+      p_logs: reviewRows,
+    });
+    if (error) throw error;
+
+    if (!data.committed) {
+      return jsonResponse({ error: "New reviews were recorded during the replay. Please retry." }, 409);
+    }
+
+    console.log(`replay-reviews: user ${userId}, ${data.cards} cards, ${data.reviews} reviews`);
+
+    return jsonResponse({ success: true, cards: data.cards, reviews: data.reviews });
+  } catch (error) {
+    console.error("Replay reviews error:", error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500,
+    );
+  }
+});
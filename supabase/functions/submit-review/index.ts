@@ -0,0 +1,212 @@
+// Submit Review Edge Function
+// Records an attempt and the student's FSRS update atomically (see submit_review RPC).
+// Replaces the client-side read/schedule/version-check/insert sequence in useSubmitAttempt.
+// Answers queued offline (src/lib/offline-queue.ts) come with reviewedAt and are
+// scheduled at that time.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { EXTERNAL_SUPABASE_URL, getExternalServiceRoleKey } from "../_shared/external-db.ts";
+import { get_fuzz_range, type Grade } from "npm:ts-fsrs@5.2.3";
+import {
+  createScheduler,
+  loadSchedulerSettings,
+  loadExamDates,
+  loadDueCounts,
+  rowToCard,
+  cardToRow,
+} from "../_shared/fsrs.ts";
+import { capDueForExam } from "../_shared/exam-capping.ts";
+import { balanceDueDate } from "../_shared/load-balancing.ts";
+import {
+  submitReviewWithRetry,
+  isStaleOfflineReview,
+  ReviewConflictError,
+  type CommitResult,
+  type VersionedCardRow,
+} from "../_shared/review-submission.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface SubmitReviewRequest {
+  questionId: string;
+  /** FSRS grade 1–4 (Again/Hard/Good/Easy) */
+  rating: number;
+  selectedChoiceId?: string | null;
+  isCorrect: boolean;
+  /** attempts.confidence DB value */
+  confidence?: string | null;
+  hintUsed?: boolean;
+  guideUsed?: boolean;
+  timeSpentMs?: number;
+  subpartId?: string;
+  answerText?: string;
+  /** answer-images storage path of a photo of the work (<user_id>/...) */
+  answerImagePath?: string;
+  /** grade-answer result for a free-response answer (attempts.ai_feedback) */
+  aiFeedback?: Record<string, unknown>;
+  pointsEarned?: number;
+  maxPoints?: number;
+  /** ISO time an offline answer was given; omitted = now */
+  reviewedAt?: string;
+}
+
+const CARD_COLUMNS =
+  "due_at, last_reviewed_at, reps, stability, difficulty, elapsed_days, scheduled_days, lapses, learning_steps, state, version";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(EXTERNAL_SUPABASE_URL, getExternalServiceRoleKey());
+
+    // Authenticate user
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+    const token = authHeader.replace("Bearer ", "");
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const body: SubmitReviewRequest = await req.json();
+    if (!body.questionId || typeof body.isCorrect !== "boolean") {
+      return jsonResponse({ error: "questionId and isCorrect are required" }, 400);
+    }
+    if (![1, 2, 3, 4].includes(body.rating)) {
+      return jsonResponse({ error: "rating must be 1 (Again) to 4 (Easy)" }, 400);
+    }
+    if (body.reviewedAt !== undefined && Number.isNaN(Date.parse(body.reviewedAt))) {
+      return jsonResponse({ error: "reviewedAt must be an ISO timestamp" }, 400);
+    }
+    if (body.answerImagePath && !body.answerImagePath.startsWith(`${user.id}/`)) {
+      return jsonResponse({ error: "answerImagePath must be in your own folder" }, 403);
+    }
+
+    const { data: question, error: questionError } = await supabase
+      .from("questions")
+      .select("course_pack_id")
+      .eq("id", body.questionId)
+      .maybeSingle();
+    if (questionError) throw questionError;
+    if (!question) {
+      return jsonResponse({ error: "Question not found" }, 404);
+    }
+
+    // Same parameters the client used: fitted weights + retention settings for this course
+    const [settings, examDates] = await Promise.all([
+      loadSchedulerSettings(supabase, user.id, question.course_pack_id),
+      loadExamDates(supabase, [body.questionId]),
+    ]);
+    // No fuzz: balanceDueDate picks the day within the fuzz range instead
+    const scheduler = createScheduler(settings, false);
+    const dueCounts = await loadDueCounts(supabase, user.id, settings.maximumInterval);
+    // Offline answers are scheduled when they were given (never in the future)
+    const now = body.reviewedAt
+      ? new Date(Math.min(Date.parse(body.reviewedAt), Date.now()))
+      : new Date();
+    let stale = false;
+
+    const attempt = {
+      selected_choice_id: body.selectedChoiceId ?? null,
+      is_correct: body.isCorrect,
+      confidence: body.confidence ?? null,
+      hint_used: body.hintUsed ?? false,
+      guide_used: body.guideUsed ?? false,
+      time_spent_ms: body.timeSpentMs ?? null,
+      subpart_id: body.subpartId ?? null,
+      answer_text: body.answerText ?? null,
+      answer_image_url: body.answerImagePath ?? null,
+      ai_feedback: body.aiFeedback ?? null,
+      points_earned: body.pointsEarned ?? null,
+      max_points: body.maxPoints ?? null,
+      fsrs_rating: body.rating,
+      reviewed_at: body.reviewedAt ? now.toISOString() : null,
+    };
+
+    const result = await submitReviewWithRetry(
+      {
+        load: async () => {
+          // Each subpart of a multi-part question is its own card
+          const query = supabase
+            .from("srs_state")
+            .select(CARD_COLUMNS)
+            .eq("user_id", user.id)
+            .eq("question_id", body.questionId);
+          const { data, error } = await (body.subpartId
+            ? query.eq("subpart_id", body.subpartId)
+            : query.is("subpart_id", null)
+          ).maybeSingle();
+          if (error) throw error;
+          return data as VersionedCardRow | null;
+        },
+        commit: async (expectedVersion, next) => {
+          const { data, error } = await supabase.rpc("submit_review", {
+            p_user_id: user.id,
+            p_question_id: body.questionId,
+            p_expected_version: expectedVersion,
+            // Stale offline answer: record the attempt only, the card stays as it is
+            p_card: stale ? null : next,
+            p_attempt: attempt,
+          });
+          if (error) throw error;
+          const commitResult: CommitResult = data.committed
+            ? { committed: true, card: data.card, attemptId: data.attempt_id }
+            : { committed: false, current: data.current };
+          return commitResult;
+        },
+      },
+      (current) => {
+        stale = body.reviewedAt !== undefined && isStaleOfflineReview(current, now);
+        if (stale) return current!;
+        const card = rowToCard(current, now);
+        const next = cardToRow(scheduler.next(card, now, body.rating as Grade).card);
+        // Spread the student's reviews evenly across days
+        const balanced = balanceDueDate(
+          next,
+          now,
+          get_fuzz_range(next.scheduled_days, next.elapsed_days, settings.maximumInterval),
+          dueCounts,
+        );
+        // Make sure a review lands in the final days before the next exam covering it
+        return capDueForExam(balanced, now, examDates.get(body.questionId) ?? []);
+      },
+    );
+
+    if (result.tries > 1) {
+      console.log(`submit-review: committed after ${result.tries} tries (concurrent update)`);
+    }
+
+    return jsonResponse({
+      card: result.card,
+      attemptId: result.attemptId,
+      rating: body.rating,
+      stale,
+    });
+  } catch (error) {
+    console.error("Submit review error:", error);
+    const status = error instanceof ReviewConflictError ? 409 : 500;
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      status,
+    );
+  }
+});
@@ -0,0 +1,174 @@
+-- Personalized FSRS parameters
+-- Stores FSRS weights fitted to each student's own review history (attempts.fsrs_rating).
+--   1. user_fsrs_parameters table (one global row per user + optional per-course rows)
+--   2. get_user_fsrs_weights() helper: course row > global row > NULL (app defaults)
+--   3. recalculate_fsrs_for_user() reports the fitted weights and whether they are stale,
+--      so the client maintenance pass can re-fit after enough new reviews
+
+-- ============================================================
+-- 1. user_fsrs_parameters table
+-- ============================================================
+CREATE TABLE public.user_fsrs_parameters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL = fitted on all of the user's reviews (global fallback)
+  course_pack_id UUID REFERENCES public.course_packs(id) ON DELETE CASCADE,
+  weights REAL[] NOT NULL,
+  review_count INTEGER NOT NULL DEFAULT 0,
+  log_loss REAL,
+  default_log_loss REAL,
+  optimized_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT user_fsrs_parameters_user_course_key UNIQUE NULLS NOT DISTINCT (user_id, course_pack_id)
+);
+
+CREATE INDEX idx_user_fsrs_parameters_user_id ON public.user_fsrs_parameters(user_id);
+
+ALTER TABLE public.user_fsrs_parameters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own FSRS parameters"
+  ON public.user_fsrs_parameters
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own FSRS parameters"
+  ON public.user_fsrs_parameters
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own FSRS parameters"
+  ON public.user_fsrs_parameters
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own FSRS parameters"
+  ON public.user_fsrs_parameters
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.user_fsrs_parameters TO authenticated;
+
+COMMENT ON TABLE public.user_fsrs_parameters IS 'FSRS weights fitted per student (and optionally per course) from attempts.fsrs_rating. Written by the client optimizer in src/lib/fsrs-optimizer.ts.';
+COMMENT ON COLUMN public.user_fsrs_parameters.course_pack_id IS 'NULL for the global fit over all of the user''s reviews; set for a course-specific fit';
+COMMENT ON COLUMN public.user_fsrs_parameters.log_loss IS 'Mean log loss of the fitted weights on the training reviews';
+COMMENT ON COLUMN public.user_fsrs_parameters.default_log_loss IS 'Mean log loss of the default ts-fsrs weights on the same reviews (for comparison)';
+
+-- ============================================================
+-- 2. get_user_fsrs_weights(): resolve the weights to schedule with
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_user_fsrs_weights(
+  p_user_id uuid,
+  p_course_id uuid DEFAULT NULL
+)
+RETURNS real[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.weights
+  FROM user_fsrs_parameters p
+  WHERE p.user_id = p_user_id
+    AND (p.course_pack_id = p_course_id OR p.course_pack_id IS NULL)
+  -- Course-specific fit wins over the global fit
+  ORDER BY (p.course_pack_id IS NULL) ASC
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_fsrs_weights TO authenticated;
+
+COMMENT ON FUNCTION public.get_user_fsrs_weights IS 'Returns the fitted FSRS weights for a user (course-specific row first, then global). NULL means use the app default weights.';
+
+-- ============================================================
+-- 3. recalculate_fsrs_for_user(): also report parameter staleness
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.recalculate_fsrs_for_user(
+  p_user_id uuid
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer := 0;
+  v_processed integer := 0;
+  r_srs RECORD;
+  v_now timestamptz;
+  v_last_review timestamptz;
+  v_elapsed_days real;
+  -- Re-fit once this many rated reviews have accumulated since the last fit
+  -- (must match MIN_REVIEWS_FOR_OPTIMIZATION in src/lib/fsrs-optimizer.ts)
+  v_refit_threshold integer := 100;
+  v_weights real[];
+  v_optimized_at timestamptz;
+  v_new_reviews integer;
+BEGIN
+  v_now := now();
+
+  -- Process all SRS states for this specific user
+  -- Update elapsed_days based on time since last_reviewed_at
+  FOR r_srs IN
+    SELECT
+      s.id,
+      s.last_reviewed_at,
+      s.elapsed_days
+    FROM srs_state s
+    WHERE s.user_id = p_user_id
+      AND s.last_reviewed_at IS NOT NULL
+      -- Only update if last_reviewed_at is before today (to avoid double updates)
+      AND s.last_reviewed_at < date_trunc('day', v_now)
+  LOOP
+    v_processed := v_processed + 1;
+
+    -- Calculate elapsed days since last review
+    v_last_review := r_srs.last_reviewed_at;
+    v_elapsed_days := EXTRACT(EPOCH FROM (v_now - v_last_review)) / 86400.0;
+
+    -- Only update if elapsed_days has changed significantly (more than 0.1 days)
+    IF ABS(v_elapsed_days - COALESCE(r_srs.elapsed_days, 0)) > 0.1 THEN
+      UPDATE srs_state
+      SET
+        elapsed_days = v_elapsed_days,
+        updated_at = v_now
+      WHERE id = r_srs.id;
+
+      v_updated := v_updated + 1;
+    END IF;
+  END LOOP;
+
+  -- Personalized parameters: global fit for this user (if any)
+  SELECT p.weights, p.optimized_at
+  INTO v_weights, v_optimized_at
+  FROM user_fsrs_parameters p
+  WHERE p.user_id = p_user_id
+    AND p.course_pack_id IS NULL;
+
+  SELECT COUNT(*)
+  INTO v_new_reviews
+  FROM attempts a
+  WHERE a.user_id = p_user_id
+    AND a.fsrs_rating IS NOT NULL
+    AND (v_optimized_at IS NULL OR a.created_at > v_optimized_at);
+
+  RETURN json_build_object(
+    'success', true,
+    'updated', v_updated,
+    'processed', v_processed,
+    'fsrs_weights', v_weights,
+    'fsrs_parameters_optimized_at', v_optimized_at,
+    'fsrs_parameters_stale', v_new_reviews >= v_refit_threshold,
+    'timestamp', v_now
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.recalculate_fsrs_for_user TO authenticated;
+
+COMMENT ON FUNCTION public.recalculate_fsrs_for_user IS 'User-specific FSRS recalculation. Updates elapsed_days for a single user and reports the user''s fitted FSRS weights plus whether enough new reviews exist to re-fit them.';
@@ -0,0 +1,144 @@
+-- Per-user and per-enrollment FSRS retention settings
+-- Replaces the hard-coded request_retention = 0.9 / maximum_interval = 365:
+--   1. user_settings.desired_retention / maximum_interval (user default)
+--   2. user_enrollments.desired_retention / maximum_interval (per-course override, NULL = inherit)
+--   3. get_fsrs_settings(): enrollment override > user default > app default
+--   4. apply_retention_settings(): re-derive due dates of Review cards after a settings change,
+--      so the review forecast and daily plan reflect the new target immediately
+
+-- ============================================================
+-- 1. User defaults
+-- ============================================================
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS desired_retention REAL NOT NULL DEFAULT 0.9
+    CHECK (desired_retention >= 0.7 AND desired_retention <= 0.97),
+  ADD COLUMN IF NOT EXISTS maximum_interval INTEGER NOT NULL DEFAULT 365
+    CHECK (maximum_interval >= 1 AND maximum_interval <= 36500);
+
+COMMENT ON COLUMN public.user_settings.desired_retention IS 'Default FSRS request_retention for all of the user''s courses';
+COMMENT ON COLUMN public.user_settings.maximum_interval IS 'Default FSRS maximum_interval (days) for all of the user''s courses';
+
+-- ============================================================
+-- 2. Per-enrollment overrides
+-- ============================================================
+ALTER TABLE public.user_enrollments
+  ADD COLUMN IF NOT EXISTS desired_retention REAL
+    CHECK (desired_retention IS NULL OR (desired_retention >= 0.7 AND desired_retention <= 0.97)),
+  ADD COLUMN IF NOT EXISTS maximum_interval INTEGER
+    CHECK (maximum_interval IS NULL OR (maximum_interval >= 1 AND maximum_interval <= 36500));
+
+COMMENT ON COLUMN public.user_enrollments.desired_retention IS 'Course-specific FSRS request_retention; NULL inherits user_settings.desired_retention';
+COMMENT ON COLUMN public.user_enrollments.maximum_interval IS 'Course-specific FSRS maximum_interval (days); NULL inherits user_settings.maximum_interval';
+
+-- Users could previously only insert/delete their enrollments
+DROP POLICY IF EXISTS "Users can update own enrollments" ON public.user_enrollments;
+CREATE POLICY "Users can update own enrollments"
+  ON public.user_enrollments
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ============================================================
+-- 3. get_fsrs_settings(): effective settings for a user + course
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_fsrs_settings(
+  p_user_id uuid,
+  p_course_id uuid DEFAULT NULL
+)
+RETURNS TABLE(desired_retention real, maximum_interval integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(ue.desired_retention, us.desired_retention, 0.9)::real,
+    COALESCE(ue.maximum_interval, us.maximum_interval, 365)
+  FROM (SELECT 1) AS d
+  LEFT JOIN user_settings us ON us.user_id = p_user_id
+  LEFT JOIN user_enrollments ue ON ue.user_id = p_user_id AND ue.course_pack_id = p_course_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_fsrs_settings TO authenticated;
+
+COMMENT ON FUNCTION public.get_fsrs_settings IS 'Effective FSRS desired_retention / maximum_interval: enrollment override > user default > 0.9 / 365.';
+
+-- ============================================================
+-- 4. apply_retention_settings(): reschedule Review cards
+-- FSRS-6 interval for target retention R:
+--   I = S / factor * (R^(1/decay) - 1),  decay = -w20,  factor = 0.9^(1/decay) - 1
+-- clamped to [1, maximum_interval] (mirrors ts-fsrs next_interval without fuzz).
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.apply_retention_settings(
+  p_user_id uuid,
+  p_course_id uuid DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to reschedule another user''s cards';
+  END IF;
+
+  WITH card_settings AS (
+    SELECT
+      s.id,
+      s.last_reviewed_at,
+      s.stability,
+      fs.desired_retention,
+      fs.maximum_interval,
+      -- Personalized decay (w20) when fitted, else the ts-fsrs default
+      -COALESCE((get_user_fsrs_weights(p_user_id, q.course_pack_id))[21], 0.1542) AS decay
+    FROM srs_state s
+    JOIN questions q ON q.id = s.question_id
+    CROSS JOIN LATERAL get_fsrs_settings(p_user_id, q.course_pack_id) fs
+    WHERE s.user_id = p_user_id
+      AND s.state = 2
+      AND s.stability > 0
+      AND s.last_reviewed_at IS NOT NULL
+      AND (p_course_id IS NULL OR q.course_pack_id = p_course_id)
+  ),
+  new_intervals AS (
+    SELECT
+      cs.id,
+      cs.last_reviewed_at,
+      LEAST(
+        cs.maximum_interval,
+        GREATEST(
+          1,
+          ROUND(
+            cs.stability
+            / (power(0.9, 1.0 / cs.decay) - 1)
+            * (power(cs.desired_retention, 1.0 / cs.decay) - 1)
+          )::integer
+        )
+      ) AS interval_days
+    FROM card_settings cs
+  )
+  UPDATE srs_state s
+  SET
+    scheduled_days = ni.interval_days,
+    due_at = ni.last_reviewed_at + make_interval(days => ni.interval_days),
+    updated_at = now()
+  FROM new_intervals ni
+  WHERE s.id = ni.id
+    AND s.scheduled_days IS DISTINCT FROM ni.interval_days;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN json_build_object(
+    'success', true,
+    'rescheduled', v_updated,
+    'timestamp', now()
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_retention_settings TO authenticated;
+
+COMMENT ON FUNCTION public.apply_retention_settings IS 'Re-derives due_at/scheduled_days of Review-state cards from their stability and the current retention settings. Called after the user changes desired_retention or maximum_interval.';
@@ -0,0 +1,126 @@
+-- Atomic review submission
+-- Replaces the client-side read → FSRS → version-checked update → separate attempts insert
+-- in useSubmitAttempt. The submit-review edge function computes the FSRS update with the
+-- student's parameters and calls submit_review(), which in ONE transaction:
+--   1. locks the srs_state row (SELECT ... FOR UPDATE)
+--   2. checks the card is still at the version the update was computed from
+--   3. writes the new card (version + 1) and inserts the attempt
+-- On a version mismatch nothing is written and the current card is returned so the
+-- edge function can recompute and retry (see supabase/functions/_shared/review-submission.ts).
+
+-- ============================================================
+-- 1. submit_review()
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.submit_review(
+  p_user_id uuid,
+  p_question_id uuid,
+  p_expected_version integer,  -- NULL = card must not exist yet
+  p_card jsonb,                -- FSRS fields computed by the edge function
+  p_attempt jsonb              -- attempts columns (selected_choice_id, is_correct, ...)
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current srs_state%ROWTYPE;
+  v_card srs_state%ROWTYPE;
+  v_attempt_id uuid;
+BEGIN
+  SELECT * INTO v_current
+  FROM srs_state
+  WHERE user_id = p_user_id AND question_id = p_question_id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF p_expected_version IS NULL OR v_current.version <> p_expected_version THEN
+      RETURN json_build_object('committed', false, 'current', row_to_json(v_current));
+    END IF;
+
+    UPDATE srs_state
+    SET
+      due_at = (p_card->>'due_at')::timestamptz,
+      last_reviewed_at = (p_card->>'last_reviewed_at')::timestamptz,
+      reps = (p_card->>'reps')::integer,
+      stability = (p_card->>'stability')::real,
+      difficulty = (p_card->>'difficulty')::real,
+      elapsed_days = (p_card->>'elapsed_days')::real,
+      scheduled_days = (p_card->>'scheduled_days')::real,
+      lapses = (p_card->>'lapses')::integer,
+      learning_steps = (p_card->>'learning_steps')::integer,
+      state = (p_card->>'state')::smallint,
+      version = v_current.version + 1,
+      updated_at = now()
+    WHERE id = v_current.id
+    RETURNING * INTO v_card;
+  ELSE
+    IF p_expected_version IS NOT NULL THEN
+      -- Card was deleted (e.g. progress reset) since the edge function read it
+      RETURN json_build_object('committed', false, 'current', NULL);
+    END IF;
+
+    INSERT INTO srs_state (
+      user_id, question_id, due_at, last_reviewed_at, reps, stability, difficulty,
+      elapsed_days, scheduled_days, lapses, learning_steps, state, version
+    ) VALUES (
+      p_user_id,
+      p_question_id,
+      (p_card->>'due_at')::timestamptz,
+      (p_card->>'last_reviewed_at')::timestamptz,
+      (p_card->>'reps')::integer,
+      (p_card->>'stability')::real,
+      (p_card->>'difficulty')::real,
+      (p_card->>'elapsed_days')::real,
+      (p_card->>'scheduled_days')::real,
+      (p_card->>'lapses')::integer,
+      (p_card->>'learning_steps')::integer,
+      (p_card->>'state')::smallint,
+      0
+    )
+    ON CONFLICT (user_id, question_id) DO NOTHING
+    RETURNING * INTO v_card;
+
+    IF v_card.id IS NULL THEN
+      -- Another tab created the card first; hand back its row for a recompute
+      SELECT * INTO v_current
+      FROM srs_state
+      WHERE user_id = p_user_id AND question_id = p_question_id;
+      RETURN json_build_object('committed', false, 'current', row_to_json(v_current));
+    END IF;
+  END IF;
+
+  -- Same transaction: topic mastery is still handled by the attempts trigger
+  INSERT INTO attempts (
+    user_id, question_id, selected_choice_id, is_correct, confidence, hint_used,
+    guide_used, time_spent_ms, subpart_id, answer_text, fsrs_rating
+  ) VALUES (
+    p_user_id,
+    p_question_id,
+    p_attempt->>'selected_choice_id',
+    (p_attempt->>'is_correct')::boolean,
+    p_attempt->>'confidence',
+    COALESCE((p_attempt->>'hint_used')::boolean, false),
+    COALESCE((p_attempt->>'guide_used')::boolean, false),
+    (p_attempt->>'time_spent_ms')::integer,
+    p_attempt->>'subpart_id',
+    p_attempt->>'answer_text',
+    (p_attempt->>'fsrs_rating')::smallint
+  )
+  RETURNING id INTO v_attempt_id;
+
+  RETURN json_build_object(
+    'committed', true,
+    'card', row_to_json(v_card),
+    'attempt_id', v_attempt_id
+  );
+END;
+$$;
+
+-- The card is computed by the edge function; clients must not write arbitrary FSRS state
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM anon;
+GRANT EXECUTE ON FUNCTION public.submit_review TO service_role;
+
+COMMENT ON FUNCTION public.submit_review IS 'Atomically records an attempt and the FSRS-updated srs_state row if the card is still at p_expected_version; otherwise returns the current card without writing. Called by the submit-review edge function.';
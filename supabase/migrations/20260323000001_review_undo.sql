@@ -0,0 +1,309 @@
+-- Undo last answer
+-- Every review submitted through submit_review() now stores a before-image of the card and
+-- of the topic_mastery rows that trg_update_topic_mastery is about to change. undo_review()
+-- restores those before-images and deletes the attempt, so a mis-tapped answer leaves no trace.
+--   1. review_undo_snapshots table
+--   2. submit_review() records a snapshot in the same transaction
+--   3. undo_review(): restore card + mastery, delete attempt (most recent answers only)
+
+-- ============================================================
+-- 1. review_undo_snapshots table
+-- ============================================================
+CREATE TABLE public.review_undo_snapshots (
+  attempt_id UUID PRIMARY KEY REFERENCES public.attempts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  -- srs_state row before the review; NULL = the review created the card
+  srs_before JSONB,
+  -- srs_state.version written by the review (undo refuses if the card moved on)
+  srs_version_after INTEGER NOT NULL,
+  -- [{topic_id, existed, mastery_0_1, questions_attempted, ...}] before the mastery trigger ran
+  mastery_before JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_review_undo_snapshots_user_created
+  ON public.review_undo_snapshots(user_id, created_at DESC);
+
+ALTER TABLE public.review_undo_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own undo snapshots"
+  ON public.review_undo_snapshots
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.review_undo_snapshots TO authenticated;
+
+COMMENT ON TABLE public.review_undo_snapshots IS 'Before-images of srs_state and topic_mastery per attempt, written by submit_review() and consumed by undo_review(). Pruned after a day.';
+
+-- ============================================================
+-- 2. submit_review(): also store the before-image
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.submit_review(
+  p_user_id uuid,
+  p_question_id uuid,
+  p_expected_version integer,  -- NULL = card must not exist yet
+  p_card jsonb,                -- FSRS fields computed by the edge function
+  p_attempt jsonb              -- attempts columns (selected_choice_id, is_correct, ...)
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current srs_state%ROWTYPE;
+  v_card srs_state%ROWTYPE;
+  v_attempt_id uuid;
+  v_srs_before jsonb;
+  v_mastery_before jsonb;
+BEGIN
+  SELECT * INTO v_current
+  FROM srs_state
+  WHERE user_id = p_user_id AND question_id = p_question_id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF p_expected_version IS NULL OR v_current.version <> p_expected_version THEN
+      RETURN json_build_object('committed', false, 'current', row_to_json(v_current));
+    END IF;
+
+    v_srs_before := to_jsonb(v_current);
+
+    UPDATE srs_state
+    SET
+      due_at = (p_card->>'due_at')::timestamptz,
+      last_reviewed_at = (p_card->>'last_reviewed_at')::timestamptz,
+      reps = (p_card->>'reps')::integer,
+      stability = (p_card->>'stability')::real,
+      difficulty = (p_card->>'difficulty')::real,
+      elapsed_days = (p_card->>'elapsed_days')::real,
+      scheduled_days = (p_card->>'scheduled_days')::real,
+      lapses = (p_card->>'lapses')::integer,
+      learning_steps = (p_card->>'learning_steps')::integer,
+      state = (p_card->>'state')::smallint,
+      version = v_current.version + 1,
+      updated_at = now()
+    WHERE id = v_current.id
+    RETURNING * INTO v_card;
+  ELSE
+    IF p_expected_version IS NOT NULL THEN
+      -- Card was deleted (e.g. progress reset) since the edge function read it
+      RETURN json_build_object('committed', false, 'current', NULL);
+    END IF;
+
+    INSERT INTO srs_state (
+      user_id, question_id, due_at, last_reviewed_at, reps, stability, difficulty,
+      elapsed_days, scheduled_days, lapses, learning_steps, state, version
+    ) VALUES (
+      p_user_id,
+      p_question_id,
+      (p_card->>'due_at')::timestamptz,
+      (p_card->>'last_reviewed_at')::timestamptz,
+      (p_card->>'reps')::integer,
+      (p_card->>'stability')::real,
+      (p_card->>'difficulty')::real,
+      (p_card->>'elapsed_days')::real,
+      (p_card->>'scheduled_days')::real,
+      (p_card->>'lapses')::integer,
+      (p_card->>'learning_steps')::integer,
+      (p_card->>'state')::smallint,
+      0
+    )
+    ON CONFLICT (user_id, question_id) DO NOTHING
+    RETURNING * INTO v_card;
+
+    IF v_card.id IS NULL THEN
+      -- Another tab created the card first; hand back its row for a recompute
+      SELECT * INTO v_current
+      FROM srs_state
+      WHERE user_id = p_user_id AND question_id = p_question_id;
+      RETURN json_build_object('committed', false, 'current', row_to_json(v_current));
+    END IF;
+  END IF;
+
+  -- Mastery rows the attempts trigger is about to update. Read without a lock, so the parts
+  -- of one answer submitted in parallel may each see the other's update.
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'topic_id', t.topic_id,
+    'existed', tm.id IS NOT NULL,
+    'mastery_0_1', tm.mastery_0_1,
+    'questions_attempted', tm.questions_attempted,
+    'questions_correct', tm.questions_correct,
+    'last_practiced_at', tm.last_practiced_at,
+    'effective_difficulty_level', tm.effective_difficulty_level,
+    'consecutive_correct', tm.consecutive_correct,
+    'consecutive_incorrect', tm.consecutive_incorrect
+  )), '[]'::jsonb)
+  INTO v_mastery_before
+  FROM (
+    SELECT DISTINCT unnest(q.topic_ids) AS topic_id
+    FROM questions q
+    WHERE q.id = p_question_id
+  ) t
+  LEFT JOIN topic_mastery tm ON tm.user_id = p_user_id AND tm.topic_id = t.topic_id;
+
+  -- Same transaction: topic mastery is still handled by the attempts trigger
+  INSERT INTO attempts (
+    user_id, question_id, selected_choice_id, is_correct, confidence, hint_used,
+    guide_used, time_spent_ms, subpart_id, answer_text, fsrs_rating
+  ) VALUES (
+    p_user_id,
+    p_question_id,
+    p_attempt->>'selected_choice_id',
+    (p_attempt->>'is_correct')::boolean,
+    p_attempt->>'confidence',
+    COALESCE((p_attempt->>'hint_used')::boolean, false),
+    COALESCE((p_attempt->>'guide_used')::boolean, false),
+    (p_attempt->>'time_spent_ms')::integer,
+    p_attempt->>'subpart_id',
+    p_attempt->>'answer_text',
+    (p_attempt->>'fsrs_rating')::smallint
+  )
+  RETURNING id INTO v_attempt_id;
+
+  INSERT INTO review_undo_snapshots (attempt_id, user_id, question_id, srs_before, srs_version_after, mastery_before)
+  VALUES (v_attempt_id, p_user_id, p_question_id, v_srs_before, v_card.version, v_mastery_before);
+
+  -- Only recent answers are undoable
+  DELETE FROM review_undo_snapshots
+  WHERE user_id = p_user_id
+    AND created_at < now() - interval '1 day';
+
+  RETURN json_build_object(
+    'committed', true,
+    'card', row_to_json(v_card),
+    'attempt_id', v_attempt_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM anon;
+GRANT EXECUTE ON FUNCTION public.submit_review TO service_role;
+
+-- ============================================================
+-- 3. undo_review(): restore before-images and delete the attempts
+-- Attempts are undone newest first; each must be the user's most recent remaining
+-- attempt, so restoring the before-image cannot overwrite a later review.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.undo_review(
+  p_attempt_ids uuid[]  -- all attempts of one answer (several for multi-part questions)
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  r RECORD;
+  v_topic jsonb;
+  v_latest_id uuid;
+  v_undone integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR r IN
+    SELECT a.id, a.question_id, s.attempt_id AS snapshot_id, s.srs_before, s.srs_version_after, s.mastery_before
+    FROM attempts a
+    LEFT JOIN review_undo_snapshots s ON s.attempt_id = a.id
+    WHERE a.id = ANY(p_attempt_ids)
+      AND a.user_id = v_user_id
+    ORDER BY a.created_at DESC, a.id DESC
+    FOR UPDATE OF a
+  LOOP
+    IF r.snapshot_id IS NULL THEN
+      RAISE EXCEPTION 'This answer can no longer be undone';
+    END IF;
+
+    SELECT id INTO v_latest_id
+    FROM attempts
+    WHERE user_id = v_user_id
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1;
+
+    IF v_latest_id <> r.id THEN
+      RAISE EXCEPTION 'Only your most recent answer can be undone';
+    END IF;
+
+    -- Card: must still be exactly as this review left it
+    PERFORM 1
+    FROM srs_state
+    WHERE user_id = v_user_id
+      AND question_id = r.question_id
+      AND version = r.srs_version_after
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This card has changed since the answer was recorded';
+    END IF;
+
+    IF r.srs_before IS NULL THEN
+      DELETE FROM srs_state
+      WHERE user_id = v_user_id AND question_id = r.question_id;
+    ELSE
+      UPDATE srs_state
+      SET
+        due_at = (r.srs_before->>'due_at')::timestamptz,
+        last_reviewed_at = (r.srs_before->>'last_reviewed_at')::timestamptz,
+        reps = (r.srs_before->>'reps')::integer,
+        stability = (r.srs_before->>'stability')::real,
+        difficulty = (r.srs_before->>'difficulty')::real,
+        elapsed_days = (r.srs_before->>'elapsed_days')::real,
+        scheduled_days = (r.srs_before->>'scheduled_days')::real,
+        lapses = (r.srs_before->>'lapses')::integer,
+        learning_steps = (r.srs_before->>'learning_steps')::integer,
+        state = (r.srs_before->>'state')::smallint,
+        -- Bump rather than restore so a tab holding the undone card still conflicts
+        version = r.srs_version_after + 1,
+        updated_at = now()
+      WHERE user_id = v_user_id AND question_id = r.question_id;
+    END IF;
+
+    -- Mastery: reverse the trigger's EMA / streak / difficulty update
+    FOR v_topic IN SELECT * FROM jsonb_array_elements(r.mastery_before)
+    LOOP
+      IF (v_topic->>'existed')::boolean THEN
+        UPDATE topic_mastery
+        SET
+          mastery_0_1 = (v_topic->>'mastery_0_1')::numeric,
+          questions_attempted = (v_topic->>'questions_attempted')::integer,
+          questions_correct = (v_topic->>'questions_correct')::integer,
+          last_practiced_at = (v_topic->>'last_practiced_at')::timestamptz,
+          effective_difficulty_level = (v_topic->>'effective_difficulty_level')::integer,
+          consecutive_correct = (v_topic->>'consecutive_correct')::integer,
+          consecutive_incorrect = (v_topic->>'consecutive_incorrect')::integer,
+          updated_at = now()
+        WHERE user_id = v_user_id
+          AND topic_id = (v_topic->>'topic_id')::uuid;
+      ELSE
+        DELETE FROM topic_mastery
+        WHERE user_id = v_user_id
+          AND topic_id = (v_topic->>'topic_id')::uuid;
+      END IF;
+    END LOOP;
+
+    -- Snapshot goes with it (ON DELETE CASCADE)
+    DELETE FROM attempts WHERE id = r.id;
+    v_undone := v_undone + 1;
+  END LOOP;
+
+  IF v_undone <> COALESCE(array_length(p_attempt_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Answer not found';
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'undone', v_undone
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.undo_review TO authenticated;
+
+COMMENT ON FUNCTION public.undo_review IS 'Undoes the caller''s most recent answer: restores the srs_state and topic_mastery before-images stored by submit_review() and deletes the attempts. All-or-nothing.';
@@ -0,0 +1,343 @@
+-- FSRS review log + replay
+-- srs_state only holds the current card and attempts only the rating. review_logs keeps a
+-- ts-fsrs ReviewLog per review (card before/after, elapsed and scheduled days, rating), so
+-- the replay-reviews edge function can rebuild a user's srs_state from scratch with the
+-- current parameters — re-fitted weights, retention changes and scheduling fixes then
+-- apply retroactively.
+--   1. review_logs table
+--   2. Backfill from rated attempts (rating + time only; before/after filled by the first replay)
+--   3. submit_review() writes the log in the same transaction
+--   4. apply_review_replay(): write replayed cards + logs atomically
+
+-- ============================================================
+-- 1. review_logs table
+-- ============================================================
+CREATE TABLE public.review_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  -- Undoing the attempt removes its log entry
+  attempt_id UUID UNIQUE REFERENCES public.attempts(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 4),
+  reviewed_at TIMESTAMPTZ NOT NULL,
+  -- Card before the review (NULL only for backfilled rows not yet replayed)
+  state SMALLINT,
+  due TIMESTAMPTZ,
+  stability REAL,
+  difficulty REAL,
+  learning_steps INTEGER,
+  -- Card after the review
+  state_after SMALLINT,
+  due_after TIMESTAMPTZ,
+  stability_after REAL,
+  difficulty_after REAL,
+  learning_steps_after INTEGER,
+  elapsed_days REAL,
+  scheduled_days REAL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_review_logs_user_reviewed ON public.review_logs(user_id, reviewed_at);
+CREATE INDEX idx_review_logs_user_question ON public.review_logs(user_id, question_id, reviewed_at);
+
+ALTER TABLE public.review_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own review logs"
+  ON public.review_logs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.review_logs TO authenticated;
+
+COMMENT ON TABLE public.review_logs IS 'One row per FSRS review, modeled on ts-fsrs ReviewLog (state/due/stability/difficulty are the card BEFORE the review). Written by submit_review(), rewritten by apply_review_replay().';
+COMMENT ON COLUMN public.review_logs.elapsed_days IS 'Days since the previous review of the card (ts-fsrs ReviewLog.elapsed_days)';
+COMMENT ON COLUMN public.review_logs.scheduled_days IS 'Interval scheduled by this review (ts-fsrs ReviewLog.scheduled_days)';
+
+-- ============================================================
+-- 2. Backfill from rated attempts
+-- ============================================================
+INSERT INTO public.review_logs (user_id, question_id, attempt_id, rating, reviewed_at)
+SELECT a.user_id, a.question_id, a.id, a.fsrs_rating, a.created_at
+FROM public.attempts a
+WHERE a.fsrs_rating BETWEEN 1 AND 4
+ON CONFLICT (attempt_id) DO NOTHING;
+
+-- ============================================================
+-- 3. submit_review(): also write the review log
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.submit_review(
+  p_user_id uuid,
+  p_question_id uuid,
+  p_expected_version integer,  -- NULL = card must not exist yet
+  p_card jsonb,                -- FSRS fields computed by the edge function
+  p_attempt jsonb              -- attempts columns (selected_choice_id, is_correct, ...)
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current srs_state%ROWTYPE;
+  v_card srs_state%ROWTYPE;
+  v_attempt_id uuid;
+  v_srs_before jsonb;
+  v_mastery_before jsonb;
+BEGIN
+  SELECT * INTO v_current
+  FROM srs_state
+  WHERE user_id = p_user_id AND question_id = p_question_id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF p_expected_version IS NULL OR v_current.version <> p_expected_version THEN
+      RETURN json_build_object('committed', false, 'current', row_to_json(v_current));
+    END IF;
+
+    v_srs_before := to_jsonb(v_current);
+
+    UPDATE srs_state
+    SET
+      due_at = (p_card->>'due_at')::timestamptz,
+      last_reviewed_at = (p_card->>'last_reviewed_at')::timestamptz,
+      reps = (p_card->>'reps')::integer,
+      stability = (p_card->>'stability')::real,
+      difficulty = (p_card->>'difficulty')::real,
+      elapsed_days = (p_card->>'elapsed_days')::real,
+      scheduled_days = (p_card->>'scheduled_days')::real,
+      lapses = (p_card->>'lapses')::integer,
+      learning_steps = (p_card->>'learning_steps')::integer,
+      state = (p_card->>'state')::smallint,
+      version = v_current.version + 1,
+      updated_at = now()
+    WHERE id = v_current.id
+    RETURNING * INTO v_card;
+  ELSE
+    IF p_expected_version IS NOT NULL THEN
+      -- Card was deleted (e.g. progress reset) since the edge function read it
+      RETURN json_build_object('committed', false, 'current', NULL);
+    END IF;
+
+    INSERT INTO srs_state (
+      user_id, question_id, due_at, last_reviewed_at, reps, stability, difficulty,
+      elapsed_days, scheduled_days, lapses, learning_steps, state, version
+    ) VALUES (
+      p_user_id,
+      p_question_id,
+      (p_card->>'due_at')::timestamptz,
+      (p_card->>'last_reviewed_at')::timestamptz,
+      (p_card->>'reps')::integer,
+      (p_card->>'stability')::real,
+      (p_card->>'difficulty')::real,
+      (p_card->>'elapsed_days')::real,
+      (p_card->>'scheduled_days')::real,
+      (p_card->>'lapses')::integer,
+      (p_card->>'learning_steps')::integer,
+      (p_card->>'state')::smallint,
+      0
+    )
+    ON CONFLICT (user_id, question_id) DO NOTHING
+    RETURNING * INTO v_card;
+
+    IF v_card.id IS NULL THEN
+      -- Another tab created the card first; hand back its row for a recompute
+      SELECT * INTO v_current
+      FROM srs_state
+      WHERE user_id = p_user_id AND question_id = p_question_id;
+      RETURN json_build_object('committed', false, 'current', row_to_json(v_current));
+    END IF;
+  END IF;
+
+  -- Mastery rows the attempts trigger is about to update. Read without a lock, so the parts
+  -- of one answer submitted in parallel may each see the other's update.
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'topic_id', t.topic_id,
+    'existed', tm.id IS NOT NULL,
+    'mastery_0_1', tm.mastery_0_1,
+    'questions_attempted', tm.questions_attempted,
+    'questions_correct', tm.questions_correct,
+    'last_practiced_at', tm.last_practiced_at,
+    'effective_difficulty_level', tm.effective_difficulty_level,
+    'consecutive_correct', tm.consecutive_correct,
+    'consecutive_incorrect', tm.consecutive_incorrect
+  )), '[]'::jsonb)
+  INTO v_mastery_before
+  FROM (
+    SELECT DISTINCT unnest(q.topic_ids) AS topic_id
+    FROM questions q
+    WHERE q.id = p_question_id
+  ) t
+  LEFT JOIN topic_mastery tm ON tm.user_id = p_user_id AND tm.topic_id = t.topic_id;
+
+  -- Same transaction: topic mastery is still handled by the attempts trigger
+  INSERT INTO attempts (
+    user_id, question_id, selected_choice_id, is_correct, confidence, hint_used,
+    guide_used, time_spent_ms, subpart_id, answer_text, fsrs_rating
+  ) VALUES (
+    p_user_id,
+    p_question_id,
+    p_attempt->>'selected_choice_id',
+    (p_attempt->>'is_correct')::boolean,
+    p_attempt->>'confidence',
+    COALESCE((p_attempt->>'hint_used')::boolean, false),
+    COALESCE((p_attempt->>'guide_used')::boolean, false),
+    (p_attempt->>'time_spent_ms')::integer,
+    p_attempt->>'subpart_id',
+    p_attempt->>'answer_text',
+    (p_attempt->>'fsrs_rating')::smallint
+  )
+  RETURNING id INTO v_attempt_id;
+
+  -- Review log (ts-fsrs ReviewLog: card before, card after, rating)
+  INSERT INTO review_logs (
+    user_id, question_id, attempt_id, rating, reviewed_at,
+    state, due, stability, difficulty, learning_steps,
+    state_after, due_after, stability_after, difficulty_after, learning_steps_after,
+    elapsed_days, scheduled_days
+  ) VALUES (
+    p_user_id,
+    p_question_id,
+    v_attempt_id,
+    (p_attempt->>'fsrs_rating')::smallint,
+    COALESCE(v_card.last_reviewed_at, now()),
+    COALESCE((v_srs_before->>'state')::smallint, 0),
+    COALESCE((v_srs_before->>'due_at')::timestamptz, v_card.last_reviewed_at, now()),
+    COALESCE((v_srs_before->>'stability')::real, 0),
+    COALESCE((v_srs_before->>'difficulty')::real, 0),
+    COALESCE((v_srs_before->>'learning_steps')::integer, 0),
+    v_card.state,
+    v_card.due_at,
+    v_card.stability,
+    v_card.difficulty,
+    v_card.learning_steps,
+    v_card.elapsed_days,
+    v_card.scheduled_days
+  );
+
+  INSERT INTO review_undo_snapshots (attempt_id, user_id, question_id, srs_before, srs_version_after, mastery_before)
+  VALUES (v_attempt_id, p_user_id, p_question_id, v_srs_before, v_card.version, v_mastery_before);
+
+  -- Only recent answers are undoable
+  DELETE FROM review_undo_snapshots
+  WHERE user_id = p_user_id
+    AND created_at < now() - interval '1 day';
+
+  RETURN json_build_object(
+    'committed', true,
+    'card', row_to_json(v_card),
+    'attempt_id', v_attempt_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM anon;
+GRANT EXECUTE ON FUNCTION public.submit_review TO service_role;
+
+-- ============================================================
+-- 4. apply_review_replay(): write a replay computed by the edge function
+-- Refuses (committed = false) if a review was logged after the replay read the log,
+-- so a concurrent answer is never overwritten.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.apply_review_replay(
+  p_user_id uuid,
+  p_latest_log_id uuid,  -- newest review_logs.id the replay saw (NULL = empty log)
+  p_cards jsonb,         -- [{question_id, due_at, last_reviewed_at, reps, stability, ...}]
+  p_logs jsonb           -- [{id, state, due, stability, difficulty, learning_steps, *_after, elapsed_days, scheduled_days}]
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_latest_id uuid;
+  v_cards integer := 0;
+  v_logs integer := 0;
+BEGIN
+  -- Block concurrent submit_review() calls for this user until commit
+  PERFORM 1 FROM srs_state WHERE user_id = p_user_id FOR UPDATE;
+
+  SELECT id INTO v_latest_id
+  FROM review_logs
+  WHERE user_id = p_user_id
+  ORDER BY reviewed_at DESC, id DESC
+  LIMIT 1;
+
+  IF v_latest_id IS DISTINCT FROM p_latest_log_id THEN
+    RETURN json_build_object('committed', false);
+  END IF;
+
+  INSERT INTO srs_state (
+    user_id, question_id, due_at, last_reviewed_at, reps, stability, difficulty,
+    elapsed_days, scheduled_days, lapses, learning_steps, state, version
+  )
+  SELECT
+    p_user_id, c.question_id, c.due_at, c.last_reviewed_at, c.reps, c.stability, c.difficulty,
+    c.elapsed_days, c.scheduled_days, c.lapses, c.learning_steps, c.state, 0
+  FROM jsonb_to_recordset(p_cards) AS c(
+    question_id uuid, due_at timestamptz, last_reviewed_at timestamptz, reps integer,
+    stability real, difficulty real, elapsed_days real, scheduled_days real,
+    lapses integer, learning_steps integer, state smallint
+  )
+  ON CONFLICT (user_id, question_id) DO UPDATE SET
+    due_at = EXCLUDED.due_at,
+    last_reviewed_at = EXCLUDED.last_reviewed_at,
+    reps = EXCLUDED.reps,
+    stability = EXCLUDED.stability,
+    difficulty = EXCLUDED.difficulty,
+    elapsed_days = EXCLUDED.elapsed_days,
+    scheduled_days = EXCLUDED.scheduled_days,
+    lapses = EXCLUDED.lapses,
+    learning_steps = EXCLUDED.learning_steps,
+    state = EXCLUDED.state,
+    version = srs_state.version + 1,
+    updated_at = now();
+
+  GET DIAGNOSTICS v_cards = ROW_COUNT;
+
+  UPDATE review_logs rl
+  SET
+    state = l.state,
+    due = l.due,
+    stability = l.stability,
+    difficulty = l.difficulty,
+    learning_steps = l.learning_steps,
+    state_after = l.state_after,
+    due_after = l.due_after,
+    stability_after = l.stability_after,
+    difficulty_after = l.difficulty_after,
+    learning_steps_after = l.learning_steps_after,
+    elapsed_days = l.elapsed_days,
+    scheduled_days = l.scheduled_days,
+    updated_at = now()
+  FROM jsonb_to_recordset(p_logs) AS l(
+    id uuid, state smallint, due timestamptz, stability real, difficulty real, learning_steps integer,
+    state_after smallint, due_after timestamptz, stability_after real, difficulty_after real,
+    learning_steps_after integer, elapsed_days real, scheduled_days real
+  )
+  WHERE rl.id = l.id
+    AND rl.user_id = p_user_id;
+
+  GET DIAGNOSTICS v_logs = ROW_COUNT;
+
+  -- Before-images no longer match the rewritten cards
+  DELETE FROM review_undo_snapshots WHERE user_id = p_user_id;
+
+  RETURN json_build_object(
+    'committed', true,
+    'cards', v_cards,
+    'reviews', v_logs
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_review_replay FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.apply_review_replay FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_review_replay FROM anon;
+GRANT EXECUTE ON FUNCTION public.apply_review_replay TO service_role;
+
+COMMENT ON FUNCTION public.apply_review_replay IS 'Writes srs_state and review_logs rebuilt by the replay-reviews edge function, unless a newer review was logged meanwhile. Clears the user''s undo snapshots.';
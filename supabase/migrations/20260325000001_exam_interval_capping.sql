@@ -0,0 +1,117 @@
+-- Exam-aware interval capping
+-- FSRS may schedule a card 40 days out while the midterm covering it is in 10 days.
+-- When a card's due date falls on or after the next exam that covers one of its topics,
+-- the due date is pulled into the final days before that exam so it gets one more review
+-- while it still counts. submit-review / replay-reviews apply the same rule in TypeScript
+-- (_shared/exam-capping.ts) when scheduling; this migration adds:
+--   1. get_question_exam_dates(): exams covering each question
+--   2. cap_due_dates_for_exams(): apply the cap to cards scheduled before an exam was known
+--
+-- Coverage: a numbered midterm ("Midterm 2", "Exam 2") covers topics with that
+-- midterm_coverage; finals and unnumbered exams cover the whole course.
+-- Dates: event_date is a DATE; the exam is taken to start at 00:00 UTC that day.
+
+-- ============================================================
+-- 1. get_question_exam_dates
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_question_exam_dates(
+  p_question_ids uuid[]
+)
+RETURNS TABLE(
+  question_id uuid,
+  exam_date date,
+  exam_title text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT q.id, ce.event_date, ce.title
+  FROM questions q
+  JOIN calendar_events ce ON ce.course_pack_id = q.course_pack_id
+  WHERE q.id = ANY(p_question_ids)
+    AND ce.event_type IN ('midterm', 'exam', 'final')
+    AND ce.event_date IS NOT NULL
+    AND (
+      ce.event_type = 'final'
+      OR ce.title ~* 'final'
+      OR ce.title !~* '(?:midterm|exam)\s*\d'
+      OR EXISTS (
+        SELECT 1
+        FROM unnest(q.topic_ids) AS ut(topic_uuid)
+        JOIN topics t ON t.id = ut.topic_uuid
+        WHERE t.midterm_coverage = (regexp_match(ce.title, '(?:midterm|exam)\s*(\d)', 'i'))[1]::int
+      )
+    )
+  ORDER BY q.id, ce.event_date;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_question_exam_dates TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_question_exam_dates TO service_role;
+
+COMMENT ON FUNCTION public.get_question_exam_dates IS 'Exams (midterm/exam/final calendar events) covering each question, via topics.midterm_coverage. Finals and unnumbered exams cover the whole course.';
+
+-- ============================================================
+-- 2. cap_due_dates_for_exams
+-- Same rule as capDueForExam() in _shared/exam-capping.ts:
+--   reviewed before the final 3 days and due on/after the exam
+--   → due 2 days before the exam
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.cap_due_dates_for_exams(
+  p_user_id uuid
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_capped integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to reschedule another user''s cards';
+  END IF;
+
+  WITH exams AS (
+    SELECT e.question_id, e.exam_date::timestamp AT TIME ZONE 'UTC' AS exam_start
+    FROM get_question_exam_dates(
+      ARRAY(SELECT s.question_id FROM srs_state s WHERE s.user_id = p_user_id AND s.state <> 0)
+    ) e
+  ),
+  next_exam AS (
+    SELECT s.id, MIN(e.exam_start) AS exam_start
+    FROM srs_state s
+    JOIN exams e ON e.question_id = s.question_id
+    WHERE s.user_id = p_user_id
+      AND s.last_reviewed_at IS NOT NULL
+      AND e.exam_start > s.last_reviewed_at
+    GROUP BY s.id
+  )
+  UPDATE srs_state s
+  SET
+    due_at = ne.exam_start - interval '2 days',
+    scheduled_days = GREATEST(
+      0,
+      ROUND(EXTRACT(EPOCH FROM (ne.exam_start - interval '2 days' - s.last_reviewed_at)) / 86400)
+    )::real,
+    version = s.version + 1,
+    updated_at = now()
+  FROM next_exam ne
+  WHERE s.id = ne.id
+    AND s.due_at >= ne.exam_start
+    AND s.last_reviewed_at < ne.exam_start - interval '3 days';
+
+  GET DIAGNOSTICS v_capped = ROW_COUNT;
+
+  RETURN json_build_object(
+    'success', true,
+    'capped', v_capped,
+    'timestamp', now()
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cap_due_dates_for_exams TO authenticated;
+
+COMMENT ON FUNCTION public.cap_due_dates_for_exams IS 'Pulls due dates that fall on or after the next covering exam into the final days before it. Run on app load (new exams on the calendar) and after retention changes reschedule cards.';
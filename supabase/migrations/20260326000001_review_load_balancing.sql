@@ -0,0 +1,133 @@
+-- Review load balancing
+-- New reviews are spread across days by the submit-review edge function, which picks the
+-- least-loaded day within the ts-fsrs fuzz range (_shared/load-balancing.ts) using
+-- get_review_forecast. This migration adds the one-time counterpart for cards that are
+-- already overdue:
+--   smooth_review_backlog(): redistribute overdue cards over the next N days by priority
+
+-- ============================================================
+-- smooth_review_backlog
+-- Fills the next p_days days up to an even daily target (existing due cards + backlog),
+-- earliest days first, taking overdue cards in priority order:
+--   1. cards on an exam within the window, soonest exam first
+--   2. lowest retrievability first (FSRS forgetting curve, default decay)
+-- Cards on an exam are never moved to or past the exam day.
+-- Only due_at changes; the next review schedules as usual.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.smooth_review_backlog(
+  p_user_id uuid,
+  p_days integer DEFAULT 7
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today date := current_date;
+  v_load integer[];
+  v_overdue integer;
+  v_target integer;
+  v_day integer := 1;      -- 1-based index into v_load; 1 = today
+  v_slot integer;
+  v_moved integer := 0;
+  v_card record;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to reschedule another user''s cards';
+  END IF;
+
+  IF p_days < 2 OR p_days > 60 THEN
+    RAISE EXCEPTION 'p_days must be between 2 and 60';
+  END IF;
+
+  -- Cards already due on each day of the window (overdue excluded)
+  SELECT array_agg(COALESCE(c.n, 0) ORDER BY d.day)
+  INTO v_load
+  FROM generate_series(0, p_days - 1) AS d(day)
+  LEFT JOIN (
+    SELECT (s.due_at::date - v_today) AS day, COUNT(*)::integer AS n
+    FROM srs_state s
+    WHERE s.user_id = p_user_id
+      AND s.state IN (1, 2, 3)
+      AND s.due_at::date >= v_today
+      AND s.due_at::date < v_today + p_days
+    GROUP BY 1
+  ) c ON c.day = d.day;
+
+  SELECT COUNT(*)::integer
+  INTO v_overdue
+  FROM srs_state s
+  WHERE s.user_id = p_user_id
+    AND s.state IN (1, 2, 3)
+    AND s.due_at::date < v_today;
+
+  IF v_overdue = 0 THEN
+    RETURN json_build_object('success', true, 'overdue', 0, 'moved', 0, 'days', p_days);
+  END IF;
+
+  v_target := CEIL((v_overdue + (SELECT SUM(x) FROM unnest(v_load) AS x))::numeric / p_days);
+
+  FOR v_card IN
+    WITH overdue AS (
+      SELECT s.id, s.question_id, s.stability, s.last_reviewed_at
+      FROM srs_state s
+      WHERE s.user_id = p_user_id
+        AND s.state IN (1, 2, 3)
+        AND s.due_at::date < v_today
+    ),
+    next_exam AS (
+      SELECT e.question_id, MIN(e.exam_date) AS exam_date
+      FROM get_question_exam_dates(ARRAY(SELECT o.question_id FROM overdue o)) e
+      WHERE e.exam_date > v_today
+      GROUP BY e.question_id
+    )
+    SELECT
+      o.id,
+      CASE WHEN ne.exam_date < v_today + p_days THEN ne.exam_date END AS exam_date,
+      CASE
+        WHEN o.last_reviewed_at IS NULL OR o.stability IS NULL OR o.stability <= 0 THEN 0
+        ELSE power(
+          1 + (power(0.9, -1.0 / 0.1542) - 1)
+            * (EXTRACT(EPOCH FROM (now() - o.last_reviewed_at)) / 86400) / o.stability,
+          -0.1542
+        )
+      END AS r
+    FROM overdue o
+    LEFT JOIN next_exam ne ON ne.question_id = o.question_id
+    ORDER BY 2 ASC NULLS LAST, 3 ASC, o.id
+  LOOP
+    WHILE v_day < p_days AND v_load[v_day] >= v_target LOOP
+      v_day := v_day + 1;
+    END LOOP;
+
+    v_slot := v_day;
+    IF v_card.exam_date IS NOT NULL THEN
+      v_slot := GREATEST(1, LEAST(v_slot, v_card.exam_date - v_today));
+    END IF;
+    v_load[v_slot] := v_load[v_slot] + 1;
+
+    -- Today's share stays due as is
+    IF v_slot > 1 THEN
+      UPDATE srs_state
+      SET
+        due_at = (v_today + (v_slot - 1))::timestamp AT TIME ZONE 'UTC',
+        version = version + 1,
+        updated_at = now()
+      WHERE id = v_card.id;
+      v_moved := v_moved + 1;
+    END IF;
+  END LOOP;
+
+  RETURN json_build_object(
+    'success', true,
+    'overdue', v_overdue,
+    'moved', v_moved,
+    'days', p_days
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.smooth_review_backlog TO authenticated;
+
+COMMENT ON FUNCTION public.smooth_review_backlog IS 'Spreads the user''s overdue cards over the next p_days days, evening out the daily load; exam-bound and least-retained cards come first. One-time action from the review forecast.';
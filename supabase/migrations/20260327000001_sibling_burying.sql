@@ -0,0 +1,599 @@
+-- Sibling burying
+-- Questions sharing a parent (parent_question_id) are scheduled independently, so a
+-- student could see two items of the same exam problem in one session and one would
+-- give the other away. Once one item of a family is reviewed, its siblings are
+-- deferred for the course's bury window. The study session (useAdaptiveSequencer) drops
+-- siblings from the rest of the queue; this migration covers the server-side plans:
+--   1. course_packs.sibling_bury_days (0 = off)
+--   2. get_buried_question_ids(): siblings of items reviewed within the window
+--   3. build_daily_plan() excludes buried questions
+--   4. get_recommended_questions() excludes buried questions
+--
+-- Family: COALESCE(parent_question_id, id), so a question, its parent and the parent's
+-- other children share one family.
+
+-- ============================================================
+-- 1. Per-course bury window
+-- ============================================================
+ALTER TABLE public.course_packs
+  ADD COLUMN IF NOT EXISTS sibling_bury_days INTEGER NOT NULL DEFAULT 1
+    CHECK (sibling_bury_days BETWEEN 0 AND 14);
+
+COMMENT ON COLUMN public.course_packs.sibling_bury_days IS 'Days a question''s siblings (same parent_question_id family) are deferred after one of them is reviewed. 1 = rest of the day, 0 = off.';
+
+-- ============================================================
+-- 2. get_buried_question_ids
+-- A sibling is buried while review_day + sibling_bury_days > today.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_buried_question_ids(
+  p_user_id uuid
+)
+RETURNS TABLE(question_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH recent_reviews AS (
+    SELECT a.question_id, MAX(a.created_at)::date AS review_day
+    FROM attempts a
+    WHERE a.user_id = p_user_id
+      AND a.created_at >= current_date - 14
+    GROUP BY a.question_id
+  )
+  SELECT DISTINCT sib.id
+  FROM recent_reviews r
+  JOIN questions rq ON rq.id = r.question_id
+  JOIN course_packs cp ON cp.id = rq.course_pack_id
+  JOIN questions sib
+    ON COALESCE(sib.parent_question_id, sib.id) = COALESCE(rq.parent_question_id, rq.id)
+   AND sib.id <> rq.id
+  WHERE cp.sibling_bury_days > 0
+    AND r.review_day + cp.sibling_bury_days > current_date;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_buried_question_ids TO authenticated;
+
+COMMENT ON FUNCTION public.get_buried_question_ids IS 'Questions whose sibling (same parent_question_id family) the user reviewed within the course''s sibling_bury_days. Excluded by build_daily_plan and get_recommended_questions.';
+
+-- ============================================================
+-- 3. build_daily_plan: skip buried siblings
+-- Same as 20260223000003 plus v_buried.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.build_daily_plan(
+  p_user_id uuid,
+  p_course_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 10,
+  p_current_week integer DEFAULT NULL,  -- kept for API compatibility; no longer used
+  p_pace_offset integer DEFAULT 1
+)
+RETURNS SETOF daily_plan_question
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_behind boolean := false;
+  v_days_since_practice integer;
+  v_low_mastery_count integer;
+  v_total_eligible_topics integer;
+  v_recent_accuracy numeric;
+  v_unpracticed_count integer;
+
+  v_review_quota integer := 2;
+  v_current_quota integer := 2;
+  v_bridge_quota integer := 0;
+  v_stretch_quota integer := 1;
+
+  v_review_count integer := 0;
+  v_current_count integer := 0;
+  v_bridge_count integer := 0;
+  v_stretch_count integer := 0;
+  v_total_count integer := 0;
+
+  v_user_difficulty integer;
+  v_next_exam_days integer;
+  v_next_exam_name text;
+  v_buried uuid[];
+BEGIN
+  -- Siblings of recently reviewed items are deferred (course_packs.sibling_bury_days)
+  v_buried := ARRAY(SELECT b.question_id FROM get_buried_question_ids(p_user_id) b);
+
+  -- User's average difficulty level
+  SELECT COALESCE(AVG(effective_difficulty_level), 3)::integer
+  INTO v_user_difficulty
+  FROM topic_mastery
+  WHERE user_id = p_user_id;
+
+  -- Next upcoming exam
+  SELECT
+    EXTRACT(DAY FROM (ce.event_date - CURRENT_DATE))::integer,
+    ce.title
+  INTO v_next_exam_days, v_next_exam_name
+  FROM calendar_events ce
+  WHERE ce.event_type IN ('midterm', 'exam', 'final')
+    AND ce.event_date >= CURRENT_DATE
+    AND (p_course_id IS NULL OR ce.course_pack_id = p_course_id)
+  ORDER BY ce.event_date ASC
+  LIMIT 1;
+
+  v_next_exam_days := COALESCE(v_next_exam_days, 30);
+  v_next_exam_name := COALESCE(v_next_exam_name, 'upcoming exam');
+
+  -- === BEHIND DETECTION ===
+
+  SELECT EXTRACT(DAY FROM (now() - MAX(last_practiced_at)))::integer
+  INTO v_days_since_practice
+  FROM topic_mastery
+  WHERE user_id = p_user_id;
+  v_days_since_practice := COALESCE(v_days_since_practice, 999);
+
+  -- Low mastery topics (no schedule filter — scheduled_date was dropped)
+  SELECT COUNT(*)
+  INTO v_low_mastery_count
+  FROM topic_mastery tm
+  JOIN topics t ON tm.topic_id = t.id
+  WHERE tm.user_id = p_user_id
+    AND tm.mastery_0_1 < 0.5
+    AND (p_course_id IS NULL OR t.course_pack_id = p_course_id);
+
+  -- Total eligible topics
+  SELECT COUNT(*)
+  INTO v_total_eligible_topics
+  FROM topics t
+  WHERE (p_course_id IS NULL OR t.course_pack_id = p_course_id);
+  v_total_eligible_topics := GREATEST(v_total_eligible_topics, 1);
+
+  -- Recent accuracy (last 10 attempts)
+  SELECT COALESCE(AVG(CASE WHEN is_correct THEN 1.0 ELSE 0.0 END), 0.5)
+  INTO v_recent_accuracy
+  FROM (
+    SELECT is_correct
+    FROM attempts
+    WHERE user_id = p_user_id
+    ORDER BY created_at DESC
+    LIMIT 10
+  ) recent;
+
+  -- Unpracticed topics
+  SELECT COUNT(*)
+  INTO v_unpracticed_count
+  FROM topics t
+  WHERE (p_course_id IS NULL OR t.course_pack_id = p_course_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM topic_mastery tm
+      WHERE tm.topic_id = t.id AND tm.user_id = p_user_id
+    );
+
+  v_is_behind := (
+    v_days_since_practice > 3 OR
+    (v_low_mastery_count::numeric / v_total_eligible_topics) > 0.5 OR
+    v_recent_accuracy < 0.6 OR
+    (v_unpracticed_count::numeric / v_total_eligible_topics) > 0.4
+  );
+
+  -- Set quotas
+  IF v_is_behind THEN
+    v_review_quota  := 2;
+    v_current_quota := 0;
+    v_bridge_quota  := GREATEST(3, p_limit - 2);
+    v_stretch_quota := 0;
+  ELSE
+    v_review_quota  := GREATEST(2, (p_limit * 0.3)::integer);
+    v_current_quota := GREATEST(2, (p_limit * 0.4)::integer);
+    v_bridge_quota  := 0;
+    v_stretch_quota := GREATEST(1, (p_limit * 0.1)::integer);
+  END IF;
+
+  -- ============================================================
+  -- 1. REVIEW — SRS overdue (no topics join needed)
+  -- ============================================================
+  RETURN QUERY
+  WITH review_candidates AS (
+    SELECT
+      q.id                                        AS question_id,
+      q.prompt,
+      q.choices,
+      q.correct_answer,
+      q.hint,
+      q.solution_steps,
+      COALESCE(q.difficulty, 3)                   AS difficulty,
+      q.source_exam,
+      q.topic_ids,
+      q.question_type_id,
+      'review'::text                              AS category,
+      CASE
+        WHEN srs.state IN (1, 3) AND srs.due_at <= now() THEN
+          'Learning/Relearning card - high priority'
+        WHEN srs.due_at < now() - interval '7 days' THEN
+          'Overdue by ' || EXTRACT(DAY FROM (now() - srs.due_at))::integer || ' days'
+        WHEN srs.due_at < now() THEN 'Due for review'
+        ELSE 'Retention refresh'
+      END                                         AS why_selected,
+      CASE
+        WHEN srs.state IN (1, 3) AND srs.due_at <= now() THEN 1000.0
+        WHEN srs.due_at <= now() THEN
+          LEAST(500.0, EXTRACT(EPOCH FROM (now() - srs.due_at)) / 86400.0)
+        ELSE
+          GREATEST(0.0, 10.0 - EXTRACT(EPOCH FROM (srs.due_at - now())) / 86400.0)
+      END                                         AS priority_score
+    FROM questions q
+    JOIN srs_state srs ON srs.question_id = q.id AND srs.user_id = p_user_id
+    WHERE q.needs_review = false
+      AND COALESCE(q.is_published, true) = true
+      AND COALESCE(q.status, 'approved') = 'approved'
+      AND NOT (q.id = ANY(v_buried))
+      AND srs.due_at <= now() + interval '1 day'
+      AND (p_course_id IS NULL OR q.course_pack_id = p_course_id)
+      AND ABS(COALESCE(q.difficulty, 3) - v_user_difficulty) <= 1
+    ORDER BY priority_score DESC
+    LIMIT v_review_quota
+  )
+  SELECT * FROM review_candidates;
+
+  GET DIAGNOSTICS v_review_count = ROW_COUNT;
+  v_total_count := v_review_count;
+
+  -- ============================================================
+  -- 2. CURRENT — unpracticed questions, mastery-ranked
+  --    Uses LATERAL for mastery aggregation (no duplicate rows)
+  -- ============================================================
+  IF NOT v_is_behind AND v_total_count < p_limit THEN
+    RETURN QUERY
+    WITH current_candidates AS (
+      SELECT
+        q.id                                        AS question_id,
+        q.prompt,
+        q.choices,
+        q.correct_answer,
+        q.hint,
+        q.solution_steps,
+        COALESCE(q.difficulty, 3)                   AS difficulty,
+        q.source_exam,
+        q.topic_ids,
+        q.question_type_id,
+        'current'::text                             AS category,
+        'Current topic: ' || COALESCE(
+          (SELECT t.title FROM topics t WHERE t.id = ANY(q.topic_ids) LIMIT 1),
+          'Unknown'
+        )                                           AS why_selected,
+        (CASE WHEN m.mastery_id IS NULL THEN 100.0 ELSE 0.0 END)
+          + (1.0 - m.avg_mastery) * 50.0           AS priority_score
+      FROM questions q
+      LEFT JOIN srs_state srs ON srs.question_id = q.id AND srs.user_id = p_user_id
+      -- Aggregate mastery across all topic_ids for this question
+      LEFT JOIN LATERAL (
+        SELECT
+          MIN(tm.id)                  AS mastery_id,
+          COALESCE(AVG(tm.mastery_0_1), 0.5) AS avg_mastery
+        FROM topic_mastery tm
+        WHERE tm.topic_id = ANY(q.topic_ids)
+          AND tm.user_id = p_user_id
+      ) m ON true
+      WHERE q.needs_review = false
+        AND COALESCE(q.is_published, true) = true
+        AND COALESCE(q.status, 'approved') = 'approved'
+        AND NOT (q.id = ANY(v_buried))
+        AND (p_course_id IS NULL OR q.course_pack_id = p_course_id)
+        AND ABS(COALESCE(q.difficulty, 3) - v_user_difficulty) <= 1
+        AND srs.id IS NULL
+      ORDER BY priority_score DESC
+      LIMIT v_current_quota
+    )
+    SELECT * FROM current_candidates;
+
+    GET DIAGNOSTICS v_current_count = ROW_COUNT;
+    v_total_count := v_total_count + v_current_count;
+  END IF;
+
+  -- ============================================================
+  -- 3. BRIDGE — easy catch-up for behind students
+  -- ============================================================
+  IF v_is_behind AND v_total_count < p_limit THEN
+    RETURN QUERY
+    WITH bridge_candidates AS (
+      SELECT
+        q.id                                        AS question_id,
+        q.prompt,
+        q.choices,
+        q.correct_answer,
+        q.hint,
+        q.solution_steps,
+        COALESCE(q.difficulty, 3)                   AS difficulty,
+        q.source_exam,
+        q.topic_ids,
+        q.question_type_id,
+        'bridge'::text                              AS category,
+        'Catch-up: ' || COALESCE(
+          (SELECT t.title FROM topics t WHERE t.id = ANY(q.topic_ids) LIMIT 1),
+          'Foundation topic'
+        ) || ' (foundation topic)'                  AS why_selected,
+        (5 - COALESCE(q.difficulty, 3))::numeric * 20.0
+          + (1.0 - COALESCE(m.avg_mastery, 0.5)) * 30.0 AS priority_score
+      FROM questions q
+      LEFT JOIN LATERAL (
+        SELECT COALESCE(AVG(tm.mastery_0_1), 0.5) AS avg_mastery,
+               MIN(tm.id)                          AS mastery_id
+        FROM topic_mastery tm
+        WHERE tm.topic_id = ANY(q.topic_ids)
+          AND tm.user_id = p_user_id
+      ) m ON true
+      WHERE q.needs_review = false
+        AND COALESCE(q.is_published, true) = true
+        AND COALESCE(q.status, 'approved') = 'approved'
+        AND NOT (q.id = ANY(v_buried))
+        AND COALESCE(q.difficulty, 3) <= 2
+        AND (p_course_id IS NULL OR q.course_pack_id = p_course_id)
+        AND (m.mastery_id IS NULL OR m.avg_mastery < 0.7)
+      ORDER BY priority_score DESC
+      LIMIT v_bridge_quota
+    )
+    SELECT * FROM bridge_candidates;
+
+    GET DIAGNOSTICS v_bridge_count = ROW_COUNT;
+    v_total_count := v_total_count + v_bridge_count;
+  END IF;
+
+  -- ============================================================
+  -- 4. STRETCH — harder exam-style (only if not behind)
+  -- ============================================================
+  IF NOT v_is_behind AND v_total_count < p_limit THEN
+    RETURN QUERY
+    WITH stretch_candidates AS (
+      SELECT
+        q.id                                        AS question_id,
+        q.prompt,
+        q.choices,
+        q.correct_answer,
+        q.hint,
+        q.solution_steps,
+        COALESCE(q.difficulty, 3)                   AS difficulty,
+        q.source_exam,
+        q.topic_ids,
+        q.question_type_id,
+        'stretch'::text                             AS category,
+        CASE
+          WHEN v_next_exam_days <= 14
+            THEN v_next_exam_name || ' in ' || v_next_exam_days || ' days - exam prep'
+          ELSE 'Challenge question to level up'
+        END                                         AS why_selected,
+        COALESCE(q.difficulty, 3)::numeric * 10.0
+          + (CASE WHEN q.source_exam IS NOT NULL THEN 50.0 ELSE 0.0 END)
+          + (CASE WHEN v_next_exam_days <= 14     THEN 30.0 ELSE 0.0 END) AS priority_score
+      FROM questions q
+      LEFT JOIN LATERAL (
+        SELECT COALESCE(AVG(tm.mastery_0_1), 0.5) AS avg_mastery
+        FROM topic_mastery tm
+        WHERE tm.topic_id = ANY(q.topic_ids)
+          AND tm.user_id = p_user_id
+      ) m ON true
+      WHERE q.needs_review = false
+        AND COALESCE(q.is_published, true) = true
+        AND COALESCE(q.status, 'approved') = 'approved'
+        AND NOT (q.id = ANY(v_buried))
+        AND COALESCE(q.difficulty, 3) >= v_user_difficulty
+        AND (p_course_id IS NULL OR q.course_pack_id = p_course_id)
+        AND m.avg_mastery >= 0.5
+      ORDER BY priority_score DESC
+      LIMIT v_stretch_quota
+    )
+    SELECT * FROM stretch_candidates;
+
+    GET DIAGNOSTICS v_stretch_count = ROW_COUNT;
+    v_total_count := v_total_count + v_stretch_count;
+  END IF;
+
+  -- ============================================================
+  -- 5. FILL — any remaining eligible questions
+  -- ============================================================
+  IF v_total_count < p_limit THEN
+    RETURN QUERY
+    WITH fill_candidates AS (
+      SELECT
+        q.id                                        AS question_id,
+        q.prompt,
+        q.choices,
+        q.correct_answer,
+        q.hint,
+        q.solution_steps,
+        COALESCE(q.difficulty, 3)                   AS difficulty,
+        q.source_exam,
+        q.topic_ids,
+        q.question_type_id,
+        'current'::text                             AS category,
+        'Practice: ' || COALESCE(
+          (SELECT t.title FROM topics t WHERE t.id = ANY(q.topic_ids) LIMIT 1),
+          'General'
+        )                                           AS why_selected,
+        random()                                    AS priority_score
+      FROM questions q
+      LEFT JOIN srs_state srs ON srs.question_id = q.id AND srs.user_id = p_user_id
+      WHERE q.needs_review = false
+        AND COALESCE(q.is_published, true) = true
+        AND COALESCE(q.status, 'approved') = 'approved'
+        AND NOT (q.id = ANY(v_buried))
+        AND (p_course_id IS NULL OR q.course_pack_id = p_course_id)
+        AND srs.id IS NULL
+      ORDER BY priority_score DESC
+      LIMIT (p_limit - v_total_count)
+    )
+    SELECT * FROM fill_candidates;
+  END IF;
+
+  RETURN;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.build_daily_plan TO authenticated;
+
+-- ============================================================
+-- 4. get_recommended_questions: skip buried siblings
+-- Same as 20260310000001 plus v_buried.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_recommended_questions(
+  p_user_id uuid,
+  p_limit integer DEFAULT 10,
+  p_current_week integer DEFAULT 1,
+  p_pace_offset integer DEFAULT 1,
+  p_target_difficulty integer DEFAULT 3,
+  p_course_id uuid DEFAULT NULL,
+  p_exam_name text DEFAULT NULL,
+  p_topic_ids uuid[] DEFAULT NULL,
+  p_question_type_id uuid DEFAULT NULL,
+  p_ignore_constraints boolean DEFAULT FALSE,
+  p_enrolled_course_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+  question_id uuid,
+  prompt text,
+  choices jsonb,
+  correct_answer text,
+  hint text,
+  solution_steps jsonb,
+  difficulty integer,
+  source_exam text,
+  topic_ids uuid[],
+  question_type_id uuid,
+  course_pack_id uuid,
+  course_name text,
+  score double precision,
+  due_urgency double precision,
+  knowledge_gap double precision,
+  difficulty_match double precision
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_effective_week integer;
+  v_today_start timestamptz;
+  v_buried uuid[];
+BEGIN
+  -- Calculate effective week based on pace
+  v_effective_week := p_current_week + p_pace_offset;
+
+  -- Get start of today (for excluding already-attempted questions)
+  v_today_start := date_trunc('day', now());
+
+  -- Siblings of recently reviewed items are deferred (course_packs.sibling_bury_days)
+  v_buried := ARRAY(SELECT b.question_id FROM get_buried_question_ids(p_user_id) b);
+
+  RETURN QUERY
+  WITH user_srs AS (
+    SELECT
+      s.question_id,
+      s.due_at,
+      s.scheduled_days,
+      s.stability,
+      s.state
+    FROM srs_state s
+    WHERE s.user_id = p_user_id
+  ),
+  user_mastery AS (
+    SELECT
+      tm.topic_id,
+      tm.mastery_0_1
+    FROM topic_mastery tm
+    WHERE tm.user_id = p_user_id
+  ),
+  -- Questions already attempted today (to exclude from recommendations)
+  today_attempts AS (
+    SELECT DISTINCT a.question_id
+    FROM attempts a
+    WHERE a.user_id = p_user_id
+      AND a.created_at >= v_today_start
+  )
+  SELECT DISTINCT ON (q.id)
+    q.id as question_id,
+    q.prompt,
+    q.choices,
+    q.correct_answer,
+    q.hint,
+    q.solution_steps,
+    q.difficulty,
+    q.source_exam,
+    q.topic_ids,
+    q.question_type_id,
+    q.course_pack_id,
+    cp.title as course_name,
+    -- Calculate composite score
+    (
+      COALESCE(
+        CASE
+          WHEN s.due_at IS NULL THEN 0.5
+          WHEN s.state IN (1, 3) AND s.due_at <= now() THEN 1.0
+          WHEN s.due_at <= now() THEN 1.0 - (1.0 / (1.0 + EXTRACT(EPOCH FROM (now() - s.due_at)) / 86400.0))
+          ELSE 0.3
+        END, 0.5
+      ) * 0.3 +
+      (
+        SELECT COALESCE(1.0 - AVG(COALESCE(um.mastery_0_1, 0.0)), 0.7)::double precision
+        FROM unnest(q.topic_ids) as tid
+        LEFT JOIN user_mastery um ON um.topic_id = tid
+      ) * 0.4 +
+      (1.0 - ABS(COALESCE(q.empirical_difficulty, q.difficulty, 3) - p_target_difficulty)::double precision / 4.0)::double precision * 0.3
+    )::double precision as score,
+    -- Due urgency component (with FSRS state boost)
+    COALESCE(
+      CASE
+        WHEN s.due_at IS NULL THEN 0.5
+        WHEN s.state IN (1, 3) AND s.due_at <= now() THEN 1.0
+        WHEN s.due_at <= now() THEN 1.0 - (1.0 / (1.0 + EXTRACT(EPOCH FROM (now() - s.due_at)) / 86400.0))
+        ELSE 0.3
+      END, 0.5
+    )::double precision as due_urgency,
+    -- Knowledge gap component (simplified: just mastery_0_1)
+    (
+      SELECT COALESCE(1.0 - AVG(COALESCE(um.mastery_0_1, 0.0)), 0.7)::double precision
+      FROM unnest(q.topic_ids) as tid
+      LEFT JOIN user_mastery um ON um.topic_id = tid
+    ) as knowledge_gap,
+    -- Difficulty match component (uses empirical_difficulty when available)
+    (1.0 - ABS(COALESCE(q.empirical_difficulty, q.difficulty, 3) - p_target_difficulty)::double precision / 4.0)::double precision as difficulty_match
+  FROM questions q
+  LEFT JOIN user_srs s ON s.question_id = q.id
+  LEFT JOIN course_packs cp ON cp.id = q.course_pack_id
+  WHERE q.needs_review = FALSE
+    AND COALESCE(q.is_published, true) = true
+    AND COALESCE(q.status, 'approved') = 'approved'
+    AND (q.course_pack_id IS NULL OR cp.is_published = true)
+    AND NOT EXISTS (SELECT 1 FROM today_attempts ta WHERE ta.question_id = q.id)
+    AND NOT (q.id = ANY(v_buried))
+    -- Course filter: specific course > enrolled courses > all courses (admin fallback)
+    AND (
+      (p_course_id IS NOT NULL AND q.course_pack_id = p_course_id)
+      OR (p_course_id IS NULL AND p_enrolled_course_ids IS NOT NULL AND q.course_pack_id = ANY(p_enrolled_course_ids))
+      OR (p_course_id IS NULL AND p_enrolled_course_ids IS NULL)
+    )
+    AND (p_exam_name IS NULL OR q.source_exam = p_exam_name)
+    AND (p_topic_ids IS NULL OR q.topic_ids && p_topic_ids)
+    AND (p_question_type_id IS NULL OR q.question_type_id = p_question_type_id)
+  ORDER BY q.id,
+    CASE WHEN p_ignore_constraints THEN q.question_order END ASC NULLS LAST,
+    CASE WHEN NOT p_ignore_constraints THEN (
+      COALESCE(
+        CASE
+          WHEN s.due_at IS NULL THEN 0.5
+          WHEN s.state IN (1, 3) AND s.due_at <= now() THEN 1.0
+          WHEN s.due_at <= now() THEN 1.0 - (1.0 / (1.0 + EXTRACT(EPOCH FROM (now() - s.due_at)) / 86400.0))
+          ELSE 0.3
+        END, 0.5
+      ) * 0.3 +
+      (
+        SELECT COALESCE(1.0 - AVG(COALESCE(um2.mastery_0_1, 0.0)), 0.7)::double precision
+        FROM unnest(q.topic_ids) as tid2
+        LEFT JOIN user_mastery um2 ON um2.topic_id = tid2
+      ) * 0.4 +
+      (1.0 - ABS(COALESCE(q.empirical_difficulty, q.difficulty, 3) - p_target_difficulty)::double precision / 4.0)::double precision * 0.3
+    ) END DESC NULLS LAST
+  LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_recommended_questions(
+  uuid, integer, integer, integer, integer, uuid, text, uuid[], uuid, boolean, uuid[]
+) TO authenticated;
+
+-- Reload PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,396 @@
+-- Study pause (vacation mode)
+-- A student schedules a pause with a start and end date. When the pause starts, every
+-- card due on or after the start day is pushed back by the length of the pause, so
+-- nothing turns overdue while they are away and the queue resumes with its original
+-- spacing instead of a pile-up on the first day back. Exam-bound cards are re-capped
+-- into the days before their exam once the pause is over.
+--   1. study_pauses table
+--   2. count_paused_days(): paused days in a date range (streaks, readiness)
+--   3. apply_study_pause(): freeze on the start day, close after the end day (idempotent)
+--   4. schedule_study_pause() / end_study_pause(): user actions from Settings
+--   5. cap_due_dates_for_exams: don't pull reviews into a pause
+--   6. get_study_streak(): consecutive study days, bridged by paused days
+
+-- ============================================================
+-- 1. study_pauses
+-- ============================================================
+CREATE TABLE public.study_pauses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  frozen_at TIMESTAMPTZ,
+  shifted_days INTEGER NOT NULL DEFAULT 0,
+  resumed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT study_pauses_dates_check CHECK (ends_on >= starts_on),
+  CONSTRAINT study_pauses_length_check CHECK (ends_on - starts_on < 90)
+);
+
+-- At most one pause that hasn't been resumed yet
+CREATE UNIQUE INDEX idx_study_pauses_one_open
+  ON public.study_pauses(user_id)
+  WHERE resumed_at IS NULL;
+
+ALTER TABLE public.study_pauses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own study pauses"
+  ON public.study_pauses
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.study_pauses TO authenticated;
+
+COMMENT ON TABLE public.study_pauses IS 'Scheduled and past study pauses. Written only through schedule_study_pause(), apply_study_pause() and end_study_pause().';
+COMMENT ON COLUMN public.study_pauses.frozen_at IS 'When due dates were pushed back (the pause started)';
+COMMENT ON COLUMN public.study_pauses.shifted_days IS 'Days due dates were pushed back by at freeze time (pause length)';
+COMMENT ON COLUMN public.study_pauses.resumed_at IS 'When the pause ended: the day after ends_on, or earlier if the student came back early';
+
+-- ============================================================
+-- 2. count_paused_days
+-- Days in [p_from, p_to] covered by a pause. A pause ended early covers
+-- only the days before it was ended.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.count_paused_days(
+  p_user_id uuid,
+  p_from date,
+  p_to date
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(DISTINCT d.day)::integer
+  FROM study_pauses sp
+  CROSS JOIN LATERAL generate_series(
+    GREATEST(sp.starts_on, p_from),
+    LEAST(
+      CASE
+        WHEN sp.resumed_at IS NOT NULL AND sp.resumed_at::date <= sp.ends_on
+          THEN sp.resumed_at::date - 1
+        ELSE sp.ends_on
+      END,
+      p_to
+    ),
+    interval '1 day'
+  ) AS d(day)
+  WHERE sp.user_id = p_user_id
+    AND sp.starts_on <= p_to
+    AND sp.ends_on >= p_from;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.count_paused_days TO authenticated;
+GRANT EXECUTE ON FUNCTION public.count_paused_days TO service_role;
+
+COMMENT ON FUNCTION public.count_paused_days IS 'Number of days between p_from and p_to (inclusive) that fall inside one of the user''s study pauses.';
+
+-- ============================================================
+-- 3. apply_study_pause
+-- Run on app load and right after scheduling. Both steps happen once per pause:
+--   start day reached → push cards due from the start day on back by the pause length
+--   end day passed    → mark resumed and re-cap exam-bound cards
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.apply_study_pause(
+  p_user_id uuid
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pause study_pauses%ROWTYPE;
+  v_length integer;
+  v_shifted integer := 0;
+  v_resumed boolean := false;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to reschedule another user''s cards';
+  END IF;
+
+  SELECT * INTO v_pause
+  FROM study_pauses
+  WHERE user_id = p_user_id
+    AND resumed_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', true, 'shifted', 0, 'resumed', false);
+  END IF;
+
+  IF v_pause.frozen_at IS NULL AND v_pause.starts_on <= current_date THEN
+    v_length := v_pause.ends_on - v_pause.starts_on + 1;
+
+    UPDATE srs_state
+    SET
+      due_at = due_at + make_interval(days => v_length),
+      version = version + 1,
+      updated_at = now()
+    WHERE user_id = p_user_id
+      AND state IN (1, 2, 3)
+      AND due_at >= v_pause.starts_on::timestamp AT TIME ZONE 'UTC';
+
+    GET DIAGNOSTICS v_shifted = ROW_COUNT;
+
+    UPDATE study_pauses
+    SET frozen_at = now(), shifted_days = v_length
+    WHERE id = v_pause.id;
+  END IF;
+
+  IF v_pause.ends_on < current_date THEN
+    UPDATE study_pauses
+    SET resumed_at = (v_pause.ends_on + 1)::timestamp AT TIME ZONE 'UTC'
+    WHERE id = v_pause.id;
+    v_resumed := true;
+
+    PERFORM cap_due_dates_for_exams(p_user_id);
+  END IF;
+
+  RETURN json_build_object('success', true, 'shifted', v_shifted, 'resumed', v_resumed);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_study_pause TO authenticated;
+
+COMMENT ON FUNCTION public.apply_study_pause IS 'Freezes the queue when the user''s pause starts (due dates pushed back by the pause length) and closes the pause once its end date has passed. Idempotent; run on app load.';
+
+-- ============================================================
+-- 4. schedule_study_pause / end_study_pause
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.schedule_study_pause(
+  p_starts_on date,
+  p_ends_on date
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_pause_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_starts_on < current_date THEN
+    RAISE EXCEPTION 'A pause can''t start in the past';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM study_pauses
+    WHERE user_id = v_user_id AND resumed_at IS NULL AND frozen_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'End the current pause before scheduling a new one';
+  END IF;
+
+  -- Replace a pause that hasn't started yet
+  DELETE FROM study_pauses
+  WHERE user_id = v_user_id AND resumed_at IS NULL;
+
+  INSERT INTO study_pauses (user_id, starts_on, ends_on)
+  VALUES (v_user_id, p_starts_on, p_ends_on)
+  RETURNING id INTO v_pause_id;
+
+  PERFORM apply_study_pause(v_user_id);
+
+  RETURN json_build_object('success', true, 'pause_id', v_pause_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.schedule_study_pause TO authenticated;
+
+COMMENT ON FUNCTION public.schedule_study_pause IS 'Schedules a study pause for the current user, replacing one that hasn''t started yet. Freezes the queue immediately if it starts today.';
+
+-- Ends the current pause today. A pause that hasn't started is cancelled; a running
+-- one gives back the days that were not used.
+CREATE OR REPLACE FUNCTION public.end_study_pause()
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_pause study_pauses%ROWTYPE;
+  v_unused integer;
+  v_shifted integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_pause
+  FROM study_pauses
+  WHERE user_id = v_user_id
+    AND resumed_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', true, 'cancelled', false, 'shifted', 0);
+  END IF;
+
+  IF v_pause.frozen_at IS NULL THEN
+    DELETE FROM study_pauses WHERE id = v_pause.id;
+    RETURN json_build_object('success', true, 'cancelled', true, 'shifted', 0);
+  END IF;
+
+  -- Bring cards pushed past today back by the unused days (never into the past).
+  -- Cards reviewed during the pause already have a fresh schedule.
+  v_unused := GREATEST(0, v_pause.ends_on - current_date + 1);
+
+  IF v_unused > 0 THEN
+    UPDATE srs_state
+    SET
+      due_at = GREATEST(
+        due_at - make_interval(days => v_unused),
+        current_date::timestamp AT TIME ZONE 'UTC'
+      ),
+      version = version + 1,
+      updated_at = now()
+    WHERE user_id = v_user_id
+      AND state IN (1, 2, 3)
+      AND due_at >= current_date::timestamp AT TIME ZONE 'UTC'
+      AND (last_reviewed_at IS NULL OR last_reviewed_at < v_pause.frozen_at);
+
+    GET DIAGNOSTICS v_shifted = ROW_COUNT;
+  END IF;
+
+  UPDATE study_pauses
+  SET resumed_at = now()
+  WHERE id = v_pause.id;
+
+  PERFORM cap_due_dates_for_exams(v_user_id);
+
+  RETURN json_build_object('success', true, 'cancelled', false, 'shifted', v_shifted);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.end_study_pause TO authenticated;
+
+COMMENT ON FUNCTION public.end_study_pause IS 'Ends the current user''s study pause today: cancels it if it hasn''t started, otherwise brings due dates back by the unused pause days.';
+
+-- ============================================================
+-- 5. cap_due_dates_for_exams: skip caps that land in a pause
+-- Same as 20260325000001, except a pre-exam review that would fall inside one
+-- of the user's pauses is not scheduled (the student is away that day).
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.cap_due_dates_for_exams(
+  p_user_id uuid
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_capped integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to reschedule another user''s cards';
+  END IF;
+
+  WITH exams AS (
+    SELECT e.question_id, e.exam_date::timestamp AT TIME ZONE 'UTC' AS exam_start
+    FROM get_question_exam_dates(
+      ARRAY(SELECT s.question_id FROM srs_state s WHERE s.user_id = p_user_id AND s.state <> 0)
+    ) e
+  ),
+  next_exam AS (
+    SELECT s.id, MIN(e.exam_start) AS exam_start
+    FROM srs_state s
+    JOIN exams e ON e.question_id = s.question_id
+    WHERE s.user_id = p_user_id
+      AND s.last_reviewed_at IS NOT NULL
+      AND e.exam_start > s.last_reviewed_at
+    GROUP BY s.id
+  )
+  UPDATE srs_state s
+  SET
+    due_at = ne.exam_start - interval '2 days',
+    scheduled_days = GREATEST(
+      0,
+      ROUND(EXTRACT(EPOCH FROM (ne.exam_start - interval '2 days' - s.last_reviewed_at)) / 86400)
+    )::real,
+    version = s.version + 1,
+    updated_at = now()
+  FROM next_exam ne
+  WHERE s.id = ne.id
+    AND s.due_at >= ne.exam_start
+    AND s.last_reviewed_at < ne.exam_start - interval '3 days'
+    AND count_paused_days(
+      p_user_id,
+      (ne.exam_start - interval '2 days')::date,
+      (ne.exam_start - interval '2 days')::date
+    ) = 0;
+
+  GET DIAGNOSTICS v_capped = ROW_COUNT;
+
+  RETURN json_build_object(
+    'success', true,
+    'capped', v_capped,
+    'timestamp', now()
+  );
+END;
+$$;
+
+-- ============================================================
+-- 6. get_study_streak
+-- Consecutive days (UTC) with at least one attempt, ending today or yesterday.
+-- Paused days neither break the streak nor add to it.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_study_streak(
+  p_user_id uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_study_days date[];
+  v_first_day date;
+  v_day date := current_date;
+  v_streak integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to view another user''s streak';
+  END IF;
+
+  v_study_days := ARRAY(
+    SELECT DISTINCT a.created_at::date
+    FROM attempts a
+    WHERE a.user_id = p_user_id
+  );
+  v_first_day := (SELECT MIN(d) FROM unnest(v_study_days) AS d);
+
+  IF v_first_day IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- Today only counts once studied; it doesn't break the streak yet
+  IF NOT (v_day = ANY(v_study_days)) THEN
+    v_day := v_day - 1;
+  END IF;
+
+  WHILE v_day >= v_first_day LOOP
+    IF v_day = ANY(v_study_days) THEN
+      v_streak := v_streak + 1;
+    ELSIF count_paused_days(p_user_id, v_day, v_day) = 0 THEN
+      EXIT;
+    END IF;
+    v_day := v_day - 1;
+  END LOOP;
+
+  RETURN v_streak;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_study_streak TO authenticated;
+
+COMMENT ON FUNCTION public.get_study_streak IS 'Current study streak in days. Days inside a study pause bridge the streak without counting toward it.';
@@ -0,0 +1,11 @@
+-- FSRS rating mode
+-- 'confidence' (default): the rating is inferred from correctness + confidence taps,
+--   downgraded when a hint or Guide Me was used (deriveFsrsRating in src/types/study.ts)
+-- 'buttons': the student picks Again / Hard / Good / Easy after answering, with the
+--   predicted next interval shown on each button
+
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS rating_mode TEXT NOT NULL DEFAULT 'confidence'
+    CHECK (rating_mode IN ('confidence', 'buttons'));
+
+COMMENT ON COLUMN public.user_settings.rating_mode IS 'How answers are rated for FSRS: confidence (inferred from confidence taps) or buttons (explicit Again/Hard/Good/Easy)';
@@ -0,0 +1,856 @@
+-- Per-subpart SRS cards
+-- Each subpart of a multi-part question is now its own FSRS card, so a student who always
+-- gets (a) right and (c) wrong reviews (c) on its own schedule. srs_state rows carry the
+-- subpart id (attempts.subpart_id); whole-question cards keep subpart_id NULL.
+--   1. srs_state.subpart_id + card key (user, question, subpart)
+--   2. review_logs.subpart_id
+--   3. Split existing cards of multi-part questions into one card per subpart
+--   4. submit_review() keys the card by the attempt's subpart
+--   5. undo_review() restores the subpart card
+--   6. apply_review_replay() writes subpart cards
+--   7. build_daily_plan: one review row per question, from its most overdue card
+
+-- ============================================================
+-- 1. srs_state.subpart_id
+-- ============================================================
+ALTER TABLE public.srs_state
+  ADD COLUMN IF NOT EXISTS subpart_id TEXT;
+
+ALTER TABLE public.srs_state
+  DROP CONSTRAINT IF EXISTS srs_state_user_id_question_id_key;
+
+ALTER TABLE public.srs_state
+  ADD CONSTRAINT srs_state_user_question_subpart_key
+    UNIQUE NULLS NOT DISTINCT (user_id, question_id, subpart_id);
+
+COMMENT ON COLUMN public.srs_state.subpart_id IS 'Subpart id (questions.subparts[].id) for a multi-part question''s subpart card; NULL for a whole-question card';
+
+-- ============================================================
+-- 2. review_logs.subpart_id
+-- ============================================================
+ALTER TABLE public.review_logs
+  ADD COLUMN IF NOT EXISTS subpart_id TEXT;
+
+UPDATE public.review_logs rl
+SET subpart_id = a.subpart_id
+FROM public.attempts a
+WHERE a.id = rl.attempt_id
+  AND a.subpart_id IS NOT NULL;
+
+COMMENT ON COLUMN public.review_logs.subpart_id IS 'Card the review belongs to within the question (srs_state.subpart_id)';
+
+-- ============================================================
+-- 3. Split existing multi-part cards
+-- Every subpart starts from the question's current state (ids fall back to the part
+-- letter, like getSubpartId in src/types/study.ts); replay-reviews re-derives each
+-- from its own reviews.
+-- ============================================================
+INSERT INTO public.srs_state (
+  user_id, question_id, subpart_id, due_at, last_reviewed_at, reps, stability, difficulty,
+  elapsed_days, scheduled_days, lapses, learning_steps, state, version
+)
+SELECT
+  s.user_id,
+  s.question_id,
+  COALESCE(NULLIF(sp.subpart->>'id', ''), chr(96 + sp.idx::integer)),
+  s.due_at, s.last_reviewed_at, s.reps, s.stability, s.difficulty,
+  s.elapsed_days, s.scheduled_days, s.lapses, s.learning_steps, s.state, 0
+FROM public.srs_state s
+JOIN public.questions q ON q.id = s.question_id
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(q.subparts) = 'array' THEN q.subparts ELSE '[]'::jsonb END
+) WITH ORDINALITY AS sp(subpart, idx)
+WHERE s.subpart_id IS NULL
+ON CONFLICT (user_id, question_id, subpart_id) DO NOTHING;
+
+DELETE FROM public.srs_state s
+USING public.questions q
+WHERE q.id = s.question_id
+  AND s.subpart_id IS NULL
+  AND CASE WHEN jsonb_typeof(q.subparts) = 'array' THEN jsonb_array_length(q.subparts) > 0 ELSE false END;
+
+-- ============================================================
+-- 4. submit_review(): card keyed by (question, subpart)
+-- Same as 20260324000001 except for the card lookup/insert and review_logs.subpart_id.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.submit_review(
+  p_user_id uuid,
+  p_question_id uuid,
+  p_expected_version integer,  -- NULL = card must not exist yet
+  p_card jsonb,                -- FSRS fields computed by the edge function
+  p_attempt jsonb              -- attempts columns (selected_choice_id, is_correct, ...)
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current srs_state%ROWTYPE;
+  v_card srs_state%ROWTYPE;
+  v_attempt_id uuid;
+  v_srs_before jsonb;
+  v_mastery_before jsonb;
+  -- Subpart of a multi-part question is its own card; NULL = whole question
+  v_subpart_id text := p_attempt->>'subpart_id';
+BEGIN
+  SELECT * INTO v_current
+  FROM srs_state
+  WHERE user_id = p_user_id
+    AND question_id = p_question_id
+    AND subpart_id IS NOT DISTINCT FROM v_subpart_id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF p_expected_version IS NULL OR v_current.version <> p_expected_version THEN
+      RETURN json_build_object('committed', false, 'current', row_to_json(v_current));
+    END IF;
+
+    v_srs_before := to_jsonb(v_current);
+
+    UPDATE srs_state
+    SET
+      due_at = (p_card->>'due_at')::timestamptz,
+      last_reviewed_at = (p_card->>'last_reviewed_at')::timestamptz,
+      reps = (p_card->>'reps')::integer,
+      stability = (p_card->>'stability')::real,
+      difficulty = (p_card->>'difficulty')::real,
+      elapsed_days = (p_card->>'elapsed_days')::real,
+      scheduled_days = (p_card->>'scheduled_days')::real,
+      lapses = (p_card->>'lapses')::integer,
+      learning_steps = (p_card->>'learning_steps')::integer,
+      state = (p_card->>'state')::smallint,
+      version = v_current.version + 1,
+      updated_at = now()
+    WHERE id = v_current.id
+    RETURNING * INTO v_card;
+  ELSE
+    IF p_expected_version IS NOT NULL THEN
+      -- Card was deleted (e.g. progress reset) since the edge function read it
+      RETURN json_build_object('committed', false, 'current', NULL);
+    END IF;
+
+    INSERT INTO srs_state (
+      user_id, question_id, subpart_id, due_at, last_reviewed_at, reps, stability, difficulty,
+      elapsed_days, scheduled_days, lapses, learning_steps, state, version
+    ) VALUES (
+      p_user_id,
+      p_question_id,
+      v_subpart_id,
+      (p_card->>'due_at')::timestamptz,
+      (p_card->>'last_reviewed_at')::timestamptz,
+      (p_card->>'reps')::integer,
+      (p_card->>'stability')::real,
+      (p_card->>'difficulty')::real,
+      (p_card->>'elapsed_days')::real,
+      (p_card->>'scheduled_days')::real,
+      (p_card->>'lapses')::integer,
+      (p_card->>'learning_steps')::integer,
+      (p_card->>'state')::smallint,
+      0
+    )
+    ON CONFLICT (user_id, question_id, subpart_id) DO NOTHING
+    RETURNING * INTO v_card;
+
+    IF v_card.id IS NULL THEN
+      -- Another tab created the card first; hand back its row for a recompute
+      SELECT * INTO v_current
+      FROM srs_state
+      WHERE user_id = p_user_id
+        AND question_id = p_question_id
+        AND subpart_id IS NOT DISTINCT FROM v_subpart_id;
+      RETURN json_build_object('committed', false, 'current', row_to_json(v_current));
+    END IF;
+  END IF;
+
+  -- Mastery rows the attempts trigger is about to update. Read without a lock, so the parts
+  -- of one answer submitted in parallel may each see the other's update.
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'topic_id', t.topic_id,
+    'existed', tm.id IS NOT NULL,
+    'mastery_0_1', tm.mastery_0_1,
+    'questions_attempted', tm.questions_attempted,
+    'questions_correct', tm.questions_correct,
+    'last_practiced_at', tm.last_practiced_at,
+    'effective_difficulty_level', tm.effective_difficulty_level,
+    'consecutive_correct', tm.consecutive_correct,
+    'consecutive_incorrect', tm.consecutive_incorrect
+  )), '[]'::jsonb)
+  INTO v_mastery_before
+  FROM (
+    SELECT DISTINCT unnest(q.topic_ids) AS topic_id
+    FROM questions q
+    WHERE q.id = p_question_id
+  ) t
+  LEFT JOIN topic_mastery tm ON tm.user_id = p_user_id AND tm.topic_id = t.topic_id;
+
+  -- Same transaction: topic mastery is still handled by the attempts trigger
+  INSERT INTO attempts (
+    user_id, question_id, selected_choice_id, is_correct, confidence, hint_used,
+    guide_used, time_spent_ms, subpart_id, answer_text, fsrs_rating
+  ) VALUES (
+    p_user_id,
+    p_question_id,
+    p_attempt->>'selected_choice_id',
+    (p_attempt->>'is_correct')::boolean,
+    p_attempt->>'confidence',
+    COALESCE((p_attempt->>'hint_used')::boolean, false),
+    COALESCE((p_attempt->>'guide_used')::boolean, false),
+    (p_attempt->>'time_spent_ms')::integer,
+    v_subpart_id,
+    p_attempt->>'answer_text',
+    (p_attempt->>'fsrs_rating')::smallint
+  )
+  RETURNING id INTO v_attempt_id;
+
+  -- Review log (ts-fsrs ReviewLog: card before, card after, rating)
+  INSERT INTO review_logs (
+    user_id, question_id, subpart_id, attempt_id, rating, reviewed_at,
+    state, due, stability, difficulty, learning_steps,
+    state_after, due_after, stability_after, difficulty_after, learning_steps_after,
+    elapsed_days, scheduled_days
+  ) VALUES (
+    p_user_id,
+    p_question_id,
+    v_subpart_id,
+    v_attempt_id,
+    (p_attempt->>'fsrs_rating')::smallint,
+    COALESCE(v_card.last_reviewed_at, now()),
+    COALESCE((v_srs_before->>'state')::smallint, 0),
+    COALESCE((v_srs_before->>'due_at')::timestamptz, v_card.last_reviewed_at, now()),
+    COALESCE((v_srs_before->>'stability')::real, 0),
+    COALESCE((v_srs_before->>'difficulty')::real, 0),
+    COALESCE((v_srs_before->>'learning_steps')::integer, 0),
+    v_card.state,
+    v_card.due_at,
+    v_card.stability,
+    v_card.difficulty,
+    v_card.learning_steps,
+    v_card.elapsed_days,
+    v_card.scheduled_days
+  );
+
+  INSERT INTO review_undo_snapshots (attempt_id, user_id, question_id, srs_before, srs_version_after, mastery_before)
+  VALUES (v_attempt_id, p_user_id, p_question_id, v_srs_before, v_card.version, v_mastery_before);
+
+  -- Only recent answers are undoable
+  DELETE FROM review_undo_snapshots
+  WHERE user_id = p_user_id
+    AND created_at < now() - interval '1 day';
+
+  RETURN json_build_object(
+    'committed', true,
+    'card', row_to_json(v_card),
+    'attempt_id', v_attempt_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM anon;
+GRANT EXECUTE ON FUNCTION public.submit_review TO service_role;
+
+-- ============================================================
+-- 5. undo_review(): restore the subpart card
+-- Same as 20260323000001, matching the card on the attempt's subpart.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.undo_review(
+  p_attempt_ids uuid[]  -- all attempts of one answer (several for multi-part questions)
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  r RECORD;
+  v_topic jsonb;
+  v_latest_id uuid;
+  v_undone integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR r IN
+    SELECT a.id, a.question_id, a.subpart_id, s.attempt_id AS snapshot_id, s.srs_before, s.srs_version_after, s.mastery_before
+    FROM attempts a
+    LEFT JOIN review_undo_snapshots s ON s.attempt_id = a.id
+    WHERE a.id = ANY(p_attempt_ids)
+      AND a.user_id = v_user_id
+    ORDER BY a.created_at DESC, a.id DESC
+    FOR UPDATE OF a
+  LOOP
+    IF r.snapshot_id IS NULL THEN
+      RAISE EXCEPTION 'This answer can no longer be undone';
+    END IF;
+
+    SELECT id INTO v_latest_id
+    FROM attempts
+    WHERE user_id = v_user_id
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1;
+
+    IF v_latest_id <> r.id THEN
+      RAISE EXCEPTION 'Only your most recent answer can be undone';
+    END IF;
+
+    -- Card: must still be exactly as this review left it
+    PERFORM 1
+    FROM srs_state
+    WHERE user_id = v_user_id
+      AND question_id = r.question_id
+      AND subpart_id IS NOT DISTINCT FROM r.subpart_id
+      AND version = r.srs_version_after
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This card has changed since the answer was recorded';
+    END IF;
+
+    IF r.srs_before IS NULL THEN
+      DELETE FROM srs_state
+      WHERE user_id = v_user_id
+        AND question_id = r.question_id
+        AND subpart_id IS NOT DISTINCT FROM r.subpart_id;
+    ELSE
+      UPDATE srs_state
+      SET
+        due_at = (r.srs_before->>'due_at')::timestamptz,
+        last_reviewed_at = (r.srs_before->>'last_reviewed_at')::timestamptz,
+        reps = (r.srs_before->>'reps')::integer,
+        stability = (r.srs_before->>'stability')::real,
+        difficulty = (r.srs_before->>'difficulty')::real,
+        elapsed_days = (r.srs_before->>'elapsed_days')::real,
+        scheduled_days = (r.srs_before->>'scheduled_days')::real,
+        lapses = (r.srs_before->>'lapses')::integer,
+        learning_steps = (r.srs_before->>'learning_steps')::integer,
+        state = (r.srs_before->>'state')::smallint,
+        -- Bump rather than restore so a tab holding the undone card still conflicts
+        version = r.srs_version_after + 1,
+        updated_at = now()
+      WHERE user_id = v_user_id
+        AND question_id = r.question_id
+        AND subpart_id IS NOT DISTINCT FROM r.subpart_id;
+    END IF;
+
+    -- Mastery: reverse the trigger's EMA / streak / difficulty update
+    FOR v_topic IN SELECT * FROM jsonb_array_elements(r.mastery_before)
+    LOOP
+      IF (v_topic->>'existed')::boolean THEN
+        UPDATE topic_mastery
+        SET
+          mastery_0_1 = (v_topic->>'mastery_0_1')::numeric,
+          questions_attempted = (v_topic->>'questions_attempted')::integer,
+          questions_correct = (v_topic->>'questions_correct')::integer,
+          last_practiced_at = (v_topic->>'last_practiced_at')::timestamptz,
+          effective_difficulty_level = (v_topic->>'effective_difficulty_level')::integer,
+          consecutive_correct = (v_topic->>'consecutive_correct')::integer,
+          consecutive_incorrect = (v_topic->>'consecutive_incorrect')::integer,
+          updated_at = now()
+        WHERE user_id = v_user_id
+          AND topic_id = (v_topic->>'topic_id')::uuid;
+      ELSE
+        DELETE FROM topic_mastery
+        WHERE user_id = v_user_id
+          AND topic_id = (v_topic->>'topic_id')::uuid;
+      END IF;
+    END LOOP;
+
+    -- Snapshot goes with it (ON DELETE CASCADE)
+    DELETE FROM attempts WHERE id = r.id;
+    v_undone := v_undone + 1;
+  END LOOP;
+
+  IF v_undone <> COALESCE(array_length(p_attempt_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Answer not found';
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'undone', v_undone
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.undo_review TO authenticated;
+
+-- ============================================================
+-- 6. apply_review_replay(): replayed cards carry subpart_id
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.apply_review_replay(
+  p_user_id uuid,
+  p_latest_log_id uuid,  -- newest review_logs.id the replay saw (NULL = empty log)
+  p_cards jsonb,         -- [{question_id, subpart_id, due_at, last_reviewed_at, reps, stability, ...}]
+  p_logs jsonb           -- [{id, state, due, stability, difficulty, learning_steps, *_after, elapsed_days, scheduled_days}]
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_latest_id uuid;
+  v_cards integer := 0;
+  v_logs integer := 0;
+BEGIN
+  -- Block concurrent submit_review() calls for this user until commit
+  PERFORM 1 FROM srs_state WHERE user_id = p_user_id FOR UPDATE;
+
+  SELECT id INTO v_latest_id
+  FROM review_logs
+  WHERE user_id = p_user_id
+  ORDER BY reviewed_at DESC, id DESC
+  LIMIT 1;
+
+  IF v_latest_id IS DISTINCT FROM p_latest_log_id THEN
+    RETURN json_build_object('committed', false);
+  END IF;
+
+  INSERT INTO srs_state (
+    user_id, question_id, subpart_id, due_at, last_reviewed_at, reps, stability, difficulty,
+    elapsed_days, scheduled_days, lapses, learning_steps, state, version
+  )
+  SELECT
+    p_user_id, c.question_id, c.subpart_id, c.due_at, c.last_reviewed_at, c.reps, c.stability, c.difficulty,
+    c.elapsed_days, c.scheduled_days, c.lapses, c.learning_steps, c.state, 0
+  FROM jsonb_to_recordset(p_cards) AS c(
+    question_id uuid, subpart_id text, due_at timestamptz, last_reviewed_at timestamptz, reps integer,
+    stability real, difficulty real, elapsed_days real, scheduled_days real,
+    lapses integer, learning_steps integer, state smallint
+  )
+  ON CONFLICT (user_id, question_id, subpart_id) DO UPDATE SET
+    due_at = EXCLUDED.due_at,
+    last_reviewed_at = EXCLUDED.last_reviewed_at,
+    reps = EXCLUDED.reps,
+    stability = EXCLUDED.stability,
+    difficulty = EXCLUDED.difficulty,
+    elapsed_days = EXCLUDED.elapsed_days,
+    scheduled_days = EXCLUDED.scheduled_days,
+    lapses = EXCLUDED.lapses,
+    learning_steps = EXCLUDED.learning_steps,
+    state = EXCLUDED.state,
+    version = srs_state.version + 1,
+    updated_at = now();
+
+  GET DIAGNOSTICS v_cards = ROW_COUNT;
+
+  UPDATE review_logs rl
+  SET
+    state = l.state,
+    due = l.due,
+    stability = l.stability,
+    difficulty = l.difficulty,
+    learning_steps = l.learning_steps,
+    state_after = l.state_after,
+    due_after = l.due_after,
+    stability_after = l.stability_after,
+    difficulty_after = l.difficulty_after,
+    learning_steps_after = l.learning_steps_after,
+    elapsed_days = l.elapsed_days,
+    scheduled_days = l.scheduled_days,
+    updated_at = now()
+  FROM jsonb_to_recordset(p_logs) AS l(
+    id uuid, state smallint, due timestamptz, stability real, difficulty real, learning_steps integer,
+    state_after smallint, due_after timestamptz, stability_after real, difficulty_after real,
+    learning_steps_after integer, elapsed_days real, scheduled_days real
+  )
+  WHERE rl.id = l.id
+    AND rl.user_id = p_user_id;
+
+  GET DIAGNOSTICS v_logs = ROW_COUNT;
+
+  -- Before-images no longer match the rewritten cards
+  DELETE FROM review_undo_snapshots WHERE user_id = p_user_id;
+
+  RETURN json_build_object(
+    'committed', true,
+    'cards', v_cards,
+    'reviews', v_logs
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_review_replay FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.apply_review_replay FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_review_replay FROM anon;
+GRANT EXECUTE ON FUNCTION public.apply_review_replay TO service_role;
+
+-- ============================================================
+-- 7. build_daily_plan: review candidates from each question's most overdue card
+-- Same as 20260327000001 except the review section joins one card per question.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.build_daily_plan(
+  p_user_id uuid,
+  p_course_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 10,
+  p_current_week integer DEFAULT NULL,  -- kept for API compatibility; no longer used
+  p_pace_offset integer DEFAULT 1
+)
+RETURNS SETOF daily_plan_question
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_behind boolean := false;
+  v_days_since_practice integer;
+  v_low_mastery_count integer;
+  v_total_eligible_topics integer;
+  v_recent_accuracy numeric;
+  v_unpracticed_count integer;
+
+  v_review_quota integer := 2;
+  v_current_quota integer := 2;
+  v_bridge_quota integer := 0;
+  v_stretch_quota integer := 1;
+
+  v_review_count integer := 0;
+  v_current_count integer := 0;
+  v_bridge_count integer := 0;
+  v_stretch_count integer := 0;
+  v_total_count integer := 0;
+
+  v_user_difficulty integer;
+  v_next_exam_days integer;
+  v_next_exam_name text;
+  v_buried uuid[];
+BEGIN
+  -- Siblings of recently reviewed items are deferred (course_packs.sibling_bury_days)
+  v_buried := ARRAY(SELECT b.question_id FROM get_buried_question_ids(p_user_id) b);
+
+  -- User's average difficulty level
+  SELECT COALESCE(AVG(effective_difficulty_level), 3)::integer
+  INTO v_user_difficulty
+  FROM topic_mastery
+  WHERE user_id = p_user_id;
+
+  -- Next upcoming exam
+  SELECT
+    EXTRACT(DAY FROM (ce.event_date - CURRENT_DATE))::integer,
+    ce.title
+  INTO v_next_exam_days, v_next_exam_name
+  FROM calendar_events ce
+  WHERE ce.event_type IN ('midterm', 'exam', 'final')
+    AND ce.event_date >= CURRENT_DATE
+    AND (p_course_id IS NULL OR ce.course_pack_id = p_course_id)
+  ORDER BY ce.event_date ASC
+  LIMIT 1;
+
+  v_next_exam_days := COALESCE(v_next_exam_days, 30);
+  v_next_exam_name := COALESCE(v_next_exam_name, 'upcoming exam');
+
+  -- === BEHIND DETECTION ===
+
+  SELECT EXTRACT(DAY FROM (now() - MAX(last_practiced_at)))::integer
+  INTO v_days_since_practice
+  FROM topic_mastery
+  WHERE user_id = p_user_id;
+  v_days_since_practice := COALESCE(v_days_since_practice, 999);
+
+  -- Low mastery topics (no schedule filter — scheduled_date was dropped)
+  SELECT COUNT(*)
+  INTO v_low_mastery_count
+  FROM topic_mastery tm
+  JOIN topics t ON tm.topic_id = t.id
+  WHERE tm.user_id = p_user_id
+    AND tm.mastery_0_1 < 0.5
+    AND (p_course_id IS NULL OR t.course_pack_id = p_course_id);
+
+  -- Total eligible topics
+  SELECT COUNT(*)
+  INTO v_total_eligible_topics
+  FROM topics t
+  WHERE (p_course_id IS NULL OR t.course_pack_id = p_course_id);
+  v_total_eligible_topics := GREATEST(v_total_eligible_topics, 1);
+
+  -- Recent accuracy (last 10 attempts)
+  SELECT COALESCE(AVG(CASE WHEN is_correct THEN 1.0 ELSE 0.0 END), 0.5)
+  INTO v_recent_accuracy
+  FROM (
+    SELECT is_correct
+    FROM attempts
+    WHERE user_id = p_user_id
+    ORDER BY created_at DESC
+    LIMIT 10
+  ) recent;
+
+  -- Unpracticed topics
+  SELECT COUNT(*)
+  INTO v_unpracticed_count
+  FROM topics t
+  WHERE (p_course_id IS NULL OR t.course_pack_id = p_course_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM topic_mastery tm
+      WHERE tm.topic_id = t.id AND tm.user_id = p_user_id
+    );
+
+  v_is_behind := (
+    v_days_since_practice > 3 OR
+    (v_low_mastery_count::numeric / v_total_eligible_topics) > 0.5 OR
+    v_recent_accuracy < 0.6 OR
+    (v_unpracticed_count::numeric / v_total_eligible_topics) > 0.4
+  );
+
+  -- Set quotas
+  IF v_is_behind THEN
+    v_review_quota  := 2;
+    v_current_quota := 0;
+    v_bridge_quota  := GREATEST(3, p_limit - 2);
+    v_stretch_quota := 0;
+  ELSE
+    v_review_quota  := GREATEST(2, (p_limit * 0.3)::integer);
+    v_current_quota := GREATEST(2, (p_limit * 0.4)::integer);
+    v_bridge_quota  := 0;
+    v_stretch_quota := GREATEST(1, (p_limit * 0.1)::integer);
+  END IF;
+
+  -- ============================================================
+  -- 1. REVIEW — SRS overdue (no topics join needed)
+  -- ============================================================
+  RETURN QUERY
+  WITH review_candidates AS (
+    SELECT
+      q.id                                        AS question_id,
+      q.prompt,
+      q.choices,
+      q.correct_answer,
+      q.hint,
+      q.solution_steps,
+      COALESCE(q.difficulty, 3)                   AS difficulty,
+      q.source_exam,
+      q.topic_ids,
+      q.question_type_id,
+      'review'::text                              AS category,
+      CASE
+        WHEN srs.state IN (1, 3) AND srs.due_at <= now() THEN
+          'Learning/Relearning card - high priority'
+        WHEN srs.due_at < now() - interval '7 days' THEN
+          'Overdue by ' || EXTRACT(DAY FROM (now() - srs.due_at))::integer || ' days'
+        WHEN srs.due_at < now() THEN 'Due for review'
+        ELSE 'Retention refresh'
+      END                                         AS why_selected,
+      CASE
+        WHEN srs.state IN (1, 3) AND srs.due_at <= now() THEN 1000.0
+        WHEN srs.due_at <= now() THEN
+          LEAST(500.0, EXTRACT(EPOCH FROM (now() - srs.due_at)) / 86400.0)
+        ELSE
+          GREATEST(0.0, 10.0 - EXTRACT(EPOCH FROM (srs.due_at - now())) / 86400.0)
+      END                                         AS priority_score
+    FROM questions q
+    -- One row per question: its most overdue card (multi-part questions have one per subpart)
+    JOIN LATERAL (
+      SELECT s.state, s.due_at
+      FROM srs_state s
+      WHERE s.question_id = q.id AND s.user_id = p_user_id
+      ORDER BY s.due_at
+      LIMIT 1
+    ) srs ON true
+    WHERE q.needs_review = false
+      AND COALESCE(q.is_published, true) = true
+      AND COALESCE(q.status, 'approved') = 'approved'
+      AND NOT (q.id = ANY(v_buried))
+      AND srs.due_at <= now() + interval '1 day'
+      AND (p_course_id IS NULL OR q.course_pack_id = p_course_id)
+      AND ABS(COALESCE(q.difficulty, 3) - v_user_difficulty) <= 1
+    ORDER BY priority_score DESC
+    LIMIT v_review_quota
+  )
+  SELECT * FROM review_candidates;
+
+  GET DIAGNOSTICS v_review_count = ROW_COUNT;
+  v_total_count := v_review_count;
+
+  -- ============================================================
+  -- 2. CURRENT — unpracticed questions, mastery-ranked
+  --    Uses LATERAL for mastery aggregation (no duplicate rows)
+  -- ============================================================
+  IF NOT v_is_behind AND v_total_count < p_limit THEN
+    RETURN QUERY
+    WITH current_candidates AS (
+      SELECT
+        q.id                                        AS question_id,
+        q.prompt,
+        q.choices,
+        q.correct_answer,
+        q.hint,
+        q.solution_steps,
+        COALESCE(q.difficulty, 3)                   AS difficulty,
+        q.source_exam,
+        q.topic_ids,
+        q.question_type_id,
+        'current'::text                             AS category,
+        'Current topic: ' || COALESCE(
+          (SELECT t.title FROM topics t WHERE t.id = ANY(q.topic_ids) LIMIT 1),
+          'Unknown'
+        )                                           AS why_selected,
+        (CASE WHEN m.mastery_id IS NULL THEN 100.0 ELSE 0.0 END)
+          + (1.0 - m.avg_mastery) * 50.0           AS priority_score
+      FROM questions q
+      LEFT JOIN srs_state srs ON srs.question_id = q.id AND srs.user_id = p_user_id
+      -- Aggregate mastery across all topic_ids for this question
+      LEFT JOIN LATERAL (
+        SELECT
+          MIN(tm.id)                  AS mastery_id,
+          COALESCE(AVG(tm.mastery_0_1), 0.5) AS avg_mastery
+        FROM topic_mastery tm
+        WHERE tm.topic_id = ANY(q.topic_ids)
+          AND tm.user_id = p_user_id
+      ) m ON true
+      WHERE q.needs_review = false
+        AND COALESCE(q.is_published, true) = true
+        AND COALESCE(q.status, 'approved') = 'approved'
+        AND NOT (q.id = ANY(v_buried))
+        AND (p_course_id IS NULL OR q.course_pack_id = p_course_id)
+        AND ABS(COALESCE(q.difficulty, 3) - v_user_difficulty) <= 1
+        AND srs.id IS NULL
+      ORDER BY priority_score DESC
+      LIMIT v_current_quota
+    )
+    SELECT * FROM current_candidates;
+
+    GET DIAGNOSTICS v_current_count = ROW_COUNT;
+    v_total_count := v_total_count + v_current_count;
+  END IF;
+
+  -- ============================================================
+  -- 3. BRIDGE — easy catch-up for behind students
+  -- ============================================================
+  IF v_is_behind AND v_total_count < p_limit THEN
+    RETURN QUERY
+    WITH bridge_candidates AS (
+      SELECT
+        q.id                                        AS question_id,
+        q.prompt,
+        q.choices,
+        q.correct_answer,
+        q.hint,
+        q.solution_steps,
+        COALESCE(q.difficulty, 3)                   AS difficulty,
+        q.source_exam,
+        q.topic_ids,
+        q.question_type_id,
+        'bridge'::text                              AS category,
+        'Catch-up: ' || COALESCE(
+          (SELECT t.title FROM topics t WHERE t.id = ANY(q.topic_ids) LIMIT 1),
+          'Foundation topic'
+        ) || ' (foundation topic)'                  AS why_selected,
+        (5 - COALESCE(q.difficulty, 3))::numeric * 20.0
+          + (1.0 - COALESCE(m.avg_mastery, 0.5)) * 30.0 AS priority_score
+      FROM questions q
+      LEFT JOIN LATERAL (
+        SELECT COALESCE(AVG(tm.mastery_0_1), 0.5) AS avg_mastery,
+               MIN(tm.id)                          AS mastery_id
+        FROM topic_mastery tm
+        WHERE tm.topic_id = ANY(q.topic_ids)
+          AND tm.user_id = p_user_id
+      ) m ON true
+      WHERE q.needs_review = false
+        AND COALESCE(q.is_published, true) = true
+        AND COALESCE(q.status, 'approved') = 'approved'
+        AND NOT (q.id = ANY(v_buried))
+        AND COALESCE(q.difficulty, 3) <= 2
+        AND (p_course_id IS NULL OR q.course_pack_id = p_course_id)
+        AND (m.mastery_id IS NULL OR m.avg_mastery < 0.7)
+      ORDER BY priority_score DESC
+      LIMIT v_bridge_quota
+    )
+    SELECT * FROM bridge_candidates;
+
+    GET DIAGNOSTICS v_bridge_count = ROW_COUNT;
+    v_total_count := v_total_count + v_bridge_count;
+  END IF;
+
+  -- ============================================================
+  -- 4. STRETCH — harder exam-style (only if not behind)
+  -- ============================================================
+  IF NOT v_is_behind AND v_total_count < p_limit THEN
+    RETURN QUERY
+    WITH stretch_candidates AS (
+      SELECT
+        q.id                                        AS question_id,
+        q.prompt,
+        q.choices,
+        q.correct_answer,
+        q.hint,
+        q.solution_steps,
+        COALESCE(q.difficulty, 3)                   AS difficulty,
+        q.source_exam,
+        q.topic_ids,
+        q.question_type_id,
+        'stretch'::text                             AS category,
+        CASE
+          WHEN v_next_exam_days <= 14
+            THEN v_next_exam_name || ' in ' || v_next_exam_days || ' days - exam prep'
+          ELSE 'Challenge question to level up'
+        END                                         AS why_selected,
+        COALESCE(q.difficulty, 3)::numeric * 10.0
+          + (CASE WHEN q.source_exam IS NOT NULL THEN 50.0 ELSE 0.0 END)
+          + (CASE WHEN v_next_exam_days <= 14     THEN 30.0 ELSE 0.0 END) AS priority_score
+      FROM questions q
+      LEFT JOIN LATERAL (
+        SELECT COALESCE(AVG(tm.mastery_0_1), 0.5) AS avg_mastery
+        FROM topic_mastery tm
+        WHERE tm.topic_id = ANY(q.topic_ids)
+          AND tm.user_id = p_user_id
+      ) m ON true
+      WHERE q.needs_review = false
+        AND COALESCE(q.is_published, true) = true
+        AND COALESCE(q.status, 'approved') = 'approved'
+        AND NOT (q.id = ANY(v_buried))
+        AND COALESCE(q.difficulty, 3) >= v_user_difficulty
+        AND (p_course_id IS NULL OR q.course_pack_id = p_course_id)
+        AND m.avg_mastery >= 0.5
+      ORDER BY priority_score DESC
+      LIMIT v_stretch_quota
+    )
+    SELECT * FROM stretch_candidates;
+
+    GET DIAGNOSTICS v_stretch_count = ROW_COUNT;
+    v_total_count := v_total_count + v_stretch_count;
+  END IF;
+
+  -- ============================================================
+  -- 5. FILL — any remaining eligible questions
+  -- ============================================================
+  IF v_total_count < p_limit THEN
+    RETURN QUERY
+    WITH fill_candidates AS (
+      SELECT
+        q.id                                        AS question_id,
+        q.prompt,
+        q.choices,
+        q.correct_answer,
+        q.hint,
+        q.solution_steps,
+        COALESCE(q.difficulty, 3)                   AS difficulty,
+        q.source_exam,
+        q.topic_ids,
+        q.question_type_id,
+        'current'::text                             AS category,
+        'Practice: ' || COALESCE(
+          (SELECT t.title FROM topics t WHERE t.id = ANY(q.topic_ids) LIMIT 1),
+          'General'
+        )                                           AS why_selected,
+        random()                                    AS priority_score
+      FROM questions q
+      LEFT JOIN srs_state srs ON srs.question_id = q.id AND srs.user_id = p_user_id
+      WHERE q.needs_review = false
+        AND COALESCE(q.is_published, true) = true
+        AND COALESCE(q.status, 'approved') = 'approved'
+        AND NOT (q.id = ANY(v_buried))
+        AND (p_course_id IS NULL OR q.course_pack_id = p_course_id)
+        AND srs.id IS NULL
+      ORDER BY priority_score DESC
+      LIMIT (p_limit - v_total_count)
+    )
+    SELECT * FROM fill_candidates;
+  END IF;
+
+  RETURN;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.build_daily_plan TO authenticated;
@@ -0,0 +1,251 @@
+-- Leech detection
+-- A leech is a card the student keeps forgetting: it comes back every few days and eats
+-- session time without progress. Leeches are tagged (srs_state.leech_at), optionally
+-- suspended (srs_state.suspended_at) and collected in the "Fix my leeches" session, which
+-- walks through Guide Me and the distractor rationales before each answer.
+--   1. srs_state.leech_at / suspended_at, user_settings.leech_threshold / leech_action
+--   2. evaluate_leech(): re-derives a card's leech tag from its review log
+--   3. review_logs trigger: re-evaluate on every logged (or undone) review
+--   4. get_buried_question_ids(): suspended questions are left out of plans
+--   5. set_card_suspended(): suspend / unsuspend from the Progress page
+--   6. Backfill: tag existing leeches
+--
+-- A card becomes a leech when, since it was last repaired, it has lapsed (Again on a
+-- card in Review) leech_threshold times, or failed LEECH_FAIL_STREAK reviews in a row.
+-- LEECH_REPAIR_STREAK passes in a row (Hard or better) repair it: the tag and an
+-- automatic suspension are lifted and its lapse count starts over.
+-- Deriving the tag from review_logs keeps it correct across undo and review replay.
+
+-- ============================================================
+-- 1. Columns
+-- ============================================================
+ALTER TABLE public.srs_state
+  ADD COLUMN IF NOT EXISTS leech_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_srs_state_user_leech
+  ON public.srs_state(user_id)
+  WHERE leech_at IS NOT NULL;
+
+COMMENT ON COLUMN public.srs_state.leech_at IS 'Review that made the card a leech; NULL = not a leech (see evaluate_leech)';
+COMMENT ON COLUMN public.srs_state.suspended_at IS 'Suspended cards are left out of daily plans and recommendations until unsuspended or repaired';
+
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS leech_threshold INTEGER NOT NULL DEFAULT 8
+    CHECK (leech_threshold BETWEEN 3 AND 20),
+  ADD COLUMN IF NOT EXISTS leech_action TEXT NOT NULL DEFAULT 'tag'
+    CHECK (leech_action IN ('tag', 'suspend'));
+
+COMMENT ON COLUMN public.user_settings.leech_threshold IS 'Lapses after which a card is tagged as a leech';
+COMMENT ON COLUMN public.user_settings.leech_action IS 'What happens to a new leech: tag (keep reviewing it) or suspend (hold it out of the queue)';
+
+-- ============================================================
+-- 2. evaluate_leech
+-- Replays the card's review log; returns whether it is a leech now.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.evaluate_leech(
+  p_user_id uuid,
+  p_question_id uuid,
+  p_subpart_id text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  LEECH_FAIL_STREAK CONSTANT integer := 4;
+  LEECH_REPAIR_STREAK CONSTANT integer := 2;
+  v_threshold integer;
+  v_action text;
+  v_card srs_state%ROWTYPE;
+  r RECORD;
+  v_lapses integer := 0;
+  v_fail_streak integer := 0;
+  v_pass_streak integer := 0;
+  v_leech_at timestamptz;
+BEGIN
+  SELECT * INTO v_card
+  FROM srs_state
+  WHERE user_id = p_user_id
+    AND question_id = p_question_id
+    AND subpart_id IS NOT DISTINCT FROM p_subpart_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT COALESCE(us.leech_threshold, 8), COALESCE(us.leech_action, 'tag')
+  INTO v_threshold, v_action
+  FROM (SELECT 1) one
+  LEFT JOIN user_settings us ON us.user_id = p_user_id;
+
+  FOR r IN
+    SELECT rl.rating, rl.state, rl.reviewed_at
+    FROM review_logs rl
+    WHERE rl.user_id = p_user_id
+      AND rl.question_id = p_question_id
+      AND rl.subpart_id IS NOT DISTINCT FROM p_subpart_id
+    ORDER BY rl.reviewed_at, rl.created_at
+  LOOP
+    IF r.rating = 1 THEN
+      v_fail_streak := v_fail_streak + 1;
+      v_pass_streak := 0;
+      -- Backfilled logs have no card state yet; count their failures as lapses
+      IF COALESCE(r.state, 2) = 2 THEN
+        v_lapses := v_lapses + 1;
+      END IF;
+    ELSE
+      v_fail_streak := 0;
+      v_pass_streak := v_pass_streak + 1;
+    END IF;
+
+    IF v_leech_at IS NULL THEN
+      IF v_lapses >= v_threshold OR v_fail_streak >= LEECH_FAIL_STREAK THEN
+        v_leech_at := r.reviewed_at;
+      END IF;
+    ELSIF v_pass_streak >= LEECH_REPAIR_STREAK THEN
+      v_leech_at := NULL;
+      v_lapses := 0;
+    END IF;
+  END LOOP;
+
+  IF v_leech_at IS DISTINCT FROM v_card.leech_at THEN
+    UPDATE srs_state
+    SET
+      leech_at = v_leech_at,
+      suspended_at = CASE
+        WHEN v_leech_at IS NULL THEN NULL
+        -- Only a newly tagged leech is suspended, so a manual unsuspend sticks
+        WHEN v_card.leech_at IS NULL AND v_action = 'suspend' THEN now()
+        ELSE suspended_at
+      END,
+      updated_at = now()
+    WHERE id = v_card.id;
+  END IF;
+
+  RETURN v_leech_at IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_leech FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.evaluate_leech FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.evaluate_leech FROM anon;
+GRANT EXECUTE ON FUNCTION public.evaluate_leech TO service_role;
+
+COMMENT ON FUNCTION public.evaluate_leech IS 'Re-derives srs_state.leech_at for one card from its review_logs (lapses since last repair >= user_settings.leech_threshold, or 4 failures in a row; 2 passes in a row repair it). Suspends new leeches when leech_action = suspend.';
+
+-- ============================================================
+-- 3. Trigger: every logged review, and every undone one
+-- undo_review restores the card before deleting the attempt, whose log goes with it.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.review_logs_evaluate_leech()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM evaluate_leech(OLD.user_id, OLD.question_id, OLD.subpart_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM evaluate_leech(NEW.user_id, NEW.question_id, NEW.subpart_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS review_logs_evaluate_leech ON public.review_logs;
+CREATE TRIGGER review_logs_evaluate_leech
+  AFTER INSERT OR DELETE ON public.review_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.review_logs_evaluate_leech();
+
+-- ============================================================
+-- 4. get_buried_question_ids: suspended questions too
+-- Same as 20260327000001 plus questions whose every card is suspended. A multi-part
+-- question with some parts suspended stays; the player skips those parts.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_buried_question_ids(
+  p_user_id uuid
+)
+RETURNS TABLE(question_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH recent_reviews AS (
+    SELECT a.question_id, MAX(a.created_at)::date AS review_day
+    FROM attempts a
+    WHERE a.user_id = p_user_id
+      AND a.created_at >= current_date - 14
+    GROUP BY a.question_id
+  )
+  SELECT sib.id
+  FROM recent_reviews r
+  JOIN questions rq ON rq.id = r.question_id
+  JOIN course_packs cp ON cp.id = rq.course_pack_id
+  JOIN questions sib
+    ON COALESCE(sib.parent_question_id, sib.id) = COALESCE(rq.parent_question_id, rq.id)
+   AND sib.id <> rq.id
+  WHERE cp.sibling_bury_days > 0
+    AND r.review_day + cp.sibling_bury_days > current_date
+  UNION
+  SELECT s.question_id
+  FROM srs_state s
+  WHERE s.user_id = p_user_id
+  GROUP BY s.question_id
+  HAVING bool_and(s.suspended_at IS NOT NULL);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_buried_question_ids TO authenticated;
+
+COMMENT ON FUNCTION public.get_buried_question_ids IS 'Questions whose sibling (same parent_question_id family) the user reviewed within the course''s sibling_bury_days, and questions whose cards are all suspended. Excluded by build_daily_plan and get_recommended_questions.';
+
+-- ============================================================
+-- 5. set_card_suspended
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.set_card_suspended(
+  p_card_id uuid,
+  p_suspended boolean
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE srs_state
+  SET
+    suspended_at = CASE WHEN p_suspended THEN COALESCE(suspended_at, now()) ELSE NULL END,
+    updated_at = now()
+  WHERE id = p_card_id
+    AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Card not found';
+  END IF;
+
+  RETURN json_build_object('success', true, 'suspended', p_suspended);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_card_suspended TO authenticated;
+
+COMMENT ON FUNCTION public.set_card_suspended IS 'Suspends or unsuspends one of the caller''s cards.';
+
+-- ============================================================
+-- 6. Backfill
+-- ============================================================
+SELECT public.evaluate_leech(s.user_id, s.question_id, s.subpart_id)
+FROM public.srs_state s
+WHERE s.lapses > 0;
@@ -0,0 +1,330 @@
+-- Topic mastery from FSRS cards
+-- topic_mastery.mastery_0_1 was a fixed-alpha EMA of right/wrong answers, so it disagreed
+-- with the FSRS cards that get_progress_stats reports and never decayed between sessions.
+-- Mastery and retention are now derived from the cards under each topic:
+--   retention_0_1  coverage-weighted current retrievability: mean R of the topic's cards,
+--                  counting cards never reviewed as 0
+--   mastery_0_1    the same, projected 30 days ahead: what the student keeps without
+--                  reviewing. Rewards stability, and decays as the cards do.
+-- Both use the FSRS forgetting curve with the default decay (as smooth_review_backlog).
+-- A multi-part question counts one card per subpart.
+--   1. topic_card_retrievability(): FSRS R of one card at a point in time
+--   2. compute_topic_mastery(): per-topic retention / mastery for a user
+--   3. get_topic_mastery(): per-topic numbers for the client (weak areas, exam readiness,
+--      dashboard and recommendation presets)
+--   4. update_topic_mastery_after_attempt(): stores the FSRS mastery instead of the EMA
+--   5. refresh_topic_mastery() + run_daily_fsrs_maintenance(): stored values decay daily
+--   6. Backfill
+
+-- ============================================================
+-- 1. topic_card_retrievability
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.topic_card_retrievability(
+  p_stability real,
+  p_last_reviewed_at timestamptz,
+  p_at timestamptz
+)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_last_reviewed_at IS NULL OR p_stability IS NULL OR p_stability <= 0 THEN 0
+    ELSE power(
+      1 + (power(0.9, -1.0 / 0.1542) - 1)
+        * GREATEST(0, EXTRACT(EPOCH FROM (p_at - p_last_reviewed_at)) / 86400) / p_stability,
+      -0.1542
+    )
+  END;
+$$;
+
+COMMENT ON FUNCTION public.topic_card_retrievability IS 'FSRS retrievability of a card at p_at (default decay); 0 for a card never reviewed.';
+
+-- ============================================================
+-- 2. compute_topic_mastery
+-- p_topic_ids NULL = every topic with questions.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.compute_topic_mastery(
+  p_user_id uuid,
+  p_topic_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+  topic_id uuid,
+  cards_total bigint,
+  cards_reviewed bigint,
+  retention_0_1 double precision,
+  mastery_0_1 double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH topic_questions AS (
+    SELECT
+      ut.topic_uuid AS tid,
+      q.id AS qid,
+      CASE WHEN jsonb_typeof(q.subparts) = 'array' THEN jsonb_array_length(q.subparts) ELSE 0 END AS subpart_count
+    FROM questions q
+    CROSS JOIN LATERAL unnest(q.topic_ids) AS ut(topic_uuid)
+    WHERE q.needs_review = FALSE
+      AND COALESCE(q.is_published, true) = true
+      AND COALESCE(q.status, 'approved') = 'approved'
+      AND (p_topic_ids IS NULL OR ut.topic_uuid = ANY(p_topic_ids))
+  ),
+  question_cards AS (
+    SELECT
+      tq.tid,
+      GREATEST(tq.subpart_count, 1) AS card_count,
+      LEAST(COUNT(s.id), GREATEST(tq.subpart_count, 1)) AS reviewed,
+      COALESCE(SUM(topic_card_retrievability(s.stability, s.last_reviewed_at, now())), 0) AS r_now,
+      COALESCE(SUM(topic_card_retrievability(s.stability, s.last_reviewed_at, now() + interval '30 days')), 0) AS r_horizon
+    FROM topic_questions tq
+    LEFT JOIN srs_state s
+      ON s.user_id = p_user_id
+      AND s.question_id = tq.qid
+      AND s.last_reviewed_at IS NOT NULL
+      -- Multi-part questions are scored by their subpart cards only
+      AND (s.subpart_id IS NOT NULL) = (tq.subpart_count > 0)
+    GROUP BY tq.tid, tq.qid, tq.subpart_count
+  )
+  SELECT
+    qc.tid AS topic_id,
+    SUM(qc.card_count)::bigint AS cards_total,
+    SUM(qc.reviewed)::bigint AS cards_reviewed,
+    LEAST(1, SUM(qc.r_now) / SUM(qc.card_count)) AS retention_0_1,
+    LEAST(1, SUM(qc.r_horizon) / SUM(qc.card_count)) AS mastery_0_1
+  FROM question_cards qc
+  GROUP BY qc.tid;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_topic_mastery FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.compute_topic_mastery FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.compute_topic_mastery FROM anon;
+GRANT EXECUTE ON FUNCTION public.compute_topic_mastery TO service_role;
+
+COMMENT ON FUNCTION public.compute_topic_mastery IS 'Per-topic FSRS numbers for a user: retention_0_1 = mean current retrievability over the topic''s cards (unreviewed = 0), mastery_0_1 = the same 30 days ahead.';
+
+-- ============================================================
+-- 3. get_topic_mastery
+-- Topics with at least one card, in the given courses (NULL = all).
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_topic_mastery(
+  p_user_id uuid,
+  p_course_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+  topic_id uuid,
+  topic_title text,
+  course_pack_id uuid,
+  cards_total bigint,
+  cards_reviewed bigint,
+  retention_0_1 double precision,
+  mastery_0_1 double precision,
+  last_practiced_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to read another user''s mastery';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.title,
+    t.course_pack_id,
+    m.cards_total,
+    m.cards_reviewed,
+    m.retention_0_1,
+    m.mastery_0_1,
+    tm.last_practiced_at
+  FROM topics t
+  JOIN compute_topic_mastery(
+    p_user_id,
+    ARRAY(
+      SELECT ct.id FROM topics ct
+      WHERE p_course_ids IS NULL OR ct.course_pack_id = ANY(p_course_ids)
+    )
+  ) m ON m.topic_id = t.id
+  LEFT JOIN topic_mastery tm ON tm.user_id = p_user_id AND tm.topic_id = t.id
+  ORDER BY m.mastery_0_1 ASC, t.title;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_topic_mastery TO authenticated;
+
+COMMENT ON FUNCTION public.get_topic_mastery IS 'Per-topic FSRS retention and mastery (compute_topic_mastery) with topic title and last practice, weakest first. Read by weak areas, exam readiness and the dashboard.';
+
+-- ============================================================
+-- 4. update_topic_mastery_after_attempt
+-- Same as 20260317000001 except mastery_0_1 is the topic's FSRS mastery instead of an
+-- EMA. submit_review() writes the card before the attempt, so it is included.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.update_topic_mastery_after_attempt()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_topic_id uuid;
+  v_new_mastery numeric;
+  v_current_difficulty integer;
+  v_new_difficulty integer;
+  v_current_correct integer;
+  v_current_incorrect integer;
+BEGIN
+  FOR v_topic_id IN
+    SELECT unnest(topic_ids) FROM public.questions WHERE id = NEW.question_id
+  LOOP
+    SELECT effective_difficulty_level, consecutive_correct, consecutive_incorrect
+    INTO v_current_difficulty, v_current_correct, v_current_incorrect
+    FROM public.topic_mastery
+    WHERE user_id = NEW.user_id AND topic_id = v_topic_id;
+
+    v_current_difficulty := COALESCE(v_current_difficulty, 3);
+    v_current_correct := COALESCE(v_current_correct, 0);
+    v_current_incorrect := COALESCE(v_current_incorrect, 0);
+
+    SELECT m.mastery_0_1 INTO v_new_mastery
+    FROM public.compute_topic_mastery(NEW.user_id, ARRAY[v_topic_id]) m;
+    v_new_mastery := COALESCE(v_new_mastery, 0);
+
+    IF NEW.is_correct THEN
+      v_current_correct := v_current_correct + 1;
+      v_current_incorrect := 0;
+    ELSE
+      v_current_incorrect := v_current_incorrect + 1;
+      v_current_correct := 0;
+    END IF;
+
+    v_new_difficulty := v_current_difficulty;
+    IF v_current_correct >= 3 THEN
+      v_new_difficulty := LEAST(5, v_current_difficulty + 1);
+      v_current_correct := 0;
+    ELSIF v_current_incorrect >= 2 THEN
+      v_new_difficulty := GREATEST(1, v_current_difficulty - 1);
+      v_current_incorrect := 0;
+    END IF;
+
+    INSERT INTO public.topic_mastery (
+      user_id, topic_id, mastery_0_1,
+      questions_attempted, questions_correct, last_practiced_at,
+      effective_difficulty_level, consecutive_correct, consecutive_incorrect
+    )
+    VALUES (
+      NEW.user_id, v_topic_id, v_new_mastery,
+      1,
+      CASE WHEN NEW.is_correct THEN 1 ELSE 0 END,
+      now(),
+      v_new_difficulty, v_current_correct, v_current_incorrect
+    )
+    ON CONFLICT (user_id, topic_id)
+    DO UPDATE SET
+      mastery_0_1 = v_new_mastery,
+      questions_attempted = topic_mastery.questions_attempted + 1,
+      questions_correct = topic_mastery.questions_correct + CASE WHEN NEW.is_correct THEN 1 ELSE 0 END,
+      last_practiced_at = now(),
+      effective_difficulty_level = v_new_difficulty,
+      consecutive_correct = v_current_correct,
+      consecutive_incorrect = v_current_incorrect,
+      updated_at = now();
+  END LOOP;
+
+  RETURN NEW;
+END;
+$function$;
+
+COMMENT ON COLUMN public.topic_mastery.mastery_0_1 IS 'FSRS mastery (compute_topic_mastery) as of the last attempt or daily refresh; get_topic_mastery has the live value';
+
+-- ============================================================
+-- 5. refresh_topic_mastery + run_daily_fsrs_maintenance
+-- Stored mastery decays with the cards, for build_daily_plan / get_recommended_questions.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.refresh_topic_mastery()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  UPDATE topic_mastery tm
+  SET
+    mastery_0_1 = m.mastery_0_1,
+    updated_at = now()
+  FROM (SELECT DISTINCT user_id FROM topic_mastery) u
+  CROSS JOIN LATERAL compute_topic_mastery(
+    u.user_id,
+    ARRAY(SELECT ut.topic_id FROM topic_mastery ut WHERE ut.user_id = u.user_id)
+  ) m
+  WHERE tm.user_id = u.user_id
+    AND tm.topic_id = m.topic_id
+    AND tm.mastery_0_1 IS DISTINCT FROM m.mastery_0_1::numeric;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_topic_mastery FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.refresh_topic_mastery FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_topic_mastery FROM anon;
+GRANT EXECUTE ON FUNCTION public.refresh_topic_mastery TO service_role;
+
+COMMENT ON FUNCTION public.refresh_topic_mastery IS
+  'Recomputes every stored topic_mastery.mastery_0_1 from the FSRS cards. Called by run_daily_fsrs_maintenance().';
+
+-- Same as 20260310000001 plus refresh_topic_mastery
+CREATE OR REPLACE FUNCTION public.run_daily_fsrs_maintenance()
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fsrs_result RECORD;
+  v_topic_result RECORD;
+  v_fsrs_updated integer;
+  v_fsrs_processed integer;
+  v_topic_updated integer;
+  v_empirical_updated integer;
+  v_mastery_updated integer;
+BEGIN
+  -- Run FSRS recalculation
+  SELECT * INTO v_fsrs_result FROM recalculate_fsrs_daily();
+  v_fsrs_updated := v_fsrs_result.updated_count;
+  v_fsrs_processed := v_fsrs_result.processed_count;
+
+  -- Update topic scheduled dates
+  SELECT * INTO v_topic_result FROM update_topic_scheduled_dates();
+  v_topic_updated := v_topic_result.updated_count;
+
+  -- Refresh empirical difficulty scores
+  SELECT refresh_empirical_difficulty() INTO v_empirical_updated;
+
+  -- Decay stored topic mastery
+  SELECT refresh_topic_mastery() INTO v_mastery_updated;
+
+  RETURN json_build_object(
+    'success', true,
+    'fsrs_updated', v_fsrs_updated,
+    'fsrs_processed', v_fsrs_processed,
+    'topics_updated', v_topic_updated,
+    'empirical_difficulty_updated', v_empirical_updated,
+    'topic_mastery_updated', v_mastery_updated,
+    'timestamp', now()
+  );
+END;
+$$;
+
+-- ============================================================
+-- 6. Backfill
+-- ============================================================
+SELECT public.refresh_topic_mastery();
@@ -0,0 +1,55 @@
+-- Timed mock exams
+-- A mock exam is a full paper taken against the clock with no feedback until it is
+-- submitted: a real past exam (questions.source_exam) or a blueprint of an upcoming exam's
+-- topic coverage. Each answer goes through submit-review like any other review (SRS, topic
+-- mastery); the paper's score report is kept here for exam readiness.
+--   1. mock_exam_results table
+
+-- ============================================================
+-- 1. mock_exam_results table
+-- ============================================================
+CREATE TABLE public.mock_exam_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_pack_id UUID NOT NULL REFERENCES public.course_packs(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('past_exam', 'blueprint')),
+  title TEXT NOT NULL,
+  -- Past exam taken (source = 'past_exam')
+  source_exam TEXT,
+  -- Upcoming exam the blueprint was built for (source = 'blueprint')
+  calendar_event_id UUID REFERENCES public.calendar_events(id) ON DELETE SET NULL,
+  question_ids UUID[] NOT NULL DEFAULT '{}',
+  time_limit_seconds INTEGER NOT NULL CHECK (time_limit_seconds > 0),
+  time_used_seconds INTEGER NOT NULL CHECK (time_used_seconds >= 0),
+  question_count INTEGER NOT NULL CHECK (question_count > 0),
+  answered_count INTEGER NOT NULL CHECK (answered_count >= 0),
+  correct_count INTEGER NOT NULL CHECK (correct_count >= 0),
+  score_0_1 REAL NOT NULL CHECK (score_0_1 BETWEEN 0 AND 1),
+  by_topic JSONB NOT NULL DEFAULT '[]'::jsonb,
+  by_question_type JSONB NOT NULL DEFAULT '[]'::jsonb,
+  started_at TIMESTAMPTZ NOT NULL,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_mock_exam_results_user_submitted ON public.mock_exam_results(user_id, submitted_at DESC);
+
+ALTER TABLE public.mock_exam_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own mock exam results"
+  ON public.mock_exam_results
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own mock exam results"
+  ON public.mock_exam_results
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT, INSERT ON public.mock_exam_results TO authenticated;
+
+COMMENT ON TABLE public.mock_exam_results IS 'Score reports of submitted mock exams. The answers themselves are attempts/review_logs written through submit-review.';
+COMMENT ON COLUMN public.mock_exam_results.by_topic IS 'Array of {key (topic id), label, correct, total, score}, weakest first';
+COMMENT ON COLUMN public.mock_exam_results.by_question_type IS 'Array of {key, label (question type name), correct, total, score}, weakest first';
@@ -0,0 +1,207 @@
+-- Photo work submission
+-- Free-response parts can be answered with a photo of handwritten work. The photo is
+-- uploaded to the answer-images bucket (<user_id>/<question_id>/<uuid>.<ext>, see
+-- 20260123184413) and graded by grade-answer against the model answer, rubric and
+-- solution steps, with step-level feedback. The photo path and the feedback are stored
+-- with the attempt for later review.
+--   1. submit_review(): also records answer_image_url, ai_feedback, points_earned and
+--      max_points
+--   2. Column comments
+
+-- ============================================================
+-- 1. submit_review(): photo, grading feedback and points
+-- Same as 20260402000001 except the extra attempts columns.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.submit_review(
+  p_user_id uuid,
+  p_question_id uuid,
+  p_expected_version integer,  -- NULL = card must not exist yet
+  p_card jsonb,                -- FSRS fields computed by the edge function
+  p_attempt jsonb              -- attempts columns (selected_choice_id, is_correct, ...)
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current srs_state%ROWTYPE;
+  v_card srs_state%ROWTYPE;
+  v_attempt_id uuid;
+  v_srs_before jsonb;
+  v_mastery_before jsonb;
+  -- Subpart of a multi-part question is its own card; NULL = whole question
+  v_subpart_id text := p_attempt->>'subpart_id';
+  -- Answer time of a review queued offline; NULL = answered now
+  v_reviewed_at timestamptz := (p_attempt->>'reviewed_at')::timestamptz;
+BEGIN
+  SELECT * INTO v_current
+  FROM srs_state
+  WHERE user_id = p_user_id
+    AND question_id = p_question_id
+    AND subpart_id IS NOT DISTINCT FROM v_subpart_id
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF p_expected_version IS NULL OR v_current.version <> p_expected_version THEN
+      RETURN json_build_object('committed', false, 'current', row_to_json(v_current));
+    END IF;
+
+    v_srs_before := to_jsonb(v_current);
+
+    UPDATE srs_state
+    SET
+      due_at = (p_card->>'due_at')::timestamptz,
+      last_reviewed_at = (p_card->>'last_reviewed_at')::timestamptz,
+      reps = (p_card->>'reps')::integer,
+      stability = (p_card->>'stability')::real,
+      difficulty = (p_card->>'difficulty')::real,
+      elapsed_days = (p_card->>'elapsed_days')::real,
+      scheduled_days = (p_card->>'scheduled_days')::real,
+      lapses = (p_card->>'lapses')::integer,
+      learning_steps = (p_card->>'learning_steps')::integer,
+      state = (p_card->>'state')::smallint,
+      version = v_current.version + 1,
+      updated_at = now()
+    WHERE id = v_current.id
+    RETURNING * INTO v_card;
+  ELSE
+    IF p_expected_version IS NOT NULL THEN
+      -- Card was deleted (e.g. progress reset) since the edge function read it
+      RETURN json_build_object('committed', false, 'current', NULL);
+    END IF;
+
+    INSERT INTO srs_state (
+      user_id, question_id, subpart_id, due_at, last_reviewed_at, reps, stability, difficulty,
+      elapsed_days, scheduled_days, lapses, learning_steps, state, version
+    ) VALUES (
+      p_user_id,
+      p_question_id,
+      v_subpart_id,
+      (p_card->>'due_at')::timestamptz,
+      (p_card->>'last_reviewed_at')::timestamptz,
+      (p_card->>'reps')::integer,
+      (p_card->>'stability')::real,
+      (p_card->>'difficulty')::real,
+      (p_card->>'elapsed_days')::real,
+      (p_card->>'scheduled_days')::real,
+      (p_card->>'lapses')::integer,
+      (p_card->>'learning_steps')::integer,
+      (p_card->>'state')::smallint,
+      0
+    )
+    ON CONFLICT (user_id, question_id, subpart_id) DO NOTHING
+    RETURNING * INTO v_card;
+
+    IF v_card.id IS NULL THEN
+      -- Another tab created the card first; hand back its row for a recompute
+      SELECT * INTO v_current
+      FROM srs_state
+      WHERE user_id = p_user_id
+        AND question_id = p_question_id
+        AND subpart_id IS NOT DISTINCT FROM v_subpart_id;
+      RETURN json_build_object('committed', false, 'current', row_to_json(v_current));
+    END IF;
+  END IF;
+
+  -- Mastery rows the attempts trigger is about to update. Read without a lock, so the parts
+  -- of one answer submitted in parallel may each see the other's update.
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'topic_id', t.topic_id,
+    'existed', tm.id IS NOT NULL,
+    'mastery_0_1', tm.mastery_0_1,
+    'questions_attempted', tm.questions_attempted,
+    'questions_correct', tm.questions_correct,
+    'last_practiced_at', tm.last_practiced_at,
+    'effective_difficulty_level', tm.effective_difficulty_level,
+    'consecutive_correct', tm.consecutive_correct,
+    'consecutive_incorrect', tm.consecutive_incorrect
+  )), '[]'::jsonb)
+  INTO v_mastery_before
+  FROM (
+    SELECT DISTINCT unnest(q.topic_ids) AS topic_id
+    FROM questions q
+    WHERE q.id = p_question_id
+  ) t
+  LEFT JOIN topic_mastery tm ON tm.user_id = p_user_id AND tm.topic_id = t.topic_id;
+
+  -- Same transaction: topic mastery is still handled by the attempts trigger
+  INSERT INTO attempts (
+    user_id, question_id, selected_choice_id, is_correct, confidence, hint_used,
+    guide_used, time_spent_ms, subpart_id, answer_text, answer_image_url, ai_feedback,
+    points_earned, max_points, fsrs_rating, created_at
+  ) VALUES (
+    p_user_id,
+    p_question_id,
+    p_attempt->>'selected_choice_id',
+    (p_attempt->>'is_correct')::boolean,
+    p_attempt->>'confidence',
+    COALESCE((p_attempt->>'hint_used')::boolean, false),
+    COALESCE((p_attempt->>'guide_used')::boolean, false),
+    (p_attempt->>'time_spent_ms')::integer,
+    v_subpart_id,
+    p_attempt->>'answer_text',
+    p_attempt->>'answer_image_url',
+    p_attempt->'ai_feedback',
+    (p_attempt->>'points_earned')::numeric,
+    (p_attempt->>'max_points')::numeric,
+    (p_attempt->>'fsrs_rating')::smallint,
+    COALESCE(v_reviewed_at, now())
+  )
+  RETURNING id INTO v_attempt_id;
+
+  -- Review log (ts-fsrs ReviewLog: card before, card after, rating)
+  INSERT INTO review_logs (
+    user_id, question_id, subpart_id, attempt_id, rating, reviewed_at,
+    state, due, stability, difficulty, learning_steps,
+    state_after, due_after, stability_after, difficulty_after, learning_steps_after,
+    elapsed_days, scheduled_days
+  ) VALUES (
+    p_user_id,
+    p_question_id,
+    v_subpart_id,
+    v_attempt_id,
+    (p_attempt->>'fsrs_rating')::smallint,
+    COALESCE(v_reviewed_at, v_card.last_reviewed_at, now()),
+    COALESCE((v_srs_before->>'state')::smallint, 0),
+    COALESCE((v_srs_before->>'due_at')::timestamptz, v_card.last_reviewed_at, now()),
+    COALESCE((v_srs_before->>'stability')::real, 0),
+    COALESCE((v_srs_before->>'difficulty')::real, 0),
+    COALESCE((v_srs_before->>'learning_steps')::integer, 0),
+    v_card.state,
+    v_card.due_at,
+    v_card.stability,
+    v_card.difficulty,
+    v_card.learning_steps,
+    v_card.elapsed_days,
+    v_card.scheduled_days
+  );
+
+  INSERT INTO review_undo_snapshots (attempt_id, user_id, question_id, srs_before, srs_version_after, mastery_before)
+  VALUES (v_attempt_id, p_user_id, p_question_id, v_srs_before, v_card.version, v_mastery_before);
+
+  -- Only recent answers are undoable
+  DELETE FROM review_undo_snapshots
+  WHERE user_id = p_user_id
+    AND created_at < now() - interval '1 day';
+
+  RETURN json_build_object(
+    'committed', true,
+    'card', row_to_json(v_card),
+    'attempt_id', v_attempt_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_review FROM anon;
+GRANT EXECUTE ON FUNCTION public.submit_review TO service_role;
+
+-- ============================================================
+-- 2. Column comments
+-- ============================================================
+COMMENT ON COLUMN public.attempts.answer_image_url IS
+  'Storage path of a photo of the student''s work in the answer-images bucket (<user_id>/<question_id>/<uuid>.<ext>); read through a signed URL';
+COMMENT ON COLUMN public.attempts.ai_feedback IS
+  'Grading result for free-response answers: { isCorrect, score, feedback, gradedBy: "spec" | "ai", steps?: [{ step, status: "correct" | "error" | "missing", comment }] }';
@@ -0,0 +1,56 @@
+-- Personal bookmarks, flags and notes on questions
+-- A student can bookmark a question to practice later (the "Bookmarked" focus preset),
+-- flag it as confusing, and keep their own note next to the solution. The note comes back
+-- whenever the question is shown again, and the Notes page searches and exports them.
+--   1. question_notes table
+
+-- ============================================================
+-- 1. question_notes table
+-- ============================================================
+CREATE TABLE public.question_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  bookmarked BOOLEAN NOT NULL DEFAULT false,
+  confusing BOOLEAN NOT NULL DEFAULT false,
+  note TEXT NOT NULL DEFAULT '' CHECK (char_length(note) <= 5000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, question_id)
+);
+
+CREATE INDEX idx_question_notes_user_bookmarked ON public.question_notes(user_id) WHERE bookmarked;
+
+CREATE TRIGGER update_question_notes_updated_at BEFORE UPDATE ON public.question_notes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.question_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own question notes"
+  ON public.question_notes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own question notes"
+  ON public.question_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own question notes"
+  ON public.question_notes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own question notes"
+  ON public.question_notes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.question_notes TO authenticated;
+
+COMMENT ON TABLE public.question_notes IS 'Per-student bookmark, "confusing" flag and free-text note on a question. A row with nothing set is deleted rather than kept.';
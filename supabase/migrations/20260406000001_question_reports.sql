@@ -0,0 +1,142 @@
+-- Student problem reports
+-- Students report a wrong answer key, an ambiguous question, broken rendering (LaTeX,
+-- missing image), a typo or something else from the player. Admins triage the reports
+-- per question (/admin/reports) and resolve or dismiss them. Once REPORT_HIDE_THRESHOLD
+-- different students have an open report on a question, it is hidden from study plans
+-- until the reports are closed.
+--   1. question_reports table
+--   2. questions.reports_hidden_at + refresh_question_report_hiding() trigger
+--   3. get_buried_question_ids(): hidden questions too
+
+-- ============================================================
+-- 1. question_reports table
+-- ============================================================
+CREATE TABLE public.question_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  subpart_id TEXT,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('wrong_key', 'ambiguous', 'rendering', 'typo', 'other')),
+  details TEXT NOT NULL DEFAULT '' CHECK (char_length(details) <= 1000),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_question_reports_open ON public.question_reports(question_id) WHERE status = 'open';
+
+ALTER TABLE public.question_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own question reports"
+  ON public.question_reports
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own question reports"
+  ON public.question_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND status = 'open' AND resolved_by IS NULL);
+
+CREATE POLICY "Admins can view all question reports"
+  ON public.question_reports
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update question reports"
+  ON public.question_reports
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+GRANT SELECT, INSERT, UPDATE ON public.question_reports TO authenticated;
+
+COMMENT ON TABLE public.question_reports IS 'Problems students report on a question (wrong key, ambiguous, rendering, typo, other), triaged by admins.';
+
+-- ============================================================
+-- 2. Hiding reported questions
+-- REPORT_HIDE_THRESHOLD = 3 different students with an open report. Closing the
+-- reports (resolve or dismiss) brings the question back.
+-- ============================================================
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS reports_hidden_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.questions.reports_hidden_at IS 'Set while enough students have an open report on the question; hidden from study plans (get_buried_question_ids).';
+
+CREATE OR REPLACE FUNCTION public.refresh_question_report_hiding()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  REPORT_HIDE_THRESHOLD CONSTANT int := 3;
+  v_hidden boolean;
+BEGIN
+  SELECT COUNT(DISTINCT r.user_id) >= REPORT_HIDE_THRESHOLD INTO v_hidden
+  FROM question_reports r
+  WHERE r.question_id = NEW.question_id
+    AND r.status = 'open';
+
+  UPDATE questions
+  SET reports_hidden_at = CASE WHEN v_hidden THEN now() END
+  WHERE id = NEW.question_id
+    AND (reports_hidden_at IS NOT NULL) IS DISTINCT FROM v_hidden;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS question_reports_refresh_hiding ON public.question_reports;
+CREATE TRIGGER question_reports_refresh_hiding
+  AFTER INSERT OR UPDATE OF status ON public.question_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_question_report_hiding();
+
+-- ============================================================
+-- 3. get_buried_question_ids: hidden questions too
+-- Same as 20260331000001 plus questions hidden by reports.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_buried_question_ids(
+  p_user_id uuid
+)
+RETURNS TABLE(question_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH recent_reviews AS (
+    SELECT a.question_id, MAX(a.created_at)::date AS review_day
+    FROM attempts a
+    WHERE a.user_id = p_user_id
+      AND a.created_at >= current_date - 14
+    GROUP BY a.question_id
+  )
+  SELECT sib.id
+  FROM recent_reviews r
+  JOIN questions rq ON rq.id = r.question_id
+  JOIN course_packs cp ON cp.id = rq.course_pack_id
+  JOIN questions sib
+    ON COALESCE(sib.parent_question_id, sib.id) = COALESCE(rq.parent_question_id, rq.id)
+   AND sib.id <> rq.id
+  WHERE cp.sibling_bury_days > 0
+    AND r.review_day + cp.sibling_bury_days > current_date
+  UNION
+  SELECT s.question_id
+  FROM srs_state s
+  WHERE s.user_id = p_user_id
+  GROUP BY s.question_id
+  HAVING bool_and(s.suspended_at IS NOT NULL)
+  UNION
+  SELECT q.id
+  FROM questions q
+  WHERE q.reports_hidden_at IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_buried_question_ids TO authenticated;
+
+COMMENT ON FUNCTION public.get_buried_question_ids IS 'Questions whose sibling (same parent_question_id family) the user reviewed within the course''s sibling_bury_days, questions whose cards are all suspended, and questions hidden by student reports. Excluded by build_daily_plan and get_recommended_questions.';
@@ -0,0 +1,20 @@
+-- Flashcards from V4 chunk analysis
+-- The V4 material analysis extracts definitions, formulas (with variables and conditions)
+-- and key terms per chunk. Admins turn them into flashcards from the material drawer:
+-- term -> definition, formula -> name and conditions, and a cloze on each formula
+-- variable. A flashcard is a question with question_format = 'flashcard', so it gets an
+-- FSRS card like any other question and is picked by get_recommended_questions and
+-- build_daily_plan. The student reveals the back and rates their recall.
+--   1. questions.flashcard
+
+-- ============================================================
+-- 1. questions.flashcard
+-- ============================================================
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS flashcard JSONB;
+
+COMMENT ON COLUMN public.questions.flashcard IS 'Flashcard content when question_format = ''flashcard'': {kind: definition|formula|cloze, key, front, back, conditions?, evidence?}. key is unique per source material, so regenerating skips existing cards.';
+
+CREATE INDEX IF NOT EXISTS idx_questions_flashcard_material
+  ON public.questions(source_material_id)
+  WHERE question_format = 'flashcard';
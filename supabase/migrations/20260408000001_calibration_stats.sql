@@ -0,0 +1,70 @@
+-- Confidence calibration
+-- Attempts record how sure the student was (guessed / unsure / knew_it). Comparing that
+-- with how often they were right shows over- and under-confidence: the Progress page
+-- draws a reliability diagram, a Brier score and per-topic call-outs from these counts
+-- (src/lib/calibration.ts maps each level to a stated probability).
+--   1. get_calibration_stats(): attempts and correct answers per confidence level,
+--      overall and per topic
+
+-- ============================================================
+-- 1. get_calibration_stats
+-- p_user_id NULL = every student (admins only); admins may also read any one student.
+-- Rows with topic_id NULL are the totals; an attempt counts once per topic of its
+-- question. Attempts without a confidence (skipped, rating buttons) are left out.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_calibration_stats(
+  p_user_id uuid DEFAULT NULL,
+  p_course_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+  topic_id uuid,
+  topic_title text,
+  confidence text,
+  attempts bigint,
+  correct bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (p_user_id IS NULL OR p_user_id <> auth.uid())
+     AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not authorized to read another user''s calibration';
+  END IF;
+
+  RETURN QUERY
+  WITH rated AS (
+    SELECT a.confidence::text AS confidence, a.is_correct, q.topic_ids
+    FROM attempts a
+    JOIN questions q ON q.id = a.question_id
+    WHERE a.confidence IS NOT NULL
+      AND (p_user_id IS NULL OR a.user_id = p_user_id)
+      AND (p_course_ids IS NULL OR q.course_pack_id = ANY(p_course_ids))
+  )
+  SELECT
+    NULL::uuid,
+    NULL::text,
+    r.confidence,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE r.is_correct)
+  FROM rated r
+  GROUP BY r.confidence
+  UNION ALL
+  SELECT
+    t.id,
+    t.title,
+    r.confidence,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE r.is_correct)
+  FROM rated r
+  CROSS JOIN LATERAL unnest(r.topic_ids) AS rt(topic_id)
+  JOIN topics t ON t.id = rt.topic_id
+  GROUP BY t.id, t.title, r.confidence;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_calibration_stats TO authenticated;
+
+COMMENT ON FUNCTION public.get_calibration_stats IS 'Attempts and correct answers per confidence level (guessed / unsure / knew_it), overall (topic_id NULL) and per topic. A student reads their own; admins read any student, or everyone with p_user_id NULL.';
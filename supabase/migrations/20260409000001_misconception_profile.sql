@@ -0,0 +1,334 @@
+-- Misconception tracking
+-- Generated MCQs name the misconception behind each wrong choice
+-- (questions.distractor_rationales: id, misconception, diagnosis, fix, check) and
+-- attempts record the choice picked (attempts.selected_choice_id). Joining the two gives
+-- each student a misconception profile: which misconceptions they have picked, how often,
+-- and whether they are fading. A misconception is keyed by its normalised diagnosis
+-- (the raw misconception text when there is none), so the same diagnosis on different
+-- questions counts as one. It fades once the student answers questions carrying it
+-- correctly after last picking it, and is cleared after MISCONCEPTION_CLEARED_AFTER (3)
+-- such answers (src/lib/misconceptions.ts).
+--   1. get_misconception_profile(): per-misconception picks and correct answers since
+--   2. get_misconception_question_ids(): questions carrying a misconception not yet cleared
+--   3. get_recommended_questions() boosts those questions
+
+-- ============================================================
+-- 1. get_misconception_profile
+-- question_ids / topic_ids: every published question (in p_course_ids) carrying the
+-- misconception, not only the ones the student picked it on.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_misconception_profile(
+  p_user_id uuid,
+  p_course_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+  misconception_key text,
+  diagnosis text,
+  fix text,
+  question_ids uuid[],
+  topic_ids uuid[],
+  times_selected bigint,
+  first_selected_at timestamptz,
+  last_selected_at timestamptz,
+  correct_since bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid()
+     AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not authorized to read another user''s misconceptions';
+  END IF;
+
+  RETURN QUERY
+  WITH rationales AS (
+    SELECT
+      q.id AS question_id,
+      q.topic_ids,
+      (q.needs_review = FALSE AND COALESCE(q.is_published, true)) AS published,
+      d->>'id' AS choice_id,
+      COALESCE(NULLIF(btrim(d->>'diagnosis'), ''), btrim(d->>'misconception')) AS diagnosis,
+      NULLIF(btrim(d->>'fix'), '') AS fix
+    FROM questions q
+    CROSS JOIN LATERAL jsonb_array_elements(q.distractor_rationales) d
+    WHERE jsonb_typeof(q.distractor_rationales) = 'array'
+      AND (p_course_ids IS NULL OR q.course_pack_id = ANY(p_course_ids))
+  ),
+  keyed AS (
+    SELECT r.*, lower(btrim(regexp_replace(r.diagnosis, '\s+', ' ', 'g'))) AS key
+    FROM rationales r
+    WHERE COALESCE(r.diagnosis, '') <> ''
+  ),
+  picks AS (
+    SELECT k.key, MIN(k.diagnosis) AS diagnosis, MIN(k.fix) AS fix,
+           COUNT(*) AS times_selected,
+           MIN(a.created_at) AS first_selected_at,
+           MAX(a.created_at) AS last_selected_at
+    FROM attempts a
+    JOIN keyed k ON k.question_id = a.question_id AND k.choice_id = a.selected_choice_id
+    WHERE a.user_id = p_user_id
+      AND a.is_correct = false
+      AND a.subpart_id IS NULL
+    GROUP BY k.key
+  )
+  SELECT
+    p.key,
+    p.diagnosis,
+    p.fix,
+    ARRAY(SELECT DISTINCT k.question_id FROM keyed k WHERE k.key = p.key AND k.published),
+    ARRAY(SELECT DISTINCT t FROM keyed k CROSS JOIN LATERAL unnest(k.topic_ids) t WHERE k.key = p.key AND k.published),
+    p.times_selected,
+    p.first_selected_at,
+    p.last_selected_at,
+    (
+      SELECT COUNT(*)
+      FROM attempts a
+      WHERE a.user_id = p_user_id
+        AND a.is_correct
+        AND a.subpart_id IS NULL
+        AND a.created_at > p.last_selected_at
+        AND a.question_id IN (SELECT k.question_id FROM keyed k WHERE k.key = p.key)
+    )
+  FROM picks p
+  ORDER BY p.last_selected_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_misconception_profile TO authenticated;
+
+COMMENT ON FUNCTION public.get_misconception_profile IS 'Misconceptions (distractor_rationales diagnoses) the user picked a wrong choice for: times picked, first/last pick, correct answers on questions carrying it since the last pick, and those questions and topics. A student reads their own; admins read any student.';
+
+-- ============================================================
+-- 2. get_misconception_question_ids
+-- Cleared = 3 correct answers since the last pick (MISCONCEPTION_CLEARED_AFTER).
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_misconception_question_ids(
+  p_user_id uuid
+)
+RETURNS TABLE(question_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH rationales AS (
+    SELECT
+      q.id AS question_id,
+      d->>'id' AS choice_id,
+      lower(btrim(regexp_replace(
+        COALESCE(NULLIF(btrim(d->>'diagnosis'), ''), btrim(d->>'misconception')), '\s+', ' ', 'g'
+      ))) AS key
+    FROM questions q
+    CROSS JOIN LATERAL jsonb_array_elements(q.distractor_rationales) d
+    WHERE jsonb_typeof(q.distractor_rationales) = 'array'
+  ),
+  picks AS (
+    SELECT r.key, MAX(a.created_at) AS last_selected_at
+    FROM attempts a
+    JOIN rationales r ON r.question_id = a.question_id AND r.choice_id = a.selected_choice_id
+    WHERE a.user_id = p_user_id
+      AND a.is_correct = false
+      AND a.subpart_id IS NULL
+      AND COALESCE(r.key, '') <> ''
+    GROUP BY r.key
+  )
+  SELECT DISTINCT r.question_id
+  FROM picks p
+  JOIN rationales r ON r.key = p.key
+  WHERE (
+    SELECT COUNT(*)
+    FROM attempts a
+    JOIN rationales r2 ON r2.question_id = a.question_id AND r2.key = p.key
+    WHERE a.user_id = p_user_id
+      AND a.is_correct
+      AND a.subpart_id IS NULL
+      AND a.created_at > p.last_selected_at
+  ) < 3;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_misconception_question_ids TO authenticated;
+
+COMMENT ON FUNCTION public.get_misconception_question_ids IS 'Questions carrying a misconception the user picked and has not yet cleared (3 correct answers on its questions since the last pick). Boosted by get_recommended_questions.';
+
+-- ============================================================
+-- 3. get_recommended_questions: boost misconception questions
+-- Same as 20260327000001_sibling_burying.sql plus v_misconception: questions from
+-- get_misconception_question_ids() get +0.2 on their score.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_recommended_questions(
+  p_user_id uuid,
+  p_limit integer DEFAULT 10,
+  p_current_week integer DEFAULT 1,
+  p_pace_offset integer DEFAULT 1,
+  p_target_difficulty integer DEFAULT 3,
+  p_course_id uuid DEFAULT NULL,
+  p_exam_name text DEFAULT NULL,
+  p_topic_ids uuid[] DEFAULT NULL,
+  p_question_type_id uuid DEFAULT NULL,
+  p_ignore_constraints boolean DEFAULT FALSE,
+  p_enrolled_course_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+  question_id uuid,
+  prompt text,
+  choices jsonb,
+  correct_answer text,
+  hint text,
+  solution_steps jsonb,
+  difficulty integer,
+  source_exam text,
+  topic_ids uuid[],
+  question_type_id uuid,
+  course_pack_id uuid,
+  course_name text,
+  score double precision,
+  due_urgency double precision,
+  knowledge_gap double precision,
+  difficulty_match double precision
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_effective_week integer;
+  v_today_start timestamptz;
+  v_buried uuid[];
+  v_misconception uuid[];
+BEGIN
+  -- Calculate effective week based on pace
+  v_effective_week := p_current_week + p_pace_offset;
+
+  -- Get start of today (for excluding already-attempted questions)
+  v_today_start := date_trunc('day', now());
+
+  -- Siblings of recently reviewed items are deferred (course_packs.sibling_bury_days)
+  v_buried := ARRAY(SELECT b.question_id FROM get_buried_question_ids(p_user_id) b);
+
+  -- Questions carrying a misconception the student still picks
+  v_misconception := ARRAY(SELECT m.question_id FROM get_misconception_question_ids(p_user_id) m);
+
+  RETURN QUERY
+  WITH user_srs AS (
+    SELECT
+      s.question_id,
+      s.due_at,
+      s.scheduled_days,
+      s.stability,
+      s.state
+    FROM srs_state s
+    WHERE s.user_id = p_user_id
+  ),
+  user_mastery AS (
+    SELECT
+      tm.topic_id,
+      tm.mastery_0_1
+    FROM topic_mastery tm
+    WHERE tm.user_id = p_user_id
+  ),
+  -- Questions already attempted today (to exclude from recommendations)
+  today_attempts AS (
+    SELECT DISTINCT a.question_id
+    FROM attempts a
+    WHERE a.user_id = p_user_id
+      AND a.created_at >= v_today_start
+  )
+  SELECT DISTINCT ON (q.id)
+    q.id as question_id,
+    q.prompt,
+    q.choices,
+    q.correct_answer,
+    q.hint,
+    q.solution_steps,
+    q.difficulty,
+    q.source_exam,
+    q.topic_ids,
+    q.question_type_id,
+    q.course_pack_id,
+    cp.title as course_name,
+    -- Calculate composite score
+    (
+      COALESCE(
+        CASE
+          WHEN s.due_at IS NULL THEN 0.5
+          WHEN s.state IN (1, 3) AND s.due_at <= now() THEN 1.0
+          WHEN s.due_at <= now() THEN 1.0 - (1.0 / (1.0 + EXTRACT(EPOCH FROM (now() - s.due_at)) / 86400.0))
+          ELSE 0.3
+        END, 0.5
+      ) * 0.3 +
+      (
+        SELECT COALESCE(1.0 - AVG(COALESCE(um.mastery_0_1, 0.0)), 0.7)::double precision
+        FROM unnest(q.topic_ids) as tid
+        LEFT JOIN user_mastery um ON um.topic_id = tid
+      ) * 0.4 +
+      (1.0 - ABS(COALESCE(q.empirical_difficulty, q.difficulty, 3) - p_target_difficulty)::double precision / 4.0)::double precision * 0.3 +
+      -- Misconception boost
+      CASE WHEN q.id = ANY(v_misconception) THEN 0.2 ELSE 0.0 END
+    )::double precision as score,
+    -- Due urgency component (with FSRS state boost)
+    COALESCE(
+      CASE
+        WHEN s.due_at IS NULL THEN 0.5
+        WHEN s.state IN (1, 3) AND s.due_at <= now() THEN 1.0
+        WHEN s.due_at <= now() THEN 1.0 - (1.0 / (1.0 + EXTRACT(EPOCH FROM (now() - s.due_at)) / 86400.0))
+        ELSE 0.3
+      END, 0.5
+    )::double precision as due_urgency,
+    -- Knowledge gap component (simplified: just mastery_0_1)
+    (
+      SELECT COALESCE(1.0 - AVG(COALESCE(um.mastery_0_1, 0.0)), 0.7)::double precision
+      FROM unnest(q.topic_ids) as tid
+      LEFT JOIN user_mastery um ON um.topic_id = tid
+    ) as knowledge_gap,
+    -- Difficulty match component (uses empirical_difficulty when available)
+    (1.0 - ABS(COALESCE(q.empirical_difficulty, q.difficulty, 3) - p_target_difficulty)::double precision / 4.0)::double precision as difficulty_match
+  FROM questions q
+  LEFT JOIN user_srs s ON s.question_id = q.id
+  LEFT JOIN course_packs cp ON cp.id = q.course_pack_id
+  WHERE q.needs_review = FALSE
+    AND COALESCE(q.is_published, true) = true
+    AND COALESCE(q.status, 'approved') = 'approved'
+    AND (q.course_pack_id IS NULL OR cp.is_published = true)
+    AND NOT EXISTS (SELECT 1 FROM today_attempts ta WHERE ta.question_id = q.id)
+    AND NOT (q.id = ANY(v_buried))
+    -- Course filter: specific course > enrolled courses > all courses (admin fallback)
+    AND (
+      (p_course_id IS NOT NULL AND q.course_pack_id = p_course_id)
+      OR (p_course_id IS NULL AND p_enrolled_course_ids IS NOT NULL AND q.course_pack_id = ANY(p_enrolled_course_ids))
+      OR (p_course_id IS NULL AND p_enrolled_course_ids IS NULL)
+    )
+    AND (p_exam_name IS NULL OR q.source_exam = p_exam_name)
+    AND (p_topic_ids IS NULL OR q.topic_ids && p_topic_ids)
+    AND (p_question_type_id IS NULL OR q.question_type_id = p_question_type_id)
+  ORDER BY q.id,
+    CASE WHEN p_ignore_constraints THEN q.question_order END ASC NULLS LAST,
+    CASE WHEN NOT p_ignore_constraints THEN (
+      COALESCE(
+        CASE
+          WHEN s.due_at IS NULL THEN 0.5
+          WHEN s.state IN (1, 3) AND s.due_at <= now() THEN 1.0
+          WHEN s.due_at <= now() THEN 1.0 - (1.0 / (1.0 + EXTRACT(EPOCH FROM (now() - s.due_at)) / 86400.0))
+          ELSE 0.3
+        END, 0.5
+      ) * 0.3 +
+      (
+        SELECT COALESCE(1.0 - AVG(COALESCE(um2.mastery_0_1, 0.0)), 0.7)::double precision
+        FROM unnest(q.topic_ids) as tid2
+        LEFT JOIN user_mastery um2 ON um2.topic_id = tid2
+      ) * 0.4 +
+      (1.0 - ABS(COALESCE(q.empirical_difficulty, q.difficulty, 3) - p_target_difficulty)::double precision / 4.0)::double precision * 0.3 +
+      CASE WHEN q.id = ANY(v_misconception) THEN 0.2 ELSE 0.0 END
+    ) END DESC NULLS LAST
+  LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_recommended_questions(
+  uuid, integer, integer, integer, integer, uuid, text, uuid[], uuid, boolean, uuid[]
+) TO authenticated;
+
+-- Reload PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,74 @@
+-- Fix cap_due_dates_for_exams: only cap against exams still ahead
+--
+-- next_exam only required the exam to start after the card's last review. A card
+-- reviewed before an exam that has already passed, and due after it, was moved to
+-- exam_start - 2 days: a date in the past, so the card turned overdue at once (e.g.
+-- after adding a past midterm to the calendar, or when apply_retention_settings
+-- pushed due dates past an old exam). _shared/exam-capping.ts gets the same rule.
+
+-- ============================================================
+-- cap_due_dates_for_exams
+-- Same as 20260328000001_study_pause.sql except next_exam skips exams that have
+-- already started (e.exam_start > now()).
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.cap_due_dates_for_exams(
+  p_user_id uuid
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_capped integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to reschedule another user''s cards';
+  END IF;
+
+  WITH exams AS (
+    SELECT e.question_id, e.exam_date::timestamp AT TIME ZONE 'UTC' AS exam_start
+    FROM get_question_exam_dates(
+      ARRAY(SELECT s.question_id FROM srs_state s WHERE s.user_id = p_user_id AND s.state <> 0)
+    ) e
+  ),
+  next_exam AS (
+    SELECT s.id, MIN(e.exam_start) AS exam_start
+    FROM srs_state s
+    JOIN exams e ON e.question_id = s.question_id
+    WHERE s.user_id = p_user_id
+      AND s.last_reviewed_at IS NOT NULL
+      AND e.exam_start > s.last_reviewed_at
+      AND e.exam_start > now()
+    GROUP BY s.id
+  )
+  UPDATE srs_state s
+  SET
+    due_at = ne.exam_start - interval '2 days',
+    scheduled_days = GREATEST(
+      0,
+      ROUND(EXTRACT(EPOCH FROM (ne.exam_start - interval '2 days' - s.last_reviewed_at)) / 86400)
+    )::real,
+    version = s.version + 1,
+    updated_at = now()
+  FROM next_exam ne
+  WHERE s.id = ne.id
+    AND s.due_at >= ne.exam_start
+    AND s.last_reviewed_at < ne.exam_start - interval '3 days'
+    AND count_paused_days(
+      p_user_id,
+      (ne.exam_start - interval '2 days')::date,
+      (ne.exam_start - interval '2 days')::date
+    ) = 0;
+
+  GET DIAGNOSTICS v_capped = ROW_COUNT;
+
+  RETURN json_build_object(
+    'success', true,
+    'capped', v_capped,
+    'timestamp', now()
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cap_due_dates_for_exams TO authenticated;
@@ -0,0 +1,158 @@
+-- Fix undo_review for multi-part answers
+-- undo_review() required each card to still be at the version its attempt wrote. When two
+-- attempts of one answer touched the same card, undoing the newer one bumped the version
+-- and the older one then always failed with "This card has changed". Mastery had a second
+-- problem: the parts of an answer are submitted in parallel and submit_review() reads the
+-- mastery before-image without a lock, so the newest attempt's before-image is not always
+-- the one restored last.
+--   1. undo_review(): chained version check per card, earliest mastery before-image per topic
+
+-- ============================================================
+-- 1. undo_review()
+-- Same as 20260330000001_subpart_srs_cards.sql except:
+--   - a card already restored by a newer attempt in this batch is accepted when that
+--     attempt's before-image is the version this attempt wrote, and the restore bumps
+--     the current version instead of srs_version_after;
+--   - topic_mastery is restored once after the loop, per topic from the earliest
+--     before-image in the batch (not existing yet, else fewest questions_attempted).
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.undo_review(
+  p_attempt_ids uuid[]  -- all attempts of one answer (several for multi-part questions)
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  r RECORD;
+  v_topic jsonb;
+  v_latest_id uuid;
+  v_undone integer := 0;
+  -- card key -> version the newer attempt in this batch started from
+  v_restored jsonb := '{}'::jsonb;
+  v_card_key text;
+  v_mastery_before jsonb := '[]'::jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR r IN
+    SELECT a.id, a.question_id, a.subpart_id, s.attempt_id AS snapshot_id, s.srs_before, s.srs_version_after, s.mastery_before
+    FROM attempts a
+    LEFT JOIN review_undo_snapshots s ON s.attempt_id = a.id
+    WHERE a.id = ANY(p_attempt_ids)
+      AND a.user_id = v_user_id
+    ORDER BY a.created_at DESC, a.id DESC
+    FOR UPDATE OF a
+  LOOP
+    IF r.snapshot_id IS NULL THEN
+      RAISE EXCEPTION 'This answer can no longer be undone';
+    END IF;
+
+    SELECT id INTO v_latest_id
+    FROM attempts
+    WHERE user_id = v_user_id
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1;
+
+    IF v_latest_id <> r.id THEN
+      RAISE EXCEPTION 'Only your most recent answer can be undone';
+    END IF;
+
+    v_card_key := r.question_id::text || ':' || COALESCE(r.subpart_id, '');
+
+    -- Card: must still be exactly as this review left it, or as the newer attempt of
+    -- this answer found it before we restored that attempt's before-image
+    IF v_restored ? v_card_key THEN
+      IF (v_restored->>v_card_key)::integer IS DISTINCT FROM r.srs_version_after THEN
+        RAISE EXCEPTION 'This card has changed since the answer was recorded';
+      END IF;
+    ELSE
+      PERFORM 1
+      FROM srs_state
+      WHERE user_id = v_user_id
+        AND question_id = r.question_id
+        AND subpart_id IS NOT DISTINCT FROM r.subpart_id
+        AND version = r.srs_version_after
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'This card has changed since the answer was recorded';
+      END IF;
+    END IF;
+
+    IF r.srs_before IS NULL THEN
+      DELETE FROM srs_state
+      WHERE user_id = v_user_id
+        AND question_id = r.question_id
+        AND subpart_id IS NOT DISTINCT FROM r.subpart_id;
+    ELSE
+      UPDATE srs_state
+      SET
+        due_at = (r.srs_before->>'due_at')::timestamptz,
+        last_reviewed_at = (r.srs_before->>'last_reviewed_at')::timestamptz,
+        reps = (r.srs_before->>'reps')::integer,
+        stability = (r.srs_before->>'stability')::real,
+        difficulty = (r.srs_before->>'difficulty')::real,
+        elapsed_days = (r.srs_before->>'elapsed_days')::real,
+        scheduled_days = (r.srs_before->>'scheduled_days')::real,
+        lapses = (r.srs_before->>'lapses')::integer,
+        learning_steps = (r.srs_before->>'learning_steps')::integer,
+        state = (r.srs_before->>'state')::smallint,
+        -- Bump rather than restore so a tab holding the undone card still conflicts
+        version = version + 1,
+        updated_at = now()
+      WHERE user_id = v_user_id
+        AND question_id = r.question_id
+        AND subpart_id IS NOT DISTINCT FROM r.subpart_id;
+    END IF;
+
+    v_restored := v_restored || jsonb_build_object(v_card_key, r.srs_before->'version');
+    v_mastery_before := v_mastery_before || r.mastery_before;
+
+    -- Snapshot goes with it (ON DELETE CASCADE)
+    DELETE FROM attempts WHERE id = r.id;
+    v_undone := v_undone + 1;
+  END LOOP;
+
+  IF v_undone <> COALESCE(array_length(p_attempt_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Answer not found';
+  END IF;
+
+  -- Mastery: reverse the trigger's EMA / streak / difficulty updates of the whole answer
+  FOR v_topic IN
+    SELECT DISTINCT ON (m->>'topic_id') m
+    FROM jsonb_array_elements(v_mastery_before) m
+    ORDER BY m->>'topic_id', (m->>'existed')::boolean, (m->>'questions_attempted')::integer
+  LOOP
+    IF (v_topic->>'existed')::boolean THEN
+      UPDATE topic_mastery
+      SET
+        mastery_0_1 = (v_topic->>'mastery_0_1')::numeric,
+        questions_attempted = (v_topic->>'questions_attempted')::integer,
+        questions_correct = (v_topic->>'questions_correct')::integer,
+        last_practiced_at = (v_topic->>'last_practiced_at')::timestamptz,
+        effective_difficulty_level = (v_topic->>'effective_difficulty_level')::integer,
+        consecutive_correct = (v_topic->>'consecutive_correct')::integer,
+        consecutive_incorrect = (v_topic->>'consecutive_incorrect')::integer,
+        updated_at = now()
+      WHERE user_id = v_user_id
+        AND topic_id = (v_topic->>'topic_id')::uuid;
+    ELSE
+      DELETE FROM topic_mastery
+      WHERE user_id = v_user_id
+        AND topic_id = (v_topic->>'topic_id')::uuid;
+    END IF;
+  END LOOP;
+
+  RETURN json_build_object(
+    'success', true,
+    'undone', v_undone
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.undo_review TO authenticated;
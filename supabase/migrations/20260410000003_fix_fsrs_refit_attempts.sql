@@ -0,0 +1,49 @@
+-- Fix FSRS re-fit loop and weights lookup guard
+-- recalculate_fsrs_for_user() reports the parameters as stale while 100+ rated reviews
+-- exist since the global row's optimized_at. When the optimizer could not fit the
+-- history (no card reviewed twice yet) nothing was stored, so every app load ran a full
+-- re-fit. The client now records the attempt as a global row without weights.
+--   1. user_fsrs_parameters.weights nullable (NULL = fit attempted, use default weights)
+--   2. get_user_fsrs_weights(): only for the caller's own weights
+
+-- ============================================================
+-- 1. Record fits that produced no weights
+-- ============================================================
+ALTER TABLE public.user_fsrs_parameters
+  ALTER COLUMN weights DROP NOT NULL;
+
+COMMENT ON COLUMN public.user_fsrs_parameters.weights IS 'Fitted FSRS weights; NULL when the last fit found nothing to fit (schedule with the app defaults until the next re-fit)';
+
+-- ============================================================
+-- 2. get_user_fsrs_weights()
+-- Same as 20260320000001_user_fsrs_parameters.sql except it refuses other users' weights
+-- (plpgsql for the check). Service-role callers (edge functions) have no auth.uid().
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_user_fsrs_weights(
+  p_user_id uuid,
+  p_course_id uuid DEFAULT NULL
+)
+RETURNS real[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to read another user''s FSRS parameters';
+  END IF;
+
+  RETURN (
+    SELECT p.weights
+    FROM user_fsrs_parameters p
+    WHERE p.user_id = p_user_id
+      AND (p.course_pack_id = p_course_id OR p.course_pack_id IS NULL)
+    -- Course-specific fit wins over the global fit
+    ORDER BY (p.course_pack_id IS NULL) ASC
+    LIMIT 1
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_fsrs_weights TO authenticated;
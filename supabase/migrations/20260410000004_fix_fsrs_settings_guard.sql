@@ -0,0 +1,36 @@
+-- Fix get_fsrs_settings: only for the caller's own settings
+-- get_fsrs_settings() is SECURITY DEFINER and granted to authenticated, so any signed-in
+-- user could read another user's retention settings by passing their id.
+--   1. get_fsrs_settings(): auth check
+
+-- ============================================================
+-- 1. get_fsrs_settings()
+-- Same as 20260321000001_retention_settings.sql except it refuses other users' settings
+-- (plpgsql for the check). Service-role callers (edge functions) have no auth.uid().
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_fsrs_settings(
+  p_user_id uuid,
+  p_course_id uuid DEFAULT NULL
+)
+RETURNS TABLE(desired_retention real, maximum_interval integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to read another user''s FSRS settings';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(ue.desired_retention, us.desired_retention, 0.9)::real,
+    COALESCE(ue.maximum_interval, us.maximum_interval, 365)
+  FROM (SELECT 1) AS d
+  LEFT JOIN user_settings us ON us.user_id = p_user_id
+  LEFT JOIN user_enrollments ue ON ue.user_id = p_user_id AND ue.course_pack_id = p_course_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_fsrs_settings TO authenticated;
@@ -0,0 +1,182 @@
+-- Rank recommended questions by score
+-- get_recommended_questions() picks one row per question with DISTINCT ON (q.id), which
+-- must lead the ORDER BY: the candidates came out in question-id order and LIMIT kept
+-- the first p_limit ids, whatever their score. The score (and p_ignore_constraints'
+-- question_order) only chose between a question's cards. Boosts such as the
+-- misconception one therefore barely changed which questions were recommended.
+--   1. get_recommended_questions(): de-duplicate first, then rank and limit
+
+-- ============================================================
+-- 1. get_recommended_questions
+-- Same as 20260409000001_misconception_profile.sql except the components CTE keeps one
+-- row per question (its most urgent card) and the outer query ranks those rows by
+-- score, or by question_order with p_ignore_constraints.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_recommended_questions(
+  p_user_id uuid,
+  p_limit integer DEFAULT 10,
+  p_current_week integer DEFAULT 1,
+  p_pace_offset integer DEFAULT 1,
+  p_target_difficulty integer DEFAULT 3,
+  p_course_id uuid DEFAULT NULL,
+  p_exam_name text DEFAULT NULL,
+  p_topic_ids uuid[] DEFAULT NULL,
+  p_question_type_id uuid DEFAULT NULL,
+  p_ignore_constraints boolean DEFAULT FALSE,
+  p_enrolled_course_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+  question_id uuid,
+  prompt text,
+  choices jsonb,
+  correct_answer text,
+  hint text,
+  solution_steps jsonb,
+  difficulty integer,
+  source_exam text,
+  topic_ids uuid[],
+  question_type_id uuid,
+  course_pack_id uuid,
+  course_name text,
+  score double precision,
+  due_urgency double precision,
+  knowledge_gap double precision,
+  difficulty_match double precision
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_effective_week integer;
+  v_today_start timestamptz;
+  v_buried uuid[];
+  v_misconception uuid[];
+BEGIN
+  -- Calculate effective week based on pace
+  v_effective_week := p_current_week + p_pace_offset;
+
+  -- Get start of today (for excluding already-attempted questions)
+  v_today_start := date_trunc('day', now());
+
+  -- Siblings of recently reviewed items are deferred (course_packs.sibling_bury_days)
+  v_buried := ARRAY(SELECT b.question_id FROM get_buried_question_ids(p_user_id) b);
+
+  -- Questions carrying a misconception the student still picks
+  v_misconception := ARRAY(SELECT m.question_id FROM get_misconception_question_ids(p_user_id) m);
+
+  RETURN QUERY
+  WITH user_srs AS (
+    SELECT
+      s.question_id,
+      s.due_at,
+      s.scheduled_days,
+      s.stability,
+      s.state
+    FROM srs_state s
+    WHERE s.user_id = p_user_id
+  ),
+  user_mastery AS (
+    SELECT
+      tm.topic_id,
+      tm.mastery_0_1
+    FROM topic_mastery tm
+    WHERE tm.user_id = p_user_id
+  ),
+  -- Questions already attempted today (to exclude from recommendations)
+  today_attempts AS (
+    SELECT DISTINCT a.question_id
+    FROM attempts a
+    WHERE a.user_id = p_user_id
+      AND a.created_at >= v_today_start
+  ),
+  components AS (
+    SELECT DISTINCT ON (q.id)
+      q.id AS qid,
+      q.prompt AS q_prompt,
+      q.choices AS q_choices,
+      q.correct_answer AS q_correct_answer,
+      q.hint AS q_hint,
+      q.solution_steps AS q_solution_steps,
+      q.difficulty AS q_difficulty,
+      q.source_exam AS q_source_exam,
+      q.topic_ids AS q_topic_ids,
+      q.question_type_id AS q_question_type_id,
+      q.course_pack_id AS q_course_pack_id,
+      q.question_order AS q_question_order,
+      cp.title AS cp_title,
+      -- Due urgency component (with FSRS state boost)
+      COALESCE(
+        CASE
+          WHEN s.due_at IS NULL THEN 0.5
+          WHEN s.state IN (1, 3) AND s.due_at <= now() THEN 1.0
+          WHEN s.due_at <= now() THEN 1.0 - (1.0 / (1.0 + EXTRACT(EPOCH FROM (now() - s.due_at)) / 86400.0))
+          ELSE 0.3
+        END, 0.5
+      )::double precision AS c_due_urgency,
+      -- Knowledge gap component (simplified: just mastery_0_1)
+      (
+        SELECT COALESCE(1.0 - AVG(COALESCE(um.mastery_0_1, 0.0)), 0.7)::double precision
+        FROM unnest(q.topic_ids) as tid
+        LEFT JOIN user_mastery um ON um.topic_id = tid
+      ) AS c_knowledge_gap,
+      -- Difficulty match component (uses empirical_difficulty when available)
+      (1.0 - ABS(COALESCE(q.empirical_difficulty, q.difficulty, 3) - p_target_difficulty)::double precision / 4.0)::double precision AS c_difficulty_match,
+      -- Misconception boost
+      CASE WHEN q.id = ANY(v_misconception) THEN 0.2 ELSE 0.0 END::double precision AS c_misconception
+    FROM questions q
+    LEFT JOIN user_srs s ON s.question_id = q.id
+    LEFT JOIN course_packs cp ON cp.id = q.course_pack_id
+    WHERE q.needs_review = FALSE
+      AND COALESCE(q.is_published, true) = true
+      AND COALESCE(q.status, 'approved') = 'approved'
+      AND (q.course_pack_id IS NULL OR cp.is_published = true)
+      AND NOT EXISTS (SELECT 1 FROM today_attempts ta WHERE ta.question_id = q.id)
+      AND NOT (q.id = ANY(v_buried))
+      -- Course filter: specific course > enrolled courses > all courses (admin fallback)
+      AND (
+        (p_course_id IS NOT NULL AND q.course_pack_id = p_course_id)
+        OR (p_course_id IS NULL AND p_enrolled_course_ids IS NOT NULL AND q.course_pack_id = ANY(p_enrolled_course_ids))
+        OR (p_course_id IS NULL AND p_enrolled_course_ids IS NULL)
+      )
+      AND (p_exam_name IS NULL OR q.source_exam = p_exam_name)
+      AND (p_topic_ids IS NULL OR q.topic_ids && p_topic_ids)
+      AND (p_question_type_id IS NULL OR q.question_type_id = p_question_type_id)
+    -- One row per question: its most urgent card
+    ORDER BY q.id, s.due_at ASC NULLS LAST
+  )
+  SELECT
+    c.qid,
+    c.q_prompt,
+    c.q_choices,
+    c.q_correct_answer,
+    c.q_hint,
+    c.q_solution_steps,
+    c.q_difficulty,
+    c.q_source_exam,
+    c.q_topic_ids,
+    c.q_question_type_id,
+    c.q_course_pack_id,
+    c.cp_title,
+    -- Composite score
+    (c.c_due_urgency * 0.3 + c.c_knowledge_gap * 0.4 + c.c_difficulty_match * 0.3 + c.c_misconception)::double precision,
+    c.c_due_urgency,
+    c.c_knowledge_gap,
+    c.c_difficulty_match
+  FROM components c
+  ORDER BY
+    CASE WHEN p_ignore_constraints THEN c.q_question_order END ASC NULLS LAST,
+    CASE WHEN NOT p_ignore_constraints THEN
+      c.c_due_urgency * 0.3 + c.c_knowledge_gap * 0.4 + c.c_difficulty_match * 0.3 + c.c_misconception
+    END DESC NULLS LAST,
+    c.qid
+  LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_recommended_questions(
+  uuid, integer, integer, integer, integer, uuid, text, uuid[], uuid, boolean, uuid[]
+) TO authenticated;
+
+-- Reload PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
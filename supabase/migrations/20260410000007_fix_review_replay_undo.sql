@@ -0,0 +1,156 @@
+-- Fix review replay: keep undo working
+-- apply_review_replay() deleted every undo snapshot, so after a replay (run on app load
+-- whenever the FSRS weights are re-fitted) the student's last answer could no longer be
+-- undone. replay-reviews now also re-applies load balancing, study pauses and backlog
+-- smoothing to the replayed cards (_shared/review-replay.ts).
+--   1. apply_review_replay(): rewrite the snapshots of each card's last answer
+
+-- ============================================================
+-- 1. apply_review_replay()
+-- Same as 20260330000001_subpart_srs_cards.sql except the undo snapshots: p_logs carry
+-- each review's replayed card before it (card_before). A snapshot of a card's last review
+-- gets that before-image and the card's new version; a stale offline answer (no review
+-- log) gets the replayed card itself. Only older snapshots, which can't be undone
+-- anyway, are deleted.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.apply_review_replay(
+  p_user_id uuid,
+  p_latest_log_id uuid,  -- newest review_logs.id the replay saw (NULL = empty log)
+  p_cards jsonb,         -- [{question_id, subpart_id, due_at, last_reviewed_at, reps, stability, ...}]
+  p_logs jsonb           -- [{id, card_before, state, due, stability, difficulty, learning_steps, *_after, elapsed_days, scheduled_days}]
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_latest_id uuid;
+  v_cards integer := 0;
+  v_logs integer := 0;
+BEGIN
+  -- Block concurrent submit_review() calls for this user until commit
+  PERFORM 1 FROM srs_state WHERE user_id = p_user_id FOR UPDATE;
+
+  SELECT id INTO v_latest_id
+  FROM review_logs
+  WHERE user_id = p_user_id
+  ORDER BY reviewed_at DESC, id DESC
+  LIMIT 1;
+
+  IF v_latest_id IS DISTINCT FROM p_latest_log_id THEN
+    RETURN json_build_object('committed', false);
+  END IF;
+
+  INSERT INTO srs_state (
+    user_id, question_id, subpart_id, due_at, last_reviewed_at, reps, stability, difficulty,
+    elapsed_days, scheduled_days, lapses, learning_steps, state, version
+  )
+  SELECT
+    p_user_id, c.question_id, c.subpart_id, c.due_at, c.last_reviewed_at, c.reps, c.stability, c.difficulty,
+    c.elapsed_days, c.scheduled_days, c.lapses, c.learning_steps, c.state, 0
+  FROM jsonb_to_recordset(p_cards) AS c(
+    question_id uuid, subpart_id text, due_at timestamptz, last_reviewed_at timestamptz, reps integer,
+    stability real, difficulty real, elapsed_days real, scheduled_days real,
+    lapses integer, learning_steps integer, state smallint
+  )
+  ON CONFLICT (user_id, question_id, subpart_id) DO UPDATE SET
+    due_at = EXCLUDED.due_at,
+    last_reviewed_at = EXCLUDED.last_reviewed_at,
+    reps = EXCLUDED.reps,
+    stability = EXCLUDED.stability,
+    difficulty = EXCLUDED.difficulty,
+    elapsed_days = EXCLUDED.elapsed_days,
+    scheduled_days = EXCLUDED.scheduled_days,
+    lapses = EXCLUDED.lapses,
+    learning_steps = EXCLUDED.learning_steps,
+    state = EXCLUDED.state,
+    version = srs_state.version + 1,
+    updated_at = now();
+
+  GET DIAGNOSTICS v_cards = ROW_COUNT;
+
+  UPDATE review_logs rl
+  SET
+    state = l.state,
+    due = l.due,
+    stability = l.stability,
+    difficulty = l.difficulty,
+    learning_steps = l.learning_steps,
+    state_after = l.state_after,
+    due_after = l.due_after,
+    stability_after = l.stability_after,
+    difficulty_after = l.difficulty_after,
+    learning_steps_after = l.learning_steps_after,
+    elapsed_days = l.elapsed_days,
+    scheduled_days = l.scheduled_days,
+    updated_at = now()
+  FROM jsonb_to_recordset(p_logs) AS l(
+    id uuid, state smallint, due timestamptz, stability real, difficulty real, learning_steps integer,
+    state_after smallint, due_after timestamptz, stability_after real, difficulty_after real,
+    learning_steps_after integer, elapsed_days real, scheduled_days real
+  )
+  WHERE rl.id = l.id
+    AND rl.user_id = p_user_id;
+
+  GET DIAGNOSTICS v_logs = ROW_COUNT;
+
+  -- Undo snapshots: before-images from the replay, versions of the rewritten cards
+  WITH last_logs AS (
+    SELECT DISTINCT ON (rl.question_id, rl.subpart_id) rl.id, rl.attempt_id
+    FROM review_logs rl
+    WHERE rl.user_id = p_user_id
+    ORDER BY rl.question_id, rl.subpart_id, rl.reviewed_at DESC, rl.id DESC
+  )
+  UPDATE review_undo_snapshots u
+  SET
+    srs_before = l.card_before,
+    srs_version_after = s.version
+  FROM last_logs ll
+  JOIN jsonb_to_recordset(p_logs) AS l(id uuid, card_before jsonb) ON l.id = ll.id
+  JOIN attempts a ON a.id = ll.attempt_id
+  JOIN srs_state s
+    ON s.user_id = p_user_id
+    AND s.question_id = a.question_id
+    AND s.subpart_id IS NOT DISTINCT FROM a.subpart_id
+  WHERE u.attempt_id = ll.attempt_id
+    AND u.user_id = p_user_id;
+
+  -- Stale offline answers left their card as it was: it now is the replayed card
+  UPDATE review_undo_snapshots u
+  SET
+    srs_before = to_jsonb(s),
+    srs_version_after = s.version
+  FROM attempts a
+  JOIN srs_state s
+    ON s.user_id = a.user_id
+    AND s.question_id = a.question_id
+    AND s.subpart_id IS NOT DISTINCT FROM a.subpart_id
+  WHERE u.attempt_id = a.id
+    AND u.user_id = p_user_id
+    AND NOT EXISTS (SELECT 1 FROM review_logs rl WHERE rl.attempt_id = a.id);
+
+  -- Older before-images no longer match the rewritten cards
+  DELETE FROM review_undo_snapshots u
+  WHERE u.user_id = p_user_id
+    AND EXISTS (SELECT 1 FROM review_logs rl WHERE rl.attempt_id = u.attempt_id)
+    AND u.attempt_id NOT IN (
+      SELECT DISTINCT ON (rl.question_id, rl.subpart_id) rl.attempt_id
+      FROM review_logs rl
+      WHERE rl.user_id = p_user_id
+        AND rl.attempt_id IS NOT NULL
+      ORDER BY rl.question_id, rl.subpart_id, rl.reviewed_at DESC, rl.id DESC
+    );
+
+  RETURN json_build_object(
+    'committed', true,
+    'cards', v_cards,
+    'reviews', v_logs
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_review_replay FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.apply_review_replay FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_review_replay FROM anon;
+GRANT EXECUTE ON FUNCTION public.apply_review_replay TO service_role;
@@ -0,0 +1,166 @@
+-- Fix apply_retention_settings: versioned, keeps schedule adjustments
+-- apply_retention_settings() rewrote due_at and scheduled_days without bumping
+-- srs_state.version, so submit_review()'s compare-and-swap could not see the change and an
+-- answer given at the same moment silently won or lost. It also re-derived due_at from
+-- last_reviewed_at alone, dropping what had moved the card since its review: a study pause
+-- shift, a backlog smoothing move, the load-balanced day submit-review picked.
+--   1. apply_retention_settings(): version bump, kept offsets, load-balanced new due dates
+
+-- ============================================================
+-- 1. apply_retention_settings()
+-- Same as 20260321000001_retention_settings.sql except, per rescheduled card:
+--   - the offset between due_at and last_reviewed_at + scheduled_days (pause shift,
+--     backlog smoothing) carries over to the new due date;
+--   - the new interval goes to the least-loaded day within its ts-fsrs fuzz range,
+--     ties closest to the interval (as _shared/load-balancing.ts balanceDueDate);
+--   - version = version + 1.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.apply_retention_settings(
+  p_user_id uuid,
+  p_course_id uuid DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_load jsonb;          -- YYYY-MM-DD -> the user's cards due that day
+  v_card record;
+  v_offset interval;
+  v_delta numeric;
+  v_min integer;
+  v_max integer;
+  v_days integer;
+  v_day_load integer;
+  v_best integer;
+  v_best_load integer;
+  v_due timestamptz;
+  v_updated integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to reschedule another user''s cards';
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(day, n), '{}'::jsonb)
+  INTO v_load
+  FROM (
+    SELECT s.due_at::date::text AS day, COUNT(*) AS n
+    FROM srs_state s
+    WHERE s.user_id = p_user_id
+      AND s.state IN (1, 2, 3)
+      AND s.due_at::date >= current_date
+    GROUP BY 1
+  ) d;
+
+  FOR v_card IN
+    WITH card_settings AS (
+      SELECT
+        s.id,
+        s.due_at,
+        s.last_reviewed_at,
+        s.stability,
+        s.elapsed_days,
+        s.scheduled_days,
+        fs.desired_retention,
+        fs.maximum_interval,
+        -- Personalized decay (w20) when fitted, else the ts-fsrs default
+        -COALESCE((get_user_fsrs_weights(p_user_id, q.course_pack_id))[21], 0.1542) AS decay
+      FROM srs_state s
+      JOIN questions q ON q.id = s.question_id
+      CROSS JOIN LATERAL get_fsrs_settings(p_user_id, q.course_pack_id) fs
+      WHERE s.user_id = p_user_id
+        AND s.state = 2
+        AND s.stability > 0
+        AND s.last_reviewed_at IS NOT NULL
+        AND (p_course_id IS NULL OR q.course_pack_id = p_course_id)
+    )
+    SELECT
+      cs.*,
+      LEAST(
+        cs.maximum_interval,
+        GREATEST(
+          1,
+          ROUND(
+            cs.stability
+            / (power(0.9, 1.0 / cs.decay) - 1)
+            * (power(cs.desired_retention, 1.0 / cs.decay) - 1)
+          )::integer
+        )
+      ) AS interval_days
+    FROM card_settings cs
+    ORDER BY cs.due_at, cs.id
+  LOOP
+    -- Moves since the review (pause shift, backlog smoothing) stay with the card
+    v_offset := v_card.due_at - (v_card.last_reviewed_at + v_card.scheduled_days * interval '1 day');
+    v_days := v_card.interval_days;
+
+    -- Fuzz range of the new interval (ts-fsrs get_fuzz_range); ts-fsrs doesn't fuzz under 3 days
+    IF v_days >= 3 THEN
+      v_delta := 1
+        + 0.15 * GREATEST(LEAST(v_days, 7) - 2.5, 0)
+        + 0.10 * GREATEST(LEAST(v_days, 20) - 7, 0)
+        + 0.05 * GREATEST(v_days - 20, 0);
+      v_min := GREATEST(2, ROUND(v_days - v_delta)::integer);
+      v_max := LEAST(ROUND(v_days + v_delta)::integer, v_card.maximum_interval);
+      IF v_days > v_card.elapsed_days THEN
+        v_min := GREATEST(v_min, CEIL(v_card.elapsed_days)::integer + 1);
+      END IF;
+      v_min := LEAST(v_min, v_max);
+
+      v_best := v_days;
+      v_best_load := NULL;
+      FOR v_day IN v_min..v_max LOOP
+        v_day_load := COALESCE(
+          (v_load->>((v_card.last_reviewed_at + v_day * interval '1 day' + v_offset)::date::text))::integer,
+          0
+        );
+        -- The card's own current due day doesn't count against it
+        IF (v_card.last_reviewed_at + v_day * interval '1 day' + v_offset)::date = v_card.due_at::date THEN
+          v_day_load := v_day_load - 1;
+        END IF;
+        IF v_best_load IS NULL
+          OR v_day_load < v_best_load
+          OR (v_day_load = v_best_load AND abs(v_day - v_card.interval_days) < abs(v_best - v_card.interval_days))
+        THEN
+          v_best := v_day;
+          v_best_load := v_day_load;
+        END IF;
+      END LOOP;
+      v_days := v_best;
+    END IF;
+
+    v_due := v_card.last_reviewed_at + v_days * interval '1 day' + v_offset;
+
+    IF v_days IS DISTINCT FROM v_card.scheduled_days::integer OR v_due IS DISTINCT FROM v_card.due_at THEN
+      UPDATE srs_state
+      SET
+        scheduled_days = v_days,
+        due_at = v_due,
+        version = version + 1,
+        updated_at = now()
+      WHERE id = v_card.id;
+      v_updated := v_updated + 1;
+
+      v_load := jsonb_set(
+        v_load,
+        ARRAY[v_card.due_at::date::text],
+        to_jsonb(COALESCE((v_load->>(v_card.due_at::date::text))::integer, 0) - 1)
+      );
+      v_load := jsonb_set(
+        v_load,
+        ARRAY[v_due::date::text],
+        to_jsonb(COALESCE((v_load->>(v_due::date::text))::integer, 0) + 1)
+      );
+    END IF;
+  END LOOP;
+
+  RETURN json_build_object(
+    'success', true,
+    'rescheduled', v_updated,
+    'timestamp', now()
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_retention_settings TO authenticated;
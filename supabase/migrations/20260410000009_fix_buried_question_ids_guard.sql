@@ -0,0 +1,57 @@
+-- Fix get_buried_question_ids: only for the caller's own ids
+-- get_buried_question_ids() is SECURITY DEFINER and granted to authenticated, so any
+-- signed-in user could list another student's recent reviews (through their buried
+-- siblings) and suspended cards by passing their id.
+--   1. get_buried_question_ids(): auth check
+
+-- ============================================================
+-- 1. get_buried_question_ids()
+-- Same as 20260406000001_question_reports.sql except it refuses other users' ids unless
+-- the caller is an admin (plpgsql for the check), as get_misconception_profile() does.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_buried_question_ids(
+  p_user_id uuid
+)
+RETURNS TABLE(question_id uuid)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid()
+     AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not authorized to read another user''s buried questions';
+  END IF;
+
+  RETURN QUERY
+  WITH recent_reviews AS (
+    SELECT a.question_id, MAX(a.created_at)::date AS review_day
+    FROM attempts a
+    WHERE a.user_id = p_user_id
+      AND a.created_at >= current_date - 14
+    GROUP BY a.question_id
+  )
+  SELECT sib.id
+  FROM recent_reviews r
+  JOIN questions rq ON rq.id = r.question_id
+  JOIN course_packs cp ON cp.id = rq.course_pack_id
+  JOIN questions sib
+    ON COALESCE(sib.parent_question_id, sib.id) = COALESCE(rq.parent_question_id, rq.id)
+   AND sib.id <> rq.id
+  WHERE cp.sibling_bury_days > 0
+    AND r.review_day + cp.sibling_bury_days > current_date
+  UNION
+  SELECT s.question_id
+  FROM srs_state s
+  WHERE s.user_id = p_user_id
+  GROUP BY s.question_id
+  HAVING bool_and(s.suspended_at IS NOT NULL)
+  UNION
+  SELECT q.id
+  FROM questions q
+  WHERE q.reports_hidden_at IS NOT NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_buried_question_ids TO authenticated;
@@ -0,0 +1,65 @@
+-- Fix get_misconception_question_ids: only for the caller's own ids
+-- get_misconception_question_ids() is SECURITY DEFINER and granted to authenticated, so
+-- any signed-in user could list another student's uncleared misconceptions (through the
+-- questions carrying them) by passing their id. get_misconception_profile() already
+-- refused that.
+--   1. get_misconception_question_ids(): auth check
+
+-- ============================================================
+-- 1. get_misconception_question_ids()
+-- Same as 20260409000001_misconception_profile.sql except it refuses other users' ids
+-- unless the caller is an admin (plpgsql for the check), as get_misconception_profile() does.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_misconception_question_ids(
+  p_user_id uuid
+)
+RETURNS TABLE(question_id uuid)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid()
+     AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not authorized to read another user''s misconceptions';
+  END IF;
+
+  RETURN QUERY
+  WITH rationales AS (
+    SELECT
+      q.id AS question_id,
+      d->>'id' AS choice_id,
+      lower(btrim(regexp_replace(
+        COALESCE(NULLIF(btrim(d->>'diagnosis'), ''), btrim(d->>'misconception')), '\s+', ' ', 'g'
+      ))) AS key
+    FROM questions q
+    CROSS JOIN LATERAL jsonb_array_elements(q.distractor_rationales) d
+    WHERE jsonb_typeof(q.distractor_rationales) = 'array'
+  ),
+  picks AS (
+    SELECT r.key, MAX(a.created_at) AS last_selected_at
+    FROM attempts a
+    JOIN rationales r ON r.question_id = a.question_id AND r.choice_id = a.selected_choice_id
+    WHERE a.user_id = p_user_id
+      AND a.is_correct = false
+      AND a.subpart_id IS NULL
+      AND COALESCE(r.key, '') <> ''
+    GROUP BY r.key
+  )
+  SELECT DISTINCT r.question_id
+  FROM picks p
+  JOIN rationales r ON r.key = p.key
+  WHERE (
+    SELECT COUNT(*)
+    FROM attempts a
+    JOIN rationales r2 ON r2.question_id = a.question_id AND r2.key = p.key
+    WHERE a.user_id = p_user_id
+      AND a.is_correct
+      AND a.subpart_id IS NULL
+      AND a.created_at > p.last_selected_at
+  ) < 3;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_misconception_question_ids TO authenticated;
@@ -0,0 +1,14 @@
+-- Fix count_paused_days: internal only
+-- count_paused_days() is SECURITY DEFINER and was granted to authenticated without an
+-- auth check, so any signed-in user could read another student's pause calendar by
+-- passing their id. Its only callers are cap_due_dates_for_exams() and
+-- get_study_streak(), both SECURITY DEFINER, so clients don't need it.
+--   1. count_paused_days(): service_role only
+
+-- ============================================================
+-- 1. count_paused_days()
+-- ============================================================
+REVOKE EXECUTE ON FUNCTION public.count_paused_days FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.count_paused_days FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.count_paused_days FROM anon;
+GRANT EXECUTE ON FUNCTION public.count_paused_days TO service_role;
@@ -0,0 +1,137 @@
+-- Fix FSRS weights lookup: guard recalculate_fsrs_for_user, skip fits without weights
+-- recalculate_fsrs_for_user() is SECURITY DEFINER and granted to authenticated, so any
+-- signed-in user could read another student's fitted weights (and touch their
+-- elapsed_days) by passing their id. get_user_fsrs_weights() ordered the course row
+-- first even when that fit stored no weights, so a course row with NULL weights hid the
+-- global fit.
+--   1. get_user_fsrs_weights(): only rows with weights
+--   2. recalculate_fsrs_for_user(): only for the caller's own id
+
+-- ============================================================
+-- 1. get_user_fsrs_weights()
+-- Same as 20260410000003_fix_fsrs_refit_attempts.sql except a row without weights (fit
+-- attempted, nothing fitted) falls through to the next one.
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.get_user_fsrs_weights(
+  p_user_id uuid,
+  p_course_id uuid DEFAULT NULL
+)
+RETURNS real[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to read another user''s FSRS parameters';
+  END IF;
+
+  RETURN (
+    SELECT p.weights
+    FROM user_fsrs_parameters p
+    WHERE p.user_id = p_user_id
+      AND (p.course_pack_id = p_course_id OR p.course_pack_id IS NULL)
+      AND p.weights IS NOT NULL
+    -- Course-specific fit wins over the global fit
+    ORDER BY (p.course_pack_id IS NULL) ASC
+    LIMIT 1
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_fsrs_weights TO authenticated;
+
+-- ============================================================
+-- 2. recalculate_fsrs_for_user()
+-- Same as 20260320000001_user_fsrs_parameters.sql except it refuses other users' ids.
+-- Service-role callers (edge functions) have no auth.uid().
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.recalculate_fsrs_for_user(
+  p_user_id uuid
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated integer := 0;
+  v_processed integer := 0;
+  r_srs RECORD;
+  v_now timestamptz;
+  v_last_review timestamptz;
+  v_elapsed_days real;
+  -- Re-fit once this many rated reviews have accumulated since the last fit
+  -- (must match MIN_REVIEWS_FOR_OPTIMIZATION in src/lib/fsrs-optimizer.ts)
+  v_refit_threshold integer := 100;
+  v_weights real[];
+  v_optimized_at timestamptz;
+  v_new_reviews integer;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Not authorized to recalculate another user''s FSRS state';
+  END IF;
+
+  v_now := now();
+
+  -- Process all SRS states for this specific user
+  -- Update elapsed_days based on time since last_reviewed_at
+  FOR r_srs IN
+    SELECT
+      s.id,
+      s.last_reviewed_at,
+      s.elapsed_days
+    FROM srs_state s
+    WHERE s.user_id = p_user_id
+      AND s.last_reviewed_at IS NOT NULL
+      -- Only update if last_reviewed_at is before today (to avoid double updates)
+      AND s.last_reviewed_at < date_trunc('day', v_now)
+  LOOP
+    v_processed := v_processed + 1;
+
+    -- Calculate elapsed days since last review
+    v_last_review := r_srs.last_reviewed_at;
+    v_elapsed_days := EXTRACT(EPOCH FROM (v_now - v_last_review)) / 86400.0;
+
+    -- Only update if elapsed_days has changed significantly (more than 0.1 days)
+    IF ABS(v_elapsed_days - COALESCE(r_srs.elapsed_days, 0)) > 0.1 THEN
+      UPDATE srs_state
+      SET
+        elapsed_days = v_elapsed_days,
+        updated_at = v_now
+      WHERE id = r_srs.id;
+
+      v_updated := v_updated + 1;
+    END IF;
+  END LOOP;
+
+  -- Personalized parameters: global fit for this user (if any)
+  SELECT p.weights, p.optimized_at
+  INTO v_weights, v_optimized_at
+  FROM user_fsrs_parameters p
+  WHERE p.user_id = p_user_id
+    AND p.course_pack_id IS NULL;
+
+  SELECT COUNT(*)
+  INTO v_new_reviews
+  FROM attempts a
+  WHERE a.user_id = p_user_id
+    AND a.fsrs_rating IS NOT NULL
+    AND (v_optimized_at IS NULL OR a.created_at > v_optimized_at);
+
+  RETURN json_build_object(
+    'success', true,
+    'updated', v_updated,
+    'processed', v_processed,
+    'fsrs_weights', v_weights,
+    'fsrs_parameters_optimized_at', v_optimized_at,
+    'fsrs_parameters_stale', v_new_reviews >= v_refit_threshold,
+    'timestamp', v_now
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.recalculate_fsrs_for_user TO authenticated;
+
+COMMENT ON FUNCTION public.recalculate_fsrs_for_user IS 'User-specific FSRS recalculation. Updates elapsed_days for a single user and reports the user''s fitted FSRS weights plus whether enough new reviews exist to re-fit them.';
@@ -0,0 +1,91 @@
+-- Fix topic mastery scale: mastery over reviewed cards, drop the stale retention column
+-- compute_topic_mastery() averaged the 30-day retrievability over every card of a topic,
+-- counting cards never reviewed as 0. Mastery became coverage times recall, so the
+-- thresholds tuned for the old EMA (WEAK_TOPIC_MASTERY 0.7 in src/lib/topic-mastery.ts,
+-- the 0.5 behind / stretch cutoffs in build_daily_plan) flagged nearly every partly
+-- covered topic as weak or behind. Mastery is now averaged over the reviewed cards only;
+-- retention_0_1 keeps counting unreviewed cards and cards_reviewed / cards_total give
+-- the coverage. topic_mastery only stores mastery: retention_0_1 went in 20260309000001,
+-- and the retention_updated_at left beside it hasn't been written since 20260317000001.
+--   1. compute_topic_mastery(): mastery over reviewed cards
+--   2. topic_mastery: drop retention_updated_at
+--   3. Backfill
+
+-- ============================================================
+-- 1. compute_topic_mastery()
+-- Same as 20260401000001_fsrs_topic_mastery.sql except mastery_0_1 is the mean over the
+-- reviewed cards (0 when none is).
+-- ============================================================
+CREATE OR REPLACE FUNCTION public.compute_topic_mastery(
+  p_user_id uuid,
+  p_topic_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE(
+  topic_id uuid,
+  cards_total bigint,
+  cards_reviewed bigint,
+  retention_0_1 double precision,
+  mastery_0_1 double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH topic_questions AS (
+    SELECT
+      ut.topic_uuid AS tid,
+      q.id AS qid,
+      CASE WHEN jsonb_typeof(q.subparts) = 'array' THEN jsonb_array_length(q.subparts) ELSE 0 END AS subpart_count
+    FROM questions q
+    CROSS JOIN LATERAL unnest(q.topic_ids) AS ut(topic_uuid)
+    WHERE q.needs_review = FALSE
+      AND COALESCE(q.is_published, true) = true
+      AND COALESCE(q.status, 'approved') = 'approved'
+      AND (p_topic_ids IS NULL OR ut.topic_uuid = ANY(p_topic_ids))
+  ),
+  question_cards AS (
+    SELECT
+      tq.tid,
+      GREATEST(tq.subpart_count, 1) AS card_count,
+      LEAST(COUNT(s.id), GREATEST(tq.subpart_count, 1)) AS reviewed,
+      COALESCE(SUM(topic_card_retrievability(s.stability, s.last_reviewed_at, now())), 0) AS r_now,
+      COALESCE(SUM(topic_card_retrievability(s.stability, s.last_reviewed_at, now() + interval '30 days')), 0) AS r_horizon
+    FROM topic_questions tq
+    LEFT JOIN srs_state s
+      ON s.user_id = p_user_id
+      AND s.question_id = tq.qid
+      AND s.last_reviewed_at IS NOT NULL
+      -- Multi-part questions are scored by their subpart cards only
+      AND (s.subpart_id IS NOT NULL) = (tq.subpart_count > 0)
+    GROUP BY tq.tid, tq.qid, tq.subpart_count
+  )
+  SELECT
+    qc.tid AS topic_id,
+    SUM(qc.card_count)::bigint AS cards_total,
+    SUM(qc.reviewed)::bigint AS cards_reviewed,
+    LEAST(1, SUM(qc.r_now) / SUM(qc.card_count)) AS retention_0_1,
+    -- Over the reviewed cards only: coverage is reported separately
+    COALESCE(LEAST(1, SUM(qc.r_horizon) / NULLIF(SUM(qc.reviewed), 0)), 0) AS mastery_0_1
+  FROM question_cards qc
+  GROUP BY qc.tid;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compute_topic_mastery FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.compute_topic_mastery FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.compute_topic_mastery FROM anon;
+GRANT EXECUTE ON FUNCTION public.compute_topic_mastery TO service_role;
+
+COMMENT ON FUNCTION public.compute_topic_mastery IS 'Per-topic FSRS numbers for a user: retention_0_1 = mean current retrievability over the topic''s cards (unreviewed = 0), mastery_0_1 = mean retrievability 30 days ahead over the reviewed cards.';
+
+-- ============================================================
+-- 2. topic_mastery: drop retention_updated_at
+-- Retention is computed live by get_topic_mastery(); nothing stores it.
+-- ============================================================
+ALTER TABLE public.topic_mastery DROP COLUMN IF EXISTS retention_0_1;
+ALTER TABLE public.topic_mastery DROP COLUMN IF EXISTS retention_updated_at;
+
+-- ============================================================
+-- 3. Backfill
+-- ============================================================
+SELECT public.refresh_topic_mastery();